@@ -0,0 +1,59 @@
+-- Create analytics_events table (written in batches by the client event bus, src/services/analyticsEvents.ts)
+-- One row per event; the dashboard activity feed is read from the resource events
+-- (resource_viewed, resource_downloaded, video_played). Replaces recent_activity.
+CREATE TABLE IF NOT EXISTS analytics_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Generated on the client so a retried batch doesn't insert the same event twice
+  client_event_id TEXT NOT NULL UNIQUE,
+  profile_id UUID NOT NULL REFERENCES member_profiles(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'resource_viewed', 'resource_downloaded', 'video_played',
+    'bookmark_added', 'search_performed', 'filter_changed'
+  )),
+  resource_path TEXT,
+  program_slug TEXT,
+  -- Rest of the payload (file name and mime type, search query, filter value…)
+  properties JSONB NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_events_profile ON analytics_events(profile_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analytics_events_type ON analytics_events(event_type, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analytics_events_path ON analytics_events(resource_path) WHERE resource_path IS NOT NULL;
+
+-- Carry over history from recent_activity (safe to re-run: ids are reused as client_event_id)
+DO $$
+BEGIN
+  IF to_regclass('public.recent_activity') IS NOT NULL THEN
+    INSERT INTO analytics_events (client_event_id, profile_id, event_type, resource_path, program_slug, properties, occurred_at)
+    SELECT
+      ra.id::text,
+      ra.profile_id,
+      CASE ra.action WHEN 'download' THEN 'resource_downloaded' WHEN 'play' THEN 'video_played' ELSE 'resource_viewed' END,
+      ra.resource_path,
+      ra.program_slug,
+      jsonb_strip_nulls(jsonb_build_object('name', ra.resource_name, 'mimeType', ra.resource_type)),
+      ra.accessed_at
+    FROM recent_activity ra
+    ON CONFLICT (client_event_id) DO NOTHING;
+  END IF;
+END $$;
+
+ALTER TABLE analytics_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own events" ON analytics_events;
+CREATE POLICY "Users can view own events" ON analytics_events
+  FOR SELECT USING (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can record own events" ON analytics_events;
+CREATE POLICY "Users can record own events" ON analytics_events
+  FOR INSERT WITH CHECK (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+-- Events are append-only: retried batches skip rows they already wrote (ON CONFLICT DO NOTHING),
+-- so members never need UPDATE on their history
+DROP POLICY IF EXISTS "Users can resend own events" ON analytics_events;
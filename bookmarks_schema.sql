@@ -0,0 +1,226 @@
+-- Create bookmarks table (read and written only by src/services/bookmarkService.ts)
+-- One row per profile + bucket object path; file details are joined from storage_files_catalog by path.
+CREATE TABLE IF NOT EXISTS bookmarks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES member_profiles(id) ON DELETE CASCADE,
+  resource_path TEXT NOT NULL,
+  resource_name TEXT,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Migrate rows written by the two earlier schemas:
+--   (member_profile_id, resource_path, resource_url, mime_type, file_size)  resource library store
+--   (profile_id, resource_type, resource_id -> storage_files_catalog.id)    dashboard service
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS profile_id UUID;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS resource_path TEXT;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS resource_name TEXT;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS note TEXT;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_name = 'bookmarks' AND column_name = 'member_profile_id') THEN
+    UPDATE bookmarks SET profile_id = member_profile_id WHERE profile_id IS NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_name = 'bookmarks' AND column_name = 'resource_id') THEN
+    UPDATE bookmarks b
+       SET resource_path = c.file_path,
+           resource_name = COALESCE(b.resource_name, regexp_replace(c.file_name, '\.[^.]+$', ''))
+      FROM storage_files_catalog c
+     WHERE b.resource_path IS NULL
+       AND c.id::text = b.resource_id::text;
+  END IF;
+END $$;
+
+-- Normalize paths, drop rows that cannot be resolved (or whose profile is gone), keep the oldest of any
+-- duplicates (rows without created_at count as newest)
+UPDATE bookmarks SET resource_path = regexp_replace(resource_path, '^/+', '') WHERE resource_path LIKE '/%';
+DELETE FROM bookmarks b
+ WHERE b.profile_id IS NULL OR b.resource_path IS NULL OR b.resource_path = ''
+    OR NOT EXISTS (SELECT 1 FROM member_profiles p WHERE p.id = b.profile_id);
+DELETE FROM bookmarks
+ WHERE id IN (
+   SELECT id FROM (
+     SELECT id, row_number() OVER (PARTITION BY profile_id, resource_path ORDER BY created_at NULLS LAST, id) AS n
+       FROM bookmarks
+   ) ranked
+   WHERE ranked.n > 1
+ );
+
+ALTER TABLE bookmarks ALTER COLUMN profile_id SET NOT NULL;
+ALTER TABLE bookmarks ALTER COLUMN resource_path SET NOT NULL;
+
+-- Migrated tables get the same profile FK as fresh installs (same name as the inline constraint above)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint
+                 WHERE conrelid = 'bookmarks'::regclass AND conname = 'bookmarks_profile_id_fkey') THEN
+    ALTER TABLE bookmarks
+      ADD CONSTRAINT bookmarks_profile_id_fkey
+      FOREIGN KEY (profile_id) REFERENCES member_profiles(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Old policies may still reference the legacy columns, which blocks dropping them; recreated below
+DROP POLICY IF EXISTS "Users can view own bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can create own bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can update own bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can delete own bookmarks" ON bookmarks;
+
+ALTER TABLE bookmarks DROP COLUMN IF EXISTS member_profile_id;
+ALTER TABLE bookmarks DROP COLUMN IF EXISTS resource_type;
+ALTER TABLE bookmarks DROP COLUMN IF EXISTS resource_id;
+ALTER TABLE bookmarks DROP COLUMN IF EXISTS resource_url;
+ALTER TABLE bookmarks DROP COLUMN IF EXISTS mime_type;
+ALTER TABLE bookmarks DROP COLUMN IF EXISTS file_size;
+
+-- Create indexes for performance (the unique index is the upsert conflict target)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookmarks_profile_path ON bookmarks(profile_id, resource_path);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_profile_created ON bookmarks(profile_id, created_at DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- Accounts manage the bookmarks of their own profiles
+CREATE POLICY "Users can view own bookmarks" ON bookmarks
+  FOR SELECT USING (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create own bookmarks" ON bookmarks
+  FOR INSERT WITH CHECK (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own bookmarks" ON bookmarks
+  FOR UPDATE USING (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own bookmarks" ON bookmarks
+  FOR DELETE USING (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+-- Collections: named, ordered lists of a profile's bookmarks (a bookmark can be in several)
+CREATE TABLE IF NOT EXISTS bookmark_collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES member_profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bookmark_collection_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  collection_id UUID NOT NULL REFERENCES bookmark_collections(id) ON DELETE CASCADE,
+  bookmark_id UUID NOT NULL REFERENCES bookmarks(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bookmark_collections_profile ON bookmark_collections(profile_id, sort_order);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookmark_collection_items_unique ON bookmark_collection_items(collection_id, bookmark_id);
+
+ALTER TABLE bookmark_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bookmark_collection_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own bookmark collections" ON bookmark_collections;
+CREATE POLICY "Users can manage own bookmark collections" ON bookmark_collections
+  FOR ALL USING (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  )
+  WITH CHECK (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can manage own bookmark collection items" ON bookmark_collection_items;
+CREATE POLICY "Users can manage own bookmark collection items" ON bookmark_collection_items
+  FOR ALL USING (
+    collection_id IN (
+      SELECT c.id FROM bookmark_collections c
+      JOIN member_profiles p ON p.id = c.profile_id
+      WHERE p.member_account_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    collection_id IN (
+      SELECT c.id FROM bookmark_collections c
+      JOIN member_profiles p ON p.id = c.profile_id
+      WHERE p.member_account_id = auth.uid()
+    )
+    AND bookmark_id IN (
+      SELECT b.id FROM bookmarks b
+      JOIN bookmark_collections c ON c.profile_id = b.profile_id
+      WHERE c.id = collection_id
+    )
+  );
+
+-- Team kits: account-wide, ordered file lists curated by a Pharmacist-PIC profile
+-- (read and written only by src/services/bookmarkKitService.ts). Members copy files into their own bookmarks;
+-- kits reference paths directly, not bookmarks, so they don't depend on anyone's list.
+CREATE TABLE IF NOT EXISTS bookmark_kits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  member_account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  created_by_profile_id UUID REFERENCES member_profiles(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  is_published BOOLEAN NOT NULL DEFAULT FALSE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bookmark_kit_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  kit_id UUID NOT NULL REFERENCES bookmark_kits(id) ON DELETE CASCADE,
+  resource_path TEXT NOT NULL,
+  resource_name TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bookmark_kits_account ON bookmark_kits(member_account_id, sort_order);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookmark_kit_items_unique ON bookmark_kit_items(kit_id, resource_path);
+
+ALTER TABLE bookmark_kits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bookmark_kit_items ENABLE ROW LEVEL SECURITY;
+
+-- Every profile signs in with the account login, so the database can only check that a PIC profile on the
+-- account authored the kit; hiding drafts from non-PIC profiles is done in the app (canManageKits).
+DROP POLICY IF EXISTS "Account members can view bookmark kits" ON bookmark_kits;
+CREATE POLICY "Account members can view bookmark kits" ON bookmark_kits
+  FOR SELECT USING (member_account_id = auth.uid());
+
+DROP POLICY IF EXISTS "PIC profiles can manage bookmark kits" ON bookmark_kits;
+CREATE POLICY "PIC profiles can manage bookmark kits" ON bookmark_kits
+  FOR ALL USING (member_account_id = auth.uid())
+  WITH CHECK (
+    member_account_id = auth.uid()
+    AND created_by_profile_id IN (
+      SELECT id FROM member_profiles
+      WHERE member_account_id = auth.uid() AND role_type = 'Pharmacist-PIC'
+    )
+  );
+
+DROP POLICY IF EXISTS "Account members can view bookmark kit items" ON bookmark_kit_items;
+CREATE POLICY "Account members can view bookmark kit items" ON bookmark_kit_items
+  FOR SELECT USING (
+    kit_id IN (SELECT id FROM bookmark_kits WHERE member_account_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "PIC profiles can manage bookmark kit items" ON bookmark_kit_items;
+CREATE POLICY "PIC profiles can manage bookmark kit items" ON bookmark_kit_items
+  FOR ALL USING (
+    kit_id IN (SELECT id FROM bookmark_kits WHERE member_account_id = auth.uid())
+  )
+  WITH CHECK (
+    kit_id IN (
+      SELECT k.id FROM bookmark_kits k
+      JOIN member_profiles p ON p.id = k.created_by_profile_id
+      WHERE k.member_account_id = auth.uid() AND p.role_type = 'Pharmacist-PIC'
+    )
+  );
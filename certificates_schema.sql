@@ -0,0 +1,126 @@
+-- Create training_certificates (certificates of completion, src/services/certificateService.ts)
+-- One certificate per profile and completed training module. The row is a snapshot of what the PDF
+-- shows (name, license, NABP ePID, pharmacy, program, completion date), so a certificate still
+-- verifies the same way after the profile is edited or deleted. The PDF itself is generated in the
+-- browser; only the verification code makes it checkable on the public /verify/:code page.
+-- Run after training_progress_schema.sql.
+CREATE TABLE IF NOT EXISTS training_certificates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Printed on the certificate, e.g. CRXQ-7H3K-Q2MD
+  verification_code TEXT NOT NULL UNIQUE,
+  member_profile_id UUID REFERENCES member_profiles(id) ON DELETE SET NULL,
+  training_module_id TEXT NOT NULL,
+  program_slug TEXT NOT NULL,
+  program_name TEXT NOT NULL,
+  recipient_name TEXT NOT NULL,
+  license_number TEXT,
+  nabp_eprofile_id TEXT,
+  pharmacy_name TEXT,
+  completed_at TIMESTAMPTZ NOT NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Set by support to withdraw a certificate; verification then reports it as revoked
+  revoked_at TIMESTAMPTZ,
+  UNIQUE (member_profile_id, training_module_id)
+);
+
+ALTER TABLE training_certificates ENABLE ROW LEVEL SECURITY;
+
+-- Members read their own certificates; rows are written only by issue_training_certificate()
+DROP POLICY IF EXISTS "Users can view own certificates" ON training_certificates;
+CREATE POLICY "Users can view own certificates" ON training_certificates
+  FOR SELECT USING (
+    member_profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+-- Issue (or return the existing) certificate for a completed program.
+-- Raises unless the profile belongs to the caller and its training module is completed.
+-- Mirrored for demo mode in src/services/memoryRpcs.ts.
+CREATE OR REPLACE FUNCTION issue_training_certificate(p_profile_id UUID, p_program_slug TEXT)
+RETURNS SETOF training_certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_module_id TEXT := 'training_' || p_program_slug;
+  v_profile member_profiles%ROWTYPE;
+  v_completed_at TIMESTAMPTZ;
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_bytes BYTEA;
+  v_code TEXT;
+BEGIN
+  SELECT * INTO v_profile FROM member_profiles
+  WHERE id = p_profile_id AND member_account_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM training_certificates
+    WHERE member_profile_id = p_profile_id AND training_module_id = v_module_id
+  ) THEN
+    RETURN QUERY SELECT * FROM training_certificates
+      WHERE member_profile_id = p_profile_id AND training_module_id = v_module_id;
+    RETURN;
+  END IF;
+
+  SELECT completed_at INTO v_completed_at FROM member_training_progress
+  WHERE member_profile_id = p_profile_id AND training_module_id = v_module_id AND is_completed;
+  IF NOT FOUND OR v_completed_at IS NULL THEN
+    RAISE EXCEPTION 'Program not completed';
+  END IF;
+
+  -- CRXQ-XXXX-XXXX from 8 random characters (no 0/O or 1/I lookalikes)
+  LOOP
+    v_bytes := decode(replace(gen_random_uuid()::text, '-', ''), 'hex');
+    v_code := 'CRXQ-';
+    FOR i IN 0..7 LOOP
+      IF i = 4 THEN v_code := v_code || '-'; END IF;
+      v_code := v_code || substr(v_alphabet, (get_byte(v_bytes, i) % 32) + 1, 1);
+    END LOOP;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM training_certificates WHERE verification_code = v_code);
+  END LOOP;
+
+  RETURN QUERY
+  INSERT INTO training_certificates (
+    verification_code, member_profile_id, training_module_id, program_slug, program_name,
+    recipient_name, license_number, nabp_eprofile_id, pharmacy_name, completed_at
+  )
+  SELECT
+    v_code, v_profile.id, v_module_id, p_program_slug,
+    coalesce((SELECT name FROM programs WHERE slug = p_program_slug), p_program_slug),
+    trim(v_profile.first_name || ' ' || v_profile.last_name),
+    v_profile.license_number, v_profile.nabp_eprofile_id,
+    (SELECT pharmacy_name FROM accounts WHERE id = v_profile.member_account_id),
+    v_completed_at
+  RETURNING *;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION issue_training_certificate(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION issue_training_certificate(UUID, TEXT) TO authenticated;
+
+-- Public check of a verification code. Returns who completed what and when, never license or
+-- NABP numbers; no row when the code is unknown.
+CREATE OR REPLACE FUNCTION verify_training_certificate(p_code TEXT)
+RETURNS TABLE (
+  verification_code TEXT,
+  recipient_name TEXT,
+  pharmacy_name TEXT,
+  program_name TEXT,
+  completed_at TIMESTAMPTZ,
+  issued_at TIMESTAMPTZ,
+  revoked BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.verification_code, c.recipient_name, c.pharmacy_name, c.program_name,
+         c.completed_at, c.issued_at, c.revoked_at IS NOT NULL
+  FROM training_certificates c
+  WHERE c.verification_code = upper(trim(p_code));
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_training_certificate(TEXT) TO anon, authenticated;
@@ -33,6 +33,7 @@ export default [
         HTMLDivElement: 'readonly',
         HTMLButtonElement: 'readonly',
         HTMLVideoElement: 'readonly',
+        Blob: 'readonly',
         Element: 'readonly',
         SVGSVGElement: 'readonly',
         IntersectionObserver: 'readonly',
@@ -0,0 +1,73 @@
+-- Create programs table (program registry read by src/services/programRegistry.ts)
+-- slug must match the program's top-level folder in the clinicalrxqfiles bucket.
+CREATE TABLE IF NOT EXISTS programs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+$'),
+  name TEXT NOT NULL,
+  short_name TEXT,
+  description TEXT,
+  tagline TEXT,
+  icon TEXT,
+  level TEXT,
+  features TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  published BOOLEAN NOT NULL DEFAULT true,
+  -- Share of each training video to watch before the lesson counts as completed
+  completion_threshold NUMERIC(3, 2) NOT NULL DEFAULT 0.90 CHECK (completion_threshold BETWEEN 0.5 AND 1),
+  -- Continuing-education credit for completing the training (NULL = none); shown on /transcript
+  ce_hours NUMERIC(5, 2) CHECK (ce_hours IS NULL OR ce_hours > 0),
+  -- ACPE Universal Activity Numbers (pharmacist ...-P, technician ...-T); NULL when not accredited
+  ce_uan TEXT,
+  ce_technician_uan TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Existing installs: add the completion rule column
+ALTER TABLE programs ADD COLUMN IF NOT EXISTS completion_threshold NUMERIC(3, 2) NOT NULL DEFAULT 0.90
+  CHECK (completion_threshold BETWEEN 0.5 AND 1);
+
+-- Existing installs: add the CE credit columns
+ALTER TABLE programs ADD COLUMN IF NOT EXISTS ce_hours NUMERIC(5, 2) CHECK (ce_hours IS NULL OR ce_hours > 0);
+ALTER TABLE programs ADD COLUMN IF NOT EXISTS ce_uan TEXT;
+ALTER TABLE programs ADD COLUMN IF NOT EXISTS ce_technician_uan TEXT;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_programs_published_order ON programs(published, sort_order);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE programs ENABLE ROW LEVEL SECURITY;
+
+-- Published programs are public (the marketing homepage lists them before sign-in)
+CREATE POLICY "Anyone can view published programs" ON programs
+  FOR SELECT USING (published = true);
+
+-- Reuse the shared updated_at trigger function (see member_profiles_schema.sql)
+CREATE TRIGGER update_programs_updated_at
+    BEFORE UPDATE ON programs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the current programs (keep in sync with src/services/programDefaults.ts)
+-- CE-bearing programs (Test & Treat, Oral Contraceptives) require 95% of each video.
+INSERT INTO programs (slug, name, short_name, description, tagline, icon, features, sort_order, completion_threshold) VALUES
+  ('timemymeds', 'TimeMyMeds', 'TimeMyMeds',
+   'Appointment-based synchronization to enable consistent clinical service delivery.',
+   'Create predictable appointment schedules that enable clinical service delivery',
+   'CalendarCheck', ARRAY['Comprehensive Reviews', 'Billing Expertise', 'Patient Outcomes'], 10, 0.90),
+  ('mtmthefuturetoday', 'MTM The Future Today', 'MTM The Future Today',
+   'Team-based Medication Therapy Management program with proven protocols and scalable results.',
+   'Team-based Medication Therapy Management with proven protocols and technician workflows',
+   'ClipboardCheck', ARRAY['Comprehensive Reviews', 'Billing Expertise', 'Patient Outcomes'], 20, 0.90),
+  ('testandtreat', 'Test & Treat Services', 'Test and Treat: Strep, Flu, COVID',
+   'Patient assessments, CLIA-waived testing, and treatment guidance for flu, strep, and COVID-19.',
+   'Point-of-care testing and treatment for Flu, Strep, and COVID-19',
+   'Stethoscope', ARRAY['CLIA-Waived Testing', 'State Protocols', 'Medical Billing'], 30, 0.95),
+  ('hba1c', 'HbA1c Testing', 'HbA1c Testing',
+   'Training and resources for A1c point-of-care testing and quality metrics.',
+   'Diabetes management with point-of-care A1c testing and clinical integration',
+   'Activity', ARRAY['Quality Metrics', 'Provider Communication', 'Value-Based Care'], 40, 0.90),
+  ('oralcontraceptives', 'Pharmacist-Initiated Oral Contraceptives', 'Oral Contraceptives',
+   'From patient intake to billing and documentation—simplified, step-by-step service workflows.',
+   'From patient intake to medical billing, our protocols are here for your team and patients',
+   'TestTubes', ARRAY['Practice-Based Clinical Skills', 'Pharmacy Tech Training', 'Prescribing with Confidence'], 50, 0.95)
+ON CONFLICT (slug) DO NOTHING;
@@ -0,0 +1,40 @@
+-- Superseded by analytics_events_schema.sql, which copies these rows into analytics_events.
+-- Kept for databases that have not run that migration yet.
+-- Create recent_activity table (written by trackResourceAccess, read by the dashboard)
+-- One row per open/download/play; the dashboard shows each file once at its latest access.
+CREATE TABLE IF NOT EXISTS recent_activity (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES member_profiles(id) ON DELETE CASCADE,
+  resource_name TEXT NOT NULL,
+  resource_type TEXT,
+  resource_path TEXT,
+  program_slug TEXT,
+  action TEXT NOT NULL DEFAULT 'view',
+  accessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Columns added after the first version of the table (name + mime type only)
+ALTER TABLE recent_activity ADD COLUMN IF NOT EXISTS resource_path TEXT;
+ALTER TABLE recent_activity ADD COLUMN IF NOT EXISTS program_slug TEXT;
+ALTER TABLE recent_activity ADD COLUMN IF NOT EXISTS action TEXT NOT NULL DEFAULT 'view';
+
+ALTER TABLE recent_activity DROP CONSTRAINT IF EXISTS recent_activity_action_check;
+ALTER TABLE recent_activity ADD CONSTRAINT recent_activity_action_check
+  CHECK (action IN ('view', 'download', 'play'));
+
+CREATE INDEX IF NOT EXISTS idx_recent_activity_profile ON recent_activity(profile_id, accessed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_recent_activity_profile_action ON recent_activity(profile_id, action, accessed_at DESC);
+
+ALTER TABLE recent_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own activity" ON recent_activity;
+CREATE POLICY "Users can view own activity" ON recent_activity
+  FOR SELECT USING (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can record own activity" ON recent_activity;
+CREATE POLICY "Users can record own activity" ON recent_activity
+  FOR INSERT WITH CHECK (
+    profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
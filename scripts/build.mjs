@@ -49,6 +49,8 @@ const esbuildOpts = {
   define: {
     'process.env.VITE_SUPABASE_URL': JSON.stringify(process.env.VITE_SUPABASE_URL),
     'process.env.VITE_SUPABASE_ANON_KEY': JSON.stringify(process.env.VITE_SUPABASE_ANON_KEY),
+    // 'memory' runs the app against the in-memory demo data provider (no network).
+    'process.env.VITE_DATA_PROVIDER': JSON.stringify(process.env.VITE_DATA_PROVIDER || ''),
   },
 };
 
@@ -0,0 +1,133 @@
+/**
+ * Catalog reconciliation CLI: diff the clinicalrxqfiles bucket against storage_files_catalog.
+ * Reuses the app's own listing code (src/services/catalogReconcile.ts, bundled on the fly with esbuild).
+ *
+ * Usage:
+ *   node scripts/reconcile-catalog.mjs                      # dry run against Supabase (.env / VITE_* vars)
+ *   node scripts/reconcile-catalog.mjs --prefix=testandtreat
+ *   node scripts/reconcile-catalog.mjs --apply              # insert missing rows, fix mismatches
+ *   node scripts/reconcile-catalog.mjs --apply --prune      # ...and delete orphaned rows
+ *   node scripts/reconcile-catalog.mjs --memory             # in-memory demo data
+ *   node scripts/reconcile-catalog.mjs --memory --seed=tables.json
+ *   node scripts/reconcile-catalog.mjs --json               # machine-readable report
+ *
+ * Env:
+ *   VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY   Target project (a local Supabase works too)
+ *   SUPABASE_SERVICE_ROLE_KEY                   Used instead of the anon key when set (needed to write)
+ *
+ * Seed file (memory only): JSON object of table name -> rows. Add a "storage_objects" table
+ * ({ bucket_id, name, metadata: { size, mimetype } }) to give the bucket its own contents.
+ *
+ * Exit codes: 0 in sync (or fixes applied), 2 drift found in dry run, 1 error.
+ */
+import * as esbuild from 'esbuild';
+import { mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+// Load environment variables from a .env file into process.env
+import 'dotenv/config';
+
+/** Parse --flag and --key=value arguments */
+function parseArgs(argv) {
+  const opts = {};
+  for (const arg of argv) {
+    const m = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+    if (m) opts[m[1]] = m[2] ?? true;
+  }
+  return opts;
+}
+
+/** Bundle the reconciliation module so Node can run the TypeScript sources */
+async function loadReconciler() {
+  const root = process.cwd();
+  const outDir = path.join(root, 'node_modules', '.cache');
+  const outfile = path.join(outDir, 'reconcile-catalog.mjs');
+  await mkdir(outDir, { recursive: true });
+  await esbuild.build({
+    stdin: {
+      contents: [
+        "export { reconcileCatalog } from './src/services/catalogReconcile';",
+        "export { setDataProvider } from './src/services/dataProvider';",
+        "export { createMemoryDataProvider } from './src/services/memoryDataProvider';",
+      ].join('\n'),
+      resolveDir: root,
+      loader: 'ts',
+    },
+    outfile,
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    packages: 'external',
+    alias: { '@': './src' },
+    logLevel: 'error',
+  });
+  return import(`${pathToFileURL(outfile).href}?t=${Date.now()}`);
+}
+
+/** Print up to `max` lines of a list */
+function printList(title, items, format, max = 50) {
+  console.log(`\n${title}: ${items.length}`);
+  for (const item of items.slice(0, max)) console.log(`  ${format(item)}`);
+  if (items.length > max) console.log(`  … ${items.length - max} more`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log('Usage: node scripts/reconcile-catalog.mjs [--prefix=<folder>] [--apply [--prune]] [--memory [--seed=<file>]] [--json]');
+    return;
+  }
+  if (args.prune && !args.apply) {
+    throw new Error('--prune only takes effect with --apply.');
+  }
+  if (args.memory) process.env.VITE_DATA_PROVIDER = 'memory';
+  if (process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    process.env.VITE_SUPABASE_ANON_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  }
+
+  const { reconcileCatalog, setDataProvider, createMemoryDataProvider } = await loadReconciler();
+
+  if (args.seed) {
+    if (!args.memory) throw new Error('--seed requires --memory.');
+    const seed = JSON.parse(await readFile(String(args.seed), 'utf8'));
+    setDataProvider(createMemoryDataProvider(seed));
+  }
+
+  const report = await reconcileCatalog({
+    prefix: typeof args.prefix === 'string' ? args.prefix : '',
+    apply: Boolean(args.apply),
+    prune: Boolean(args.prune),
+    onProgress: args.json
+      ? undefined
+      : (p) => process.stderr.write(`\rListing bucket… ${p.foldersListed} folders, ${p.filesFound} files`),
+  });
+  if (!args.json) process.stderr.write('\n');
+
+  const drift =
+    report.missingRows.length + report.orphanedRows.length + report.mismatches.length + report.duplicateRows.length;
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Bucket ${report.bucket}${report.prefix ? `/${report.prefix}` : ''}: ${report.bucketFiles} files, ${report.catalogRows} catalog rows`);
+    printList('Missing rows (in bucket, not in catalog)', report.missingRows, (f) => f.path);
+    printList('Orphaned rows (in catalog, not in bucket)', report.orphanedRows, (r) => `${r.file_path} [${r.id}]`);
+    printList('Mismatches', report.mismatches, (m) => `${m.path}: ${m.field} catalog=${m.catalog} bucket=${m.bucket}`);
+    printList('Duplicate rows', report.duplicateRows, (r) => `${r.file_path} [${r.id}]`);
+    if (report.dryRun) {
+      console.log(drift ? '\nDry run: no changes written. Re-run with --apply to fix.' : '\nCatalog is in sync.');
+    } else {
+      const { inserted, updated, deleted } = report.applied;
+      console.log(`\nApplied: ${inserted} inserted, ${updated} updated, ${deleted} deleted.`);
+      if (report.orphanedRows.length && !args.prune) console.log('Orphaned rows kept; re-run with --prune to delete them.');
+    }
+  }
+
+  process.exitCode = report.dryRun && drift > 0 ? 2 : 0;
+}
+
+main().catch((err) => {
+  console.error(err?.message || err);
+  process.exitCode = 1;
+});
@@ -16,6 +16,9 @@ import ProgramDetail from './pages/ProgramDetail';
 import MemberContent from './pages/MemberContent';
 import Account from './pages/Account';
 import Bookmarks from './pages/Bookmarks';
+import Team from './pages/Team';
+import Transcript from './pages/Transcript';
+import VerifyCertificate from './pages/VerifyCertificate';
 import { useAuthStore } from './stores/authStore';
 import ErrorBoundary from './components/common/ErrorBoundary';
 import { Toaster } from 'sonner';
@@ -67,6 +70,8 @@ export default function App() {
           <Route path="/" element={<Home />} />
           <Route path="/contact" element={<Contact />} />
           <Route path="/login" element={<Login />} />
+          <Route path="/verify" element={<VerifyCertificate />} />
+          <Route path="/verify/:code" element={<VerifyCertificate />} />
 
           {/* Protected Routes */}
           <Route
@@ -117,6 +122,22 @@ export default function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/team"
+            element={
+              <ProtectedRoute>
+                <Team />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/transcript"
+            element={
+              <ProtectedRoute>
+                <Transcript />
+              </ProtectedRoute>
+            }
+          />
         </Routes>
         </AuthProvider>
       </ErrorBoundary>
@@ -9,7 +9,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { supabase } from '@/services/supabase';
+import { getDataProvider } from '@/services/dataProvider';
 import { Link } from 'react-router-dom';
 import { toast } from 'sonner';
 import Header from '@/components/layout/Header';
@@ -40,12 +40,11 @@ const ForgotPasswordPage: React.FC = () => {
    */
   const onSubmit = async (data: FormValues) => {
     try {
-      const { error } = await supabase.auth.resetPasswordForEmail(data.email, {
-        // This should be the URL of the page where users can set their new password.
-        redirectTo: `${window.location.origin}/#/reset-password`,
-      });
-
-      if (error) throw error;
+      // The redirect should be the URL of the page where users can set their new password.
+      await getDataProvider().auth.resetPasswordForEmail(
+        data.email,
+        `${window.location.origin}/#/reset-password`
+      );
 
       setIsSubmitted(true); // Show the success message UI
       toast.success('Password reset link sent! Please check your email.');
@@ -0,0 +1,26 @@
+/**
+ * FileKindIcon component
+ * - Purpose: Icon for a file, chosen and colored by its FileKind (lib/fileKinds).
+ * - aria-label carries the kind label ("Presentation", "PDF", ...).
+ */
+import { describeFile, type FileLike } from '../../lib/fileKinds';
+import { cn } from '../../lib/utils';
+
+/**
+ * Props for FileKindIcon
+ */
+interface FileKindIconProps {
+  file: FileLike;
+  /** Size/extra classes (default h-5 w-5) */
+  className?: string;
+  /** Override the kind color (e.g. a single brand color) */
+  colorClass?: string;
+}
+
+export default function FileKindIcon({ file, className, colorClass }: FileKindIconProps) {
+  const info = describeFile(file);
+  const Icon = info.icon;
+  return (
+    <Icon className={cn('h-5 w-5 shrink-0', colorClass ?? info.iconClass, className)} role="img" aria-label={info.label} />
+  );
+}
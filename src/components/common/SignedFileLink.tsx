@@ -0,0 +1,42 @@
+/**
+ * SignedFileLink component
+ * - Purpose: Open/download link for a bucket file that works when the bucket is private.
+ * - Resolves the path through the signed URL service (rows in a list are signed in one batch).
+ * - Until the URL is ready the link has no href and is marked aria-disabled.
+ */
+import type { ComponentProps, ReactNode } from 'react';
+import { useSignedUrl } from '@/hooks/use-signed-url';
+
+/**
+ * Props for SignedFileLink
+ */
+interface SignedFileLinkProps extends Omit<ComponentProps<'a'>, 'href'> {
+  /** Object path inside the bucket */
+  path: string;
+  children: ReactNode;
+}
+
+/**
+ * Anchor with a lazily signed href (opens in a new tab).
+ */
+export default function SignedFileLink({ path, children, onClick, ...rest }: SignedFileLinkProps) {
+  const { url } = useSignedUrl(path);
+  return (
+    <a
+      {...rest}
+      href={url ?? undefined}
+      target="_blank"
+      rel="noreferrer"
+      aria-disabled={!url}
+      onClick={(e) => {
+        if (!url) {
+          e.preventDefault();
+          return;
+        }
+        onClick?.(e);
+      }}
+    >
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * UpdatedAgoBadge component
+ * - Purpose: Show how recently content changed ("Updated today", "Updated 3 days ago").
+ * - Fresh content (within `freshDays`) is highlighted; the exact date is in the tooltip.
+ * - Renders nothing when the date is unknown.
+ */
+import { Badge } from '../ui/badge';
+
+/**
+ * Props for UpdatedAgoBadge
+ */
+interface UpdatedAgoBadgeProps {
+  /** ISO timestamp of the last change */
+  iso: string | null | undefined;
+  /** Highlight when updated within this many days (default 14) */
+  freshDays?: number;
+  className?: string;
+}
+
+/** Whole days between an ISO timestamp and now (never negative) */
+function daysSince(iso: string, now: number): number {
+  return Math.max(0, Math.floor((now - new Date(iso).getTime()) / 86_400_000));
+}
+
+/**
+ * Human label for a last-updated timestamp.
+ */
+export function formatUpdatedAgo(iso: string, now: number = Date.now()): string {
+  const days = daysSince(iso, now);
+  if (days === 0) return 'Updated today';
+  if (days === 1) return 'Updated yesterday';
+  if (days < 60) return `Updated ${days} days ago`;
+  const months = Math.floor(days / 30);
+  if (months < 24) return `Updated ${months} months ago`;
+  return `Updated ${Math.floor(days / 365)} years ago`;
+}
+
+/**
+ * Badge with an "updated N days ago" label.
+ */
+export default function UpdatedAgoBadge({ iso, freshDays = 14, className }: UpdatedAgoBadgeProps) {
+  if (!iso || Number.isNaN(new Date(iso).getTime())) return null;
+  const fresh = daysSince(iso, Date.now()) <= freshDays;
+  return (
+    <Badge
+      variant={fresh ? 'default' : 'outline'}
+      className={['text-[11px] font-medium', fresh ? 'bg-emerald-600 hover:bg-emerald-600' : 'text-slate-600', className]
+        .filter(Boolean)
+        .join(' ')}
+      title={new Date(iso).toLocaleDateString()}
+    >
+      {formatUpdatedAgo(iso)}
+    </Badge>
+  );
+}
@@ -2,7 +2,8 @@
  * MemberSidebar
  * - Purpose: App-level left sidebar for the member area (fixed inside AppShell aside).
  * - Collapsible with a toggle, state persisted via uiStore.
- * - Uses account (not user) for display; no profile-based gating.
+ * - Uses account (not user) for display; the only profile-based item is Team (Pharmacist-PIC).
+ * - CE Transcript shows the selected profile's completed training.
  */
 
 import { useState, useMemo, useEffect } from 'react';
@@ -13,44 +14,32 @@ import {
   LayoutDashboard,
   LibraryBig,
   Settings as SettingsIcon,
-  CalendarCheck,
-  ClipboardCheck,
-  Stethoscope,
-  Activity,
-  TestTubes,
   LogOut,
   FileText,
   FileSpreadsheet,
+  GraduationCap,
   BookText,
   PanelLeftClose,
   PanelRightOpen,
+  Users,
 } from 'lucide-react';
 import { useAuth } from '../auth/AuthContext';
 import BrandLogo from '../common/BrandLogo';
 import { useAuthStore } from '../../stores/authStore';
 import { useUiStore } from '../../stores/uiStore';
-
-/** Sidebar item descriptor */
-interface ProgramNavItem {
-  slug: string;
-  label: string;
-  Icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
-}
-
-/** Clinical Programs (labels updated to official names) */
-const PROGRAM_ITEMS: ProgramNavItem[] = [
-  { slug: 'timemymeds', label: 'TimeMyMeds', Icon: CalendarCheck },
-  { slug: 'mtmthefuturetoday', label: 'MTM The Future Today', Icon: ClipboardCheck },
-  { slug: 'testandtreat', label: 'Test and Treat: Strep, Flu, COVID', Icon: Stethoscope },
-  { slug: 'hba1c', label: 'HbA1c Testing', Icon: Activity },
-  { slug: 'oralcontraceptives', label: 'Oral Contraceptives', Icon: TestTubes },
-];
+import { usePrograms } from '../../stores/programStore';
+import { useProfileStore } from '../../stores/profileStore';
+import { canViewTeamAnalytics } from '../../services/teamAnalyticsService';
+import { iconByName } from '../../lib/icons';
 
 export default function MemberSidebar() {
   const location = useLocation();
   const { account } = useAuth();
   const { logout } = useAuthStore();
   const { sidebarCollapsed, toggleSidebar } = useUiStore();
+  // Clinical Programs from the program registry (short labels)
+  const programs = usePrograms();
+  const showTeam = useProfileStore((s) => canViewTeamAnalytics(s.currentProfile));
 
   const [openPrograms, setOpenPrograms] = useState(false);
   const [openResources, setOpenResources] = useState(false);
@@ -58,6 +47,8 @@ export default function MemberSidebar() {
   const isDashboard = location.pathname === '/dashboard';
   const isResources = location.pathname.startsWith('/resources');
   const isAccount = location.pathname.startsWith('/account');
+  const isTeam = location.pathname.startsWith('/team');
+  const isTranscript = location.pathname.startsWith('/transcript');
   const activeProgramSlug = (location.pathname.match(/^\/program\/([^/]+)/) || [])[1];
 
   const activeResourceCat = useMemo(() => {
@@ -151,8 +142,9 @@ export default function MemberSidebar() {
 
           {showLabels && openPrograms && (
             <div id="programs-group" className="mt-1 space-y-0.5 pl-2">
-              {PROGRAM_ITEMS.map(({ slug, label, Icon }) => {
+              {programs.map(({ slug, shortName: label, icon }) => {
                 const active = activeProgramSlug === slug;
+                const Icon = iconByName(icon);
                 return (
                   <Link
                     key={slug}
@@ -239,6 +231,28 @@ export default function MemberSidebar() {
           )}
         </div>
 
+        {/* CE transcript */}
+        <Link
+          to="/transcript"
+          className={[itemBase, isTranscript ? itemActive : itemIdle, 'mt-2', sidebarCollapsed ? 'justify-center' : ''].join(' ')}
+          title="CE Transcript"
+        >
+          <GraduationCap className="h-3.5 w-3.5" />
+          {showLabels ? <span>CE Transcript</span> : <span className="sr-only">CE Transcript</span>}
+        </Link>
+
+        {/* Team activity (pharmacist in charge) */}
+        {showTeam && (
+          <Link
+            to="/team"
+            className={[itemBase, isTeam ? itemActive : itemIdle, 'mt-0.5', sidebarCollapsed ? 'justify-center' : ''].join(' ')}
+            title="Team Activity"
+          >
+            <Users className="h-3.5 w-3.5" />
+            {showLabels ? <span>Team Activity</span> : <span className="sr-only">Team Activity</span>}
+          </Link>
+        )}
+
         {/* Account Settings */}
         <Link
           to="/account"
@@ -10,7 +10,7 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useAuthStore } from '../../stores/authStore';
-import { supabase } from '@/services/supabase';
+import { getDataProvider } from '@/services/dataProvider';
 import type { RoleType } from '../../types';
 import {
   Dialog,
@@ -110,7 +110,7 @@ export default function AddProfileModal({
 
       if (profileId) {
         // Update existing profile
-        const { error } = await supabase
+        const { error } = await getDataProvider()
           .from('member_profiles')
           .update(profileData)
           .eq('id', profileId)
@@ -120,7 +120,7 @@ export default function AddProfileModal({
         toast.success('Profile updated successfully');
       } else {
         // Create new profile
-        const { error } = await supabase
+        const { error } = await getDataProvider()
           .from('member_profiles')
           .insert(profileData);
 
@@ -11,7 +11,8 @@ import { Button } from '../ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Card, CardContent } from '../ui/card';
 import { useAuthStore } from '@/stores/authStore';
-import { supabase } from '@/services/supabase';
+import { getDataProvider } from '@/services/dataProvider';
+import { mapProfileRow } from '@/services/rowMappers';
 import type { MemberProfile } from '@/types';
 import AddProfileModal from './AddProfileModalSupabase';
 import { UserCircle } from 'lucide-react';
@@ -35,7 +36,7 @@ export default function ProfileSelectionModal({ open, onProfileSelected }: Profi
     const fetchProfiles = async () => {
       try {
         setLoading(true);
-        const { data, error } = await supabase
+        const { data, error } = await getDataProvider()
           .from('member_profiles')
           .select('*')
           .eq('member_account_id', account.id)
@@ -44,23 +45,7 @@ export default function ProfileSelectionModal({ open, onProfileSelected }: Profi
 
         if (error) throw error;
 
-        const mappedProfiles: MemberProfile[] = (data || []).map(row => ({
-          id: row.id,
-          accountId: row.member_account_id,
-          roleType: row.role_type,
-          firstName: row.first_name,
-          lastName: row.last_name,
-          phoneNumber: row.phone_number,
-          profileEmail: row.profile_email,
-          dobMonth: row.dob_month,
-          dobDay: row.dob_day,
-          dobYear: row.dob_year,
-          licenseNumber: row.license_number,
-          nabpEprofileId: row.nabp_eprofile_id,
-          isActive: row.is_active,
-          createdAt: row.created_at,
-          updatedAt: row.updated_at,
-        }));
+        const mappedProfiles = (data || []).map(mapProfileRow);
 
         setProfiles(mappedProfiles);
       } catch (error) {
@@ -83,7 +68,7 @@ export default function ProfileSelectionModal({ open, onProfileSelected }: Profi
   const handleProfileCreated = async () => {
     // Refresh profiles after creation
     if (account?.id) {
-      const { data } = await supabase
+      const { data } = await getDataProvider()
         .from('member_profiles')
         .select('*')
         .eq('member_account_id', account.id)
@@ -93,23 +78,7 @@ export default function ProfileSelectionModal({ open, onProfileSelected }: Profi
         .single();
 
       if (data) {
-        const newProfile: MemberProfile = {
-          id: data.id,
-          accountId: data.member_account_id,
-          roleType: data.role_type,
-          firstName: data.first_name,
-          lastName: data.last_name,
-          phoneNumber: data.phone_number,
-          profileEmail: data.profile_email,
-          dobMonth: data.dob_month,
-          dobDay: data.dob_day,
-          dobYear: data.dob_year,
-          licenseNumber: data.license_number,
-          nabpEprofileId: data.nabp_eprofile_id,
-          isActive: data.is_active,
-          createdAt: data.created_at,
-          updatedAt: data.updated_at,
-        };
+        const newProfile = mapProfileRow(data);
         
         setShowAddProfile(false);
         onProfileSelected(newProfile);
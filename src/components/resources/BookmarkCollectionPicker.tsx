@@ -0,0 +1,143 @@
+/**
+ * BookmarkCollectionPicker
+ * - Purpose: Small menu next to a bookmark toggle for putting a file in one or more collections.
+ * - Checking a collection bookmarks the file first when needed; unchecking only takes it out of that list.
+ * - "New collection" creates a list and adds the file to it in one step.
+ * - PIC profiles also get their team kits here, to add or remove the file.
+ */
+
+import { useState, type FormEvent } from 'react';
+import { FolderPlus, Plus } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import { useBookmarkStore } from '../../stores/bookmarkStore';
+import { useBookmarkKitStore } from '../../stores/bookmarkKitStore';
+import { canManageKits } from '../../services/bookmarkKitService';
+import { useProfileStore } from '../../stores/profileStore';
+import type { StorageFileItem } from '../../services/supabaseStorage';
+import { cn } from '../../lib/utils';
+
+interface BookmarkCollectionPickerProps {
+  /** File to file into collections */
+  item: StorageFileItem;
+  className?: string;
+}
+
+export default function BookmarkCollectionPicker({ item, className }: BookmarkCollectionPickerProps) {
+  const { currentProfile } = useProfileStore();
+  const { bookmarks, collections, createCollection, setInCollection } = useBookmarkStore();
+  const { kits, setInKit } = useBookmarkKitStore();
+  const [newName, setNewName] = useState('');
+  const path = item.path.replace(/^\/+/, '');
+  const isPic = canManageKits(currentProfile);
+
+  const bookmarkId = bookmarks.find((b) => b.path === path)?.id;
+  const inCount = bookmarkId ? collections.filter((c) => c.bookmarkIds.includes(bookmarkId)).length : 0;
+
+  const handleToggle = async (collectionId: string, include: boolean) => {
+    if (!currentProfile?.id) return;
+    try {
+      await setInCollection(currentProfile.id, collectionId, item, include);
+    } catch (error) {
+      console.error('Failed to update collection:', error);
+    }
+  };
+
+  const handleKitToggle = async (kitId: string, include: boolean) => {
+    try {
+      await setInKit(kitId, item, include);
+    } catch (error) {
+      console.error('Failed to update team kit:', error);
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!currentProfile?.id || !name) return;
+    try {
+      const created = await createCollection(currentProfile.id, name);
+      setNewName('');
+      await setInCollection(currentProfile.id, created.id, item, true);
+    } catch (error) {
+      console.error('Failed to create collection:', error);
+    }
+  };
+
+  if (!currentProfile) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          aria-label="Add to collection"
+          title={inCount > 0 ? `In ${inCount} ${inCount === 1 ? 'collection' : 'collections'}` : 'Add to collection'}
+          className={cn('rounded-md p-2 hover:bg-slate-100', className)}
+        >
+          <FolderPlus className={cn('h-5 w-5', inCount > 0 ? 'text-blue-600' : 'text-slate-500')} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Save to collection</DropdownMenuLabel>
+        {collections.length > 0 ? (
+          collections.map((c) => (
+            <DropdownMenuCheckboxItem
+              key={c.id}
+              checked={!!bookmarkId && c.bookmarkIds.includes(bookmarkId)}
+              onCheckedChange={(checked) => handleToggle(c.id, checked === true)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              <span className="truncate">{c.name}</span>
+            </DropdownMenuCheckboxItem>
+          ))
+        ) : (
+          <div className="px-2 py-1.5 text-xs text-slate-500">No collections yet.</div>
+        )}
+        <DropdownMenuSeparator />
+        <form onSubmit={handleCreate} className="flex items-center gap-1 p-1">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            // Keep typing out of the menu's typeahead/arrow-key handling
+            onKeyDown={(e) => e.stopPropagation()}
+            placeholder="New collection…"
+            aria-label="New collection name"
+            className="h-8 min-w-0 flex-1 rounded-md border border-slate-300 px-2 text-sm outline-none focus:border-blue-400"
+          />
+          <button
+            type="submit"
+            aria-label="Create collection"
+            disabled={!newName.trim()}
+            className="inline-flex h-8 w-8 items-center justify-center rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </form>
+        {isPic && kits.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Team kits</DropdownMenuLabel>
+            {kits.map((k) => (
+              <DropdownMenuCheckboxItem
+                key={k.id}
+                checked={k.resources.some((r) => r.path === path)}
+                onCheckedChange={(checked) => handleKitToggle(k.id, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                <span className="truncate">{k.name}</span>
+                {!k.isPublished && <span className="ml-auto pl-2 text-[11px] text-amber-700">Draft</span>}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
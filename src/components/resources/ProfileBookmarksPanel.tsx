@@ -3,53 +3,117 @@
  * - Floating bookmark button with profile-specific resource file bookmarks
  * - Right-side drawer panel for quick access to bookmarked files
  * - Search, open, and remove actions for individual resource files
+ * - Files come from storage_files_catalog (bookmarkService); bookmarks whose file was moved or deleted are
+ *   flagged with a relink (same file name elsewhere in the library) or remove option
+ * - Collection tabs (create/rename/delete), per-bookmark notes, and drag (or Alt+↑/↓) reordering
+ *   inside a collection
+ * - Team kits: account-wide lists from the PIC, read-only here with a "Team" badge and a copy action;
+ *   PIC profiles also create, rename, publish and delete them
  */
 
-import React, { useEffect, useMemo, useState } from 'react';
-import { Bookmark, BookmarkCheck, Download, File, FileSpreadsheet, FileText, Play, Search, Trash2, X } from 'lucide-react';
-import { useResourceBookmarkStore } from '../../stores/resourceBookmarkStore';
+import React, { useEffect, useMemo, useState, type FormEvent } from 'react';
+import {
+  AlertTriangle,
+  Bookmark,
+  BookmarkCheck,
+  Copy,
+  Download,
+  GripVertical,
+  Link2,
+  Pencil,
+  Play,
+  Plus,
+  Search,
+  StickyNote,
+  Trash2,
+  Users,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { useBookmarkStore } from '../../stores/bookmarkStore';
+import { useBookmarkKitStore } from '../../stores/bookmarkKitStore';
 import { useProfileStore } from '../../stores/profileStore';
 import { cn } from '../../lib/utils';
-import { isDoc, isPdf, isSpreadsheet, isVideo } from '../../services/supabaseStorage';
+import { findRelinkCandidates, type BookmarkedResource } from '../../services/bookmarkService';
 import type { StorageFileItem } from '../../services/supabaseStorage';
+import { canManageKits, type KitResource } from '../../services/bookmarkKitService';
+import { describeFile } from '../../lib/fileKinds';
+import { findProgramForPath } from '../../services/programRegistry';
+import { usePrograms } from '../../stores/programStore';
+import type { ClinicalProgram } from '../../types';
+import SignedFileLink from '../common/SignedFileLink';
+import FileKindIcon from '../common/FileKindIcon';
+import BookmarkCollectionPicker from './BookmarkCollectionPicker';
 
 interface ProfileBookmarksPanelProps {
   className?: string;
 }
 
 /**
- * Get appropriate icon for file type
+ * Get program display name from path (registry short name; top folder in caps otherwise)
  */
-function getFileIcon(item: StorageFileItem) {
-  if (isVideo(item)) return <Play className="h-4 w-4 text-blue-600" />;
-  if (isSpreadsheet(item)) return <FileSpreadsheet className="h-4 w-4 text-emerald-600" />;
-  if (isPdf(item) || isDoc(item)) return <FileText className="h-4 w-4 text-slate-700" />;
-  return <File className="h-4 w-4 text-slate-700" />;
+function getProgramDisplay(path: string, programs: ClinicalProgram[]): string {
+  const program = findProgramForPath(programs, path);
+  return program ? program.shortName : path.split('/')[0].toUpperCase();
 }
 
-/**
- * Get program display name from path
- */
-function getProgramDisplay(path: string): string {
-  const programSlug = path.split('/')[0];
-  const programMap: Record<string, string> = {
-    'mtmthefuturetoday': 'MTM The Future Today',
-    'timemymeds': 'Time My Meds',
-    'testandtreat': 'Test and Treat',
-    'hba1c': 'HbA1c',
-    'oralcontraceptives': 'Oral Contraceptives'
-  };
-  return programMap[programSlug] || programSlug.toUpperCase();
+/** Whether a file matches the search box (title, file name, program, path, note) */
+function matchesQuery(file: KitResource & { note?: string }, query: string, programs: ClinicalProgram[]): boolean {
+  const searchText = [
+    file.title,
+    file.filename,
+    getProgramDisplay(file.path, programs),
+    file.path,
+    file.note || '',
+  ].join(' ').toLowerCase();
+  return searchText.includes(query);
+}
+
+/** Move one id to another id's position */
+function moveId(ids: string[], fromId: string, toId: string): string[] {
+  const from = ids.indexOf(fromId);
+  const to = ids.indexOf(toId);
+  if (from < 0 || to < 0 || from === to) return ids;
+  const next = ids.slice();
+  next.splice(from, 1);
+  next.splice(to, 0, fromId);
+  return next;
 }
 
 export default function ProfileBookmarksPanel({ className }: ProfileBookmarksPanelProps) {
   const { currentProfile } = useProfileStore();
-  const { bookmarkedPaths, loadBookmarks, toggleBookmark } = useResourceBookmarkStore();
-  
+  const {
+    bookmarks: bookmarkedFiles,
+    collections,
+    loadBookmarks,
+    removeBookmark,
+    removeBookmarks,
+    relinkBookmark,
+    saveNote,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    setInCollection,
+    reorderCollection,
+    copyKit,
+  } = useBookmarkStore();
+  const { kits, loadKits, createKit, updateKit, deleteKit, setInKit } = useBookmarkKitStore();
+  const programs = usePrograms();
+  const isPic = canManageKits(currentProfile);
+
   const [open, setOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [bookmarkedFiles, setBookmarkedFiles] = useState<StorageFileItem[]>([]);
-  const [loading, setLoading] = useState(false);
+  /** Selected collection tab (null = all bookmarks) */
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  /** Selected team kit tab (takes the place of a collection) */
+  const [activeKitId, setActiveKitId] = useState<string | null>(null);
+  /** Inline name editor: creating a collection/kit or renaming the active one */
+  const [nameEditor, setNameEditor] = useState<{
+    mode: 'create' | 'rename' | 'createKit' | 'renameKit';
+    value: string;
+  } | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [copying, setCopying] = useState(false);
 
   // Load bookmarks when profile changes
   useEffect(() => {
@@ -58,25 +122,12 @@ export default function ProfileBookmarksPanel({ className }: ProfileBookmarksPan
     }
   }, [currentProfile?.id, loadBookmarks]);
 
-  // Convert bookmarked paths to file items (would need to fetch from storage)
-  // For now, we'll create mock items from the paths
+  // Load the account's kits (drafts too for the PIC)
   useEffect(() => {
-    const files: StorageFileItem[] = Array.from(bookmarkedPaths).map(path => {
-      const filename = path.split('/').pop() || path;
-      const extension = filename.split('.').pop()?.toLowerCase() || '';
-      
-      return {
-        path,
-        title: filename.replace(/\.[^/.]+$/, ''), // Remove extension
-        filename,
-        url: `${process.env.VITE_SUPABASE_URL}/storage/v1/object/public/clinicalrxqfiles/${encodeURI(path)}`,
-        mimeType: getMimeTypeFromExtension(extension),
-        size: 0,
-      };
-    });
-    
-    setBookmarkedFiles(files);
-  }, [bookmarkedPaths]);
+    if (currentProfile?.accountId) {
+      loadKits(currentProfile.accountId, { includeDrafts: isPic });
+    }
+  }, [currentProfile?.accountId, isPic, loadKits]);
 
   // Close on Escape key
   useEffect(() => {
@@ -88,33 +139,183 @@ export default function ProfileBookmarksPanel({ className }: ProfileBookmarksPan
     return () => window.removeEventListener('keydown', onKey);
   }, [open]);
 
+  const activeCollection = collections.find((c) => c.id === activeCollectionId) ?? null;
+  const activeKit = kits.find((k) => k.id === activeKitId) ?? null;
+
+  // Fall back to "All" when the active collection/kit is deleted or the profile changes
+  useEffect(() => {
+    if (activeCollectionId && !activeCollection) setActiveCollectionId(null);
+  }, [activeCollectionId, activeCollection]);
+  useEffect(() => {
+    if (activeKitId && !activeKit) setActiveKitId(null);
+  }, [activeKitId, activeKit]);
+
+  /** Switch tabs (a collection id, a kit id, or neither for "All") */
+  const selectTab = (tab: { collectionId?: string; kitId?: string }) => {
+    setActiveCollectionId(tab.collectionId ?? null);
+    setActiveKitId(tab.kitId ?? null);
+    setNameEditor(null);
+  };
+
+  /** Files in the active tab (collection order inside a collection) */
+  const tabFiles = useMemo(() => {
+    if (!activeCollection) return bookmarkedFiles;
+    const byId = new Map(bookmarkedFiles.map((b) => [b.id, b]));
+    return activeCollection.bookmarkIds
+      .map((id) => byId.get(id))
+      .filter((b): b is BookmarkedResource => !!b);
+  }, [activeCollection, bookmarkedFiles]);
+
   // Filter bookmarks by search query
   const filteredBookmarks = useMemo(() => {
     const query = searchQuery.trim().toLowerCase();
-    if (!query) return bookmarkedFiles;
-    
-    return bookmarkedFiles.filter(file => {
-      const searchText = [
-        file.title,
-        file.filename,
-        getProgramDisplay(file.path),
-        file.path
-      ].join(' ').toLowerCase();
-      
-      return searchText.includes(query);
-    });
-  }, [bookmarkedFiles, searchQuery]);
-
-  const handleRemoveBookmark = async (file: StorageFileItem) => {
+    if (!query) return tabFiles;
+    return tabFiles.filter((file) => matchesQuery(file, query, programs));
+  }, [tabFiles, searchQuery, programs]);
+
+  const filteredKitFiles = useMemo(() => {
+    if (!activeKit) return [];
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return activeKit.resources;
+    return activeKit.resources.filter((file) => matchesQuery(file, query, programs));
+  }, [activeKit, searchQuery, programs]);
+
+  /** Bookmarks in the active tab whose file is gone from the library */
+  const missingFiles = useMemo(() => tabFiles.filter((f) => !f.inCatalog), [tabFiles]);
+
+  // Reordering only makes sense on the full, unfiltered collection
+  const canReorder = !!activeCollection && !searchQuery.trim();
+
+  const handleRemoveBookmark = async (file: BookmarkedResource) => {
     if (!currentProfile?.id) return;
-    
+
     try {
-      await toggleBookmark(currentProfile.id, file);
+      if (activeCollection) {
+        await setInCollection(currentProfile.id, activeCollection.id, file, false);
+      } else {
+        await removeBookmark(currentProfile.id, file.path);
+      }
     } catch (error) {
       console.error('Failed to remove bookmark:', error);
     }
   };
 
+  const handleRemoveMissing = async () => {
+    if (!currentProfile?.id || missingFiles.length === 0) return;
+    const count = missingFiles.length;
+    if (!window.confirm(`Remove ${count} ${count === 1 ? 'bookmark' : 'bookmarks'} for files no longer in the library?`)) return;
+    await removeBookmarks(currentProfile.id, missingFiles.map((f) => f.path));
+  };
+
+  const handleRelink = async (file: BookmarkedResource, target: StorageFileItem) => {
+    if (!currentProfile?.id) return;
+    try {
+      await relinkBookmark(currentProfile.id, file.id, target);
+      toast.success(`Bookmark now points to ${target.path}`);
+    } catch (error) {
+      console.error('Failed to relink bookmark:', error);
+      toast.error('Could not relink the bookmark. Please try again.');
+    }
+  };
+
+  const handleReorder = async (fromId: string, toId: string) => {
+    if (!activeCollection) return;
+    const next = moveId(activeCollection.bookmarkIds, fromId, toId);
+    if (next === activeCollection.bookmarkIds) return;
+    try {
+      await reorderCollection(activeCollection.id, next);
+    } catch (error) {
+      console.error('Failed to reorder collection:', error);
+    }
+  };
+
+  const handleNameSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!currentProfile?.id || !nameEditor) return;
+    const name = nameEditor.value.trim();
+    if (!name) return;
+    try {
+      if (nameEditor.mode === 'create') {
+        const created = await createCollection(currentProfile.id, name);
+        selectTab({ collectionId: created.id });
+      } else if (nameEditor.mode === 'createKit') {
+        const created = await createKit(currentProfile.accountId, currentProfile.id, name);
+        selectTab({ kitId: created.id });
+      } else if (nameEditor.mode === 'renameKit' && activeKit) {
+        await updateKit(activeKit.id, { name });
+      } else if (activeCollection) {
+        await renameCollection(activeCollection.id, name);
+      }
+      setNameEditor(null);
+    } catch (error) {
+      console.error('Failed to save collection:', error);
+      toast.error('Could not save the name. Please try again.');
+    }
+  };
+
+  const handleCopyKit = async () => {
+    if (!currentProfile?.id || !activeKit) return;
+    try {
+      setCopying(true);
+      const { added, collectionId } = await copyKit(currentProfile.id, activeKit);
+      toast.success(
+        added > 0
+          ? `Added ${added} ${added === 1 ? 'file' : 'files'} to your bookmarks`
+          : 'All of these files are already in your bookmarks'
+      );
+      selectTab({ collectionId });
+    } catch (error) {
+      console.error('Failed to copy kit:', error);
+      toast.error('Could not copy the kit. Please try again.');
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  const handleTogglePublished = async () => {
+    if (!activeKit) return;
+    try {
+      await updateKit(activeKit.id, { isPublished: !activeKit.isPublished });
+      toast.success(activeKit.isPublished ? 'Kit hidden from the team' : 'Kit published to every profile');
+    } catch (error) {
+      console.error('Failed to publish kit:', error);
+      toast.error('Could not update the kit. Please try again.');
+    }
+  };
+
+  const handleDeleteKit = async () => {
+    if (!activeKit) return;
+    if (!window.confirm(`Delete the team kit "${activeKit.name}"? Copies in members' bookmarks stay.`)) return;
+    try {
+      await deleteKit(activeKit.id);
+      selectTab({});
+    } catch (error) {
+      console.error('Failed to delete kit:', error);
+      toast.error('Could not delete the kit. Please try again.');
+    }
+  };
+
+  const handleRemoveFromKit = async (file: KitResource) => {
+    if (!activeKit) return;
+    try {
+      await setInKit(activeKit.id, file, false);
+    } catch (error) {
+      console.error('Failed to remove from kit:', error);
+      toast.error('Could not update the kit. Please try again.');
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!activeCollection) return;
+    if (!window.confirm(`Delete the collection "${activeCollection.name}"? Its files stay bookmarked.`)) return;
+    try {
+      await deleteCollection(activeCollection.id);
+      selectTab({});
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+    }
+  };
+
   const total = bookmarkedFiles.length;
 
   if (!currentProfile) return null;
@@ -154,7 +355,7 @@ export default function ProfileBookmarksPanel({ className }: ProfileBookmarksPan
             role="dialog"
             aria-modal="true"
             aria-label="Bookmarked Resources"
-            className="fixed right-0 top-0 z-50 h-full w-full max-w-md border-l border-slate-200 bg-white shadow-xl"
+            className="fixed right-0 top-0 z-50 flex h-full w-full max-w-md flex-col border-l border-slate-200 bg-white shadow-xl"
           >
             {/* Header */}
             <div className="flex items-center justify-between border-b border-slate-200 p-4">
@@ -188,28 +389,239 @@ export default function ProfileBookmarksPanel({ className }: ProfileBookmarksPan
               </div>
             </div>
 
-            {/* List */}
-            <div className="flex h-[calc(100%-124px)] flex-col overflow-hidden">
-              {filteredBookmarks.length > 0 ? (
-                <ul className="flex-1 overflow-y-auto p-3 space-y-2">
-                  {filteredBookmarks.map((file) => (
-                    <BookmarkFileRow
-                      key={file.path}
-                      file={file}
-                      onRemove={() => handleRemoveBookmark(file)}
+            {/* Collections */}
+            <div className="space-y-2 border-b border-slate-200 p-3">
+              <div className="flex flex-wrap gap-1.5" role="tablist" aria-label="Collections">
+                <CollectionTab
+                  label="All"
+                  count={total}
+                  active={!activeCollection && !activeKit}
+                  onClick={() => selectTab({})}
+                />
+                {collections.map((c) => (
+                  <CollectionTab
+                    key={c.id}
+                    label={c.name}
+                    count={c.bookmarkIds.length}
+                    active={c.id === activeCollection?.id}
+                    onClick={() => selectTab({ collectionId: c.id })}
+                  />
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setNameEditor({ mode: 'create', value: '' })}
+                  className="inline-flex items-center gap-1 rounded-full border border-dashed border-slate-300 px-2.5 py-1 text-xs text-slate-600 hover:bg-slate-50"
+                >
+                  <Plus className="h-3 w-3" />
+                  New
+                </button>
+              </div>
+
+              {(kits.length > 0 || isPic) && (
+                <div className="flex flex-wrap items-center gap-1.5" role="tablist" aria-label="Team kits">
+                  {kits.map((k) => (
+                    <CollectionTab
+                      key={k.id}
+                      label={k.name}
+                      count={k.resources.length}
+                      active={k.id === activeKit?.id}
+                      onClick={() => selectTab({ kitId: k.id })}
+                      team
+                      draft={!k.isPublished}
                     />
                   ))}
-                </ul>
+                  {isPic && (
+                    <button
+                      type="button"
+                      onClick={() => setNameEditor({ mode: 'createKit', value: '' })}
+                      className="inline-flex items-center gap-1 rounded-full border border-dashed border-indigo-300 px-2.5 py-1 text-xs text-indigo-700 hover:bg-indigo-50"
+                    >
+                      <Plus className="h-3 w-3" />
+                      New team kit
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {nameEditor ? (
+                <form onSubmit={handleNameSubmit} className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    value={nameEditor.value}
+                    onChange={(e) => setNameEditor({ ...nameEditor, value: e.target.value })}
+                    placeholder={
+                      nameEditor.mode === 'create'
+                        ? 'Collection name, e.g. Flu season kit'
+                        : nameEditor.mode === 'createKit'
+                          ? 'Team kit name, e.g. Tech onboarding forms'
+                          : 'Name'
+                    }
+                    aria-label={nameEditor.mode === 'create' || nameEditor.mode === 'rename' ? 'Collection name' : 'Team kit name'}
+                    className="h-8 min-w-0 flex-1 rounded-md border border-slate-300 px-2 text-sm outline-none focus:border-blue-400"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!nameEditor.value.trim()}
+                    className="inline-flex h-8 items-center rounded-md bg-blue-600 px-3 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {nameEditor.mode === 'create' || nameEditor.mode === 'createKit' ? 'Create' : 'Save'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setNameEditor(null)}
+                    className="inline-flex h-8 items-center rounded-md border border-slate-300 px-2 text-xs text-slate-700 hover:bg-slate-50"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : activeKit ? (
+                <div className="space-y-2 text-xs text-slate-500">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <TeamBadge />
+                    {!activeKit.isPublished && <DraftBadge />}
+                    <span>
+                      {!isPic
+                        ? 'Shared by your pharmacist-in-charge'
+                        : activeKit.isPublished
+                          ? 'Visible to every profile on this account'
+                          : 'Only PIC profiles can see this draft'}
+                    </span>
+                  </div>
+                  {activeKit.description && <p className="text-slate-600">{activeKit.description}</p>}
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      type="button"
+                      onClick={handleCopyKit}
+                      disabled={copying || activeKit.resources.length === 0}
+                      className="inline-flex h-8 items-center gap-1.5 rounded-md bg-blue-600 px-3 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                      {copying ? 'Copying…' : 'Copy to my bookmarks'}
+                    </button>
+                    {isPic && (
+                      <div className="flex items-center gap-3">
+                        <button type="button" onClick={handleTogglePublished} className="hover:text-slate-800">
+                          {activeKit.isPublished ? 'Unpublish' : 'Publish'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setNameEditor({ mode: 'renameKit', value: activeKit.name })}
+                          className="hover:text-slate-800"
+                        >
+                          Rename
+                        </button>
+                        <button type="button" onClick={handleDeleteKit} className="text-red-600 hover:text-red-700">
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ) : activeCollection ? (
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                  <span>{canReorder ? 'Drag to reorder' : 'Clear the search to reorder'}</span>
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setNameEditor({ mode: 'rename', value: activeCollection.name })}
+                      className="hover:text-slate-800"
+                    >
+                      Rename
+                    </button>
+                    <button type="button" onClick={handleDeleteCollection} className="text-red-600 hover:text-red-700">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+            </div>
+
+            {/* List */}
+            <div className="flex min-h-0 flex-1 flex-col overflow-hidden">
+              {activeKit ? (
+                filteredKitFiles.length > 0 ? (
+                  <ul className="flex-1 overflow-y-auto p-3 space-y-2">
+                    {filteredKitFiles.map((file) => (
+                      <KitFileRow
+                        key={file.path}
+                        file={file}
+                        onRemove={isPic ? () => handleRemoveFromKit(file) : undefined}
+                      />
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="flex flex-1 items-center justify-center p-6 text-center">
+                    <div>
+                      <div className="mb-2 text-sm font-medium text-slate-900">
+                        {searchQuery ? 'No results' : 'This kit is empty'}
+                      </div>
+                      <p className="mx-auto max-w-xs text-xs text-slate-600">
+                        {searchQuery
+                          ? 'Try a different search term.'
+                          : isPic
+                            ? 'Use the folder icon on a resource file to add it to this kit.'
+                            : 'Your pharmacist-in-charge hasn’t added files yet.'}
+                      </p>
+                    </div>
+                  </div>
+                )
+              ) : filteredBookmarks.length > 0 ? (
+                <>
+                  {missingFiles.length > 0 && (
+                    <div className="flex items-center justify-between gap-2 border-b border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                      <span className="flex items-center gap-1.5">
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                        {missingFiles.length} {missingFiles.length === 1 ? 'bookmark points' : 'bookmarks point'} to a
+                        file that was moved or deleted.
+                      </span>
+                      <button type="button" onClick={handleRemoveMissing} className="shrink-0 font-medium hover:underline">
+                        Remove {missingFiles.length === 1 ? 'it' : 'all'}
+                      </button>
+                    </div>
+                  )}
+                  <ul className="flex-1 overflow-y-auto p-3 space-y-2">
+                    {filteredBookmarks.map((file, index) => (
+                      <BookmarkFileRow
+                        key={file.id}
+                        file={file}
+                        removeLabel={activeCollection ? 'Remove from collection' : 'Remove bookmark'}
+                        onRemove={() => handleRemoveBookmark(file)}
+                        onSaveNote={(note) => saveNote(file.id, note)}
+                        onRelink={(target) => handleRelink(file, target)}
+                        onDelete={() => currentProfile && removeBookmark(currentProfile.id, file.path)}
+                        reorder={
+                          canReorder
+                            ? {
+                                dragging: dragId === file.id,
+                                onDragStart: () => setDragId(file.id),
+                                onDragEnd: () => setDragId(null),
+                                onDropOn: () => {
+                                  if (dragId) handleReorder(dragId, file.id);
+                                  setDragId(null);
+                                },
+                                onMove: (delta) => {
+                                  const target = filteredBookmarks[index + delta];
+                                  if (target) handleReorder(file.id, target.id);
+                                },
+                              }
+                            : undefined
+                        }
+                      />
+                    ))}
+                  </ul>
+                </>
               ) : (
                 <div className="flex flex-1 items-center justify-center p-6 text-center">
                   <div>
                     <div className="mb-2 text-sm font-medium text-slate-900">
-                      {searchQuery ? 'No results' : 'No bookmarked files yet'}
+                      {searchQuery ? 'No results' : activeCollection ? 'This collection is empty' : 'No bookmarked files yet'}
                     </div>
                     <p className="mx-auto max-w-xs text-xs text-slate-600">
                       {searchQuery
                         ? 'Try a different search term.'
-                        : 'Look for the bookmark icon on resource files to save them here.'}
+                        : activeCollection
+                          ? 'Use the folder icon on a resource file to add it here.'
+                          : 'Look for the bookmark icon on resource files to save them here.'}
                     </p>
                   </div>
                 </div>
@@ -232,24 +644,216 @@ export default function ProfileBookmarksPanel({ className }: ProfileBookmarksPan
   );
 }
 
+/**
+ * Collection filter chip
+ */
+function CollectionTab({
+  label,
+  count,
+  active,
+  onClick,
+  team,
+  draft,
+}: {
+  label: string;
+  count: number;
+  active: boolean;
+  onClick: () => void;
+  /** Shared team kit (not one of the profile's own collections) */
+  team?: boolean;
+  draft?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      role="tab"
+      aria-selected={active}
+      onClick={onClick}
+      className={cn(
+        'inline-flex max-w-[12rem] items-center gap-1 rounded-full border px-2.5 py-1 text-xs transition',
+        active ? 'border-blue-300 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-700 hover:bg-slate-50',
+        draft && !active && 'border-dashed'
+      )}
+    >
+      {team && <Users className="h-3 w-3 shrink-0 text-indigo-500" aria-label="Team kit" />}
+      <span className="truncate">{label}</span>
+      <span className="text-slate-400">{count}</span>
+    </button>
+  );
+}
+
+/** "Team" badge for shared kits */
+function TeamBadge() {
+  return (
+    <span className="inline-flex items-center gap-1 rounded-full bg-indigo-50 px-2 py-0.5 text-[11px] font-medium text-indigo-700">
+      <Users className="h-3 w-3" />
+      Team
+    </span>
+  );
+}
+
+/** "Draft" badge for unpublished kits (PIC view) */
+function DraftBadge() {
+  return (
+    <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[11px] font-medium text-amber-800">Draft</span>
+  );
+}
+
+/**
+ * Read-only row for a file in a team kit (bookmark it individually, or remove it from the kit as PIC)
+ */
+function KitFileRow({ file, onRemove }: { file: KitResource; onRemove?: () => void }) {
+  const programs = usePrograms();
+  const { currentProfile } = useProfileStore();
+  const { isBookmarked, toggleBookmark } = useBookmarkStore();
+  const bookmarked = isBookmarked(file.path);
+  const { playable } = describeFile(file);
+
+  return (
+    <li className="flex items-start justify-between gap-3 rounded-md border border-slate-200 bg-white p-3">
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2 mb-1">
+          <FileKindIcon file={file} className="h-4 w-4" />
+          <span className="text-xs text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
+            {getProgramDisplay(file.path, programs)}
+          </span>
+          <TeamBadge />
+        </div>
+        <div className="truncate text-sm font-medium text-slate-900 mb-1">{file.title}</div>
+        <div className="text-xs text-slate-500">
+          {file.inCatalog ? file.filename : 'No longer available in the library'}
+        </div>
+      </div>
+
+      <div className="flex shrink-0 items-center gap-2">
+        {file.inCatalog && (
+          <SignedFileLink
+            path={file.path}
+            className="inline-flex h-8 items-center justify-center rounded-md border border-slate-300 bg-white px-2 text-xs text-slate-700 hover:bg-slate-50"
+            title={playable ? 'Play' : 'Download file'}
+          >
+            {playable ? <Play className="h-3.5 w-3.5" /> : <Download className="h-3.5 w-3.5" />}
+          </SignedFileLink>
+        )}
+
+        <button
+          type="button"
+          onClick={() => currentProfile?.id && toggleBookmark(currentProfile.id, file)}
+          disabled={!file.inCatalog && !bookmarked}
+          className="inline-flex h-8 items-center justify-center rounded-md border border-slate-300 bg-white px-2 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+          title={bookmarked ? 'Remove from my bookmarks' : 'Add to my bookmarks'}
+          aria-label={bookmarked ? 'Remove from my bookmarks' : 'Add to my bookmarks'}
+        >
+          {bookmarked ? (
+            <BookmarkCheck className="h-3.5 w-3.5 text-blue-600" />
+          ) : (
+            <Bookmark className="h-3.5 w-3.5" />
+          )}
+        </button>
+
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="inline-flex h-8 items-center justify-center rounded-md border border-red-300 bg-red-50 px-2 text-xs text-red-700 hover:bg-red-100"
+            title="Remove from team kit"
+            aria-label="Remove from team kit"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
+
 /**
  * Individual bookmark file row
  */
 function BookmarkFileRow({
   file,
+  removeLabel,
   onRemove,
+  onSaveNote,
+  onRelink,
+  onDelete,
+  reorder,
 }: {
-  file: StorageFileItem;
+  file: BookmarkedResource;
+  removeLabel: string;
   onRemove: () => void;
+  onSaveNote: (note: string) => Promise<void>;
+  /** Point a missing file's bookmark at another path */
+  onRelink: (target: StorageFileItem) => Promise<void>;
+  /** Delete the bookmark outright (also from inside a collection) */
+  onDelete: () => void;
+  /** Drag/keyboard reordering handlers (inside a collection only) */
+  reorder?: {
+    dragging: boolean;
+    onDragStart: () => void;
+    onDragEnd: () => void;
+    onDropOn: () => void;
+    onMove: (delta: -1 | 1) => void;
+  };
 }) {
-  const programDisplay = getProgramDisplay(file.path);
-  const isVideoFile = isVideo(file);
+  const programs = usePrograms();
+  const programDisplay = getProgramDisplay(file.path, programs);
+  const { playable } = describeFile(file);
+  const [editingNote, setEditingNote] = useState(false);
+  const [noteDraft, setNoteDraft] = useState(file.note || '');
+
+  const commitNote = async () => {
+    setEditingNote(false);
+    if (noteDraft.trim() === (file.note || '')) return;
+    try {
+      await onSaveNote(noteDraft);
+    } catch (error) {
+      console.error('Failed to save note:', error);
+      setNoteDraft(file.note || '');
+    }
+  };
 
   return (
-    <li className="group flex items-start justify-between gap-3 rounded-md border border-slate-200 bg-white p-3">
+    <li
+      draggable={!!reorder}
+      onDragStart={(e) => {
+        if (!reorder) return;
+        e.dataTransfer.effectAllowed = 'move';
+        reorder.onDragStart();
+      }}
+      onDragEnd={reorder?.onDragEnd}
+      onDragOver={(e) => {
+        if (reorder) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        if (!reorder) return;
+        e.preventDefault();
+        reorder.onDropOn();
+      }}
+      className={cn(
+        'group flex items-start justify-between gap-3 rounded-md border border-slate-200 bg-white p-3',
+        reorder?.dragging && 'opacity-50'
+      )}
+    >
+      {reorder && (
+        <button
+          type="button"
+          aria-label={`Reorder ${file.title} (Alt+Up/Down)`}
+          onKeyDown={(e) => {
+            if (!e.altKey) return;
+            if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+              e.preventDefault();
+              reorder.onMove(e.key === 'ArrowUp' ? -1 : 1);
+            }
+          }}
+          className="mt-0.5 cursor-grab text-slate-400 hover:text-slate-600"
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+      )}
       <div className="min-w-0 flex-1">
         <div className="flex items-center gap-2 mb-1">
-          {getFileIcon(file)}
+          <FileKindIcon file={file} className="h-4 w-4" />
           <span className="text-xs text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
             {programDisplay}
           </span>
@@ -260,30 +864,75 @@ function BookmarkFileRow({
         <div className="text-xs text-slate-500">
           {file.filename}
         </div>
+        {!file.inCatalog && <MissingFileNotice file={file} onRelink={onRelink} onDelete={onDelete} />}
+        {editingNote ? (
+          <textarea
+            autoFocus
+            value={noteDraft}
+            onChange={(e) => setNoteDraft(e.target.value)}
+            onBlur={commitNote}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                e.currentTarget.blur();
+              }
+              if (e.key === 'Escape') {
+                // Cancel the edit without closing the panel
+                e.stopPropagation();
+                setNoteDraft(file.note || '');
+                setEditingNote(false);
+              }
+            }}
+            rows={2}
+            placeholder="Add a note…"
+            aria-label={`Note for ${file.title}`}
+            className="mt-2 w-full resize-none rounded-md border border-slate-300 px-2 py-1 text-xs text-slate-800 outline-none focus:border-blue-400"
+          />
+        ) : file.note ? (
+          <p className="mt-2 whitespace-pre-wrap rounded bg-amber-50 px-2 py-1 text-xs text-amber-900">{file.note}</p>
+        ) : null}
       </div>
-      
+
       <div className="flex shrink-0 items-center gap-2">
         {/* Open/Download button */}
-        <a
-          href={file.url}
-          target="_blank"
-          rel="noreferrer"
+        {file.inCatalog && (
+          <SignedFileLink
+            path={file.path}
+            className="inline-flex h-8 items-center justify-center rounded-md border border-slate-300 bg-white px-2 text-xs text-slate-700 hover:bg-slate-50"
+            title={playable ? "Play" : "Download file"}
+          >
+            {playable ? (
+              <Play className="h-3.5 w-3.5" />
+            ) : (
+              <Download className="h-3.5 w-3.5" />
+            )}
+          </SignedFileLink>
+        )}
+
+        {/* Note */}
+        <button
+          type="button"
+          onClick={() => setEditingNote(true)}
           className="inline-flex h-8 items-center justify-center rounded-md border border-slate-300 bg-white px-2 text-xs text-slate-700 hover:bg-slate-50"
-          title={isVideoFile ? "Play video" : "Download file"}
+          title={file.note ? 'Edit note' : 'Add note'}
+          aria-label={file.note ? 'Edit note' : 'Add note'}
         >
-          {isVideoFile ? (
-            <Play className="h-3.5 w-3.5" />
-          ) : (
-            <Download className="h-3.5 w-3.5" />
-          )}
-        </a>
-        
+          {file.note ? <Pencil className="h-3.5 w-3.5" /> : <StickyNote className="h-3.5 w-3.5" />}
+        </button>
+
+        {/* Collections */}
+        <BookmarkCollectionPicker
+          item={file}
+          className="inline-flex h-8 items-center border border-slate-300 p-1.5 [&_svg]:h-3.5 [&_svg]:w-3.5"
+        />
+
         {/* Remove bookmark button */}
         <button
           type="button"
           onClick={onRemove}
           className="inline-flex h-8 items-center justify-center rounded-md border border-red-300 bg-red-50 px-2 text-xs text-red-700 hover:bg-red-100"
-          title="Remove bookmark"
+          title={removeLabel}
+          aria-label={removeLabel}
         >
           <Trash2 className="h-3.5 w-3.5" />
         </button>
@@ -292,17 +941,95 @@ function BookmarkFileRow({
   );
 }
 
-// Helper to get MIME type from file extension
-function getMimeTypeFromExtension(extension: string): string | undefined {
-  const mimeMap: Record<string, string> = {
-    'pdf': 'application/pdf',
-    'doc': 'application/msword',
-    'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'xls': 'application/vnd.ms-excel',
-    'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'mp4': 'video/mp4',
-    'mov': 'video/quicktime',
-    'webm': 'video/webm',
+/**
+ * Flag on a bookmark whose file left the catalog: look for the same file name elsewhere and relink, or remove
+ */
+function MissingFileNotice({
+  file,
+  onRelink,
+  onDelete,
+}: {
+  file: BookmarkedResource;
+  onRelink: (target: StorageFileItem) => Promise<void>;
+  onDelete: () => void;
+}) {
+  /** null until looked up */
+  const [candidates, setCandidates] = useState<StorageFileItem[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [relinking, setRelinking] = useState(false);
+
+  const lookUp = async () => {
+    try {
+      setSearching(true);
+      setCandidates(await findRelinkCandidates(file));
+    } catch (error) {
+      console.error('Failed to look up relink candidates:', error);
+      setCandidates([]);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const relink = async (target: StorageFileItem) => {
+    setRelinking(true);
+    try {
+      await onRelink(target);
+    } finally {
+      setRelinking(false);
+    }
   };
-  return mimeMap[extension];
-}
\ No newline at end of file
+
+  return (
+    <div className="mt-2 space-y-1.5 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-900">
+      <div className="flex items-center gap-1.5 font-medium">
+        <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+        File moved or deleted
+      </div>
+      {candidates === null ? (
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={lookUp}
+            disabled={searching}
+            className="inline-flex items-center gap-1 font-medium hover:underline disabled:opacity-50"
+          >
+            <Link2 className="h-3 w-3" />
+            {searching ? 'Searching…' : 'Find & relink'}
+          </button>
+          <button type="button" onClick={onDelete} className="text-red-700 hover:underline">
+            Remove
+          </button>
+        </div>
+      ) : candidates.length > 0 ? (
+        <>
+          <div>Found in the library at:</div>
+          <ul className="space-y-1">
+            {candidates.map((c) => (
+              <li key={c.path}>
+                <button
+                  type="button"
+                  onClick={() => relink(c)}
+                  disabled={relinking}
+                  title={`Relink to ${c.path}`}
+                  className="w-full truncate rounded border border-amber-300 bg-white px-2 py-1 text-left text-slate-700 hover:bg-amber-100 disabled:opacity-50"
+                >
+                  {c.path}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button type="button" onClick={onDelete} className="text-red-700 hover:underline">
+            Remove instead
+          </button>
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          <span>No file named “{file.filename}” in the library.</span>
+          <button type="button" onClick={onDelete} className="shrink-0 text-red-700 hover:underline">
+            Remove
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
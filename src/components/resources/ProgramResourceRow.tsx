@@ -1,28 +1,26 @@
 /**
  * ProgramResourceRow
  * - Purpose: Single-column, dense row card for Program Detail sections.
- * - Contents: brand-colored file icon (left), file name (title), optional duration (videos), and one action button.
- *   - Video: "Play" only (no download).
- *   - Non-video: "Download" only.
+ * - Contents: brand-colored file icon (left), file name (title), optional duration (video/audio), and action buttons.
+ *   - Playable (video, audio): "Play" only (no download).
+ *   - Previewable (PDF, image): "Preview" and "Download".
+ *   - Everything else: "Download" only.
  * - Change: Avoid duplicate subtitle line when filename equals the title (normalized).
+ * - Clicks are recorded in the profile's recent activity (play/view/download).
  */
 
 import React from 'react';
 import { Button } from '../ui/button';
 import {
   Download,
-  File,
-  FileSpreadsheet,
-  FileText,
+  Eye,
   Play,
 } from 'lucide-react';
 import type { StorageFileItem } from '../../services/supabaseStorage';
-import {
-  isDoc,
-  isPdf,
-  isSpreadsheet,
-  isVideo,
-} from '../../services/supabaseStorage';
+import SignedFileLink from '../common/SignedFileLink';
+import FileKindIcon from '../common/FileKindIcon';
+import { describeFile } from '../../lib/fileKinds';
+import { useTrackAccess } from '../../hooks/use-track-access';
 
 /**
  * Infer a duration label from the filename or title, if present.
@@ -33,17 +31,6 @@ function inferDurationLabel(name: string): string | undefined {
   return m?.[1];
 }
 
-/**
- * Choose a brand-colored icon for a given file type
- */
-function BrandFileIcon({ item }: { item: StorageFileItem }) {
-  const cls = 'h-5 w-5 text-blue-600'; // Brand color
-  if (isVideo(item)) return <Play className={cls} />;
-  if (isSpreadsheet(item)) return <FileSpreadsheet className={cls} />;
-  if (isPdf(item) || isDoc(item)) return <FileText className={cls} />;
-  return <File className={cls} />;
-}
-
 /**
  * Return the base name of a filename by stripping the last extension.
  * Example: "Doc.Name.pdf" -> "Doc.Name"
@@ -70,10 +57,11 @@ function normalizeForCompare(s: string): string {
  * ProgramResourceRow component
  */
 export default function ProgramResourceRow({ item }: { item: StorageFileItem }) {
-  const video = isVideo(item);
+  const { playable, previewable } = describeFile(item);
+  const trackAccess = useTrackAccess();
   const title = item.title || item.filename || '';
   const filename = item.filename || '';
-  const duration = video ? inferDurationLabel(title) : undefined;
+  const duration = playable ? inferDurationLabel(title) : undefined;
 
   // Determine whether to show the subtitle (filename).
   // Hide if normalized(title) equals normalized(filename without extension).
@@ -86,7 +74,7 @@ export default function ProgramResourceRow({ item }: { item: StorageFileItem })
       <div className="flex items-center justify-between gap-3">
         {/* Left: icon + filename */}
         <div className="flex min-w-0 items-center gap-3">
-          <BrandFileIcon item={item} />
+          <FileKindIcon file={item} colorClass="text-blue-600" />
           <div className="min-w-0">
             <div className="truncate text-sm font-medium text-slate-900">
               {title}
@@ -99,27 +87,38 @@ export default function ProgramResourceRow({ item }: { item: StorageFileItem })
 
         {/* Right: optional duration + action */}
         <div className="flex shrink-0 items-center gap-3">
-          {video && duration ? (
-            <span className="text-xs text-slate-600" aria-label="Video duration">
+          {playable && duration ? (
+            <span className="text-xs text-slate-600" aria-label="Duration">
               {duration}
             </span>
           ) : null}
 
-          {video ? (
-            <a href={item.url} target="_blank" rel="noreferrer">
+          {playable ? (
+            <SignedFileLink path={item.path} onClick={() => trackAccess(item, 'play')}>
               <Button className="h-8 px-3">
                 <Play className="mr-2 h-4 w-4" />
                 Play
               </Button>
-            </a>
-          ) : (
-            <a href={item.url} target="_blank" rel="noreferrer">
+            </SignedFileLink>
+          ) : null}
+
+          {previewable && !playable ? (
+            <SignedFileLink path={item.path} onClick={() => trackAccess(item, 'view')}>
+              <Button variant="outline" className="h-8 bg-white px-3">
+                <Eye className="mr-2 h-4 w-4" />
+                Preview
+              </Button>
+            </SignedFileLink>
+          ) : null}
+
+          {!playable ? (
+            <SignedFileLink path={item.path} onClick={() => trackAccess(item, 'download')}>
               <Button className="h-8 px-3">
                 <Download className="mr-2 h-4 w-4" />
                 Download
               </Button>
-            </a>
-          )}
+            </SignedFileLink>
+          ) : null}
         </div>
       </div>
     </div>
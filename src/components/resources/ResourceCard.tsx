@@ -2,42 +2,45 @@
  * ResourceCard
  * - Purpose: Minimal, high-clarity file card for resources.
  * - Shows ONLY: icon, filename (extension removed), bookmark toggle, Download button.
- * - If item is a video, shows a Play button as well.
+ * - Playable items (video, audio) also show a Play button; other previewable items (PDF, image) a
+ *   Preview button.
+ * - Collection picker next to the bookmark toggle.
+ * - Optional selection checkbox for pages with bulk actions (Bookmarks).
  */
 
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
-import { Bookmark, BookmarkCheck, Download, File, FileSpreadsheet, FileText, Play } from 'lucide-react';
-import { useResourceBookmarkStore } from '../../stores/resourceBookmarkStore';
+import { Checkbox } from '../ui/checkbox';
+import { Bookmark, BookmarkCheck, Download, Eye, Play } from 'lucide-react';
+import { useBookmarkStore } from '../../stores/bookmarkStore';
 import { useProfileStore } from '../../stores/profileStore';
-import { trackResourceAccess } from '../../services/profileDashboardService';
 import type { StorageFileItem } from '../../services/supabaseStorage';
-import { isDoc, isPdf, isSpreadsheet, isVideo } from '../../services/supabaseStorage';
+import { describeFile } from '../../lib/fileKinds';
+import SignedFileLink from '../common/SignedFileLink';
+import FileKindIcon from '../common/FileKindIcon';
+import BookmarkCollectionPicker from './BookmarkCollectionPicker';
+import { useTrackAccess } from '../../hooks/use-track-access';
 import React from 'react';
 
 export interface ResourceCardProps {
   /** File to render */
   item: StorageFileItem;
-}
-
-/**
- * Pick an icon based on file type.
- */
-function FileIconFor(item: StorageFileItem) {
-  if (isVideo(item)) return <Play className="h-5 w-5 text-blue-600" />;
-  if (isSpreadsheet(item)) return <FileSpreadsheet className="h-5 w-5 text-emerald-600" />;
-  if (isPdf(item) || isDoc(item)) return <FileText className="h-5 w-5 text-slate-700" />;
-  return <File className="h-5 w-5 text-slate-700" />;
+  /** Selection state (checkbox shown only with onSelectedChange) */
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
+  /** Secondary line under the title, e.g. the saved date */
+  subtitle?: string;
 }
 
 /**
  * ResourceCard component
  */
-export default function ResourceCard({ item }: ResourceCardProps) {
+export default function ResourceCard({ item, selected = false, onSelectedChange, subtitle }: ResourceCardProps) {
   const { currentProfile } = useProfileStore();
-  const { isBookmarked, toggleBookmark } = useResourceBookmarkStore();
+  const { isBookmarked, toggleBookmark } = useBookmarkStore();
   
   const isSaved = isBookmarked(item.path);
+  const { playable, previewable } = describeFile(item);
 
   const handleBookmarkToggle = async () => {
     if (!currentProfile?.id) return;
@@ -49,53 +52,59 @@ export default function ResourceCard({ item }: ResourceCardProps) {
     }
   };
 
-  const handleResourceAccess = async () => {
-    if (!currentProfile?.id) return;
-
-    try {
-      await trackResourceAccess(currentProfile.id, {
-        name: item.title || item.filename,
-        path: item.path,
-        url: item.url,
-        programSlug: item.path.split('/')[0], // First part of path is usually program
-        mimeType: item.mimeType,
-      });
-    } catch (error) {
-      console.error('Failed to track resource access:', error);
-    }
-  };
+  const trackAccess = useTrackAccess();
 
   return (
     <Card className="hover:shadow-md transition-shadow">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-        <div className="flex items-center gap-2">
-          {FileIconFor(item)}
-          <CardTitle className="text-sm font-medium text-slate-900">{item.title}</CardTitle>
+        <div className="flex min-w-0 items-center gap-2">
+          {onSelectedChange ? (
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+              aria-label={`Select ${item.title}`}
+            />
+          ) : null}
+          <FileKindIcon file={item} />
+          <div className="min-w-0">
+            <CardTitle className="text-sm font-medium text-slate-900">{item.title}</CardTitle>
+            {subtitle ? <div className="mt-0.5 text-xs text-slate-500">{subtitle}</div> : null}
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center">
+          <BookmarkCollectionPicker item={item} />
+          <button
+            aria-label={isSaved ? 'Remove bookmark' : 'Add bookmark'}
+            onClick={handleBookmarkToggle}
+            className="rounded-md p-2 hover:bg-slate-100"
+            title={isSaved ? 'Unbookmark' : 'Bookmark'}
+          >
+            {isSaved ? <BookmarkCheck className="h-5 w-5 text-blue-600" /> : <Bookmark className="h-5 w-5 text-slate-500" />}
+          </button>
         </div>
-        <button
-          aria-label={isSaved ? 'Remove bookmark' : 'Add bookmark'}
-          onClick={handleBookmarkToggle}
-          className="rounded-md p-2 hover:bg-slate-100"
-          title={isSaved ? 'Unbookmark' : 'Bookmark'}
-        >
-          {isSaved ? <BookmarkCheck className="h-5 w-5 text-blue-600" /> : <Bookmark className="h-5 w-5 text-slate-500" />}
-        </button>
       </CardHeader>
       <CardContent className="flex items-center justify-end gap-2">
-        {isVideo(item) ? (
-          <a href={item.url} target="_blank" rel="noreferrer" onClick={handleResourceAccess}>
+        {playable ? (
+          <SignedFileLink path={item.path} onClick={() => trackAccess(item, 'play')}>
             <Button variant="outline" className="bg-white">
               <Play className="mr-2 h-4 w-4" />
               Play
             </Button>
-          </a>
+          </SignedFileLink>
+        ) : previewable ? (
+          <SignedFileLink path={item.path} onClick={() => trackAccess(item, 'view')}>
+            <Button variant="outline" className="bg-white">
+              <Eye className="mr-2 h-4 w-4" />
+              Preview
+            </Button>
+          </SignedFileLink>
         ) : null}
-        <a href={item.url} target="_blank" rel="noreferrer" onClick={handleResourceAccess}>
+        <SignedFileLink path={item.path} onClick={() => trackAccess(item, 'download')}>
           <Button>
             <Download className="mr-2 h-4 w-4" />
             Download
           </Button>
-        </a>
+        </SignedFileLink>
       </CardContent>
     </Card>
   );
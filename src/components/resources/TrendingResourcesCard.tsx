@@ -0,0 +1,122 @@
+/**
+ * TrendingResourcesCard
+ * - Purpose: Dashboard list of what peer pharmacies use: "Trending this week" across the library, or
+ *   the most downloaded files of one program (trendingService).
+ * - Shows only anonymous totals (pharmacies and uses); loads on its own so a failure never blocks
+ *   the rest of the dashboard.
+ */
+
+import { useEffect, useState } from 'react';
+import { Download, ExternalLink, TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import FileKindIcon from '../common/FileKindIcon';
+import SignedFileLink from '../common/SignedFileLink';
+import { useTrackAccess } from '@/hooks/use-track-access';
+import { usePrograms } from '@/stores/programStore';
+import { getMostDownloaded, getTrendingResources, type TrendingResource } from '@/services/trendingService';
+
+/** Select value for the network-wide list */
+const ALL = 'all';
+/** Rows shown */
+const LIST_LIMIT = 5;
+
+export default function TrendingResourcesCard() {
+  const programs = usePrograms();
+  const trackAccess = useTrackAccess();
+  const [scope, setScope] = useState<string>(ALL);
+  const [items, setItems] = useState<TrendingResource[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setFailed(false);
+    const request =
+      scope === ALL ? getTrendingResources({ limit: LIST_LIMIT }) : getMostDownloaded(scope, { limit: LIST_LIMIT });
+    request
+      .then((next) => {
+        if (!cancelled) setItems(next);
+      })
+      .catch((error) => {
+        console.error('Failed to load trending resources:', error);
+        if (!cancelled) {
+          setItems([]);
+          setFailed(true);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  const downloads = scope !== ALL;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1.5">
+        <CardTitle className="flex items-center gap-1.5 text-sm">
+          <TrendingUp className="h-4 w-4 text-blue-600" />
+          {downloads ? 'Most downloaded' : 'Trending this week'}
+        </CardTitle>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="h-8 w-48 text-[12px]" aria-label="Trending list">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All resources</SelectItem>
+            {programs.map((p) => (
+              <SelectItem key={p.slug} value={p.slug}>
+                {p.shortName || p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-1 text-[12px] text-slate-500">
+          {downloads
+            ? 'Downloads across member pharmacies in the last 90 days'
+            : 'What member pharmacies opened most in the last 7 days'}
+        </div>
+        {items.length === 0 ? (
+          <div className="py-2 text-[13px] text-slate-600">
+            {loading ? 'Loading…' : failed ? 'Trending resources are unavailable right now.' : 'Not enough activity yet.'}
+          </div>
+        ) : (
+          <ol className="divide-y">
+            {items.map((item, i) => (
+              <li key={item.path} className="flex items-center justify-between gap-3 py-2">
+                <div className="flex min-w-0 items-center gap-2">
+                  <span className="w-4 shrink-0 text-right text-[12px] text-slate-400">{i + 1}</span>
+                  <FileKindIcon file={item} className="h-4 w-4 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="truncate text-[13px] font-medium">{item.title}</div>
+                    <div className="text-[12px] text-slate-500">
+                      {item.pharmacyCount} {item.pharmacyCount === 1 ? 'pharmacy' : 'pharmacies'} •{' '}
+                      {item.accessCount} {downloads ? 'downloads' : 'uses'}
+                    </div>
+                  </div>
+                </div>
+                <SignedFileLink
+                  path={item.path}
+                  onClick={() => trackAccess(item, downloads ? 'download' : 'view')}
+                >
+                  <Button size="sm" variant="outline" className="bg-transparent h-8 px-3">
+                    {downloads ? <Download className="mr-2 h-3.5 w-3.5" /> : <ExternalLink className="mr-2 h-3.5 w-3.5" />}
+                    {downloads ? 'Download' : 'Open'}
+                  </Button>
+                </SignedFileLink>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
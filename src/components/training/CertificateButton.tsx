@@ -0,0 +1,55 @@
+/**
+ * CertificateButton
+ * - Purpose: Download the current profile's certificate of completion for a program as a PDF.
+ * - The certificate is issued on first download (or the existing one reused) so the PDF always
+ *   carries a verification code that /verify/:code recognizes.
+ */
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Award } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useProfileStore } from '../../stores/profileStore';
+import { certificateVerifyUrl, issueCertificate } from '../../services/certificateService';
+import { buildCertificatePdf } from '../../lib/certificatePdf';
+import { downloadBlob } from '../../lib/download';
+
+export interface CertificateButtonProps {
+  programSlug: string;
+  className?: string;
+}
+
+/** File name safe on every OS */
+function fileNamePart(text: string): string {
+  return text.replace(/[\\/:*?"<>|]+/g, '').trim();
+}
+
+export default function CertificateButton({ programSlug, className }: CertificateButtonProps) {
+  const profileId = useProfileStore((s) => s.currentProfile?.id);
+  const [busy, setBusy] = useState(false);
+
+  const download = async () => {
+    if (!profileId) return;
+    setBusy(true);
+    try {
+      const certificate = await issueCertificate(profileId, programSlug);
+      const pdf = await buildCertificatePdf(certificate, certificateVerifyUrl(certificate.verificationCode));
+      downloadBlob(
+        `Certificate - ${fileNamePart(certificate.programName)} - ${fileNamePart(certificate.recipientName)}.pdf`,
+        new window.Blob([new Uint8Array(pdf)], { type: 'application/pdf' })
+      );
+    } catch (error) {
+      console.error('Failed to create certificate:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not create the certificate');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Button size="sm" variant="outline" className={className} onClick={download} disabled={!profileId || busy}>
+      <Award className="mr-2 h-4 w-4" />
+      {busy ? 'Preparing…' : 'Download certificate'}
+    </Button>
+  );
+}
@@ -5,8 +5,18 @@
  * - Behavior:
  *   - Filters training items into videos vs. other files.
  *   - Select and play a video; supports prev/next.
- *   - Remembers last watched video per program using localStorage.
+ *   - Progress is kept per lesson (useLessonProgress): segments played, last position, completion.
+ *     Each lesson resumes where it was left. Only continuous playback between timeupdates counts as
+ *     watched (seeks add nothing); a lesson completes once the program's completion threshold of it
+ *     has been watched, and program progress is the share of completed lessons.
+ *   - When the program has a quiz (useTrainingQuiz), a knowledge check step follows the last lesson;
+ *     it unlocks once every lesson is completed and passing it completes the program.
+ *   - A completed program offers its certificate of completion as a PDF (CertificateButton).
+ *   - Opens on initialVideoPath when given (dashboard "continue" link), otherwise on the lesson last
+ *     watched; plays are recorded in recent activity.
  *   - Lists non-video files as related downloads.
+ *   - Plays from a signed URL; when it is re-signed (near expiry or after a media error) the new
+ *     source resumes at the same position and play state.
  */
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
@@ -14,17 +24,20 @@ import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { ScrollArea } from '../ui/scroll-area';
-import { ChevronLeft, ChevronRight, Play, Download, Film, CheckCircle2 } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Play, Download, Film, CheckCircle2, ClipboardCheck, Lock } from 'lucide-react';
 import type { StorageFileItem } from '../../services/supabaseStorage';
-import { isVideo } from '../../services/supabaseStorage';
+import { isVideo } from '../../lib/fileKinds';
 import { useProfileStore } from '../../stores/profileStore';
-import { 
-  startTrainingModule, 
-  updateTrainingProgress, 
-  completeTrainingModule,
-  getModuleProgress,
-  type TrainingProgress 
-} from '../../services/profileDashboardService';
+import SignedFileLink from '../common/SignedFileLink';
+import { useSignedUrl } from '../../hooks/use-signed-url';
+import { useTrackAccess } from '../../hooks/use-track-access';
+import { useLessonProgress } from '../../hooks/use-lesson-progress';
+import { useTrainingQuiz } from '../../hooks/use-training-quiz';
+import { DEFAULT_COMPLETION_THRESHOLD } from '../../services/programDefaults';
+import { modulePercentage, type LessonProgress } from '../../services/lessonProgressService';
+import type { QuizAnswers } from '../../services/quizService';
+import TrainingQuiz from './TrainingQuiz';
+import CertificateButton from './CertificateButton';
 
 /**
  * Props for TrainingPlayer
@@ -38,6 +51,10 @@ export interface TrainingPlayerProps {
   programDescription?: string;
   /** All training files (videos and other related files) */
   items: StorageFileItem[];
+  /** Video to open first (object path), e.g. from ?video= */
+  initialVideoPath?: string | null;
+  /** Share of each video to watch for completion (program rule; default 90%) */
+  completionThreshold?: number;
 }
 
 /**
@@ -85,11 +102,26 @@ function inferDurationLabel(name: string): string | undefined {
   return m?.[1];
 }
 
+/** Playback jumps larger than this between timeupdates are seeks, not watching (seconds) */
+const MAX_PLAYBACK_STEP = 2;
+/** Saved positions this close to either end start the lesson from the beginning (seconds) */
+const RESUME_MARGIN = 5;
+
+/**
+ * Seconds → "m:ss"
+ */
+function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
 /**
- * Generate unique training module ID from program slug
+ * Saved position to resume a lesson at, if any.
  */
-function getTrainingModuleId(programSlug: string): string {
-  return `training_${programSlug}`;
+function resumePosition(lesson: LessonProgress | undefined): number {
+  if (!lesson || lesson.positionSeconds < RESUME_MARGIN) return 0;
+  if (lesson.durationSeconds && lesson.positionSeconds > lesson.durationSeconds - RESUME_MARGIN) return 0;
+  return lesson.positionSeconds;
 }
 
 /**
@@ -99,17 +131,21 @@ function PlaylistRow({
   item,
   active,
   index,
-  completed,
+  lesson,
   onSelect,
 }: {
   item: StorageFileItem;
   active: boolean;
   index: number;
-  completed: boolean;
+  lesson?: LessonProgress;
   onSelect: () => void;
 }) {
   const title = item.title || item.filename || `Lesson ${index + 1}`;
   const duration = inferDurationLabel(title);
+  const completed = !!lesson?.completed;
+  const resumeAt = completed ? 0 : resumePosition(lesson);
+  const watchedPct =
+    !completed && lesson?.durationSeconds ? Math.floor((lesson.watchedSeconds / lesson.durationSeconds) * 100) : 0;
   return (
     <button
       type="button"
@@ -135,6 +171,13 @@ function PlaylistRow({
           {item.filename ? (
             <div className="mt-0.5 truncate text-[11px] text-slate-500">{item.filename}</div>
           ) : null}
+          {resumeAt > 0 || watchedPct > 0 ? (
+            <div className="mt-0.5 text-[11px] text-blue-700">
+              {[resumeAt > 0 && `Resume at ${formatClock(resumeAt)}`, watchedPct > 0 && `${Math.min(watchedPct, 99)}% watched`]
+                .filter(Boolean)
+                .join(' • ')}
+            </div>
+          ) : null}
         </div>
         {duration ? <span className="shrink-0 text-xs text-slate-500">{duration}</span> : null}
       </div>
@@ -150,9 +193,11 @@ export default function TrainingPlayer({
   programName,
   programDescription,
   items,
+  initialVideoPath,
+  completionThreshold = DEFAULT_COMPLETION_THRESHOLD,
 }: TrainingPlayerProps) {
   const { currentProfile } = useProfileStore();
-  const trainingModuleId = getTrainingModuleId(programSlug);
+  const trackAccess = useTrackAccess();
   
   // Partition items into videos and related files
   const { videos, related } = useMemo(() => {
@@ -163,60 +208,45 @@ export default function TrainingPlayer({
   }, [items]);
 
   const [index, setIndex] = useState<number>(0);
-  const [progress, setProgress] = useState<TrainingProgress | null>(null);
-  const [loading, setLoading] = useState(true);
+  // Knowledge check step shown instead of the video
+  const [quizOpen, setQuizOpen] = useState(false);
+  const lessonPaths = useMemo(() => videos.map((v) => v.path), [videos]);
+  const {
+    quiz,
+    attempts: quizAttempts,
+    passed: quizPassed,
+    remaining: quizRemaining,
+    start: startQuiz,
+    submit: submitQuiz,
+  } = useTrainingQuiz(programSlug);
+  const { lessons, summary, module: progress, loaded, record, flush, refreshModule } = useLessonProgress(
+    programSlug,
+    programName,
+    lessonPaths,
+    { completionThreshold, requiresQuiz: !!quiz }
+  );
+  const moduleCompleted = progress?.completionStatus === 'completed' || (summary.completed && !quiz);
 
-  // Load training progress when profile or program changes
+  // Without a requested video, open the lesson last watched (once per program)
+  const openedRef = useRef<string | null>(null);
   useEffect(() => {
-    if (!currentProfile?.id) return;
-    
-    const loadProgress = async () => {
-      try {
-        setLoading(true);
-        const moduleProgress = await getModuleProgress(currentProfile.id, trainingModuleId);
-        setProgress(moduleProgress);
-        
-        // If no progress exists, start the training module
-        if (!moduleProgress && videos.length > 0) {
-          await startTrainingModule(currentProfile.id, trainingModuleId, programName);
-          const newProgress = await getModuleProgress(currentProfile.id, trainingModuleId);
-          setProgress(newProgress);
-        }
-      } catch (error) {
-        console.error('Failed to load training progress:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    loadProgress();
-  }, [currentProfile?.id, trainingModuleId, programName, videos.length]);
+    if (!loaded || !currentProfile?.id || initialVideoPath || openedRef.current === programSlug) return;
+    openedRef.current = programSlug;
+    let latest = -1;
+    videos.forEach((v, i) => {
+      const at = lessons.get(v.path)?.updatedAt ?? '';
+      if (at && (latest < 0 || at > (lessons.get(videos[latest].path)?.updatedAt ?? ''))) latest = i;
+    });
+    if (latest >= 0) setIndex(latest);
+  }, [loaded, currentProfile?.id, initialVideoPath, programSlug, videos, lessons]);
 
-  // Update progress when video index changes
+  // Jump to the requested video once it is in the list
   useEffect(() => {
-    if (!currentProfile?.id || videos.length === 0) return;
-    
-    const updateProgress = async () => {
-      try {
-        const completionPercentage = Math.round(((index + 1) / videos.length) * 100);
-        const isCompleted = index >= videos.length - 1;
-        
-        if (isCompleted) {
-          await completeTrainingModule(currentProfile.id, trainingModuleId);
-        } else {
-          await updateTrainingProgress(currentProfile.id, trainingModuleId, completionPercentage);
-        }
-        
-        // Refresh progress state
-        const updatedProgress = await getModuleProgress(currentProfile.id, trainingModuleId);
-        setProgress(updatedProgress);
-      } catch (error) {
-        console.error('Failed to update training progress:', error);
-      }
-    };
-    
-    updateProgress();
-  }, [currentProfile?.id, trainingModuleId, index, videos.length]);
+    if (!initialVideoPath) return;
+    const target = initialVideoPath.replace(/^\/+/, '');
+    const found = videos.findIndex((v) => v.path === target);
+    if (found >= 0) setIndex(found);
+  }, [initialVideoPath, videos]);
 
   // When video list changes (e.g., program change), clamp index
   useEffect(() => {
@@ -225,6 +255,9 @@ export default function TrainingPlayer({
 
   const current = videos[index] || null;
 
+  // Signed source for the current video (re-signed before expiry)
+  const { url: videoUrl, refresh: refreshVideoUrl } = useSignedUrl(current?.path);
+
   // Video element ref to auto-play on change (best-effort)
   const videoRef = useRef<HTMLVideoElement | null>(null);
   useEffect(() => {
@@ -233,13 +266,92 @@ export default function TrainingPlayer({
       // Attempt to start playback; ignore autoplay rejections
       el.play().catch(() => {});
     }
-  }, [current?.url]);
+  }, [current?.path]);
+
+  // Position to restore when the same video gets a new URL
+  const resumeRef = useRef<{ path: string; time: number; playing: boolean } | null>(null);
+  // Last playback time seen, to count the segment played between timeupdates
+  const lastTimeRef = useRef<number | null>(null);
+  const rememberPosition = () => {
+    const el = videoRef.current;
+    // readyState 0: the element is being reset for a new source; keep the last real position
+    if (!el || !current || el.readyState === 0) return;
+    resumeRef.current = { path: current.path, time: el.currentTime, playing: !el.paused };
+  };
+  const restorePosition = () => {
+    const el = videoRef.current;
+    if (!el || !current) return;
+    const resume = resumeRef.current;
+    // Re-signed URL: same video, same spot and play state
+    if (resume && resume.path === current.path && resume.time > 0) {
+      el.currentTime = resume.time;
+      if (resume.playing) el.play().catch(() => {});
+    } else {
+      // First load of this lesson: continue from the saved position
+      const saved = resumePosition(lessons.get(current.path));
+      if (saved > 0) el.currentTime = saved;
+    }
+    lastTimeRef.current = el.currentTime;
+  };
+  /** Record playback since the last update (seeks, forward or back, add no watched segment) */
+  const recordPlayback = (ended = false) => {
+    const el = videoRef.current;
+    if (!el || !current || el.readyState === 0) return;
+    const from = lastTimeRef.current;
+    lastTimeRef.current = el.currentTime;
+    const step = from === null ? 0 : el.currentTime - from;
+    record(current.path, {
+      position: el.currentTime,
+      duration: el.duration,
+      segment: from !== null && step > 0 && step <= MAX_PLAYBACK_STEP ? [from, el.currentTime] : undefined,
+      ended,
+    });
+  };
+  const handleTimeUpdate = () => {
+    rememberPosition();
+    recordPlayback();
+  };
+  const handlePause = () => {
+    rememberPosition();
+    recordPlayback();
+    void flush();
+  };
+
+  // Save the lesson being left when switching videos
+  useEffect(() => {
+    lastTimeRef.current = null;
+    return () => {
+      void flush();
+    };
+  }, [current?.path, flush]);
+  // Expired URL mid-session surfaces as a media error: re-sign and resume (at most every 30 s)
+  const lastErrorRefreshRef = useRef(0);
+  const handleVideoError = () => {
+    if (Date.now() - lastErrorRefreshRef.current < 30_000) return;
+    lastErrorRefreshRef.current = Date.now();
+    rememberPosition();
+    refreshVideoUrl();
+  };
 
-  // Navigation
+  // Navigation (the quiz step comes after the last lesson)
+  const openLesson = (i: number) => {
+    setQuizOpen(false);
+    setIndex(i);
+  };
+  const openQuiz = () => {
+    void flush();
+    setQuizOpen(true);
+  };
   const hasPrev = index > 0;
-  const hasNext = index < videos.length - 1;
-  const handlePrev = () => setIndex((i) => Math.max(0, i - 1));
-  const handleNext = () => setIndex((i) => Math.min(videos.length - 1, i + 1));
+  // The quiz unlocks after the last lesson (start/submit enforce this on the server too)
+  const hasNext = index < videos.length - 1 || (!!quiz && summary.completed);
+  const handlePrev = () => openLesson(Math.max(0, index - 1));
+  const handleNext = () => (index < videos.length - 1 ? openLesson(index + 1) : openQuiz());
+  const handleQuizSubmit = async (answers: QuizAnswers) => {
+    const result = await submitQuiz(answers);
+    await refreshModule();
+    return result;
+  };
 
   // Derived labels
   const title = safeText(current?.title || current?.filename || programName);
@@ -258,69 +370,94 @@ export default function TrainingPlayer({
               <Badge variant="secondary" className="bg-slate-100 text-slate-700">
                 Training
               </Badge>
-              {progress && (
+              {videos.length > 0 && loaded && (
                 <Badge 
-                  variant={progress.completionStatus === 'completed' ? 'default' : 'outline'}
-                  className={progress.completionStatus === 'completed' ? 'bg-green-600' : ''}
+                  variant={moduleCompleted ? 'default' : 'outline'}
+                  className={moduleCompleted ? 'bg-green-600' : ''}
                 >
-                  {progress.completionPercentage}% Complete
+                  {summary.completedLessons}/{summary.totalLessons} lessons
+                  {quiz ? ` • quiz ${quizPassed ? 'passed' : 'pending'}` : ''} •{' '}
+                  {moduleCompleted ? 100 : modulePercentage(summary, !!quiz)}% Complete
                 </Badge>
               )}
             </CardTitle>
           </CardHeader>
-          {programDescription ? (
+          {programDescription || progress?.completionStatus === 'completed' ? (
             <CardContent className="pt-0">
-              <p className="text-sm text-slate-600">{programDescription}</p>
-              {progress && progress.completionStatus === 'completed' && (
-                <div className="mt-2 flex items-center gap-2 text-sm text-green-600">
-                  <CheckCircle2 className="h-4 w-4" />
-                  <span>Training completed on {new Date(progress.completedTime!).toLocaleDateString()}</span>
+              {programDescription ? <p className="text-sm text-slate-600">{programDescription}</p> : null}
+              {progress && progress.completionStatus === 'completed' && progress.completedTime && (
+                <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-2 text-sm text-green-600">
+                  <span className="flex items-center gap-2">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Training completed on {new Date(progress.completedTime).toLocaleDateString()}
+                  </span>
+                  <CertificateButton programSlug={programSlug} className="h-8 bg-transparent px-3" />
                 </div>
               )}
             </CardContent>
           ) : null}
         </Card>
 
-        {/* Video player */}
-        <Card>
-          <CardContent className="p-3 sm:p-4">
-            {current ? (
-              <div className="space-y-3">
-                <div className="aspect-video w-full overflow-hidden rounded-md bg-slate-100">
-                  <video
-                    ref={videoRef}
-                    key={current.url}
-                    controls
-                    preload="metadata"
-                    className="h-full w-full rounded-md"
-                    src={current.url}
-                  />
-                </div>
-
-                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                  <div>
-                    <div className="text-base font-semibold text-slate-900">{title}</div>
-                    {duration ? <div className="text-xs text-slate-500">{duration}</div> : null}
+        {/* Knowledge check or video player */}
+        {quizOpen && quiz ? (
+          <TrainingQuiz
+            quiz={quiz}
+            attempts={quizAttempts}
+            remaining={quizRemaining}
+            lessonsLeft={summary.totalLessons - summary.completedLessons}
+            onStart={startQuiz}
+            onSubmit={handleQuizSubmit}
+          />
+        ) : (
+          <Card>
+            <CardContent className="p-3 sm:p-4">
+              {current ? (
+                <div className="space-y-3">
+                  <div className="aspect-video w-full overflow-hidden rounded-md bg-slate-100">
+                    <video
+                      ref={videoRef}
+                      key={current.path}
+                      controls
+                      preload="metadata"
+                      className="h-full w-full rounded-md"
+                      src={videoUrl ?? undefined}
+                      onTimeUpdate={handleTimeUpdate}
+                      onPause={handlePause}
+                      onSeeked={() => {
+                        lastTimeRef.current = videoRef.current?.currentTime ?? null;
+                      }}
+                      onEnded={() => recordPlayback(true)}
+                      onLoadedMetadata={restorePosition}
+                      onPlay={() => trackAccess(current, 'play')}
+                      onError={handleVideoError}
+                    />
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Button variant="outline" size="sm" onClick={handlePrev} disabled={!hasPrev} className="h-8 px-2">
-                      <ChevronLeft className="mr-1 h-4 w-4" />
-                      Prev
-                    </Button>
-                    <Button size="sm" onClick={handleNext} disabled={!hasNext} className="h-8 px-2">
-                      Next
-                      <ChevronRight className="ml-1 h-4 w-4" />
-                    </Button>
+
+                  <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                    <div>
+                      <div className="text-base font-semibold text-slate-900">{title}</div>
+                      {duration ? <div className="text-xs text-slate-500">{duration}</div> : null}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={handlePrev} disabled={!hasPrev} className="h-8 px-2">
+                        <ChevronLeft className="mr-1 h-4 w-4" />
+                        Prev
+                      </Button>
+                      <Button size="sm" onClick={handleNext} disabled={!hasNext} className="h-8 px-2">
+                        Next
+                        <ChevronRight className="ml-1 h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ) : (
-              <div className="rounded-md border border-dashed bg-white p-6 text-center text-sm text-slate-600">
-                No training videos available.
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              ) : (
+                <div className="rounded-md border border-dashed bg-white p-6 text-center text-sm text-slate-600">
+                  No training videos available.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         {/* Related non-video training files */}
         {related.length > 0 ? (
@@ -340,12 +477,12 @@ export default function TrainingPlayer({
                       <div className="truncate text-[11px] text-slate-500">{f.filename}</div>
                     ) : null}
                   </div>
-                  <a href={f.url} target="_blank" rel="noreferrer">
+                  <SignedFileLink path={f.path} onClick={() => trackAccess(f, 'download')}>
                     <Button className="h-8 px-3">
                       <Download className="mr-2 h-4 w-4" />
                       Download
                     </Button>
-                  </a>
+                  </SignedFileLink>
                 </div>
               ))}
             </CardContent>
@@ -359,6 +496,11 @@ export default function TrainingPlayer({
           <div className="h-1 bg-gradient-to-r from-blue-600 via-cyan-500 to-teal-300" />
           <CardHeader className="pb-2">
             <CardTitle className="text-lg">Course content</CardTitle>
+            {videos.length > 0 ? (
+              <div className="text-[12px] text-slate-500">
+                Watch {Math.round(completionThreshold * 100)}% of each lesson to complete it
+              </div>
+            ) : null}
           </CardHeader>
           <CardContent className="p-0">
             {videos.length === 0 ? (
@@ -370,12 +512,42 @@ export default function TrainingPlayer({
                     <PlaylistRow
                       key={v.path}
                       item={v}
-                      active={i === index}
+                      active={!quizOpen && i === index}
                       index={i}
-                      completed={progress ? i < (videos.length * (progress.completionPercentage / 100)) : false}
-                      onSelect={() => setIndex(i)}
+                      lesson={lessons.get(v.path)}
+                      onSelect={() => openLesson(i)}
                     />
                   ))}
+                  {quiz ? (
+                    <button
+                      type="button"
+                      onClick={openQuiz}
+                      disabled={!summary.completed}
+                      className={[
+                        'w-full rounded-md border px-3 py-2 text-left transition-colors disabled:cursor-not-allowed',
+                        quizOpen ? 'border-blue-600 bg-blue-50' : summary.completed ? 'hover:bg-slate-50' : '',
+                      ].join(' ')}
+                      aria-current={quizOpen ? 'true' : 'false'}
+                    >
+                      <div className="flex items-center gap-2">
+                        {quizPassed ? (
+                          <CheckCircle2 className="h-4 w-4 text-green-600" />
+                        ) : summary.completed ? (
+                          <ClipboardCheck className={['h-4 w-4', quizOpen ? 'text-blue-600' : 'text-slate-400'].join(' ')} />
+                        ) : (
+                          <Lock className="h-4 w-4 text-slate-400" />
+                        )}
+                        <span className="truncate text-sm text-slate-800">Knowledge check</span>
+                      </div>
+                      <div className="mt-0.5 text-[11px] text-slate-500">
+                        {quizPassed
+                          ? 'Passed'
+                          : summary.completed
+                            ? `Pass mark ${quiz.passPercentage}%`
+                            : 'Unlocks after the last lesson'}
+                      </div>
+                    </button>
+                  ) : null}
                 </div>
               </ScrollArea>
             )}
@@ -0,0 +1,224 @@
+/**
+ * TrainingQuiz
+ * - Purpose: Knowledge check step of TrainingPlayer, after the last lesson.
+ * - Steps: intro (pass mark, attempts) → questions (drawn from the bank by the server per attempt) → result.
+ * - Locked until every lesson is completed; once passed it only shows the result. Scoring happens on
+ *   the server (quizService), so the correct answers are never shown.
+ */
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { CheckCircle2, ClipboardCheck, Lock, RotateCcw, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Checkbox } from '../ui/checkbox';
+import { Label } from '../ui/label';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import {
+  isQuestionAnswered,
+  type QuizAnswers,
+  type QuizAttempt,
+  type QuizQuestion,
+  type QuizResult,
+  type TrainingQuiz as TrainingQuizData,
+} from '../../services/quizService';
+
+export interface TrainingQuizProps {
+  quiz: TrainingQuizData;
+  /** The current profile's attempts, oldest first */
+  attempts: QuizAttempt[];
+  /** Attempts left (undefined = unlimited) */
+  remaining?: number;
+  /** Lessons still to complete before the quiz unlocks */
+  lessonsLeft: number;
+  /** Questions for a new (or resumed) attempt */
+  onStart: () => Promise<QuizQuestion[]>;
+  onSubmit: (answers: QuizAnswers) => Promise<QuizResult>;
+}
+
+/**
+ * One question with radio (single answer) or checkbox (multi-select) choices.
+ */
+function QuestionField({
+  question,
+  number,
+  selected,
+  onChange,
+}: {
+  question: QuizQuestion;
+  number: number;
+  selected: number[];
+  onChange: (next: number[]) => void;
+}) {
+  const inputId = (i: number) => `quiz-${question.id}-${i}`;
+  return (
+    <fieldset className="space-y-2 rounded-md border bg-white p-3">
+      <legend className="px-1 text-sm font-medium text-slate-900">
+        {number}. {question.prompt}
+      </legend>
+      {question.type === 'multi_select' ? (
+        <>
+          <div className="text-[12px] text-slate-500">Select all that apply</div>
+          {question.options.map((option, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Checkbox
+                id={inputId(i)}
+                checked={selected.includes(i)}
+                onCheckedChange={(checked) =>
+                  onChange(checked ? [...selected, i].sort((a, b) => a - b) : selected.filter((s) => s !== i))
+                }
+              />
+              <Label htmlFor={inputId(i)} className="text-sm font-normal">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </>
+      ) : (
+        <RadioGroup value={selected.length ? String(selected[0]) : ''} onValueChange={(v) => onChange([Number(v)])}>
+          {question.options.map((option, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <RadioGroupItem id={inputId(i)} value={String(i)} />
+              <Label htmlFor={inputId(i)} className="text-sm font-normal">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      )}
+    </fieldset>
+  );
+}
+
+/**
+ * TrainingQuiz component
+ */
+export default function TrainingQuiz({ quiz, attempts, remaining, lessonsLeft, onStart, onSubmit }: TrainingQuizProps) {
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [starting, setStarting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<QuizResult | null>(null);
+
+  const passedAttempt = attempts.find((a) => a.passed);
+  const last = result ?? attempts[attempts.length - 1];
+  const outOfAttempts = remaining === 0 && !passedAttempt;
+  const complete = !!questions && questions.every((q) => isQuestionAnswered(q, answers[q.id]));
+  const questionCount = Math.min(quiz.questionsPerAttempt ?? quiz.questions.length, quiz.questions.length);
+
+  const start = async () => {
+    setStarting(true);
+    try {
+      const drawn = await onStart();
+      if (drawn.length === 0) throw new Error('This quiz has no questions yet');
+      setQuestions(drawn);
+      setAnswers({});
+      setResult(null);
+    } catch (error) {
+      console.error('Failed to start quiz:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not start the quiz');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const submit = async () => {
+    if (!questions || !complete) return;
+    setSubmitting(true);
+    try {
+      const next = await onSubmit(Object.fromEntries(questions.map((q) => [q.id, answers[q.id]])));
+      setResult(next);
+      setQuestions(null);
+      if (next.passed) toast.success('Knowledge check passed');
+    } catch (error) {
+      console.error('Failed to submit quiz:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not submit the quiz');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex flex-wrap items-center gap-2 text-lg">
+          <ClipboardCheck className="h-5 w-5 text-blue-600" />
+          {quiz.title}
+          {passedAttempt ? <Badge className="bg-green-600">Passed</Badge> : null}
+        </CardTitle>
+        {quiz.description ? <p className="text-sm text-slate-600">{quiz.description}</p> : null}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {lessonsLeft > 0 && !passedAttempt ? (
+          <div className="flex items-center gap-2 rounded-md border border-dashed bg-slate-50 p-4 text-sm text-slate-600">
+            <Lock className="h-4 w-4 shrink-0" />
+            Complete the remaining {lessonsLeft === 1 ? 'lesson' : `${lessonsLeft} lessons`} to unlock the knowledge
+            check.
+          </div>
+        ) : questions ? (
+          <>
+            {questions.map((q, i) => (
+              <QuestionField
+                key={q.id}
+                question={q}
+                number={i + 1}
+                selected={answers[q.id] ?? []}
+                onChange={(next) => setAnswers((prev) => ({ ...prev, [q.id]: next }))}
+              />
+            ))}
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[12px] text-slate-500">
+                {questions.filter((q) => isQuestionAnswered(q, answers[q.id])).length}/{questions.length} answered
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setQuestions(null)} disabled={submitting}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={submit} disabled={!complete || submitting}>
+                  {submitting ? 'Submitting…' : 'Submit answers'}
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            {last ? (
+              <div
+                className={[
+                  'flex items-center gap-2 rounded-md border p-3 text-sm',
+                  last.passed ? 'border-green-200 bg-green-50 text-green-800' : 'border-amber-200 bg-amber-50 text-amber-800',
+                ].join(' ')}
+              >
+                {last.passed ? <CheckCircle2 className="h-4 w-4 shrink-0" /> : <XCircle className="h-4 w-4 shrink-0" />}
+                <span>
+                  {last.passed ? 'Passed' : 'Not passed'} with {last.scorePercentage}% ({last.correctCount}/
+                  {last.questionCount} correct) on {new Date(last.submittedAt).toLocaleDateString()}
+                </span>
+              </div>
+            ) : null}
+            <ul className="space-y-0.5 text-sm text-slate-600">
+              <li>
+                {questionCount} {questionCount === 1 ? 'question' : 'questions'} • pass mark {quiz.passPercentage}%
+              </li>
+              <li>
+                {attempts.length} {attempts.length === 1 ? 'attempt' : 'attempts'} used
+                {remaining !== undefined ? ` • ${remaining} remaining` : ''}
+              </li>
+            </ul>
+            {passedAttempt ? null : outOfAttempts ? (
+              <p className="text-sm text-slate-600">
+                No attempts remaining. Contact your program administrator to reset your attempts.
+              </p>
+            ) : (
+              <Button size="sm" onClick={start} disabled={starting}>
+                {attempts.length > 0 ? <RotateCcw className="mr-2 h-4 w-4" /> : null}
+                {attempts.length > 0 ? 'Retake quiz' : 'Start quiz'}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Data provider config helpers
+ * - Purpose: Decide which DataProvider implementation backs the app (Supabase or in-memory demo data).
+ * - Reads from the build-time env first, then an optional browser localStorage override, then defaults to Supabase.
+ *
+ * Notes:
+ * - Switch a browser into offline/demo mode without rebuilding:
+ *   localStorage.setItem('DATA_PROVIDER', 'memory')
+ * - Remove the key (or set it to 'supabase') to go back to the live backend.
+ */
+
+/** Supported data provider kinds */
+export type DataProviderKind = 'supabase' | 'memory';
+
+/**
+ * Safely read a value from localStorage (browser only).
+ * @param key localStorage key
+ * @returns string value or '' if unavailable
+ */
+function readLocalStorage(key: string): string {
+  try {
+    if (typeof window === 'undefined') return '';
+    return window.localStorage.getItem(key) || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Normalize a raw setting into a known provider kind.
+ */
+function toKind(value: string | undefined): DataProviderKind | null {
+  const v = (value || '').trim().toLowerCase();
+  if (v === 'memory' || v === 'demo') return 'memory';
+  if (v === 'supabase') return 'supabase';
+  return null;
+}
+
+/**
+ * Get the configured data provider kind
+ * - Order: VITE_DATA_PROVIDER env -> localStorage DATA_PROVIDER -> 'supabase'
+ */
+export function getDataProviderKind(): DataProviderKind {
+  const envKind = toKind((process.env as Record<string, string | undefined>).VITE_DATA_PROVIDER);
+  const lsKind = toKind(readLocalStorage('DATA_PROVIDER'));
+  return envKind || lsKind || 'supabase';
+}
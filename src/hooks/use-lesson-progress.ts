@@ -0,0 +1,211 @@
+/**
+ * useLessonProgress
+ * - Purpose: The current profile's per-lesson progress in a program, for TrainingPlayer.
+ * - record() is called from playback events and updates local state at once; changes are saved at
+ *   most every SAVE_INTERVAL_MS, immediately when a lesson completes, and on flush() (pause, lesson
+ *   change, page hidden, unmount).
+ * - Only played segments count toward completion: a lesson completes when they cover the program's
+ *   completion threshold, not when playback ends (seeking to the end completes nothing). Once
+ *   completed, a lesson stays completed.
+ * - Program progress is recomputed from the lessons and rolled up to member_training_progress
+ *   whenever the number of completed lessons changes (with a quiz, finishing the lessons leaves the
+ *   module in progress until the quiz is passed).
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  addWatchedRange,
+  listLessonProgress,
+  meetsCompletionThreshold,
+  saveLessonProgress,
+  summarizeLessons,
+  syncModuleProgress,
+  trainingModuleIdFor,
+  watchedCoverage,
+  type LessonProgress,
+  type LessonSummary,
+} from '@/services/lessonProgressService';
+import { getModuleProgress, type TrainingProgress } from '@/services/profileDashboardService';
+import { DEFAULT_COMPLETION_THRESHOLD } from '@/services/programDefaults';
+import { useProfileStore } from '@/stores/profileStore';
+
+const SAVE_INTERVAL_MS = 15_000;
+
+/** One playback update */
+export interface LessonPlayback {
+  /** Current position, seconds */
+  position: number;
+  /** Video length, seconds (when known) */
+  duration?: number;
+  /** Segment [from, to] played since the previous update (omitted for seeks) */
+  segment?: [number, number];
+  /** Playback reached the end (resets the resume point; does not complete the lesson by itself) */
+  ended?: boolean;
+}
+
+interface LessonProgressOptions {
+  /** Share of each video to watch for completion (the program's rule) */
+  completionThreshold?: number;
+  /** The program has a quiz, which completes the module instead of the last lesson */
+  requiresQuiz?: boolean;
+}
+
+interface LessonProgressState {
+  /** By lesson path */
+  lessons: Map<string, LessonProgress>;
+  summary: LessonSummary;
+  /** Program-level row (completion date) */
+  module: TrainingProgress | null;
+  /** Records for this profile/program have been read */
+  loaded: boolean;
+  record: (lessonPath: string, playback: LessonPlayback) => void;
+  /** Save pending changes now */
+  flush: () => Promise<void>;
+  /** Re-read the program-level row (after a quiz attempt) */
+  refreshModule: () => Promise<void>;
+}
+
+export function useLessonProgress(
+  programSlug: string,
+  programName: string,
+  lessonPaths: string[],
+  { completionThreshold = DEFAULT_COMPLETION_THRESHOLD, requiresQuiz = false }: LessonProgressOptions = {}
+): LessonProgressState {
+  const profileId = useProfileStore((s) => s.currentProfile?.id);
+  const [lessons, setLessons] = useState<Map<string, LessonProgress>>(new Map());
+  const [module, setModule] = useState<TrainingProgress | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  // Mirrors for saving outside render
+  const lessonsRef = useRef(lessons);
+  lessonsRef.current = lessons;
+  const dirtyRef = useRef(new Set<string>());
+  const timerRef = useRef<number | null>(null);
+  const syncedRef = useRef<number | null>(null);
+  // Updated after commit, so effect cleanups still see the profile/program they belonged to
+  const contextRef = useRef({ profileId, programSlug, programName, lessonPaths, completionThreshold, requiresQuiz });
+  useEffect(() => {
+    contextRef.current = { profileId, programSlug, programName, lessonPaths, completionThreshold, requiresQuiz };
+  });
+
+  const summary = useMemo(() => summarizeLessons(lessonPaths, lessons), [lessonPaths, lessons]);
+
+  const flush = useCallback(async () => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const context = contextRef.current;
+    const { profileId: pid, programSlug: slug, programName: name, lessonPaths: paths, requiresQuiz: quiz } = context;
+    const snapshot = lessonsRef.current;
+    const dirty = Array.from(dirtyRef.current);
+    dirtyRef.current.clear();
+    if (!pid || dirty.length === 0) return;
+
+    try {
+      for (const path of dirty) {
+        const lesson = snapshot.get(path);
+        if (lesson) await saveLessonProgress(pid, lesson);
+      }
+      const next = summarizeLessons(paths, snapshot);
+      if (syncedRef.current !== next.completedLessons) {
+        syncedRef.current = next.completedLessons;
+        const moduleProgress = await syncModuleProgress(pid, slug, name, next, quiz);
+        // Ignore if the player moved on to another profile/program meanwhile
+        if (contextRef.current.profileId === pid && contextRef.current.programSlug === slug) setModule(moduleProgress);
+      }
+    } catch (error) {
+      // Keep the changes for the next attempt (unless the player moved on)
+      if (contextRef.current === context) dirty.forEach((p) => dirtyRef.current.add(p));
+      console.error('Failed to save lesson progress:', error);
+    }
+  }, []);
+
+  const refreshModule = useCallback(async () => {
+    const { profileId: pid, programSlug: slug } = contextRef.current;
+    if (!pid) return;
+    const moduleProgress = await getModuleProgress(pid, trainingModuleIdFor(slug));
+    if (contextRef.current.profileId === pid && contextRef.current.programSlug === slug) setModule(moduleProgress);
+  }, []);
+
+  // Load records for the profile/program (saving anything pending for the previous one first)
+  useEffect(() => {
+    setLessons(new Map());
+    setModule(null);
+    setLoaded(false);
+    syncedRef.current = null;
+    if (!profileId) return;
+    let cancelled = false;
+
+    Promise.all([listLessonProgress(profileId, programSlug), getModuleProgress(profileId, trainingModuleIdFor(programSlug))])
+      .then(([records, moduleProgress]) => {
+        if (cancelled) return;
+        // Local records made while loading win over the stored ones
+        setLessons((local) => new Map([...records.map((r) => [r.lessonPath, r] as const), ...local]));
+        setModule(moduleProgress);
+        syncedRef.current = records.filter((r) => r.completed).length;
+      })
+      .catch((error) => {
+        console.error('Failed to load lesson progress:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+      void flush();
+    };
+  }, [profileId, programSlug, flush]);
+
+  // Save when the tab is hidden (closing, switching away)
+  useEffect(() => {
+    const onHidden = () => {
+      if (window.document.visibilityState === 'hidden') void flush();
+    };
+    window.document.addEventListener('visibilitychange', onHidden);
+    return () => window.document.removeEventListener('visibilitychange', onHidden);
+  }, [flush]);
+
+  const record = useCallback(
+    (lessonPath: string, playback: LessonPlayback) => {
+      const { programSlug: slug, completionThreshold: threshold } = contextRef.current;
+      const prev = lessonsRef.current.get(lessonPath);
+      const watchedRanges = playback.segment
+        ? addWatchedRange(prev?.watchedRanges ?? [], playback.segment[0], playback.segment[1])
+        : prev?.watchedRanges ?? [];
+      const durationSeconds =
+        playback.duration && Number.isFinite(playback.duration) ? playback.duration : prev?.durationSeconds;
+      const completedNow = !prev?.completed && meetsCompletionThreshold({ watchedRanges, durationSeconds }, threshold);
+      const next: LessonProgress = {
+        lessonPath,
+        programSlug: slug,
+        watchedSeconds: watchedCoverage(watchedRanges),
+        watchedRanges,
+        // Reaching the end resets the resume point to the start
+        positionSeconds: playback.ended ? 0 : playback.position,
+        durationSeconds,
+        completed: !!prev?.completed || completedNow,
+        completedAt: prev?.completedAt ?? (completedNow ? new Date().toISOString() : undefined),
+        updatedAt: new Date().toISOString(),
+      };
+      const updated = new Map(lessonsRef.current);
+      updated.set(lessonPath, next);
+      lessonsRef.current = updated;
+      setLessons(updated);
+      dirtyRef.current.add(lessonPath);
+
+      if (completedNow) {
+        void flush();
+      } else if (timerRef.current === null) {
+        timerRef.current = window.setTimeout(() => {
+          timerRef.current = null;
+          void flush();
+        }, SAVE_INTERVAL_MS);
+      }
+    },
+    [flush]
+  );
+
+  return { lessons, summary, module, loaded, record, flush, refreshModule };
+}
@@ -0,0 +1,62 @@
+/**
+ * useSignedUrl
+ * - Purpose: Resolve a bucket path to a working URL for links and media elements.
+ * - Re-signs shortly before the URL expires, so long-lived pages never hold a dead link.
+ * - refresh() forces a new URL (e.g., after a media error).
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { invalidateFileUrl, REFRESH_MARGIN_MS, resolveFileUrl } from '@/services/signedUrlService';
+
+interface SignedUrlState {
+  /** Usable URL, or null while resolving / when signing failed */
+  url: string | null;
+  /** Epoch ms when url expires; null for public URLs */
+  expiresAt: number | null;
+  error: Error | null;
+  refresh: () => void;
+}
+
+export function useSignedUrl(path: string | null | undefined): SignedUrlState {
+  // Keyed by path so a previous file's URL is never returned for a new path
+  const [state, setState] = useState<Omit<SignedUrlState, 'refresh'> & { path: string | null }>({
+    path: null,
+    url: null,
+    expiresAt: null,
+    error: null,
+  });
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    if (!path) return;
+    let cancelled = false;
+    let timer: number | null = null;
+
+    resolveFileUrl(path)
+      .then((resolved) => {
+        if (cancelled) return;
+        setState({ path, url: resolved.url, expiresAt: resolved.expiresAt, error: null });
+        if (resolved.expiresAt != null) {
+          const delay = Math.max(1000, resolved.expiresAt - REFRESH_MARGIN_MS - Date.now());
+          timer = window.setTimeout(() => setGeneration((g) => g + 1), delay);
+        }
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setState({ path, url: null, expiresAt: null, error: e instanceof Error ? e : new Error(String(e)) });
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) window.clearTimeout(timer);
+    };
+  }, [path, generation]);
+
+  const refresh = useCallback(() => {
+    if (path) invalidateFileUrl(path);
+    setGeneration((g) => g + 1);
+  }, [path]);
+
+  if (!path || state.path !== path) return { url: null, expiresAt: null, error: null, refresh };
+  return { url: state.url, expiresAt: state.expiresAt, error: state.error, refresh };
+}
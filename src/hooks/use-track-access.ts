@@ -0,0 +1,34 @@
+/**
+ * useTrackAccess
+ * - Purpose: Record that the current profile opened, downloaded or played a file (analytics event bus).
+ * - Resolves the file's program from the registry; events are queued, so the click never waits.
+ */
+
+import { useCallback } from 'react';
+import { trackResourceAccess, type ActivityAction } from '@/services/profileDashboardService';
+import { findProgramForPath } from '@/services/programRegistry';
+import type { StorageFileItem } from '@/services/supabaseStorage';
+import { useProfileStore } from '@/stores/profileStore';
+import { usePrograms } from '@/stores/programStore';
+
+export function useTrackAccess(): (item: StorageFileItem, action: ActivityAction) => void {
+  const profileId = useProfileStore((s) => s.currentProfile?.id);
+  const programs = usePrograms();
+
+  return useCallback(
+    (item: StorageFileItem, action: ActivityAction) => {
+      if (!profileId) return;
+      trackResourceAccess(
+        profileId,
+        {
+          name: item.title || item.filename,
+          path: item.path,
+          programSlug: findProgramForPath(programs, item.path)?.slug,
+          mimeType: item.mimeType,
+        },
+        action
+      );
+    },
+    [profileId, programs]
+  );
+}
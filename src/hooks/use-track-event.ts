@@ -0,0 +1,43 @@
+/**
+ * useTrackEvent / useTrackSearch
+ * - Purpose: Send analytics events for the current profile (analytics event bus).
+ * - useTrackSearch records a search once the user stops typing, not on every keystroke.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { trackEvent, type AnalyticsEventMap, type AnalyticsEventType } from '@/services/analyticsEvents';
+import { useProfileStore } from '@/stores/profileStore';
+
+/** Typing pause after which a search counts */
+const SEARCH_SETTLE_MS = 1_000;
+/** Shorter queries are still being typed or too vague to be useful */
+const MIN_QUERY_LENGTH = 2;
+
+export function useTrackEvent(): <K extends AnalyticsEventType>(type: K, payload: AnalyticsEventMap[K]) => void {
+  const profileId = useProfileStore((s) => s.currentProfile?.id);
+
+  return useCallback(
+    <K extends AnalyticsEventType>(type: K, payload: AnalyticsEventMap[K]) => {
+      if (profileId) trackEvent(profileId, type, payload);
+    },
+    [profileId]
+  );
+}
+
+export function useTrackSearch(scope: string, query: string, resultCount?: number): void {
+  const track = useTrackEvent();
+  const lastQuery = useRef('');
+  // Read when the timer fires, so a changing count doesn't restart it
+  const count = useRef(resultCount);
+  count.current = resultCount;
+
+  useEffect(() => {
+    const term = query.trim();
+    if (term.length < MIN_QUERY_LENGTH || term.toLowerCase() === lastQuery.current) return;
+    const timer = window.setTimeout(() => {
+      lastQuery.current = term.toLowerCase();
+      track('search_performed', { scope, query: term, resultCount: count.current });
+    }, SEARCH_SETTLE_MS);
+    return () => window.clearTimeout(timer);
+  }, [query, scope, track]);
+}
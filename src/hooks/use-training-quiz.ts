@@ -0,0 +1,92 @@
+/**
+ * useTrainingQuiz
+ * - Purpose: A program's quiz and the current profile's attempts at it, for TrainingPlayer.
+ * - start() returns the questions the server drew for the attempt; submit() scores it through
+ *   quizService and appends it to the attempts list. Errors (already passed, no attempts left) are
+ *   thrown to the caller.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  attemptsRemaining,
+  getProgramQuiz,
+  listQuizAttempts,
+  startQuizAttempt,
+  submitQuizAttempt,
+  type QuizAnswers,
+  type QuizAttempt,
+  type QuizQuestion,
+  type QuizResult,
+  type TrainingQuiz,
+} from '@/services/quizService';
+import { useProfileStore } from '@/stores/profileStore';
+
+interface TrainingQuizState {
+  /** null when the program has no quiz (or it failed to load) */
+  quiz: TrainingQuiz | null;
+  /** Oldest first */
+  attempts: QuizAttempt[];
+  passed: boolean;
+  /** undefined = unlimited */
+  remaining?: number;
+  loaded: boolean;
+  start: () => Promise<QuizQuestion[]>;
+  submit: (answers: QuizAnswers) => Promise<QuizResult>;
+}
+
+export function useTrainingQuiz(programSlug: string): TrainingQuizState {
+  const profileId = useProfileStore((s) => s.currentProfile?.id);
+  const [quiz, setQuiz] = useState<TrainingQuiz | null>(null);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setQuiz(null);
+    setAttempts([]);
+    setLoaded(false);
+    let cancelled = false;
+
+    getProgramQuiz(programSlug)
+      .then(async (next) => {
+        const previous = next && profileId ? await listQuizAttempts(profileId, next.id) : [];
+        if (cancelled) return;
+        setQuiz(next);
+        setAttempts(previous);
+      })
+      .catch((error) => {
+        console.error('Failed to load training quiz:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [programSlug, profileId]);
+
+  const start = useCallback(async () => {
+    if (!quiz || !profileId) throw new Error('Quiz is not available');
+    return startQuizAttempt(profileId, quiz);
+  }, [quiz, profileId]);
+
+  const submit = useCallback(
+    async (answers: QuizAnswers) => {
+      if (!quiz || !profileId) throw new Error('Quiz is not available');
+      const result = await submitQuizAttempt(profileId, quiz.id, answers);
+      setAttempts((prev) => [...prev, result]);
+      return result;
+    },
+    [quiz, profileId]
+  );
+
+  return {
+    quiz,
+    attempts,
+    passed: attempts.some((a) => a.passed),
+    remaining: quiz ? attemptsRemaining(quiz, attempts) : undefined,
+    loaded,
+    start,
+    submit,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Certificate PDF
+ * - Purpose: Render a certificate of completion as a one-page PDF (US Letter, landscape) with pdf-lib,
+ *   entirely in the browser.
+ * - Uses the standard PDF fonts (no font files to ship); they only cover Latin text, so other
+ *   characters are reduced to their closest Latin form or replaced with "?".
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { TrainingCertificate } from '../services/certificateService';
+
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const BRAND_BLUE = rgb(0.145, 0.388, 0.922);
+const BRAND_TEAL = rgb(0.078, 0.722, 0.651);
+const TEXT_DARK = rgb(0.059, 0.09, 0.165);
+const TEXT_MUTED = rgb(0.392, 0.455, 0.545);
+
+/** Non-Latin-1 characters the standard fonts (WinAnsi) can still draw */
+const WIN_ANSI_EXTRA = new Set(['•', '–', '—', '‘', '’', '“', '”', '…', '€', '™']);
+
+/** Printable ASCII or Latin-1 (the C1 control range is not drawable) */
+function isLatin1(ch: string): boolean {
+  const code = ch.charCodeAt(0);
+  return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff);
+}
+
+/**
+ * Text the standard fonts can encode: accents folded where needed, anything else → "?".
+ */
+function pdfSafe(text: string): string {
+  return Array.from(text)
+    .map((ch) => {
+      if (isLatin1(ch) || WIN_ANSI_EXTRA.has(ch)) return ch;
+      const folded = ch.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      return folded && Array.from(folded).every(isLatin1) ? folded : '?';
+    })
+    .join('');
+}
+
+/** Draw one line centred on the page, shrinking the size until it fits the width */
+function drawCentered(page: PDFPage, text: string, y: number, font: PDFFont, size: number, color = TEXT_DARK) {
+  const safe = pdfSafe(text);
+  const maxWidth = PAGE_WIDTH - 160;
+  let fitted = size;
+  while (fitted > 8 && font.widthOfTextAtSize(safe, fitted) > maxWidth) fitted -= 1;
+  const width = font.widthOfTextAtSize(safe, fitted);
+  page.drawText(safe, { x: (PAGE_WIDTH - width) / 2, y, size: fitted, font, color });
+}
+
+/** Completion date as printed, e.g. "September 18, 2025" */
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Build the certificate PDF.
+ * @param verifyUrl Public page that checks the verification code
+ */
+export async function buildCertificatePdf(certificate: TrainingCertificate, verifyUrl: string): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(pdfSafe(`Certificate of Completion – ${certificate.programName}`));
+  doc.setAuthor('ClinicalRxQ');
+  doc.setSubject(pdfSafe(`${certificate.recipientName} – ${certificate.programName}`));
+  doc.setKeywords([certificate.verificationCode]);
+
+  const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const serif = await doc.embedFont(StandardFonts.TimesRomanItalic);
+
+  // Frame
+  page.drawRectangle({
+    x: 24,
+    y: 24,
+    width: PAGE_WIDTH - 48,
+    height: PAGE_HEIGHT - 48,
+    borderColor: BRAND_BLUE,
+    borderWidth: 3,
+  });
+  page.drawRectangle({
+    x: 34,
+    y: 34,
+    width: PAGE_WIDTH - 68,
+    height: PAGE_HEIGHT - 68,
+    borderColor: BRAND_TEAL,
+    borderWidth: 1,
+  });
+  page.drawRectangle({ x: 34, y: PAGE_HEIGHT - 70, width: PAGE_WIDTH - 68, height: 36, color: BRAND_BLUE });
+  drawCentered(page, 'ClinicalRxQ', PAGE_HEIGHT - 58, bold, 16, rgb(1, 1, 1));
+
+  drawCentered(page, 'Certificate of Completion', 460, bold, 34, BRAND_BLUE);
+  drawCentered(page, 'This certifies that', 418, serif, 16, TEXT_MUTED);
+  drawCentered(page, certificate.recipientName, 380, bold, 30);
+
+  const credentials = [
+    certificate.licenseNumber && `License No. ${certificate.licenseNumber}`,
+    certificate.nabpEprofileId && `NABP e-Profile ID ${certificate.nabpEprofileId}`,
+  ].filter(Boolean) as string[];
+  if (credentials.length > 0) drawCentered(page, credentials.join('   •   '), 356, regular, 12, TEXT_MUTED);
+  if (certificate.pharmacyName) drawCentered(page, certificate.pharmacyName, 336, regular, 13);
+
+  drawCentered(page, 'has successfully completed the training program', 300, serif, 16, TEXT_MUTED);
+  drawCentered(page, certificate.programName, 266, bold, 24);
+  drawCentered(page, `Completed on ${formatDate(certificate.completedAt)}`, 236, regular, 14);
+
+  // Signature line
+  page.drawLine({
+    start: { x: PAGE_WIDTH / 2 - 120, y: 160 },
+    end: { x: PAGE_WIDTH / 2 + 120, y: 160 },
+    thickness: 1,
+    color: TEXT_MUTED,
+  });
+  drawCentered(page, 'ClinicalRxQ Training', 144, regular, 11, TEXT_MUTED);
+
+  // Verification
+  drawCentered(page, `Verification code: ${certificate.verificationCode}`, 86, bold, 12);
+  drawCentered(page, `Verify at ${verifyUrl}`, 68, regular, 10, TEXT_MUTED);
+
+  return doc.save();
+}
@@ -0,0 +1,33 @@
+/**
+ * CSV export
+ * - Purpose: Build RFC 4180 CSV text from rows and save it as a download.
+ * - Cells that would start a spreadsheet formula (=, +, -, @) are prefixed with an apostrophe so an
+ *   exported file name or search query can't run as a formula when opened in Excel.
+ */
+
+import { downloadBlob } from './download';
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+/** One cell, quoted when needed */
+function csvCell(value: CsvCell): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Header row + data rows → CSV text (CRLF line endings).
+ */
+export function toCsv(header: string[], rows: CsvCell[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Save CSV text as a file (with a BOM so Excel reads it as UTF-8).
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const blob = new window.Blob(['﻿', csv], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(filename.endsWith('.csv') ? filename : `${filename}.csv`, blob);
+}
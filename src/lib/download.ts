@@ -0,0 +1,18 @@
+/**
+ * File download
+ * - Purpose: Save generated content (CSV, PDF) as a browser download.
+ */
+
+/**
+ * Save a Blob under the given file name.
+ */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = window.URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  window.document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => window.URL.revokeObjectURL(url), 0);
+}
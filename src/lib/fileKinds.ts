@@ -0,0 +1,215 @@
+/**
+ * File kinds
+ * - Purpose: The one classifier for resource files. Maps mime type + extension to a FileKind with its
+ *   icon, labels and preview capabilities, so cards, rows, panels and filters agree.
+ * - Mime type wins when it is specific; generic types (application/octet-stream, empty) fall back to
+ *   the extension of the filename, path or URL.
+ */
+
+import {
+  File,
+  FileArchive,
+  FileAudio,
+  FileImage,
+  FileSpreadsheet,
+  FileText,
+  Link2,
+  Play,
+  Presentation,
+  type LucideIcon,
+} from 'lucide-react';
+
+export type FileKind =
+  | 'pdf'
+  | 'word'
+  | 'excel'
+  | 'powerpoint'
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'link'
+  | 'archive'
+  | 'other';
+
+/**
+ * Display and capability data for one kind.
+ */
+export interface FileKindInfo {
+  kind: FileKind;
+  /** Human label, e.g. "Presentation" */
+  label: string;
+  icon: LucideIcon;
+  /** Tailwind text color for the icon */
+  iconClass: string;
+  /** Browsers can display it inline (new tab / embedded viewer) */
+  previewable: boolean;
+  /** Plays in a media element */
+  playable: boolean;
+}
+
+/** Anything with a name, path, URL and/or mime type */
+export interface FileLike {
+  filename?: string | null;
+  path?: string | null;
+  url?: string | null;
+  mimeType?: string | null;
+}
+
+const KIND_INFO: Record<FileKind, FileKindInfo> = {
+  pdf: { kind: 'pdf', label: 'PDF', icon: FileText, iconClass: 'text-red-600', previewable: true, playable: false },
+  word: { kind: 'word', label: 'Word document', icon: FileText, iconClass: 'text-blue-700', previewable: false, playable: false },
+  excel: { kind: 'excel', label: 'Spreadsheet', icon: FileSpreadsheet, iconClass: 'text-emerald-600', previewable: false, playable: false },
+  powerpoint: { kind: 'powerpoint', label: 'Presentation', icon: Presentation, iconClass: 'text-orange-600', previewable: false, playable: false },
+  image: { kind: 'image', label: 'Image', icon: FileImage, iconClass: 'text-violet-600', previewable: true, playable: false },
+  audio: { kind: 'audio', label: 'Audio', icon: FileAudio, iconClass: 'text-pink-600', previewable: true, playable: true },
+  video: { kind: 'video', label: 'Video', icon: Play, iconClass: 'text-blue-600', previewable: true, playable: true },
+  link: { kind: 'link', label: 'Link', icon: Link2, iconClass: 'text-cyan-700', previewable: false, playable: false },
+  archive: { kind: 'archive', label: 'Archive', icon: FileArchive, iconClass: 'text-amber-700', previewable: false, playable: false },
+  other: { kind: 'other', label: 'File', icon: File, iconClass: 'text-slate-700', previewable: false, playable: false },
+};
+
+/** Extension → kind */
+const EXTENSION_KINDS: Record<string, FileKind> = {
+  pdf: 'pdf',
+  doc: 'word',
+  docx: 'word',
+  dot: 'word',
+  dotx: 'word',
+  rtf: 'word',
+  odt: 'word',
+  xls: 'excel',
+  xlsx: 'excel',
+  xlsm: 'excel',
+  csv: 'excel',
+  ods: 'excel',
+  ppt: 'powerpoint',
+  pptx: 'powerpoint',
+  pps: 'powerpoint',
+  ppsx: 'powerpoint',
+  odp: 'powerpoint',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  svg: 'image',
+  bmp: 'image',
+  heic: 'image',
+  mp3: 'audio',
+  m4a: 'audio',
+  wav: 'audio',
+  aac: 'audio',
+  oga: 'audio',
+  ogg: 'audio',
+  mp4: 'video',
+  m4v: 'video',
+  mov: 'video',
+  webm: 'video',
+  ogv: 'video',
+  avi: 'video',
+  mkv: 'video',
+  url: 'link',
+  webloc: 'link',
+  zip: 'archive',
+  '7z': 'archive',
+  rar: 'archive',
+  gz: 'archive',
+  tar: 'archive',
+};
+
+/** Extension → mime type (for items that only have a name) */
+const EXTENSION_MIME: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  oga: 'audio/ogg',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  ogv: 'video/ogg',
+  zip: 'application/zip',
+};
+
+/**
+ * Lowercase extension of a file name, path or URL (query/hash ignored); '' when none.
+ */
+export function fileExtension(name: string | null | undefined): string {
+  const clean = (name || '').split(/[?#]/)[0];
+  const base = clean.slice(clean.lastIndexOf('/') + 1);
+  const dot = base.lastIndexOf('.');
+  return dot > 0 ? base.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Mime type for an extension (undefined when unknown).
+ */
+export function mimeTypeForExtension(extension: string): string | undefined {
+  return EXTENSION_MIME[extension.toLowerCase()];
+}
+
+/** Kind from a specific mime type; null for generic/unknown types */
+function kindFromMime(mime: string): FileKind | null {
+  if (!mime || mime === 'application/octet-stream' || mime === 'binary/octet-stream') return null;
+  if (mime === 'application/pdf') return 'pdf';
+  if (mime.startsWith('video/')) return 'video';
+  if (mime.startsWith('audio/')) return 'audio';
+  if (mime.startsWith('image/')) return 'image';
+  if (mime === 'text/uri-list' || mime === 'text/html') return 'link';
+  if (mime === 'text/csv' || mime.includes('spreadsheet') || mime.includes('ms-excel')) return 'excel';
+  if (mime.includes('presentation') || mime.includes('powerpoint')) return 'powerpoint';
+  if (mime.includes('wordprocessing') || mime === 'application/msword' || mime === 'application/rtf') return 'word';
+  if (mime.includes('zip') || mime.includes('compressed') || mime === 'application/x-tar' || mime === 'application/gzip') {
+    return 'archive';
+  }
+  return null;
+}
+
+/**
+ * Classify a file by mime type, then by extension.
+ */
+export function classifyFile(file: FileLike): FileKind {
+  const fromMime = kindFromMime((file.mimeType || '').toLowerCase().split(';')[0].trim());
+  if (fromMime) return fromMime;
+  for (const name of [file.filename, file.path, file.url]) {
+    const ext = fileExtension(name);
+    if (ext) return EXTENSION_KINDS[ext] || 'other';
+  }
+  // A bare web address (no file name) is a link
+  if (!file.filename && !file.path && /^https?:\/\//i.test(file.url || '')) return 'link';
+  return 'other';
+}
+
+/**
+ * Display/capability data for a kind.
+ */
+export function getFileKindInfo(kind: FileKind): FileKindInfo {
+  return KIND_INFO[kind];
+}
+
+/**
+ * Classify and describe a file in one call.
+ */
+export function describeFile(file: FileLike): FileKindInfo {
+  return KIND_INFO[classifyFile(file)];
+}
+
+/** True for video files */
+export function isVideo(file: FileLike): boolean {
+  return classifyFile(file) === 'video';
+}
@@ -0,0 +1,47 @@
+/**
+ * Icon lookup
+ * - Purpose: Resolve lucide-react icon names stored as data (e.g. programs.icon) to components.
+ * - Only names listed here are bundled; unknown names fall back to the provided default.
+ */
+
+import {
+  Activity,
+  Award,
+  BookOpen,
+  CalendarCheck,
+  ClipboardCheck,
+  Clock,
+  FileSpreadsheet,
+  FileText,
+  Heart,
+  PlayCircle,
+  Star,
+  Stethoscope,
+  TestTubes,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+
+const ICONS: Record<string, LucideIcon> = {
+  Activity,
+  Award,
+  BookOpen,
+  CalendarCheck,
+  ClipboardCheck,
+  Clock,
+  FileSpreadsheet,
+  FileText,
+  Heart,
+  PlayCircle,
+  Star,
+  Stethoscope,
+  TestTubes,
+  Zap,
+};
+
+/**
+ * Look up an icon component by its lucide-react name.
+ */
+export function iconByName(name: string | null | undefined, fallback: LucideIcon = FileText): LucideIcon {
+  return (name && ICONS[name.trim()]) || fallback;
+}
@@ -1,16 +1,216 @@
 /**
  * Bookmarks page (protected)
  * - Updated to use AppShell with a fixed MemberSidebar (static frame).
+ * - Lists the current profile's bookmarks from the bookmark store, grouped by program/category.
+ * - Search, sort (recently saved, name, type) and file-type filters apply across all groups.
+ * - Cards are ResourceCards (open/download records access); selected cards can be removed in bulk.
  */
 
-import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
-import { Bookmark } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bookmark, Search, Trash2 } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Checkbox } from '../components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import Breadcrumbs from '../components/common/Breadcrumbs';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
+import ResourceCard from '../components/resources/ResourceCard';
+import { useProfileStore } from '../stores/profileStore';
+import { useBookmarkStore } from '../stores/bookmarkStore';
+import { usePrograms } from '../stores/programStore';
+import { useTrackEvent, useTrackSearch } from '../hooks/use-track-event';
+import { findProgramForPath } from '../services/programRegistry';
+import { getGlobalCategoryForPath, ProgramCategories, type GlobalCategory, type ProgramCategory } from '../services/storageCatalog';
+import type { BookmarkedResource } from '../services/bookmarkService';
+import { classifyFile, getFileKindInfo, type FileKind } from '../lib/fileKinds';
+import { cn } from '../lib/utils';
+import type { ClinicalProgram } from '../types';
+
+type SortKey = 'recent' | 'name' | 'type';
+
+const SORT_OPTIONS: Array<{ key: SortKey; label: string }> = [
+  { key: 'recent', label: 'Recently saved' },
+  { key: 'name', label: 'Name (A–Z)' },
+  { key: 'type', label: 'File type' },
+];
+
+const GLOBAL_LABELS: Record<GlobalCategory, string> = {
+  handouts: 'Patient Handouts',
+  guidelines: 'Clinical Guidelines',
+  billing: 'Medical Billing',
+};
+
+const CATEGORY_LABELS: Record<ProgramCategory, string> = {
+  forms: 'Forms',
+  protocols: 'Protocols',
+  resources: 'Resources',
+  training: 'Training',
+};
+
+/** One heading on the page */
+interface BookmarkGroup {
+  key: string;
+  label: string;
+  /** Programs first (registry order), then global categories, then anything else */
+  order: number;
+  items: BookmarkedResource[];
+}
+
+/**
+ * Group key/label/order for a bookmark path.
+ */
+function groupFor(path: string, programs: ClinicalProgram[]): Omit<BookmarkGroup, 'items'> {
+  const program = findProgramForPath(programs, path);
+  if (program) {
+    const folder = (path.split('/')[1] || '').toLowerCase() as ProgramCategory;
+    const category = ProgramCategories.includes(folder) ? folder : null;
+    return {
+      key: `${program.slug}/${category ?? 'other'}`,
+      label: `${program.shortName} · ${category ? CATEGORY_LABELS[category] : 'Other'}`,
+      order: programs.indexOf(program) * 10 + (category ? ProgramCategories.indexOf(category) : 9),
+    };
+  }
+  const global = getGlobalCategoryForPath(path);
+  if (global) {
+    return { key: global, label: GLOBAL_LABELS[global], order: 10_000 + Object.keys(GLOBAL_LABELS).indexOf(global) };
+  }
+  return { key: 'other', label: 'Other files', order: 20_000 };
+}
+
+/** Comparator for the selected sort */
+function compareBookmarks(sort: SortKey) {
+  const byName = (a: BookmarkedResource, b: BookmarkedResource) =>
+    a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+  switch (sort) {
+    case 'name':
+      return byName;
+    case 'type':
+      return (a: BookmarkedResource, b: BookmarkedResource) =>
+        getFileKindInfo(classifyFile(a)).label.localeCompare(getFileKindInfo(classifyFile(b)).label) || byName(a, b);
+    case 'recent':
+    default:
+      return (a: BookmarkedResource, b: BookmarkedResource) => b.bookmarkedAt.localeCompare(a.bookmarkedAt);
+  }
+}
+
+/** "Saved Sep 4, 2025" (or a missing-file note) */
+function savedLabel(b: BookmarkedResource): string {
+  if (!b.inCatalog) return 'No longer in the library';
+  const date = new Date(b.bookmarkedAt);
+  return Number.isNaN(date.getTime()) ? '' : `Saved ${date.toLocaleDateString(undefined, { dateStyle: 'medium' })}`;
+}
 
 export default function Bookmarks() {
-  const bookmarks: Array<{ id: string; title: string; href: string }> = [];
+  const { currentProfile } = useProfileStore();
+  const { bookmarks, loading, loadBookmarks, removeBookmarks } = useBookmarkStore();
+  const programs = usePrograms();
+  const track = useTrackEvent();
+
+  const [q, setQ] = useState('');
+  const [sort, setSort] = useState<SortKey>('recent');
+  const [kinds, setKinds] = useState<Set<FileKind>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [removing, setRemoving] = useState(false);
+
+  useEffect(() => {
+    if (currentProfile?.id) {
+      loadBookmarks(currentProfile.id);
+    }
+  }, [currentProfile?.id, loadBookmarks]);
+
+  // Drop selections for bookmarks that are gone (removed here, in the panel, or on another profile)
+  useEffect(() => {
+    setSelected((prev) => {
+      const present = new Set(bookmarks.map((b) => b.path));
+      const next = new Set(Array.from(prev).filter((p) => present.has(p)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [bookmarks]);
+
+  /** Kinds present in the list (filter chips) */
+  const availableKinds = useMemo(() => {
+    const present = new Set(bookmarks.map((b) => classifyFile(b)));
+    return Array.from(present)
+      .map(getFileKindInfo)
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [bookmarks]);
+
+  /** Search + type filter + sort, then grouped */
+  const groups = useMemo(() => {
+    const term = q.trim().toLowerCase();
+    const visible = bookmarks.filter((b) => {
+      if (kinds.size > 0 && !kinds.has(classifyFile(b))) return false;
+      if (!term) return true;
+      const label = groupFor(b.path, programs).label;
+      return [b.title, b.filename, label].join(' ').toLowerCase().includes(term);
+    });
+    visible.sort(compareBookmarks(sort));
+
+    const byKey = new Map<string, BookmarkGroup>();
+    for (const b of visible) {
+      const g = groupFor(b.path, programs);
+      const group = byKey.get(g.key) ?? { ...g, items: [] };
+      group.items.push(b);
+      byKey.set(g.key, group);
+    }
+    return Array.from(byKey.values()).sort((a, b) => a.order - b.order);
+  }, [bookmarks, kinds, programs, q, sort]);
+
+  const visiblePaths = useMemo(() => groups.flatMap((g) => g.items.map((b) => b.path)), [groups]);
+  const allVisibleSelected = visiblePaths.length > 0 && visiblePaths.every((p) => selected.has(p));
+
+  useTrackSearch('bookmarks', q, visiblePaths.length);
+
+  function toggleKind(kind: FileKind) {
+    const next = new Set(kinds);
+    if (next.has(kind)) next.delete(kind);
+    else next.add(kind);
+    setKinds(next);
+    track('filter_changed', { scope: 'bookmarks', filter: 'kind', value: Array.from(next) });
+  }
+
+  function changeSort(next: SortKey) {
+    setSort(next);
+    track('filter_changed', { scope: 'bookmarks', filter: 'sort', value: next });
+  }
+
+  function setPathSelected(path: string, on: boolean) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+  }
+
+  function toggleAllVisible(on: boolean) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const p of visiblePaths) {
+        if (on) next.add(p);
+        else next.delete(p);
+      }
+      return next;
+    });
+  }
+
+  async function removeSelected() {
+    if (!currentProfile?.id || selected.size === 0) return;
+    const count = selected.size;
+    if (!window.confirm(`Remove ${count} ${count === 1 ? 'bookmark' : 'bookmarks'}?`)) return;
+    try {
+      setRemoving(true);
+      await removeBookmarks(currentProfile.id, Array.from(selected));
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Failed to remove bookmarks:', error);
+    } finally {
+      setRemoving(false);
+    }
+  }
 
   const header = (
     <div className="mx-auto w-full max-w-[1280px] px-4 py-4">
@@ -27,29 +227,119 @@ export default function Bookmarks() {
 
   return (
     <AppShell sidebar={<MemberSidebar />} header={header}>
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Bookmark className="h-5 w-5 text-cyan-500" />
-            Saved Items
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {bookmarks.length === 0 ? (
-            <p className="text-gray-600">You haven’t saved any items yet.</p>
+      {bookmarks.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-10 text-center">
+            <Bookmark className="h-6 w-6 text-cyan-500" />
+            <p className="text-gray-600">
+              {loading ? 'Loading bookmarks…' : 'You haven’t saved any items yet.'}
+            </p>
+            {!loading && (
+              <Link to="/resources" className="text-sm text-blue-700 hover:underline">
+                Browse the Resource Library
+              </Link>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {/* Toolbar: search, sort, type filters */}
+          <div className="space-y-3">
+            <div className="flex flex-col gap-3 sm:flex-row">
+              <div className="relative flex-1">
+                <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+                <Input
+                  placeholder="Search bookmarks…"
+                  className="pl-9"
+                  value={q}
+                  onChange={(e) => setQ(e.target.value)}
+                />
+              </div>
+              <Select value={sort} onValueChange={(v) => changeSort(v as SortKey)}>
+                <SelectTrigger className="sm:w-48" aria-label="Sort bookmarks">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((o) => (
+                    <SelectItem key={o.key} value={o.key}>
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {availableKinds.length > 1 && (
+              <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by file type">
+                {availableKinds.map((k) => (
+                  <button
+                    key={k.kind}
+                    type="button"
+                    aria-pressed={kinds.has(k.kind)}
+                    onClick={() => toggleKind(k.kind)}
+                    className={cn(
+                      'inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs transition',
+                      kinds.has(k.kind)
+                        ? 'border-blue-300 bg-blue-50 text-blue-700'
+                        : 'border-slate-200 bg-white text-slate-700 hover:bg-slate-50'
+                    )}
+                  >
+                    <k.icon className={cn('h-3.5 w-3.5', k.iconClass)} />
+                    {k.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Selection bar */}
+          <div className="flex items-center justify-between rounded-md border border-slate-200 bg-white px-3 py-2">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <Checkbox
+                checked={allVisibleSelected}
+                onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                disabled={visiblePaths.length === 0}
+              />
+              {selected.size > 0 ? `${selected.size} selected` : `Select all (${visiblePaths.length})`}
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-red-300 text-red-700 hover:bg-red-50"
+              disabled={selected.size === 0 || removing}
+              onClick={removeSelected}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Remove selected
+            </Button>
+          </div>
+
+          {/* Groups */}
+          {groups.length === 0 ? (
+            <div className="rounded-md border border-dashed p-6 text-center text-sm text-slate-600">
+              No bookmarks match your search or filters.
+            </div>
           ) : (
-            <ul className="space-y-3">
-              {bookmarks.map((b) => (
-                <li key={b.id}>
-                  <a href={b.href} className="text-blue-600 hover:underline">
-                    {b.title}
-                  </a>
-                </li>
-              ))}
-            </ul>
+            groups.map((group) => (
+              <section key={group.key} aria-label={group.label}>
+                <h2 className="mb-2 text-sm font-semibold text-slate-900">
+                  {group.label} <span className="font-normal text-slate-500">({group.items.length})</span>
+                </h2>
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                  {group.items.map((b) => (
+                    <ResourceCard
+                      key={b.id}
+                      item={b}
+                      subtitle={savedLabel(b)}
+                      selected={selected.has(b.path)}
+                      onSelectedChange={(on) => setPathSelected(b.path, on)}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))
           )}
-        </CardContent>
-      </Card>
+        </div>
+      )}
     </AppShell>
   );
 }
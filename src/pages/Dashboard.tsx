@@ -3,6 +3,9 @@
  * - Removes legacy User/Subscription concepts.
  * - Uses account from AuthContext; subscriptionStatus is 'active' | 'inactive'.
  * - Recently Accessed + Announcements are already positioned at the top.
+ * - Recently Accessed lists each file once (latest access) with a re-open link, led by a "continue"
+ *   entry for the last training video played.
+ * - Trending: what peer pharmacies use this week, or a program's most downloaded files.
  */
 
 import React, { useEffect, useMemo, useState } from 'react';
@@ -15,54 +18,59 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import {
   ArrowRight,
   Download,
-  PlayCircle,
-  FileText,
+  ExternalLink,
+  Play,
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import MemberSidebar from '../components/layout/MemberSidebar';
 import ProfileSelectionModal from '../components/profiles/ProfileSelectionModal';
 import { useProfileStore } from '../stores/profileStore';
+import { useBookmarkStore } from '../stores/bookmarkStore';
+import { usePrograms } from '../stores/programStore';
 import { 
   getDashboardPrograms, 
   getRecentActivity, 
+  getLastPlayedVideo,
   getAnnouncements, 
-  getBookmarkedResources 
+  type ActivityAction,
+  type Announcement,
+  type DashboardProgram,
+  type RecentActivity
 } from '../services/profileDashboardService';
+import type { StorageFileItem } from '../services/supabaseStorage';
+import { useTrackAccess } from '../hooks/use-track-access';
+import { summarizeProgramStats } from '../services/programStats';
+import UpdatedAgoBadge from '../components/common/UpdatedAgoBadge';
+import SignedFileLink from '../components/common/SignedFileLink';
+import FileKindIcon from '../components/common/FileKindIcon';
+import TrendingResourcesCard from '../components/resources/TrendingResourcesCard';
 import type { MemberProfile } from '../types';
-
-/**
- * Helper: map string icon names to lucide-react components safely.
- */
-function iconByName(name?: string) {
-  switch ((name || '').trim()) {
-    case 'ClipboardCheck':
-      return require('lucide-react').ClipboardCheck;
-    case 'CalendarCheck':
-      return require('lucide-react').CalendarCheck;
-    case 'Stethoscope':
-      return require('lucide-react').Stethoscope;
-    case 'Activity':
-      return require('lucide-react').Activity;
-    case 'FileText':
-      return require('lucide-react').FileText;
-    case 'FileSpreadsheet':
-      return require('lucide-react').FileSpreadsheet;
-    case 'TestTubes':
-      return require('lucide-react').TestTubes;
-    case 'PlayCircle':
-      return require('lucide-react').PlayCircle;
-    case 'Star':
-      return require('lucide-react').Star;
-    default:
-      return ArrowRight;
-  }
-}
+import { iconByName } from '../lib/icons';
 
 /** Helper UI chips (compact) */
 const StatChip: React.FC<{ label: string }> = ({ label }) => (
   <div className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-700">{label}</div>
 );
 
+/** Past-tense label per activity action */
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  view: 'Opened',
+  download: 'Downloaded',
+  play: 'Played',
+};
+
+/** File item for an activity row that has a path (icon, re-tracking a re-open) */
+function activityFile(a: RecentActivity): StorageFileItem {
+  const path = a.resourcePath ?? '';
+  return {
+    path,
+    title: a.resourceName,
+    filename: path.split('/').pop() || a.resourceName,
+    url: '',
+    mimeType: a.mimeType,
+  };
+}
+
 
 /**
  * Dashboard component
@@ -70,13 +78,16 @@ const StatChip: React.FC<{ label: string }> = ({ label }) => (
 export default function Dashboard() {
   const { account } = useAuth();
   const { currentProfile, setCurrentProfile, loadProfiles } = useProfileStore();
+  const { bookmarks, loadBookmarks } = useBookmarkStore();
   const [showProfileSelection, setShowProfileSelection] = useState(false);
   
   // Dashboard data state
-  const [programs, setPrograms] = useState<any[]>([]);
-  const [bookmarks, setBookmarks] = useState<any[]>([]);
-  const [activity, setActivity] = useState<any[]>([]);
-  const [announcements, setAnnouncements] = useState<any[]>([]);
+  const [programs, setPrograms] = useState<DashboardProgram[]>([]);
+  const [activity, setActivity] = useState<RecentActivity[]>([]);
+  const [continueVideo, setContinueVideo] = useState<RecentActivity | null>(null);
+  const allPrograms = usePrograms();
+  const trackAccess = useTrackAccess();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -96,17 +107,18 @@ export default function Dashboard() {
         setLoading(true);
         setError(null);
         
-        const [programsData, activityData, announcementsData, bookmarksData] = await Promise.all([
+        const [programsData, activityData, lastVideo, announcementsData] = await Promise.all([
           getDashboardPrograms(),
           getRecentActivity(currentProfile.id),
+          getLastPlayedVideo(currentProfile.id),
           getAnnouncements(),
-          getBookmarkedResources(currentProfile.id),
+          loadBookmarks(currentProfile.id),
         ]);
         
         setPrograms(programsData);
         setActivity(activityData);
+        setContinueVideo(lastVideo);
         setAnnouncements(announcementsData);
-        setBookmarks(bookmarksData);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load dashboard data');
         console.error('Dashboard load error:', err);
@@ -116,13 +128,17 @@ export default function Dashboard() {
     };
 
     loadDashboardData();
-  }, [currentProfile?.id]);
+  }, [currentProfile?.id, loadBookmarks]);
 
   const handleProfileSelected = (profile: MemberProfile) => {
     setCurrentProfile(profile);
     setShowProfileSelection(false);
   };
 
+  /** Program short name for an activity row */
+  const programLabel = (slug?: string) =>
+    slug ? allPrograms.find((p) => p.slug === slug)?.shortName ?? slug.toUpperCase() : null;
+
   /** Compute subscription chip color from account.subscriptionStatus */
   const subColor = useMemo(() => {
     switch (account?.subscriptionStatus) {
@@ -201,22 +217,56 @@ export default function Dashboard() {
               <CardTitle className="text-sm">Recently Accessed</CardTitle>
             </CardHeader>
             <CardContent>
+              {continueVideo?.resourcePath && continueVideo.programSlug ? (
+                <div className="mb-2 flex items-center justify-between gap-3 rounded-md border border-blue-100 bg-blue-50 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="text-[11px] font-medium uppercase tracking-wide text-blue-700">Continue where you left off</div>
+                    <div className="truncate text-[13px] font-medium">{continueVideo.resourceName}</div>
+                    <div className="text-[12px] text-slate-500">
+                      {programLabel(continueVideo.programSlug)} • {new Date(continueVideo.accessedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <Link
+                    to={`/program/${continueVideo.programSlug}?tab=training&video=${encodeURIComponent(continueVideo.resourcePath)}`}
+                  >
+                    <Button size="sm" className="h-8 px-3">
+                      <Play className="mr-2 h-3.5 w-3.5" />
+                      Continue
+                    </Button>
+                  </Link>
+                </div>
+              ) : null}
+              {activity.length === 0 ? (
+                <div className="py-2 text-[13px] text-slate-600">
+                  Files you open, download or play will show up here.
+                </div>
+              ) : null}
               <div className="divide-y">
                 {activity.map((a) => (
-                  <div key={a.id} className="flex items-center justify-between py-2">
-                    <div>
-                      <div className="text-[13px] font-medium">{a.name}</div>
-                      <div className="text-[12px] text-slate-500">
-                        {a.program?.toUpperCase()} • {new Date(a.accessedAtISO).toLocaleString()}
+                  <div key={a.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="flex min-w-0 items-center gap-2">
+                      <FileKindIcon file={activityFile(a)} className="h-4 w-4 shrink-0" />
+                      <div className="min-w-0">
+                        <div className="truncate text-[13px] font-medium">{a.resourceName}</div>
+                        <div className="text-[12px] text-slate-500">
+                          {programLabel(a.programSlug) ? `${programLabel(a.programSlug)} • ` : ''}
+                          {ACTION_LABELS[a.action]} {new Date(a.accessedAt).toLocaleString()}
+                        </div>
                       </div>
                     </div>
-                    {a.url ? (
-                      <a href={a.url} target="_blank" rel="noreferrer">
+                    {a.resourcePath ? (
+                      <SignedFileLink path={a.resourcePath} onClick={() => trackAccess(activityFile(a), a.action)}>
                         <Button size="sm" variant="outline" className="bg-transparent h-8 px-3">
-                          <Download className="mr-2 h-3.5 w-3.5" />
-                          Re-download
+                          {a.action === 'play' ? (
+                            <Play className="mr-2 h-3.5 w-3.5" />
+                          ) : a.action === 'download' ? (
+                            <Download className="mr-2 h-3.5 w-3.5" />
+                          ) : (
+                            <ExternalLink className="mr-2 h-3.5 w-3.5" />
+                          )}
+                          {a.action === 'play' ? 'Play again' : a.action === 'download' ? 'Re-download' : 'Open'}
                         </Button>
-                      </a>
+                      </SignedFileLink>
                     ) : (
                       <Link to="/resources">
                         <Button size="sm" variant="outline" className="bg-transparent h-8 px-3">
@@ -266,7 +316,7 @@ export default function Dashboard() {
         </div>
         <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-3">
           {programs.map((p) => {
-            const Icon = iconByName(p.icon);
+            const Icon = iconByName(p.icon, ArrowRight);
             return (
               <Link key={p.slug} to={`/program/${p.slug}`}>
                 <Card className="group border-blue-50 hover:border-blue-200 hover:shadow-md">
@@ -276,12 +326,15 @@ export default function Dashboard() {
                         <Icon className="h-4 w-4 text-blue-600" />
                         <CardTitle className="text-sm">{p.name}</CardTitle>
                       </div>
-                      <Badge variant="secondary" className="text-[11px]">
-                        {p.resourceCount} resources
-                      </Badge>
+                      {p.resourceCount !== null ? (
+                        <Badge variant="secondary" className="text-[11px]">
+                          {p.resourceCount} resources
+                        </Badge>
+                      ) : null}
                     </div>
-                    <div className="text-[12px] text-slate-500">
-                      Updated {p.lastUpdatedISO ? new Date(p.lastUpdatedISO).toLocaleDateString() : '—'}
+                    <div className="flex flex-wrap items-center gap-1.5 pt-1 text-[12px] text-slate-500">
+                      <UpdatedAgoBadge iso={p.lastUpdatedISO} />
+                      {p.stats ? <span>{summarizeProgramStats(p.stats)}</span> : null}
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -294,12 +347,16 @@ export default function Dashboard() {
         </div>
       </section>
 
+      {/* Trending across member pharmacies */}
+      <section className="mb-6">
+        <TrendingResourcesCard />
+      </section>
 
       {/* Bookmarked resources */}
       <section className="mb-6">
         <div className="mb-2.5 flex items-center justify-between">
           <h2 className="text-base font-semibold">Your Bookmarked Resources</h2>
-          <Link to="/resources" className="text-[12px] text-blue-700 hover:underline">
+          <Link to="/bookmarks" className="text-[12px] text-blue-700 hover:underline">
             View All
           </Link>
         </div>
@@ -309,49 +366,33 @@ export default function Dashboard() {
           </div>
         ) : (
           <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-4">
-            {bookmarks.map((b) => {
-              const isVideo =
-                (b as any)?.mediaType === 'video' ||
-                typeof (b as any)?.duration === 'string' ||
-                String((b as any)?.type || '').toLowerCase() === 'video' ||
-                (b.url || '').toLowerCase().match(/\.(mp4|mov|m4v|webm)$/) != null;
-              const duration = (b as any)?.duration as string | undefined;
-
-              return (
-                <Card key={b.id} className="hover:shadow-sm">
-                  <CardHeader className="pb-2">
-                    <div className="flex items-center gap-2">
-                      {isVideo ? (
-                        <PlayCircle className="h-4 w-4 text-slate-600" />
-                      ) : (
-                        <FileText className="h-4 w-4 text-slate-600" />
-                      )}
-                      <CardTitle className="text-[13px]">{b.name}</CardTitle>
-                    </div>
-                    {isVideo && duration ? (
-                      <div className="text-[11px] text-slate-500">{duration}</div>
-                    ) : null}
-                  </CardHeader>
-                  <CardContent>
-                    {b.url ? (
-                      <a href={b.url} target="_blank" rel="noreferrer">
-                        <Button size="sm" variant="secondary" className="h-8 w-full px-3">
-                          <Download className="mr-2 h-3.5 w-3.5" />
-                          Download
-                        </Button>
-                      </a>
-                    ) : (
-                      <Link to="/resources">
-                        <Button size="sm" variant="secondary" className="h-8 w-full px-3">
-                          <Download className="mr-2 h-3.5 w-3.5" />
-                          View in Library
-                        </Button>
-                      </Link>
-                    )}
-                  </CardContent>
-                </Card>
-              );
-            })}
+            {bookmarks.map((b) => (
+              <Card key={b.id} className="hover:shadow-sm">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center gap-2">
+                    <FileKindIcon file={b} className="h-4 w-4" />
+                    <CardTitle className="text-[13px]">{b.title}</CardTitle>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {b.inCatalog ? (
+                    <SignedFileLink path={b.path}>
+                      <Button size="sm" variant="secondary" className="h-8 w-full px-3">
+                        <Download className="mr-2 h-3.5 w-3.5" />
+                        Download
+                      </Button>
+                    </SignedFileLink>
+                  ) : (
+                    <Link to="/resources">
+                      <Button size="sm" variant="secondary" className="h-8 w-full px-3">
+                        <Download className="mr-2 h-3.5 w-3.5" />
+                        View in Library
+                      </Button>
+                    </Link>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
           </div>
         )}
       </section>
@@ -3,6 +3,7 @@
  * This file renders the marketing homepage. Per request, the first three sections
  * (Hero, Advantage, Programs) are replaced to exactly match the provided code.
  * Remaining sections are preserved.
+ * Program cards come from the program registry (programs table with built-in fallback).
  */
 
 import React, { useState, useMemo } from 'react'
@@ -15,15 +16,12 @@ import {
   // Icons used in replaced sections
   Play,
   Users,
-  Clock,
   CheckCircle,
   ArrowRight,
   Start,
   Target,
-  Zap,
   Shield,
   Award,
-  FileText,
   Heart,
   // Icons used in the rest of the existing sections (kept)
   Users as UsersIcon,
@@ -33,6 +31,8 @@ import {
   TrendingUp,
   Lightbulb
 } from 'lucide-react'
+import { usePrograms } from '../stores/programStore'
+import { iconByName } from '../lib/icons'
 
 /**
  * Interface for safely renderable text values
@@ -138,49 +138,19 @@ const HomePage: React.FC = () => {
 
   /**
    * Programs displayed in the homepage programs section
-   * Matches exactly the provided content.
+   * From the program registry (name, tagline, icon, features).
    */
-  const programs: ProgramCardItem[] = [
-    {
-      title: 'TimeMyMeds',
-      description:
-        'Create predictable appointment schedules that enable clinical service delivery',
-      icon: Clock,
-      features: ['Comprehensive Reviews', 'Billing Expertise', 'Patient Outcomes']
-    },
-    {
-      title: 'MTM The Future Today',
-      description:
-        'Team-based Medication Therapy Management with proven protocols and technician workflows',
-      icon: FileText,
-      features: ['Comprehensive Reviews', 'Billing Expertise', 'Patient Outcomes']
-    },
-    {
-      title: 'Test & Treat Services',
-      description:
-        'Point-of-care testing and treatment for Flu, Strep, and COVID-19',
-      icon: Zap,
-      features: ['CLIA-Waived Testing', 'State Protocols', 'Medical Billing']
-    },
-    {
-      title: 'HbA1c Testing',
-      description:
-        'Diabetes management with point-of-care A1c testing and clinical integration',
-      icon: Award,
-      features: ['Quality Metrics', 'Provider Communication', 'Value-Based Care']
-    },
-    {
-      title: 'Pharmacist-Initiated Oral Contraceptives',
-      description:
-        'From patient intake to medical billing, our protocols are here for your team and patients',
-      icon: Heart,
-      features: [
-        'Practice-Based Clinical Skills',
-        'Pharmacy Tech Training',
-        'Prescribing with Confidence'
-      ]
-    }
-  ]
+  const registryPrograms = usePrograms()
+  const programs: ProgramCardItem[] = useMemo(
+    () =>
+      registryPrograms.map((p) => ({
+        title: p.name,
+        description: p.tagline,
+        icon: iconByName(p.icon),
+        features: p.features
+      })),
+    [registryPrograms]
+  )
 
   // Keep existing memoized list for other preserved sections if needed.
   const preservedPrograms = useMemo(() => [], [])
@@ -331,9 +301,9 @@ const HomePage: React.FC = () => {
           {/* Program cards grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 items-start">
             {/* Row 1: first three cards */}
-            <ProgramCard item={programs[0]} />
-            <ProgramCard item={programs[1]} />
-            <ProgramCard item={programs[2]} />
+            {programs.slice(0, 3).map((item) => (
+              <ProgramCard key={item.title} item={item} />
+            ))}
 
             {/* Row 2: pharmacist image at bottom-left */}
             <div className="hidden md:block relative rounded-2xl overflow-hidden bg-gradient-to-br from-gray-800/60 to-gray-900/60 border border-gray-700 shadow-xl">
@@ -345,9 +315,10 @@ const HomePage: React.FC = () => {
               <div className="absolute inset-0 bg-gradient-to-t from-gray-900/20 to-transparent" />
             </div>
 
-            {/* Row 2: two more cards to the right */}
-            <ProgramCard item={programs[3]} />
-            <ProgramCard item={programs[4]} />
+            {/* Row 2 onward: remaining cards to the right */}
+            {programs.slice(3).map((item) => (
+              <ProgramCard key={item.title} item={item} />
+            ))}
           </div>
         </div>
       </section>
@@ -2,7 +2,8 @@
  * Member Content page (Programs listing, Supabase-only)
  * - Purpose: Show available programs discovered from Supabase-aware catalog (no Airtable).
  * - Layout: AppShell with MemberSidebar (consistent member frame).
- * - Data: listProgramsFromStorage() from storageCatalog (ProgramSlugs + curated metadata).
+ * - Data: programRegistry.getPrograms() (programs table with built-in fallback).
+ * - Stats: programStats (counts, videos, training length, "updated N days ago") from the catalog.
  */
 
 import { useEffect, useMemo, useState } from 'react';
@@ -15,15 +16,16 @@ import {
   CardHeader,
   CardTitle,
 } from '../components/ui/card';
-import { BookOpen, FileText, Zap, Award, Loader2 } from 'lucide-react';
+import { BookOpen, Loader2 } from 'lucide-react';
 import Breadcrumbs from '../components/common/Breadcrumbs';
 import SafeText from '../components/common/SafeText';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
-import {
-  listProgramsFromStorage,
-  type ProgramListItem,
-} from '../services/storageCatalog';
+import { getPrograms } from '../services/programRegistry';
+import { getProgramStats, summarizeProgramStats, type ProgramStats } from '../services/programStats';
+import UpdatedAgoBadge from '../components/common/UpdatedAgoBadge';
+import { iconByName } from '../lib/icons';
+import type { ClinicalProgram } from '../types';
 
 /** UI type for program card */
 interface ProgramUIItem {
@@ -33,27 +35,20 @@ interface ProgramUIItem {
   level?: string;
   color: string;
   icon: React.ComponentType<{ className?: string }>;
+  stats: ProgramStats | null;
 }
 
-/** Visual mapping helper (placeholder: all brand gradient) */
-function getProgramVisuals(level?: string) {
-  const lower = (level || '').toLowerCase();
-  if (lower.includes('advanced') || lower.includes('expert')) {
-    return { color: 'from-blue-600 via-cyan-500 to-teal-300', icon: Zap };
-  }
-  if (lower.includes('intermediate')) {
-    return { color: 'from-blue-600 via-cyan-500 to-teal-300', icon: Award };
-  }
-  return { color: 'from-blue-600 via-cyan-500 to-teal-300', icon: FileText };
-}
+/** Card accent (placeholder: all brand gradient) */
+const PROGRAM_COLOR = 'from-blue-600 via-cyan-500 to-teal-300';
 
 /**
  * MemberContent component (Supabase-backed)
  */
 export default function MemberContent() {
-  const [programs, setPrograms] = useState<ProgramListItem[]>([]);
+  const [programs, setPrograms] = useState<ClinicalProgram[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [stats, setStats] = useState<Record<string, ProgramStats>>({});
 
   /** Load program list (Supabase catalog, no API routes) */
   useEffect(() => {
@@ -61,8 +56,12 @@ export default function MemberContent() {
       try {
         setLoading(true);
         setError(null);
-        const items = await listProgramsFromStorage();
+        const items = await getPrograms();
         setPrograms(items || []);
+        // Stats are an enhancement; cards render without them
+        getProgramStats()
+          .then(setStats)
+          .catch((e) => console.warn('Program stats unavailable:', e));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load programs');
          
@@ -77,18 +76,16 @@ export default function MemberContent() {
   /** Map DTO → UI model */
   const programUIItems: ProgramUIItem[] = useMemo(
     () =>
-      (programs || []).map((p) => {
-        const visuals = getProgramVisuals(undefined);
-        return {
-          slug: p.slug,
-          title: p.name,
-          description: p.description,
-          level: undefined,
-          color: visuals.color,
-          icon: visuals.icon,
-        };
-      }),
-    [programs]
+      (programs || []).map((p) => ({
+        slug: p.slug,
+        title: p.name,
+        description: p.description,
+        level: p.level || undefined,
+        color: PROGRAM_COLOR,
+        icon: iconByName(p.icon),
+        stats: stats[p.slug] ?? null,
+      })),
+    [programs, stats]
   );
 
   return (
@@ -173,13 +170,14 @@ export default function MemberContent() {
                         >
                           <Icon className="h-6 w-6 text-white" />
                         </div>
-                        {program.level ? (
-                          <div className="flex gap-2">
+                        <div className="flex flex-wrap justify-end gap-2">
+                          {program.level ? (
                             <span className="rounded bg-slate-100 px-2 py-0.5 text-xs text-slate-700">
                               <SafeText value={program.level} />
                             </span>
-                          </div>
-                        ) : null}
+                          ) : null}
+                          <UpdatedAgoBadge iso={program.stats?.lastModified} />
+                        </div>
                       </div>
                       <CardTitle className="mb-2 text-xl">
                         <SafeText value={program.title} />
@@ -189,6 +187,12 @@ export default function MemberContent() {
                           <SafeText value={program.description} />
                         </CardDescription>
                       ) : null}
+                      {program.stats ? (
+                        <div className="text-sm text-slate-500">
+                          {program.stats.counts.total} resources
+                          {summarizeProgramStats(program.stats) ? ` · ${summarizeProgramStats(program.stats)}` : ''}
+                        </div>
+                      ) : null}
                     </CardHeader>
 
                     <CardContent>
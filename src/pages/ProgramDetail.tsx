@@ -2,7 +2,7 @@
  * ProgramDetail page (Supabase-only, storage_files_catalog backed)
  * - Purpose: Display a single clinical program by slug with grouped resources:
  *   Overview, Training Modules, Protocol Manuals, Documentation Forms, Additional Resources.
- * - Data: Supabase Storage via storageCatalog.getProgramResourcesGrouped (no Airtable).
+ * - Data: Supabase Storage via storageCatalog.getProgramResourcesGrouped (no Airtable); program metadata from programRegistry.
  * - Layout: Blue→cyan gradient hero with glassmorphism container, then a horizontal Tabs nav.
  * - UX: Dense, full-width rows using ProgramResourceRow inside each tab; URL sync via ?tab=.
  * - Update: MTM forms (Forms tab) are sectioned and now collapsible (collapsed by default) with smooth transitions.
@@ -24,13 +24,11 @@ import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
 import ProgramResourceRow from '../components/resources/ProgramResourceRow';
 import TrainingPlayer from '../components/training/TrainingPlayer';
-import {
-  getProgramResourcesGrouped,
-  ProgramSlugs,
-  listProgramsFromStorage,
-  type ProgramSlug,
-} from '../services/storageCatalog';
-import type { StorageFileItem } from '../services/supabaseStorage';
+import { getProgramResourcesGrouped } from '../services/storageCatalog';
+import { getProgram } from '../services/programRegistry';
+import { isAbortError, type StorageFileItem } from '../services/supabaseStorage';
+import { subscribeCatalogCache } from '../services/catalogCache';
+import { isVideo } from '../lib/fileKinds';
 
 /**
  * Tab identifiers for the ProgramDetail page
@@ -252,6 +250,7 @@ export default function ProgramDetail() {
   const { programSlug = '' } = useParams();
   const [name, setName] = useState<string>(programSlug);
   const [description, setDescription] = useState<string | undefined>(undefined);
+  const [completionThreshold, setCompletionThreshold] = useState<number | undefined>(undefined);
 
   const [training, setTraining] = useState<StorageFileItem[]>([]);
   const [protocols, setProtocols] = useState<StorageFileItem[]>([]);
@@ -260,6 +259,12 @@ export default function ProgramDetail() {
 
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
+  /** Files found so far when loading falls back to the storage crawl */
+  const [crawlFound, setCrawlFound] = useState<number | null>(null);
+
+  // Bumped when the catalog cache refreshes in the background so the program reloads
+  const [catalogVersion, setCatalogVersion] = useState(0);
+  useEffect(() => subscribeCatalogCache(() => setCatalogVersion((v) => v + 1)), []);
 
   // URL tab sync
   const location = useLocation();
@@ -270,6 +275,9 @@ export default function ProgramDetail() {
     return normalizeTab(qs.get('tab'));
   }, [location.search]);
 
+  /** Training video to open (?video=<path>, from the dashboard "continue" link) */
+  const initialVideoPath = useMemo(() => new URLSearchParams(location.search).get('video'), [location.search]);
+
   /**
    * Count helpers for quick labels
    */
@@ -354,39 +362,36 @@ export default function ProgramDetail() {
    */
   useEffect(() => {
     let mounted = true;
+    // Cancels the storage crawl fallback when the slug changes or the page unmounts
+    const controller = new window.AbortController();
 
     async function load() {
       try {
         setLoading(true);
         setErr(null);
-
-        // Friendly name/description from curated list
-        try {
-          const list = await listProgramsFromStorage();
-          const meta = list.find((p) => p.slug === programSlug);
-          if (mounted) {
-            setName(meta?.name || programSlug);
-            setDescription(meta?.description || undefined);
-          }
-        } catch {
-          if (mounted) {
-            setName(programSlug);
-            setDescription(undefined);
-          }
-        }
-
-        // Only load grouped files if slug is recognized
-        if ((ProgramSlugs as readonly string[]).includes(programSlug)) {
-          const grouped = await getProgramResourcesGrouped(programSlug as ProgramSlug);
-          if (!mounted) return;
-          setTraining(grouped.training || []);
-          setProtocols(grouped.protocols || []);
-          setForms(grouped.forms || []);
-          setResources(grouped.resources || []);
-        } else {
-          throw new Error('Program not found.');
-        }
+        setCrawlFound(null);
+
+        // Name/description/completion rule from the program registry; unknown slugs are not found
+        const program = await getProgram(programSlug);
+        if (!mounted) return;
+        setName(program?.name || programSlug);
+        setDescription(program?.description || undefined);
+        setCompletionThreshold(program?.completionThreshold);
+        if (!program) throw new Error('Program not found.');
+
+        const grouped = await getProgramResourcesGrouped(program.slug, {
+          signal: controller.signal,
+          onProgress: (p) => {
+            if (mounted) setCrawlFound(p.filesFound);
+          },
+        });
+        if (!mounted) return;
+        setTraining(grouped.training || []);
+        setProtocols(grouped.protocols || []);
+        setForms(grouped.forms || []);
+        setResources(grouped.resources || []);
       } catch (e: any) {
+        if (isAbortError(e)) return;
         if (mounted) setErr(e?.message || 'Failed to load program.');
       } finally {
         if (mounted) setLoading(false);
@@ -396,8 +401,9 @@ export default function ProgramDetail() {
     load();
     return () => {
       mounted = false;
+      controller.abort();
     };
-  }, [programSlug]);
+  }, [programSlug, catalogVersion]);
 
   /**
    * Handle tab change by writing it into the URL (?tab=...)
@@ -663,7 +669,9 @@ export default function ProgramDetail() {
       {/* Loading or error */}
       <section className="py-6">
         {loading ? (
-          <div className="rounded-md border p-6 text-sm text-slate-600">Loading program…</div>
+          <div className="rounded-md border p-6 text-sm text-slate-600">
+            Loading program…{crawlFound !== null ? ` ${crawlFound} files found` : ''}
+          </div>
         ) : err ? (
           <div className="rounded-md border border-red-200 bg-red-50 p-6 text-sm text-red-700">{err}</div>
         ) : (
@@ -731,12 +739,14 @@ export default function ProgramDetail() {
 
                   {/* Training */}
                   <TabsContent value="training" className="px-4 py-4">
-                    {training.some((t) => (t as any).mimeType?.startsWith('video/') || /\\.(mp4|webm|ogg)$/i.test(t.filename || t.title || '')) ? (
+                    {training.some((t) => isVideo(t)) ? (
   <TrainingPlayer
     programSlug={programSlug}
     programName={name}
     programDescription={description}
     items={training}
+    initialVideoPath={initialVideoPath}
+    completionThreshold={completionThreshold}
   />
 ) : (
   renderRows(training, 'No training modules available yet.')
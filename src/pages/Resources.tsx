@@ -4,7 +4,9 @@
  * - Filters sync with URL query (?cat=handouts|clinical|billing) so sidebar links work.
  * - Minimal results list (icon + name + one action).
  * - Data source: Supabase storage-backed helpers (storageCatalog). No serverless dependency.
+ * - Lists come from the persistent catalog cache and reload when it refreshes in the background.
  * - Update: Add "Medical conditions" group in Filters with single-select options to filter resources by condition keywords.
+ * - Sort: library order, name, or "Popular" (network-wide use over the last 30 days, trendingService).
  */
 
 import { useEffect, useMemo, useState } from 'react';
@@ -12,6 +14,7 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import {
   Grid2x2,
   FileText,
@@ -26,14 +29,13 @@ import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
 import ResourceCard from '../components/resources/ResourceCard';
 import { useProfileStore } from '../stores/profileStore';
-import { useResourceBookmarkStore } from '../stores/resourceBookmarkStore';
-import {
-  ProgramSlugs,
-  getProgramResourcesGrouped,
-  type ProgramSlug,
-  getGlobalCategory,
-} from '../services/storageCatalog';
+import { useBookmarkStore } from '../stores/bookmarkStore';
+import { useTrackEvent, useTrackSearch } from '../hooks/use-track-event';
+import { getCatalogSnapshot, getGlobalCategory } from '../services/storageCatalog';
+import { subscribeCatalogCache } from '../services/catalogCache';
+import { getPopularityRanks } from '../services/trendingService';
 import type { StorageFileItem } from '../services/supabaseStorage';
+import { isVideo } from '../lib/fileKinds';
 
 /** Unified shape for items rendered in results */
 interface ResultItem {
@@ -54,6 +56,9 @@ type FilterKey =
   | 'videos'
   | 'conditions';
 
+/** Result orders */
+type SortKey = 'default' | 'name' | 'popular';
+
 /** Medical condition keys */
 type ConditionKey =
   | 'diabetes'
@@ -90,15 +95,6 @@ const CONDITION_OPTIONS: Array<{
   },
 ];
 
-/** Determine if a URL or mime represents a video. */
-function isVideo({ url, mimeType }: { url?: string; mimeType?: string }): boolean {
-  const mime = (mimeType || '').toLowerCase();
-  if (mime.startsWith('video/')) return true;
-  const u = (url || '').toLowerCase();
-  return ['.mp4', '.mov', '.m4v', '.webm', '.avi', '.mkv'].some((ext) => u.endsWith(ext));
-}
-
-
 /**
  * SidebarCheckboxFilters
  * - Purpose: Compact, grouped checkbox filters shown in the sidebar.
@@ -297,7 +293,8 @@ export default function Resources() {
   const navigate = useNavigate();
   const [filterFromQuery, setFilterFromQuery] = useFilterFromQuery();
   const { currentProfile } = useProfileStore();
-  const { loadBookmarks } = useResourceBookmarkStore();
+  const { loadBookmarks } = useBookmarkStore();
+  const track = useTrackEvent();
 
   // Local UI state for filter (includes 'program', 'videos', and 'conditions' which are not part of ?cat)
   const [filter, setFilter] = useState<FilterKey>(filterFromQuery);
@@ -322,16 +319,23 @@ export default function Resources() {
   // Search term
   const [q, setQ] = useState('');
 
+  // Result order; popularity ranks load the first time "Popular" is picked
+  const [sort, setSort] = useState<SortKey>('default');
+  const [popularity, setPopularity] = useState<Map<string, number> | null>(null);
+
   // Loading/error states
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Data caches
+  // Loaded lists (the catalog cache under storageCatalog makes re-requests instant)
   const [globalHandouts, setGlobalHandouts] = useState<ResultItem[]>([]);
   const [globalClinical, setGlobalClinical] = useState<ResultItem[]>([]);
   const [globalBilling, setGlobalBilling] = useState<ResultItem[]>([]);
   const [programFiles, setProgramFiles] = useState<ResultItem[]>([]);
-  const [programLoaded, setProgramLoaded] = useState(false);
+
+  // Bumped when the catalog cache refreshes in the background so lists reload
+  const [catalogVersion, setCatalogVersion] = useState(0);
+  useEffect(() => subscribeCatalogCache(() => setCatalogVersion((v) => v + 1)), []);
 
   /** Map storage item to ResultItem */
   function mapGlobal(items: { path: string; title: string; url: string; mimeType?: string }[]): ResultItem[] {
@@ -344,25 +348,41 @@ export default function Resources() {
     }));
   }
 
-  /** Lazy-load global categories when needed */
+  /**
+   * Load the lists needed by the active filter.
+   * - Single global category: one catalog request.
+   * - Program/Videos/Conditions: the whole bucket in one request (conditions needs everything for keyword search).
+   */
   useEffect(() => {
+    const needsSnapshot = filter === 'program' || filter === 'videos' || filter === 'conditions';
+    const globalCat =
+      filter === 'handouts' ? 'handouts' : filter === 'clinical' ? 'guidelines' : filter === 'billing' ? 'billing' : null;
+    if (!needsSnapshot && !globalCat) return;
     let cancelled = false;
 
-    async function ensure(cat: 'handouts' | 'clinical' | 'billing') {
+    async function load() {
       try {
         setLoading(true);
         setError(null);
-        if (cat === 'handouts' && globalHandouts.length === 0) {
-          const items = await getGlobalCategory('handouts');
-          if (!cancelled) setGlobalHandouts(mapGlobal(items));
-        }
-        if (cat === 'clinical' && globalClinical.length === 0) {
-          const items = await getGlobalCategory('guidelines');
-          if (!cancelled) setGlobalClinical(mapGlobal(items));
-        }
-        if (cat === 'billing' && globalBilling.length === 0) {
-          const items = await getGlobalCategory('billing');
-          if (!cancelled) setGlobalBilling(mapGlobal(items));
+        if (needsSnapshot) {
+          const snapshot = await getCatalogSnapshot();
+          if (cancelled) return;
+          setGlobalHandouts(mapGlobal(snapshot.globals.handouts));
+          setGlobalClinical(mapGlobal(snapshot.globals.guidelines));
+          setGlobalBilling(mapGlobal(snapshot.globals.billing));
+          const all = Object.values(snapshot.programs).flatMap((g) => {
+            return mapGlobal([...g.forms, ...g.protocols, ...g.resources, ...g.training]).map((i) => ({
+              ...i,
+              source: 'program' as const,
+            }));
+          });
+          setProgramFiles(all);
+        } else if (globalCat) {
+          const items = mapGlobal(await getGlobalCategory(globalCat));
+          if (cancelled) return;
+          if (globalCat === 'handouts') setGlobalHandouts(items);
+          if (globalCat === 'guidelines') setGlobalClinical(items);
+          if (globalCat === 'billing') setGlobalBilling(items);
         }
       } catch (e: any) {
         if (!cancelled) setError(e?.message || 'Failed to load resources');
@@ -371,108 +391,11 @@ export default function Resources() {
       }
     }
 
-    if (filter === 'handouts') ensure('handouts');
-    if (filter === 'clinical') ensure('clinical');
-    if (filter === 'billing') ensure('billing');
-
+    load();
     return () => {
       cancelled = true;
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filter]);
-
-  /** Ensure all global categories are loaded when filtering by conditions (so keyword search is complete) */
-  useEffect(() => {
-    if (filter !== 'conditions') return;
-    let cancelled = false;
-    async function loadAllGlobals() {
-      try {
-        setLoading(true);
-        setError(null);
-        const promises: Promise<void>[] = [];
-
-        if (globalHandouts.length === 0) {
-          promises.push(
-            getGlobalCategory('handouts').then((items) => {
-              if (!cancelled) setGlobalHandouts(mapGlobal(items));
-            })
-          );
-        }
-        if (globalClinical.length === 0) {
-          promises.push(
-            getGlobalCategory('guidelines').then((items) => {
-              if (!cancelled) setGlobalClinical(mapGlobal(items));
-            })
-          );
-        }
-        if (globalBilling.length === 0) {
-          promises.push(
-            getGlobalCategory('billing').then((items) => {
-              if (!cancelled) setGlobalBilling(mapGlobal(items));
-            })
-          );
-        }
-
-        await Promise.all(promises);
-      } catch (e: any) {
-        if (!cancelled) setError(e?.message || 'Failed to load resources');
-      } finally {
-        if (!cancelled) setLoading(false);
-      }
-    }
-    loadAllGlobals();
-    return () => {
-      cancelled = true;
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filter]);
-
-  /** Lazy load program files aggregated across all ProgramSlugs (needed for Program and Videos; now also for Conditions) */
-  useEffect(() => {
-    let cancelled = false;
-    async function loadAllProgramFiles() {
-      try {
-        setLoading(true);
-        setError(null);
-        const all: ResultItem[] = [];
-        await Promise.all((ProgramSlugs as readonly ProgramSlug[]).map(async (slug) => {
-          const grouped = await getProgramResourcesGrouped(slug);
-          const append = (items: { path: string; title: string; url: string; mimeType?: string }[]) => {
-            for (const it of items) {
-              all.push({
-                id: it.path,
-                name: it.title,
-                url: it.url,
-                mimeType: it.mimeType,
-                source: 'program',
-              });
-            }
-          };
-          append(grouped.forms);
-          append(grouped.protocols);
-          append(grouped.resources);
-          append(grouped.training);
-        }));
-        if (cancelled) return;
-        const map = new Map<string, ResultItem>();
-        all.forEach((r) => map.set(r.id, r));
-        setProgramFiles(Array.from(map.values()));
-        setProgramLoaded(true);
-      } catch (e: any) {
-        if (!cancelled) setError(e?.message || 'Failed to load program files');
-      } finally {
-        if (!cancelled) setLoading(false);
-      }
-    }
-
-    if ((filter === 'program' || filter === 'videos' || filter === 'conditions') && !programLoaded) {
-      loadAllProgramFiles();
-    }
-    return () => {
-      cancelled = true;
-    };
-     
-  }, [filter, programLoaded]);
+  }, [filter, catalogVersion]);
 
   /** Build display list based on active filter */
   const items: ResultItem[] = useMemo(() => {
@@ -491,7 +414,7 @@ export default function Resources() {
         seen.add(k);
         return true;
       });
-      return deduped.filter((r) => isVideo({ url: r.url, mimeType: r.mimeType }));
+      return deduped.filter((r) => isVideo({ path: r.id, url: r.url, mimeType: r.mimeType }));
     }
 
     // conditions: merge all sets and filter by condition keywords
@@ -524,6 +447,34 @@ export default function Resources() {
     return items.filter((r) => r.name.toLowerCase().includes(term));
   }, [items, q]);
 
+  useTrackSearch('resources', q, filtered.length);
+
+  useEffect(() => {
+    if (sort !== 'popular' || popularity) return;
+    let cancelled = false;
+    getPopularityRanks()
+      .then((ranks) => {
+        if (!cancelled) setPopularity(ranks);
+      })
+      .catch((e) => {
+        console.error('Failed to load popular resources:', e);
+        if (!cancelled) setPopularity(new Map());
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sort, popularity]);
+
+  /** Apply the chosen order (stable: ties keep library order) */
+  const sorted = useMemo(() => {
+    if (sort === 'name') return [...filtered].sort((a, b) => a.name.localeCompare(b.name));
+    if (sort === 'popular' && popularity) {
+      const rank = (r: ResultItem) => popularity.get(r.id) ?? Number.MAX_SAFE_INTEGER;
+      return [...filtered].sort((a, b) => rank(a) - rank(b));
+    }
+    return filtered;
+  }, [filtered, popularity, sort]);
+
   /** Convert ResultItem to StorageFileItem for ResourceCard */
   const convertToStorageFileItem = (item: ResultItem): StorageFileItem => ({
     path: item.id,
@@ -537,6 +488,7 @@ export default function Resources() {
   /** Handlers: update both state and URL where applicable */
   function go(next: FilterKey) {
     setFilter(next);
+    track('filter_changed', { scope: 'resources', filter: 'category', value: next });
     // Reset condition when clearing
     if (next === 'all') setSelectedCondition(null);
     // sync URL for the three global categories; clear for others
@@ -547,10 +499,16 @@ export default function Resources() {
     }
   }
 
+  function changeSort(next: SortKey) {
+    setSort(next);
+    track('filter_changed', { scope: 'resources', filter: 'sort', value: next });
+  }
+
   /** Selecting a medical condition activates the 'conditions' filter and clears URL cat */
   function chooseCondition(cond: ConditionKey) {
     setSelectedCondition(cond);
     setFilter('conditions');
+    track('filter_changed', { scope: 'resources', filter: 'condition', value: cond });
     setFilterFromQuery('all', (url) => navigate(url));
   }
 
@@ -636,6 +594,21 @@ export default function Resources() {
 
           {/* Results */}
           <section className="md:col-span-3">
+            <div className="mb-3 flex items-center justify-between gap-3">
+              <div className="text-xs text-slate-500">
+                {sort === 'popular' ? 'Most used across member pharmacies in the last 30 days first' : null}
+              </div>
+              <Select value={sort} onValueChange={(v) => changeSort(v as SortKey)}>
+                <SelectTrigger className="h-8 w-44 text-xs" aria-label="Sort resources">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Library order</SelectItem>
+                  <SelectItem value="name">Name (A–Z)</SelectItem>
+                  <SelectItem value="popular">Popular</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             {loading ? (
               <div className="p-6 text-sm text-slate-600">Loading…</div>
             ) : error ? (
@@ -644,7 +617,7 @@ export default function Resources() {
               <div className="p-6 text-sm text-slate-600">No results.</div>
             ) : (
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                {filtered.map((item) => (
+                {sorted.map((item) => (
                   <ResourceCard
                     key={`${item.source}:${item.id}`}
                     item={convertToStorageFileItem(item)}
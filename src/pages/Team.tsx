@@ -0,0 +1,379 @@
+/**
+ * Team page (protected, Pharmacist-PIC only)
+ * - Uses AppShell with a fixed MemberSidebar (static frame).
+ * - What the pharmacy's profiles use: resource access per profile over time, most-used resources,
+ *   training progress by profile and program, and profiles with no activity in the range.
+ * - Date range presets (7/30/90 days) or custom dates; each section exports to CSV.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Download, Lock, UserX } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Badge } from '../components/ui/badge';
+import { Progress } from '../components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '../components/ui/chart';
+import Breadcrumbs from '../components/common/Breadcrumbs';
+import FileKindIcon from '../components/common/FileKindIcon';
+import AppShell from '../components/layout/AppShell';
+import MemberSidebar from '../components/layout/MemberSidebar';
+import { useAuth } from '../components/auth/AuthContext';
+import { useProfileStore } from '../stores/profileStore';
+import { usePrograms } from '../stores/programStore';
+import {
+  canViewTeamAnalytics,
+  getTeamAnalytics,
+  lastDaysRange,
+  type TeamAnalytics,
+  type TeamAnalyticsRange,
+} from '../services/teamAnalyticsService';
+import { downloadCsv, toCsv } from '../lib/csv';
+
+type RangePreset = '7' | '30' | '90' | 'custom';
+
+/** Chart colors, cycled per profile */
+const SERIES_COLORS = ['--chart-1', '--chart-2', '--chart-3', '--chart-4', '--chart-5'].map((v) => `hsl(var(${v}))`);
+
+const STATUS_LABELS = {
+  completed: 'Completed',
+  in_progress: 'In progress',
+  not_started: 'Not started',
+} as const;
+
+function formatDate(iso: string | undefined): string {
+  if (!iso) return 'Never';
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+/** YYYY-MM-DD → short axis label */
+function formatDay(key: string): string {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/** Section title with its CSV export */
+function SectionHeader({ title, onExport, disabled }: { title: string; onExport: () => void; disabled?: boolean }) {
+  return (
+    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+      <CardTitle className="text-base">{title}</CardTitle>
+      <Button variant="ghost" size="sm" className="h-8 gap-1.5 text-xs" onClick={onExport} disabled={disabled}>
+        <Download className="h-3.5 w-3.5" />
+        Export CSV
+      </Button>
+    </CardHeader>
+  );
+}
+
+export default function Team() {
+  const { account } = useAuth();
+  const { currentProfile, profiles, loadProfiles } = useProfileStore();
+  const programs = usePrograms();
+  const allowed = canViewTeamAnalytics(currentProfile);
+
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [range, setRange] = useState<TeamAnalyticsRange>(() => lastDaysRange(30));
+  const [report, setReport] = useState<TeamAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (account?.id && allowed) loadProfiles(account.id);
+  }, [account?.id, allowed, loadProfiles]);
+
+  useEffect(() => {
+    if (!allowed || profiles.length === 0 || range.from > range.to) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getTeamAnalytics(profiles, programs, range)
+      .then((next) => {
+        if (!cancelled) setReport(next);
+      })
+      .catch((e) => {
+        console.error('Failed to load team analytics:', e);
+        if (!cancelled) setError('Could not load team activity. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [allowed, profiles, programs, range]);
+
+  function choosePreset(next: RangePreset) {
+    setPreset(next);
+    if (next !== 'custom') setRange(lastDaysRange(Number(next)));
+  }
+
+  const chartConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        (report?.members ?? []).map((m, i) => [m.profileId, { label: m.name, color: SERIES_COLORS[i % SERIES_COLORS.length] }])
+      ),
+    [report?.members]
+  );
+  const chartData = useMemo(
+    () => (report?.accessByDay ?? []).map((d) => ({ date: d.date, ...d.byProfile })),
+    [report?.accessByDay]
+  );
+  const nameById = useMemo(() => new Map((report?.members ?? []).map((m) => [m.profileId, m.name])), [report?.members]);
+  const fileSuffix = `${range.from}_to_${range.to}`;
+
+  function exportAccess() {
+    if (!report) return;
+    const members = report.members;
+    downloadCsv(
+      `team-access_${fileSuffix}`,
+      toCsv(
+        ['Date', ...members.map((m) => m.name), 'Total'],
+        report.accessByDay.map((d) => [d.date, ...members.map((m) => d.byProfile[m.profileId] ?? 0), d.total])
+      )
+    );
+  }
+
+  function exportTopResources() {
+    if (!report) return;
+    downloadCsv(
+      `team-top-resources_${fileSuffix}`,
+      toCsv(
+        ['Resource', 'Path', 'Program', 'Accesses', 'Profiles'],
+        report.topResources.map((r) => [r.name, r.path, r.programSlug, r.accessCount, r.profileCount])
+      )
+    );
+  }
+
+  function exportTraining() {
+    if (!report) return;
+    downloadCsv(
+      `team-training_${fileSuffix}`,
+      toCsv(
+        ['Profile', 'Program', 'Status', 'Completion %', 'Completed'],
+        report.training.map((t) => [
+          nameById.get(t.profileId),
+          t.programName,
+          STATUS_LABELS[t.completionStatus],
+          t.completionPercentage,
+          t.completedTime?.slice(0, 10),
+        ])
+      )
+    );
+  }
+
+  function exportMembers() {
+    if (!report) return;
+    downloadCsv(
+      `team-profiles_${fileSuffix}`,
+      toCsv(
+        ['Profile', 'Role', 'Accesses in range', 'Last active', 'Inactive in range'],
+        report.members.map((m) => [m.name, m.roleType, m.accessCount, m.lastActiveAt?.slice(0, 10), m.accessCount === 0 ? 'Yes' : 'No'])
+      )
+    );
+  }
+
+  const header = (
+    <div className="mx-auto w-full max-w-[1280px] px-4 py-4">
+      <Breadcrumbs
+        items={[
+          { label: 'Dashboard', to: '/dashboard' },
+          { label: 'Team' },
+        ]}
+      />
+      <div className="mt-2 text-2xl font-bold">Team activity</div>
+      <div className="text-sm text-gray-600">What your pharmacy team opens, downloads and completes</div>
+    </div>
+  );
+
+  if (!allowed) {
+    return (
+      <AppShell sidebar={<MemberSidebar />} header={header}>
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-10 text-center">
+            <Lock className="h-6 w-6 text-slate-400" />
+            <p className="text-gray-600">Team activity is available to the pharmacist in charge.</p>
+          </CardContent>
+        </Card>
+      </AppShell>
+    );
+  }
+
+  return (
+    <AppShell sidebar={<MemberSidebar />} header={header}>
+      <div className="space-y-6">
+        {/* Date range */}
+        <div className="flex flex-wrap items-end gap-3">
+          <Select value={preset} onValueChange={(v) => choosePreset(v as RangePreset)}>
+            <SelectTrigger className="w-44" aria-label="Date range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <label className="text-xs text-slate-600">
+                From
+                <Input
+                  type="date"
+                  className="mt-1 w-40"
+                  value={range.from}
+                  max={range.to}
+                  onChange={(e) => e.target.value && setRange((r) => ({ ...r, from: e.target.value }))}
+                />
+              </label>
+              <label className="text-xs text-slate-600">
+                To
+                <Input
+                  type="date"
+                  className="mt-1 w-40"
+                  value={range.to}
+                  min={range.from}
+                  onChange={(e) => e.target.value && setRange((r) => ({ ...r, to: e.target.value }))}
+                />
+              </label>
+            </>
+          )}
+          {loading && <span className="pb-2 text-xs text-slate-500">Loading…</span>}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {/* Access over time */}
+        <Card>
+          <SectionHeader title="Resource access by profile" onExport={exportAccess} disabled={!report} />
+          <CardContent>
+            {report && report.members.length > 0 ? (
+              <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={chartData} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(v) => formatDay(String(v))} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {report.members.map((m) => (
+                    <Bar key={m.profileId} dataKey={m.profileId} stackId="access" fill={`var(--color-${m.profileId})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <p className="py-6 text-center text-sm text-gray-500">{loading ? 'Loading…' : 'No profiles on this account yet.'}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Most-used resources */}
+          <Card>
+            <SectionHeader title="Most-used resources" onExport={exportTopResources} disabled={!report?.topResources.length} />
+            <CardContent>
+              {report?.topResources.length ? (
+                <ol className="divide-y divide-slate-100">
+                  {report.topResources.map((r, i) => (
+                    <li key={r.path} className="flex items-center gap-3 py-2">
+                      <span className="w-5 text-right text-xs text-slate-400">{i + 1}</span>
+                      <FileKindIcon
+                        file={{ path: r.path, filename: r.path.split('/').pop() || r.name, mimeType: r.mimeType }}
+                        className="h-4 w-4 shrink-0"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate text-sm font-medium text-slate-800" title={r.path}>
+                          {r.name}
+                        </div>
+                        <div className="text-xs text-slate-500">
+                          {r.profileCount} {r.profileCount === 1 ? 'profile' : 'profiles'}
+                        </div>
+                      </div>
+                      <Badge variant="secondary">{r.accessCount}</Badge>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="py-6 text-center text-sm text-gray-500">No resources opened in this range.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Inactive profiles */}
+          <Card>
+            <SectionHeader title="Inactive profiles" onExport={exportMembers} disabled={!report} />
+            <CardContent>
+              {report?.inactive.length ? (
+                <ul className="divide-y divide-slate-100">
+                  {report.inactive.map((m) => (
+                    <li key={m.profileId} className="flex items-center gap-3 py-2">
+                      <UserX className="h-4 w-4 text-amber-500" />
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate text-sm font-medium text-slate-800">{m.name}</div>
+                        <div className="text-xs text-slate-500">{m.roleType}</div>
+                      </div>
+                      <span className="text-xs text-slate-500">Last active: {formatDate(m.lastActiveAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="py-6 text-center text-sm text-gray-500">
+                  {report ? 'Every profile was active in this range.' : 'Loading…'}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Training progress */}
+        <Card>
+          <SectionHeader title="Training progress" onExport={exportTraining} disabled={!report} />
+          <CardContent className="overflow-x-auto">
+            {report && report.members.length > 0 && programs.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500">
+                    <th className="py-2 pr-4 font-medium">Profile</th>
+                    {programs.map((p) => (
+                      <th key={p.slug} className="min-w-[120px] py-2 pr-4 font-medium">
+                        {p.shortName || p.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {report.members.map((m) => (
+                    <tr key={m.profileId}>
+                      <td className="py-2 pr-4 font-medium text-slate-800">{m.name}</td>
+                      {report.training
+                        .filter((t) => t.profileId === m.profileId)
+                        .map((t) => (
+                          <td key={t.programSlug} className="py-2 pr-4" title={STATUS_LABELS[t.completionStatus]}>
+                            <div className="flex items-center gap-2">
+                              <Progress value={t.completionPercentage} className="h-1.5 w-16" />
+                              <span className="text-xs text-slate-600">{t.completionPercentage}%</span>
+                            </div>
+                          </td>
+                        ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="py-6 text-center text-sm text-gray-500">{loading ? 'Loading…' : 'No training to show.'}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppShell>
+  );
+}
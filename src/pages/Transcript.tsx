@@ -0,0 +1,219 @@
+/**
+ * Transcript page (protected)
+ * - Uses AppShell with a fixed MemberSidebar (static frame).
+ * - The selected profile's continuing-education transcript: every completed training module with
+ *   start/completion dates, CE hours, UAN and certificate code.
+ * - Exports the transcript as CSV and as a CPE Monitor-style upload file (needs the profile's NABP
+ *   e-Profile ID and birth month/day).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Download, FileUp, GraduationCap } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import Breadcrumbs from '../components/common/Breadcrumbs';
+import AppShell from '../components/layout/AppShell';
+import MemberSidebar from '../components/layout/MemberSidebar';
+import CertificateButton from '../components/training/CertificateButton';
+import { useProfileStore } from '../stores/profileStore';
+import { usePrograms } from '../stores/programStore';
+import {
+  cpeMonitorCsv,
+  cpeMonitorEntries,
+  cpeMonitorIssues,
+  getTranscript,
+  transcriptCsv,
+  transcriptHours,
+  type TranscriptEntry,
+} from '../services/transcriptService';
+import { toDateKey } from '../services/teamAnalyticsService';
+import { downloadCsv } from '../lib/csv';
+
+function formatDate(iso: string | undefined): string {
+  if (!iso) return '—';
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+function formatHours(hours: number): string {
+  return hours.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/** Profile name as a file name part */
+function fileSlug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+}
+
+/** Summary figure */
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="text-xs text-slate-500">{label}</div>
+        <div className="mt-1 text-2xl font-semibold text-slate-900">{value}</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Transcript() {
+  const profile = useProfileStore((s) => s.currentProfile);
+  const programs = usePrograms();
+
+  const [entries, setEntries] = useState<TranscriptEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profile) return;
+    let cancelled = false;
+    setEntries(null);
+    setError(null);
+    getTranscript(profile, programs)
+      .then((next) => {
+        if (!cancelled) setEntries(next);
+      })
+      .catch((e) => {
+        console.error('Failed to load transcript:', e);
+        if (!cancelled) setError('Could not load your transcript. Please try again.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile, programs]);
+
+  const hours = useMemo(() => transcriptHours(entries ?? []), [entries]);
+  const issues = profile ? cpeMonitorIssues(profile) : [];
+  const uploadable = entries ? cpeMonitorEntries(entries).length : 0;
+  const name = profile ? `${profile.firstName} ${profile.lastName}`.trim() : '';
+  const fileSuffix = `${fileSlug(name)}_${toDateKey(new Date())}`;
+
+  function exportTranscript() {
+    if (!profile || !entries) return;
+    downloadCsv(`ce-transcript_${fileSuffix}`, transcriptCsv(profile, entries));
+  }
+
+  function exportCpeMonitor() {
+    if (!profile || !entries) return;
+    downloadCsv(`cpe-monitor_${fileSuffix}`, cpeMonitorCsv(profile, entries));
+  }
+
+  const header = (
+    <div className="mx-auto w-full max-w-[1280px] px-4 py-4">
+      <Breadcrumbs
+        items={[
+          { label: 'Dashboard', to: '/dashboard' },
+          { label: 'CE Transcript' },
+        ]}
+      />
+      <div className="mt-2 text-2xl font-bold">CE transcript</div>
+      <div className="text-sm text-gray-600">
+        {profile ? `Completed training and continuing-education hours for ${name}` : 'Completed training and continuing-education hours'}
+      </div>
+    </div>
+  );
+
+  if (!profile) {
+    return (
+      <AppShell sidebar={<MemberSidebar />} header={header}>
+        <Card>
+          <CardContent className="py-10 text-center text-gray-600">Select a profile to see its transcript.</CardContent>
+        </Card>
+      </AppShell>
+    );
+  }
+
+  return (
+    <AppShell sidebar={<MemberSidebar />} header={header}>
+      <div className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <Stat label="Completed programs" value={entries ? String(entries.length) : '…'} />
+          <Stat label="CE hours" value={entries ? formatHours(hours.total) : '…'} />
+          <Stat label="ACPE-accredited hours" value={entries ? formatHours(hours.accredited) : '…'} />
+        </div>
+
+        {issues.length > 0 && (
+          <Card className="border-amber-200">
+            <CardContent className="flex items-start gap-3 p-4 text-sm text-amber-800">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              <div>
+                <div className="font-medium">The CPE Monitor file needs more profile details</div>
+                <ul className="mt-1 list-disc pl-5">
+                  {issues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-3">
+            <CardTitle className="text-base">Completed training</CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="h-8 gap-1.5 text-xs" onClick={exportTranscript} disabled={!entries?.length}>
+                <Download className="h-3.5 w-3.5" />
+                Export CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 gap-1.5 text-xs"
+                onClick={exportCpeMonitor}
+                disabled={issues.length > 0 || uploadable === 0}
+                title={uploadable === 0 ? 'No ACPE-accredited activities to report' : undefined}
+              >
+                <FileUp className="h-3.5 w-3.5" />
+                CPE Monitor file
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {entries === null ? (
+              <p className="py-6 text-center text-sm text-gray-500">{error ? '' : 'Loading…'}</p>
+            ) : entries.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-10 text-center">
+                <GraduationCap className="h-6 w-6 text-slate-400" />
+                <p className="text-sm text-gray-600">Completed training programs will appear here.</p>
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500">
+                    <th className="py-2 pr-4 font-medium">Program</th>
+                    <th className="py-2 pr-4 font-medium">Started</th>
+                    <th className="py-2 pr-4 font-medium">Completed</th>
+                    <th className="py-2 pr-4 text-right font-medium">CE hours</th>
+                    <th className="py-2 pr-4 font-medium">UAN</th>
+                    <th className="py-2 font-medium">Certificate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {entries.map((e) => (
+                    <tr key={e.trainingModuleId}>
+                      <td className="py-2 pr-4 font-medium text-slate-800">{e.programName}</td>
+                      <td className="py-2 pr-4 text-slate-600">{formatDate(e.startedAt)}</td>
+                      <td className="py-2 pr-4 text-slate-600">{formatDate(e.completedAt)}</td>
+                      <td className="py-2 pr-4 text-right text-slate-800">{e.ceHours ? formatHours(e.ceHours) : '—'}</td>
+                      <td className="py-2 pr-4 font-mono text-xs text-slate-600">{e.uan ?? 'Not accredited'}</td>
+                      <td className="py-2">
+                        <div className="flex items-center gap-3">
+                          {e.programSlug ? <CertificateButton programSlug={e.programSlug} className="h-7 text-xs" /> : null}
+                          {e.certificateCode ? (
+                            <span className="font-mono text-xs text-slate-600">{e.certificateCode}</span>
+                          ) : null}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppShell>
+  );
+}
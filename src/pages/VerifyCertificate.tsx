@@ -0,0 +1,146 @@
+/**
+ * VerifyCertificate page (public)
+ * - Purpose: Check a certificate of completion by the verification code printed on it
+ *   (/verify/:code, or /verify to type one in). No sign-in required.
+ * - Shows who completed which program and when; license and NABP numbers are never shown.
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AlertTriangle, BadgeCheck, Search, XCircle } from 'lucide-react';
+import Header from '../components/layout/Header';
+import Footer from '../components/layout/Footer';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import {
+  normalizeVerificationCode,
+  verifyCertificate,
+  type CertificateVerification,
+} from '../services/certificateService';
+
+type VerifyState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'found'; certificate: CertificateVerification }
+  | { status: 'not_found' }
+  | { status: 'error' };
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+export default function VerifyCertificate() {
+  const { code } = useParams<{ code?: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(code ?? '');
+  const [state, setState] = useState<VerifyState>({ status: 'idle' });
+
+  useEffect(() => {
+    setInput(code ?? '');
+    if (!code) {
+      setState({ status: 'idle' });
+      return;
+    }
+    let cancelled = false;
+    setState({ status: 'loading' });
+    verifyCertificate(code)
+      .then((certificate) => {
+        if (!cancelled) setState(certificate ? { status: 'found', certificate } : { status: 'not_found' });
+      })
+      .catch((error) => {
+        console.error('Certificate verification failed:', error);
+        if (!cancelled) setState({ status: 'error' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    const next = normalizeVerificationCode(input);
+    if (next) navigate(`/verify/${encodeURIComponent(next)}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+      <main className="mx-auto max-w-2xl px-4 py-12">
+        <h1 className="text-2xl font-bold text-slate-900">Verify a certificate</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          Enter the verification code printed at the bottom of a ClinicalRxQ certificate of completion.
+        </p>
+
+        <form onSubmit={submit} className="mt-4 flex gap-2">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="CRXQ-XXXX-XXXX"
+            aria-label="Verification code"
+            className="font-mono uppercase"
+          />
+          <Button type="submit" disabled={!input.trim()}>
+            <Search className="mr-2 h-4 w-4" />
+            Verify
+          </Button>
+        </form>
+
+        <div className="mt-6">
+          {state.status === 'loading' ? (
+            <p className="text-sm text-slate-600">Checking…</p>
+          ) : state.status === 'not_found' ? (
+            <Card className="border-red-200">
+              <CardContent className="flex items-start gap-3 p-4 text-sm text-red-700">
+                <XCircle className="mt-0.5 h-5 w-5 shrink-0" />
+                No certificate matches this code. Check the code for typos and try again.
+              </CardContent>
+            </Card>
+          ) : state.status === 'error' ? (
+            <p className="text-sm text-red-700">The certificate could not be checked right now. Please try again later.</p>
+          ) : state.status === 'found' ? (
+            <Card className={state.certificate.revoked ? 'border-amber-300' : 'border-green-300'}>
+              <CardHeader className="pb-2">
+                <CardTitle
+                  className={[
+                    'flex items-center gap-2 text-lg',
+                    state.certificate.revoked ? 'text-amber-700' : 'text-green-700',
+                  ].join(' ')}
+                >
+                  {state.certificate.revoked ? <AlertTriangle className="h-5 w-5" /> : <BadgeCheck className="h-5 w-5" />}
+                  {state.certificate.revoked ? 'Certificate revoked' : 'Valid certificate'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1.5 text-sm">
+                  <dt className="text-slate-500">Awarded to</dt>
+                  <dd className="font-medium text-slate-900">{state.certificate.recipientName}</dd>
+                  {state.certificate.pharmacyName ? (
+                    <>
+                      <dt className="text-slate-500">Pharmacy</dt>
+                      <dd className="text-slate-900">{state.certificate.pharmacyName}</dd>
+                    </>
+                  ) : null}
+                  <dt className="text-slate-500">Program</dt>
+                  <dd className="text-slate-900">{state.certificate.programName}</dd>
+                  <dt className="text-slate-500">Completed</dt>
+                  <dd className="text-slate-900">{formatDate(state.certificate.completedAt)}</dd>
+                  <dt className="text-slate-500">Issued</dt>
+                  <dd className="text-slate-900">{formatDate(state.certificate.issuedAt)}</dd>
+                  <dt className="text-slate-500">Code</dt>
+                  <dd className="font-mono text-slate-900">{state.certificate.verificationCode}</dd>
+                </dl>
+                {state.certificate.revoked ? (
+                  <p className="mt-3 text-sm text-amber-700">
+                    This certificate was withdrawn by ClinicalRxQ and is no longer valid.
+                  </p>
+                ) : null}
+              </CardContent>
+            </Card>
+          ) : null}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
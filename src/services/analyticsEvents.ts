@@ -0,0 +1,237 @@
+/**
+ * Analytics event bus
+ * - Purpose: Typed client events written in batches to analytics_events (analytics_events_schema.sql).
+ * - trackEvent only queues; the queue is sent every FLUSH_INTERVAL_MS, as soon as a batch fills, and
+ *   when the page is hidden (visibilitychange), so a click never waits on a request.
+ * - A failed batch stays at the front of the queue and is retried with exponential backoff; a retry
+ *   skips rows it already wrote (conflict on client_event_id is ignored, events are never updated).
+ *   Only server rejections count toward dropping a batch; network failures (offline, fetch failed)
+ *   are retried until they succeed.
+ * - Unsent events are mirrored to localStorage, so a closed tab or a reload during an outage doesn't
+ *   lose them; they are sent on the next page load (tabs share the stored queue, which skipping
+ *   duplicates makes safe).
+ * - Repeat opens of the same file (double clicks, re-renders) within REPEAT_WINDOW_MS count once.
+ * - The dashboard activity feed is derived from the resource events (profileDashboardService).
+ */
+
+import { getDataProvider } from './dataProvider';
+import { isNetworkError } from './bookmarkQueue';
+import type { AnalyticsEventsRow } from '../types/database';
+
+/** File events: which file, and enough to show it in an activity feed */
+export interface ResourceEventPayload {
+  /** Object path in the bucket */
+  path: string;
+  name: string;
+  mimeType?: string;
+  programSlug?: string;
+}
+
+/**
+ * Payload per event type.
+ */
+export interface AnalyticsEventMap {
+  resource_viewed: ResourceEventPayload;
+  resource_downloaded: ResourceEventPayload;
+  video_played: ResourceEventPayload;
+  bookmark_added: { path: string; name?: string; programSlug?: string };
+  /** scope: which search box (e.g. "resources", "bookmarks") */
+  search_performed: { scope: string; query: string; resultCount?: number };
+  filter_changed: { scope: string; filter: string; value: string | string[] };
+}
+
+export type AnalyticsEventType = keyof AnalyticsEventMap;
+
+/** Events that open a file (the activity feed) */
+export const RESOURCE_EVENT_TYPES = ['resource_viewed', 'resource_downloaded', 'video_played'] as const;
+
+/**
+ * Stored event (analytics_events row).
+ */
+export interface AnalyticsEvent {
+  id: string;
+  profileId: string;
+  type: AnalyticsEventType;
+  resourcePath?: string;
+  programSlug?: string;
+  /** Payload fields not stored in their own column */
+  properties: Record<string, unknown>;
+  occurredAt: string;
+}
+
+type QueuedEvent = Omit<AnalyticsEventsRow, 'id' | 'created_at'>;
+
+const FLUSH_INTERVAL_MS = 10_000;
+const MAX_BATCH = 50;
+const RETRY_BASE_MS = 2_000;
+const RETRY_MAX_MS = 5 * 60_000;
+/** Consecutive server rejections before a batch is dropped (a row the server keeps rejecting must not block the rest) */
+const MAX_ATTEMPTS = 8;
+const REPEAT_WINDOW_MS = 60_000;
+/** localStorage key for unsent events (bump the suffix if the row shape changes) */
+const STORAGE_KEY = 'analytics:queue:v1';
+/** Most events kept in localStorage; the oldest go first during a very long outage */
+const MAX_STORED = 500;
+
+let queue: QueuedEvent[] = readStored();
+/** Consecutive failed attempts of any kind (sets the backoff) */
+let failures = 0;
+/** Consecutive server rejections (drops the batch at MAX_ATTEMPTS) */
+let rejections = 0;
+let retryTimer: number | null = null;
+let flushing: Promise<void> | null = null;
+let started = false;
+const lastResourceEventAt = new Map<string, number>();
+
+/** Unique id per event (retries reuse it) */
+function newEventId(): string {
+  const cryptoApi = typeof window !== 'undefined' ? window.crypto : undefined;
+  if (cryptoApi?.randomUUID) return cryptoApi.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/** Stored unsent events (empty when missing, unreadable or outside the browser) */
+function readStored(): QueuedEvent[] {
+  try {
+    if (typeof window === 'undefined' || !window.localStorage) return [];
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as QueuedEvent[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Update the stored queue: add new events, remove sent or dropped ones. Read-modify-write, so events
+ * stored by other tabs are kept.
+ */
+function updateStored(add: QueuedEvent[], remove: QueuedEvent[] = []) {
+  try {
+    if (typeof window === 'undefined' || !window.localStorage) return;
+    const removed = new Set(remove.map((e) => e.client_event_id));
+    const stored = readStored().filter((e) => !removed.has(e.client_event_id));
+    const known = new Set(stored.map((e) => e.client_event_id));
+    const next = [...stored, ...add.filter((e) => !known.has(e.client_event_id))].slice(-MAX_STORED);
+    if (next.length) window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage full or unavailable: events are only kept in memory for this page
+  }
+}
+
+/** Start the flush interval and page-hide listener (browser only, once) */
+function start() {
+  if (started || typeof window === 'undefined' || typeof window.setInterval !== 'function') return;
+  started = true;
+  window.setInterval(() => void flushEvents(), FLUSH_INTERVAL_MS);
+  window.document?.addEventListener('visibilitychange', () => {
+    if (window.document.visibilityState === 'hidden') void flushEvents();
+  });
+  // Back online: send now instead of waiting out the backoff
+  window.addEventListener?.('online', () => {
+    if (retryTimer !== null) {
+      window.clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    void flushEvents();
+  });
+}
+
+/** Wait before the next attempt: 2 s, 4 s, 8 s… capped, with jitter so tabs don't retry in lockstep */
+function scheduleRetry() {
+  if (typeof window === 'undefined' || retryTimer !== null) return;
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (failures - 1)) * (0.8 + Math.random() * 0.4);
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    void flushEvents();
+  }, delay);
+}
+
+/**
+ * Queue an event for the current profile.
+ */
+export function trackEvent<K extends AnalyticsEventType>(
+  profileId: string,
+  type: K,
+  payload: AnalyticsEventMap[K]
+): void {
+  const now = Date.now();
+  const { path, programSlug, ...properties } = payload as AnalyticsEventMap[K] & { path?: string; programSlug?: string };
+  const resourcePath = path?.replace(/^\/+/, '') || null;
+
+  if (resourcePath && (RESOURCE_EVENT_TYPES as readonly string[]).includes(type)) {
+    const key = `${profileId}|${type}|${resourcePath}`;
+    if (now - (lastResourceEventAt.get(key) ?? 0) < REPEAT_WINDOW_MS) return;
+    lastResourceEventAt.set(key, now);
+  }
+
+  const event: QueuedEvent = {
+    client_event_id: newEventId(),
+    profile_id: profileId,
+    event_type: type,
+    resource_path: resourcePath,
+    program_slug: programSlug || null,
+    properties,
+    occurred_at: new Date(now).toISOString(),
+  };
+  queue.push(event);
+  updateStored([event]);
+  start();
+  if (queue.length >= MAX_BATCH) void flushEvents();
+}
+
+/**
+ * Send queued events now (concurrent calls share one flush; waits out a pending backoff).
+ */
+export function flushEvents(): Promise<void> {
+  if (flushing) return flushing;
+  if (queue.length === 0 || retryTimer !== null) return Promise.resolve();
+  flushing = runFlush().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
+
+/** Take a sent or dropped batch off the front of the queue (trackEvent only appends) */
+function removeBatch(batch: QueuedEvent[]) {
+  queue = queue.slice(batch.length);
+  updateStored([], batch);
+}
+
+/** Flush loop behind flushEvents */
+async function runFlush(): Promise<void> {
+  while (queue.length > 0) {
+    const batch = queue.slice(0, MAX_BATCH);
+    try {
+      const { error } = await getDataProvider()
+        .from('analytics_events')
+        .upsert(batch, { onConflict: 'client_event_id', ignoreDuplicates: true });
+      if (error) throw error;
+      failures = 0;
+      rejections = 0;
+    } catch (error) {
+      failures += 1;
+      if (isNetworkError(error)) {
+        console.warn(`Analytics flush failed (offline, attempt ${failures}), retrying:`, error);
+        scheduleRetry();
+        return;
+      }
+      rejections += 1;
+      if (rejections >= MAX_ATTEMPTS) {
+        console.error(`Dropping ${batch.length} analytics events after ${rejections} rejected attempts:`, error);
+        failures = 0;
+        rejections = 0;
+        removeBatch(batch);
+        continue;
+      }
+      console.warn(`Analytics flush failed (attempt ${rejections}), retrying:`, error);
+      scheduleRetry();
+      return;
+    }
+    removeBatch(batch);
+  }
+}
+
+// Send events left over from an earlier page load
+if (queue.length > 0) start();
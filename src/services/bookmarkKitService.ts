@@ -0,0 +1,162 @@
+/**
+ * Bookmark kit service
+ * - Purpose: Reader/writer of bookmark_kits and bookmark_kit_items (schema: bookmarks_schema.sql).
+ * - A kit is an account-wide, ordered list of files curated by a Pharmacist-PIC profile; once
+ *   published it shows read-only to every profile on the account, which can copy it into their own
+ *   bookmarks.
+ * - File details are joined from storage_files_catalog by path, like bookmarks.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { getCatalogItemsByPath } from './storageCatalog';
+import { fallbackFileItem } from './bookmarkService';
+import { mapKitRow, parseRows } from './rowMappers';
+import type { StorageFileItem } from './supabaseStorage';
+import type { MemberProfile } from '../types';
+
+/**
+ * File in a kit, ready to render.
+ */
+export interface KitResource extends StorageFileItem {
+  /** False when the file is no longer in the catalog */
+  inCatalog: boolean;
+}
+
+/**
+ * Shared list of files for an account (bookmark_kits + its items).
+ */
+export interface BookmarkKit {
+  id: string;
+  accountId: string;
+  /** PIC profile that created the kit */
+  createdByProfileId?: string;
+  name: string;
+  description?: string;
+  /** Drafts are only visible to PIC profiles */
+  isPublished: boolean;
+  sortOrder: number;
+  createdAt: string;
+  /** Files in display order */
+  resources: KitResource[];
+}
+
+/**
+ * Whether a profile can create, edit and publish kits (Pharmacist-PIC only).
+ */
+export function canManageKits(profile: Pick<MemberProfile, 'roleType'> | null | undefined): boolean {
+  return profile?.roleType === 'Pharmacist-PIC';
+}
+
+/**
+ * An account's kits in display order, with their files.
+ * @param opts.includeDrafts Also return unpublished kits (PIC view)
+ */
+export async function listKits(accountId: string, opts?: { includeDrafts?: boolean }): Promise<BookmarkKit[]> {
+  let query = getDataProvider().from('bookmark_kits').select('*').eq('member_account_id', accountId);
+  if (!opts?.includeDrafts) query = query.eq('is_published', true);
+  const { data, error } = await query.order('sort_order', { ascending: true }).order('created_at', { ascending: true });
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: items, error: itemsError } = await getDataProvider()
+    .from('bookmark_kit_items')
+    .select('*')
+    .in('kit_id', data.map((k) => k.id))
+    .order('sort_order', { ascending: true });
+  if (itemsError) throw itemsError;
+
+  const rows = parseRows('bookmark_kit_items', items);
+  const files = await getCatalogItemsByPath(rows.map((r) => r.resource_path));
+  const resourcesByKit = new Map<string, KitResource[]>();
+  for (const item of rows) {
+    const file = files.get(item.resource_path);
+    const list = resourcesByKit.get(item.kit_id) ?? [];
+    list.push({ ...(file ?? fallbackFileItem(item.resource_path, item.resource_name ?? undefined)), inCatalog: !!file });
+    resourcesByKit.set(item.kit_id, list);
+  }
+  return data.map((row) => mapKitRow(row, resourcesByKit.get(row.id) ?? []));
+}
+
+/**
+ * Create an unpublished kit at the end of the account's list.
+ */
+export async function createKit(
+  accountId: string,
+  profileId: string,
+  name: string,
+  sortOrder: number
+): Promise<BookmarkKit> {
+  const { data, error } = await getDataProvider()
+    .from('bookmark_kits')
+    .insert({
+      member_account_id: accountId,
+      created_by_profile_id: profileId,
+      name: name.trim(),
+      is_published: false,
+      sort_order: sortOrder,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return mapKitRow(data);
+}
+
+/**
+ * Rename, describe, publish or unpublish a kit.
+ */
+export async function updateKit(
+  kitId: string,
+  patch: { name?: string; description?: string; isPublished?: boolean }
+): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmark_kits')
+    .update({
+      ...(patch.name !== undefined && { name: patch.name.trim() }),
+      ...(patch.description !== undefined && { description: patch.description.trim() || null }),
+      ...(patch.isPublished !== undefined && { is_published: patch.isPublished }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', kitId);
+  if (error) throw error;
+}
+
+/**
+ * Delete a kit (copies members already made are unaffected).
+ */
+export async function deleteKit(kitId: string): Promise<void> {
+  const { error: itemsError } = await getDataProvider().from('bookmark_kit_items').delete().eq('kit_id', kitId);
+  if (itemsError) throw itemsError;
+
+  const { error } = await getDataProvider().from('bookmark_kits').delete().eq('id', kitId);
+  if (error) throw error;
+}
+
+/**
+ * Add a file to a kit at the given position (no-op if it is already there).
+ */
+export async function addKitItem(kitId: string, file: StorageFileItem, sortOrder: number): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmark_kit_items')
+    .upsert(
+      {
+        kit_id: kitId,
+        resource_path: file.path.replace(/^\/+/, ''),
+        resource_name: file.title || file.filename,
+        sort_order: sortOrder,
+      },
+      { onConflict: 'kit_id,resource_path' }
+    );
+  if (error) throw error;
+}
+
+/**
+ * Take a file out of a kit.
+ */
+export async function removeKitItem(kitId: string, path: string): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmark_kit_items')
+    .delete()
+    .eq('kit_id', kitId)
+    .eq('resource_path', path.replace(/^\/+/, ''));
+  if (error) throw error;
+}
@@ -0,0 +1,146 @@
+/**
+ * Bookmark mutation queue
+ * - Purpose: Keep bookmark adds/removes made while offline (or during a network failure) and replay
+ *   them through bookmarkService once connectivity returns.
+ * - Persisted in localStorage so changes survive a reload; one pending change per profile + path
+ *   (an add and a remove of the same file cancel out).
+ * - Replay stops at the first network failure and keeps the rest; changes the server rejects are
+ *   dropped and reported.
+ */
+
+import { addBookmark, removeBookmark } from './bookmarkService';
+
+/** localStorage key (bump the suffix if the entry shape changes) */
+const STORAGE_KEY = 'bookmarks:queue:v1';
+
+/**
+ * One pending bookmark change.
+ */
+export interface QueuedBookmarkChange {
+  op: 'add' | 'remove';
+  profileId: string;
+  /** Object path in the bucket */
+  path: string;
+  /** Display name to save with an add */
+  name?: string;
+  queuedAt: string;
+}
+
+/**
+ * Outcome of a replay.
+ */
+export interface BookmarkReplayResult {
+  applied: QueuedBookmarkChange[];
+  /** Rejected by the server (dropped from the queue) */
+  failed: QueuedBookmarkChange[];
+  /** Still queued (network unavailable) */
+  remaining: number;
+}
+
+/** Persisted queue (empty when missing, unreadable or outside the browser) */
+function readQueue(): QueuedBookmarkChange[] {
+  try {
+    if (typeof window === 'undefined') return [];
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as QueuedBookmarkChange[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Save the queue (the key is removed when empty) */
+function writeQueue(queue: QueuedBookmarkChange[]) {
+  try {
+    if (typeof window === 'undefined') return;
+    if (queue.length) window.localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage full or unavailable: the change stays applied locally for this session only
+  }
+}
+
+/**
+ * True when the browser reports no connectivity.
+ */
+export function isOffline(): boolean {
+  return typeof window !== 'undefined' && window.navigator?.onLine === false;
+}
+
+/**
+ * True for failures caused by the network rather than the server (fetch failed, offline).
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (isOffline()) return true;
+  const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
+
+/**
+ * Queue a change, coalescing with any pending change for the same profile + path.
+ */
+export function enqueueBookmarkChange(change: Omit<QueuedBookmarkChange, 'queuedAt'>) {
+  const queue = readQueue();
+  const index = queue.findIndex((c) => c.profileId === change.profileId && c.path === change.path);
+  if (index >= 0) {
+    // Opposite operations cancel out; the same operation twice is one change
+    if (queue[index].op !== change.op) queue.splice(index, 1);
+    writeQueue(queue);
+    return;
+  }
+  queue.push({ ...change, queuedAt: new Date().toISOString() });
+  writeQueue(queue);
+}
+
+/**
+ * Pending changes (optionally for one profile), oldest first.
+ */
+export function getQueuedBookmarkChanges(profileId?: string): QueuedBookmarkChange[] {
+  const queue = readQueue();
+  return profileId ? queue.filter((c) => c.profileId === profileId) : queue;
+}
+
+let replaying: Promise<BookmarkReplayResult> | null = null;
+
+/**
+ * Send queued changes in order (concurrent calls share one replay).
+ */
+export function replayBookmarkQueue(): Promise<BookmarkReplayResult> {
+  if (!replaying) {
+    replaying = runReplay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+/** Replay loop behind replayBookmarkQueue */
+async function runReplay(): Promise<BookmarkReplayResult> {
+  const result: BookmarkReplayResult = { applied: [], failed: [], remaining: 0 };
+  let queue = readQueue();
+
+  while (queue.length && !isOffline()) {
+    const change = queue[0];
+    try {
+      if (change.op === 'add') {
+        const filename = change.path.split('/').pop() || change.path;
+        await addBookmark(change.profileId, { path: change.path, title: change.name || '', filename, url: '' });
+      } else {
+        await removeBookmark(change.profileId, change.path);
+      }
+      result.applied.push(change);
+    } catch (error) {
+      if (isNetworkError(error)) break;
+      console.error('Dropping rejected bookmark change:', change, error);
+      result.failed.push(change);
+    }
+    // Re-read so changes queued during the request are kept
+    queue = readQueue().filter(
+      (c) => !(c.profileId === change.profileId && c.path === change.path && c.queuedAt === change.queuedAt)
+    );
+    writeQueue(queue);
+  }
+
+  result.remaining = queue.length;
+  return result;
+}
@@ -0,0 +1,309 @@
+/**
+ * Bookmark service
+ * - Purpose: The only reader/writer of the bookmarks table (schema: bookmarks_schema.sql).
+ * - Canonical row: profile_id + resource_path (bucket object path), unique per profile.
+ * - File details (title, mime type, size, URL) are joined from storage_files_catalog by path in one
+ *   batch; a bookmark whose file is no longer cataloged falls back to the saved name and is flagged
+ *   (inCatalog false) so it can be relinked to the file's new path or removed.
+ * - Collections are named, ordered lists of bookmarks per profile; a bookmark can be in several.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { getCatalogItemsByFilename, getCatalogItemsByPath } from './storageCatalog';
+import { buildPublicUrl, stripOneExtension, type StorageFileItem } from './supabaseStorage';
+import { mapBookmarkRow, mapCollectionRow, parseRows } from './rowMappers';
+import { mimeTypeForExtension, fileExtension } from '../lib/fileKinds';
+
+/**
+ * One saved bookmark (bookmarks row).
+ */
+export interface Bookmark {
+  id: string;
+  profileId: string;
+  /** Object path in the bucket */
+  path: string;
+  /** Display name saved with the bookmark */
+  name?: string;
+  /** Member's note */
+  note?: string;
+  createdAt: string;
+}
+
+/**
+ * Named list of bookmarks (bookmark_collections + its items).
+ */
+export interface BookmarkCollection {
+  id: string;
+  profileId: string;
+  name: string;
+  sortOrder: number;
+  createdAt: string;
+  /** Bookmark ids in display order */
+  bookmarkIds: string[];
+}
+
+/**
+ * Bookmark joined with its file, ready to render.
+ */
+export interface BookmarkedResource extends StorageFileItem {
+  /** bookmarks.id */
+  id: string;
+  bookmarkedAt: string;
+  note?: string;
+  /** False when the file is no longer in the catalog */
+  inCatalog: boolean;
+}
+
+/**
+ * Build a file item from a saved path and name alone (file missing from the catalog).
+ */
+export function fallbackFileItem(path: string, name?: string): StorageFileItem {
+  const filename = path.split('/').pop() || path;
+  return {
+    path,
+    title: name || stripOneExtension(filename),
+    filename,
+    url: buildPublicUrl(path),
+    mimeType: mimeTypeForExtension(fileExtension(filename)),
+  };
+}
+
+/**
+ * Join a bookmark with its catalog entry.
+ */
+function toResource(bookmark: Bookmark, file: StorageFileItem | undefined): BookmarkedResource {
+  return {
+    ...(file ?? fallbackFileItem(bookmark.path, bookmark.name)),
+    id: bookmark.id,
+    bookmarkedAt: bookmark.createdAt,
+    note: bookmark.note,
+    inCatalog: !!file,
+  };
+}
+
+/**
+ * Bookmarks for a profile, newest first, with file details.
+ */
+export async function listBookmarks(profileId: string): Promise<BookmarkedResource[]> {
+  const { data, error } = await getDataProvider()
+    .from('bookmarks')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const bookmarks = (data || []).map(mapBookmarkRow);
+  const files = await getCatalogItemsByPath(bookmarks.map((b) => b.path));
+  return bookmarks.map((b) => toResource(b, files.get(b.path)));
+}
+
+/**
+ * Bookmark a file for a profile (no-op if it is already bookmarked).
+ */
+export async function addBookmark(profileId: string, file: StorageFileItem): Promise<BookmarkedResource> {
+  const path = file.path.replace(/^\/+/, '');
+  const { data, error } = await getDataProvider()
+    .from('bookmarks')
+    .upsert(
+      {
+        profile_id: profileId,
+        resource_path: path,
+        resource_name: file.title || file.filename,
+      },
+      { onConflict: 'profile_id,resource_path' }
+    )
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  const bookmark = mapBookmarkRow(data);
+  return { ...file, path, id: bookmark.id, bookmarkedAt: bookmark.createdAt, note: bookmark.note, inCatalog: true };
+}
+
+/**
+ * Bookmark several files in one request (files already bookmarked keep their note and date).
+ */
+export async function addBookmarks(profileId: string, files: StorageFileItem[]): Promise<BookmarkedResource[]> {
+  const byPath = new Map(files.map((f) => [f.path.replace(/^\/+/, ''), f]));
+  if (!byPath.size) return [];
+  const { data, error } = await getDataProvider()
+    .from('bookmarks')
+    .upsert(
+      Array.from(byPath, ([path, file]) => ({
+        profile_id: profileId,
+        resource_path: path,
+        resource_name: file.title || file.filename,
+      })),
+      { onConflict: 'profile_id,resource_path' }
+    )
+    .select('*');
+  if (error) throw error;
+
+  return (data || []).map((row) => {
+    const bookmark = mapBookmarkRow(row);
+    const file = byPath.get(bookmark.path) ?? fallbackFileItem(bookmark.path, bookmark.name);
+    return { ...file, path: bookmark.path, id: bookmark.id, bookmarkedAt: bookmark.createdAt, note: bookmark.note, inCatalog: true };
+  });
+}
+
+/**
+ * Remove a profile's bookmark for a file path.
+ */
+export async function removeBookmark(profileId: string, path: string): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmarks')
+    .delete()
+    .eq('profile_id', profileId)
+    .eq('resource_path', path.replace(/^\/+/, ''));
+  if (error) throw error;
+}
+
+/**
+ * Remove several of a profile's bookmarks in one request.
+ */
+export async function removeBookmarks(profileId: string, paths: string[]): Promise<void> {
+  const unique = Array.from(new Set(paths.map((p) => p.replace(/^\/+/, ''))));
+  if (!unique.length) return;
+  const { error } = await getDataProvider()
+    .from('bookmarks')
+    .delete()
+    .eq('profile_id', profileId)
+    .in('resource_path', unique);
+  if (error) throw error;
+}
+
+/**
+ * Catalog files a missing bookmark may have moved to (same file name, any folder).
+ */
+export async function findRelinkCandidates(bookmark: Pick<BookmarkedResource, 'path' | 'filename'>): Promise<StorageFileItem[]> {
+  const matches = await getCatalogItemsByFilename([bookmark.filename]);
+  return (matches.get(bookmark.filename) ?? []).filter((f) => f.path !== bookmark.path);
+}
+
+/**
+ * Point a bookmark at a file's new path (keeps its note, date and collections).
+ */
+export async function relinkBookmark(bookmarkId: string, file: StorageFileItem): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmarks')
+    .update({ resource_path: file.path.replace(/^\/+/, ''), resource_name: file.title || file.filename })
+    .eq('id', bookmarkId);
+  if (error) throw error;
+}
+
+/**
+ * Save (or clear, with an empty string) the note on a bookmark.
+ */
+export async function updateBookmarkNote(bookmarkId: string, note: string): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmarks')
+    .update({ note: note.trim() || null })
+    .eq('id', bookmarkId);
+  if (error) throw error;
+}
+
+/**
+ * A profile's collections in display order, each with its bookmark ids in order.
+ */
+export async function listCollections(profileId: string): Promise<BookmarkCollection[]> {
+  const { data, error } = await getDataProvider()
+    .from('bookmark_collections')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: items, error: itemsError } = await getDataProvider()
+    .from('bookmark_collection_items')
+    .select('*')
+    .in('collection_id', data.map((c) => c.id))
+    .order('sort_order', { ascending: true });
+  if (itemsError) throw itemsError;
+
+  const idsByCollection = new Map<string, string[]>();
+  for (const item of parseRows('bookmark_collection_items', items)) {
+    const ids = idsByCollection.get(item.collection_id) ?? [];
+    ids.push(item.bookmark_id);
+    idsByCollection.set(item.collection_id, ids);
+  }
+  return data.map((row) => mapCollectionRow(row, idsByCollection.get(row.id) ?? []));
+}
+
+/**
+ * Create a collection at the end of the profile's list.
+ */
+export async function createCollection(profileId: string, name: string, sortOrder: number): Promise<BookmarkCollection> {
+  const { data, error } = await getDataProvider()
+    .from('bookmark_collections')
+    .insert({ profile_id: profileId, name: name.trim(), sort_order: sortOrder })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return mapCollectionRow(data);
+}
+
+/**
+ * Rename a collection.
+ */
+export async function renameCollection(collectionId: string, name: string): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmark_collections')
+    .update({ name: name.trim() })
+    .eq('id', collectionId);
+  if (error) throw error;
+}
+
+/**
+ * Delete a collection (its bookmarks stay bookmarked).
+ */
+export async function deleteCollection(collectionId: string): Promise<void> {
+  const { error: itemsError } = await getDataProvider()
+    .from('bookmark_collection_items')
+    .delete()
+    .eq('collection_id', collectionId);
+  if (itemsError) throw itemsError;
+
+  const { error } = await getDataProvider().from('bookmark_collections').delete().eq('id', collectionId);
+  if (error) throw error;
+}
+
+/**
+ * Put a bookmark in a collection at the given position (moves it if it is already there).
+ */
+export async function addToCollection(collectionId: string, bookmarkId: string, sortOrder: number): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmark_collection_items')
+    .upsert(
+      { collection_id: collectionId, bookmark_id: bookmarkId, sort_order: sortOrder },
+      { onConflict: 'collection_id,bookmark_id' }
+    );
+  if (error) throw error;
+}
+
+/**
+ * Take a bookmark out of a collection.
+ */
+export async function removeFromCollection(collectionId: string, bookmarkId: string): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('bookmark_collection_items')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('bookmark_id', bookmarkId);
+  if (error) throw error;
+}
+
+/**
+ * Persist a new order for a collection's bookmarks.
+ */
+export async function reorderCollection(collectionId: string, bookmarkIds: string[]): Promise<void> {
+  if (!bookmarkIds.length) return;
+  const { error } = await getDataProvider()
+    .from('bookmark_collection_items')
+    .upsert(
+      bookmarkIds.map((bookmarkId, index) => ({ collection_id: collectionId, bookmark_id: bookmarkId, sort_order: index })),
+      { onConflict: 'collection_id,bookmark_id' }
+    );
+  if (error) throw error;
+}
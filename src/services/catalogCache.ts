@@ -0,0 +1,319 @@
+/**
+ * Catalog cache (stale-while-revalidate)
+ * - Purpose: Serve storage_files_catalog lists instantly on repeat visits, even on slow pharmacy Wi‑Fi.
+ * - Storage: IndexedDB ("crxq-catalog-cache" / "entries"), keyed by data provider + prefix key; in-memory
+ *   mirror for the session.
+ * - Revalidation: a cheap freshness stamp (row count + newest updated_at) is compared in the
+ *   background; the full list is refetched only when the stamp changed.
+ * - Invalidation: invalidateCatalogCache(prefix?) drops entries; subscribeCatalogCache() notifies UI of updates.
+ * - Falls back to memory-only caching when IndexedDB is unavailable (private mode, tests).
+ */
+
+import type { StorageFileItem } from './supabaseStorage';
+import { getDataProvider } from './dataProvider';
+
+/** IndexedDB names */
+const DB_NAME = 'crxq-catalog-cache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+/** Bump to discard entries written by an older item shape */
+const CACHE_SCHEMA = 2;
+
+/** Skip background revalidation if the entry was checked this recently */
+const REVALIDATE_AFTER_MS = 30 * 1000;
+
+type IdbDatabase = (typeof window)['IDBDatabase']['prototype'];
+
+/**
+ * Freshness stamp for a cached list.
+ * - count catches deletions; newest catches additions and edits.
+ */
+export interface CatalogStamp {
+  count: number;
+  newest: string | null;
+}
+
+/**
+ * Cached list entry as persisted in IndexedDB.
+ */
+export interface CatalogCacheEntry {
+  key: string;
+  schema: number;
+  items: StorageFileItem[];
+  stamp: CatalogStamp;
+  /** When the items were fetched (ms) */
+  fetchedAt: number;
+  /** When the stamp was last confirmed against the backend (ms) */
+  checkedAt: number;
+}
+
+/** What a loader returns: the list plus its freshness stamp */
+export interface CatalogLoadResult {
+  items: StorageFileItem[];
+  stamp: CatalogStamp;
+}
+
+/** Change notification: key that was updated, or null when everything was cleared */
+export type CatalogCacheListener = (key: string | null) => void;
+
+/** Session mirror of persisted entries */
+const memory = new Map<string, CatalogCacheEntry>();
+
+/** In-flight loads/revalidations by key (dedupes concurrent callers) */
+const inflight = new Map<string, Promise<StorageFileItem[]>>();
+
+/** Keys with a background revalidation running */
+const revalidating = new Set<string>();
+
+const listeners = new Set<CatalogCacheListener>();
+
+let dbPromise: Promise<IdbDatabase | null> | null = null;
+
+/**
+ * Open (once) the cache database, resolving null when IndexedDB cannot be used.
+ */
+function openDb(): Promise<IdbDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    try {
+      if (typeof window === 'undefined' || !window.indexedDB) return resolve(null);
+      const req = window.indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) {
+          req.result.createObjectStore(STORE, { keyPath: 'key' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null);
+      req.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+/**
+ * Read one persisted entry (null when missing, stale schema, or IndexedDB unavailable).
+ */
+async function readEntry(key: string): Promise<CatalogCacheEntry | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    try {
+      const req = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+      req.onsuccess = () => {
+        const entry = req.result as CatalogCacheEntry | undefined;
+        resolve(entry && entry.schema === CACHE_SCHEMA ? entry : null);
+      };
+      req.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * Persist one entry (best effort; quota and private-mode errors are ignored).
+ */
+async function writeEntry(entry: CatalogCacheEntry): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  await new Promise<void>((resolve) => {
+    try {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => resolve();
+      tx.onabort = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
+
+/**
+ * Delete the given persisted entries (all entries when keys is omitted).
+ */
+async function deleteEntries(keys?: string[]): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  await new Promise<void>((resolve) => {
+    try {
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      if (!keys) store.clear();
+      else keys.forEach((k) => store.delete(k));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => resolve();
+      tx.onabort = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
+
+function notify(key: string | null) {
+  for (const l of Array.from(listeners)) {
+    try {
+      l(key);
+    } catch {
+      // Listener errors must not break cache updates
+    }
+  }
+}
+
+function sameStamp(a: CatalogStamp, b: CatalogStamp): boolean {
+  return a.count === b.count && (a.newest || '') === (b.newest || '');
+}
+
+/**
+ * Store a freshly loaded list in memory and IndexedDB.
+ */
+async function store(key: string, result: CatalogLoadResult): Promise<CatalogCacheEntry> {
+  const now = Date.now();
+  const entry: CatalogCacheEntry = {
+    key,
+    schema: CACHE_SCHEMA,
+    items: result.items,
+    stamp: result.stamp,
+    fetchedAt: now,
+    checkedAt: now,
+  };
+  memory.set(key, entry);
+  await writeEntry(entry);
+  return entry;
+}
+
+/**
+ * Compare the cached stamp with the backend and refetch only if it changed.
+ * - Errors are swallowed: a failed background check leaves the cached list in place.
+ */
+async function revalidate(
+  entry: CatalogCacheEntry,
+  load: () => Promise<CatalogLoadResult>,
+  checkStamp: () => Promise<CatalogStamp>
+): Promise<void> {
+  if (revalidating.has(entry.key)) return;
+  revalidating.add(entry.key);
+  try {
+    const stamp = await checkStamp();
+    // Invalidated while we were checking; the next read will load fresh
+    if (memory.get(entry.key) !== entry) return;
+    if (sameStamp(stamp, entry.stamp)) {
+      const confirmed = { ...entry, checkedAt: Date.now() };
+      memory.set(entry.key, confirmed);
+      await writeEntry(confirmed);
+      return;
+    }
+    await store(entry.key, await load());
+    notify(entry.key);
+  } catch {
+    // Keep serving stale data
+  } finally {
+    revalidating.delete(entry.key);
+  }
+}
+
+/**
+ * Get a cached list with stale-while-revalidate semantics.
+ * - Cache hit: resolves immediately with cached items; revalidates in the background.
+ * - Cache miss: loads, stores and resolves with fresh items (load errors propagate).
+ * @param key Cache key (use catalogCacheKey for prefix-based lists)
+ * @param load Fetch the full list and its stamp
+ * @param checkStamp Fetch only the current stamp (must be much cheaper than load)
+ */
+export async function getCachedCatalogList(
+  key: string,
+  load: () => Promise<CatalogLoadResult>,
+  checkStamp: () => Promise<CatalogStamp>
+): Promise<StorageFileItem[]> {
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const task = (async () => {
+    const entry = memory.get(key) ?? (await readEntry(key));
+    if (entry) {
+      memory.set(key, entry);
+      if (Date.now() - entry.checkedAt > REVALIDATE_AFTER_MS) {
+        void revalidate(entry, load, checkStamp);
+      }
+      return entry.items;
+    }
+    const fresh = await store(key, await load());
+    return fresh.items;
+  })();
+
+  inflight.set(key, task);
+  try {
+    return await task;
+  } finally {
+    inflight.delete(key);
+  }
+}
+
+/**
+ * Build the cache key for a prefix-based catalog list.
+ * - Scoped to the active data provider so demo (memory) lists are never served for Supabase, or back.
+ */
+export function catalogCacheKey(bucket: string, prefixes: string[]): string {
+  return `${getDataProvider().kind}:${bucket}:${prefixes.join('|')}`;
+}
+
+/** Prefixes of a catalogCacheKey ("kind:bucket:a|b" → ["a", "b"]) */
+function keyPrefixes(key: string): string[] {
+  return key.split(':').slice(2).join(':').split('|');
+}
+
+/**
+ * Drop cached lists so the next read hits the backend.
+ * - prefix: storage path prefix (e.g. "testandtreat/"); entries covering any path under it are dropped.
+ * - Omit prefix to clear everything (e.g. after a bulk upload or on sign-out).
+ */
+export async function invalidateCatalogCache(prefix?: string): Promise<void> {
+  if (!prefix) {
+    memory.clear();
+    await deleteEntries();
+    notify(null);
+    return;
+  }
+  const needle = prefix.replace(/^\/+/, '').toLowerCase();
+  const keys = new Set<string>(memory.keys());
+  const db = await openDb();
+  if (db) {
+    await new Promise<void>((resolve) => {
+      try {
+        const req = db.transaction(STORE, 'readonly').objectStore(STORE).getAllKeys();
+        req.onsuccess = () => {
+          req.result.forEach((k) => keys.add(String(k)));
+          resolve();
+        };
+        req.onerror = () => resolve();
+      } catch {
+        resolve();
+      }
+    });
+  }
+
+  const dropped = Array.from(keys).filter((key) =>
+    keyPrefixes(key).some((p) => {
+      const kp = p.toLowerCase();
+      return kp.startsWith(needle) || needle.startsWith(kp);
+    })
+  );
+  dropped.forEach((key) => memory.delete(key));
+  await deleteEntries(dropped);
+  dropped.forEach((key) => notify(key));
+}
+
+/**
+ * Subscribe to cache changes (background refreshes and invalidations).
+ * @returns unsubscribe function
+ */
+export function subscribeCatalogCache(listener: CatalogCacheListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Catalog reconciliation
+ * - Purpose: Diff the storage bucket against storage_files_catalog and optionally repair the catalog.
+ * - Bucket side: the same paged crawler the app falls back to (supabaseStorage.listFilesDeep).
+ * - Catalog side: every row for the bucket, read in pages through the DataProvider.
+ * - Reports: missing rows (file in bucket, no row), orphaned rows (row, no file), size/mime/name mismatches.
+ * - Fixes (apply): insert missing rows, update mismatched rows; prune deletes orphaned rows.
+ * - Used by scripts/reconcile-catalog.mjs; works against the in-memory provider or any Supabase project.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { listFilesDeep, SUPABASE_BUCKET, type CrawlProgress, type StorageFileItem } from './supabaseStorage';
+import type { StorageCatalogRow } from './storageCatalog';
+
+/** Rows read/written per catalog request */
+const CATALOG_PAGE_SIZE = 1000;
+
+/** Catalog columns compared against the bucket */
+export type ReconcileField = 'file_size' | 'mime_type' | 'file_name';
+
+/**
+ * A catalog row whose metadata disagrees with the bucket object.
+ */
+export interface CatalogMismatch {
+  path: string;
+  rowId: string;
+  field: ReconcileField;
+  bucket: string | number | null;
+  catalog: string | number | null;
+}
+
+/**
+ * Outcome of a reconciliation run.
+ */
+export interface ReconcileReport {
+  bucket: string;
+  prefix: string;
+  bucketFiles: number;
+  catalogRows: number;
+  /** Files present in the bucket without a catalog row */
+  missingRows: StorageFileItem[];
+  /** Catalog rows whose file no longer exists in the bucket */
+  orphanedRows: StorageCatalogRow[];
+  /** Field-level disagreements for files present on both sides */
+  mismatches: CatalogMismatch[];
+  /** Catalog rows sharing a path (the first is compared, the rest are reported here) */
+  duplicateRows: StorageCatalogRow[];
+  /** What was written (all zero in dry-run) */
+  applied: { inserted: number; updated: number; deleted: number };
+  dryRun: boolean;
+}
+
+/**
+ * Options for reconcileCatalog.
+ */
+export interface ReconcileOptions {
+  /** Limit to a folder, e.g. "testandtreat" (default: whole bucket) */
+  prefix?: string;
+  /** Write fixes (insert missing, update mismatches). Default false = dry run. */
+  apply?: boolean;
+  /** Also delete orphaned rows (only with apply) */
+  prune?: boolean;
+  /** Crawl progress from the bucket listing */
+  onProgress?: (progress: CrawlProgress) => void;
+}
+
+/** Normalize a path for comparison (leading slashes removed) */
+function normalizePath(path: string): string {
+  return path.replace(/^\/+/, '');
+}
+
+/**
+ * Read every catalog row for the bucket (optionally under a prefix), paging past PostgREST's row cap.
+ */
+async function readCatalogRows(bucket: string, prefix: string): Promise<StorageCatalogRow[]> {
+  const rows: StorageCatalogRow[] = [];
+  for (let from = 0; ; from += CATALOG_PAGE_SIZE) {
+    let query = getDataProvider()
+      .from<StorageCatalogRow>('storage_files_catalog')
+      .select('*')
+      .eq('bucket_name', bucket);
+    if (prefix) query = query.like('file_path', `${prefix}/%`);
+    const { data, error } = await query.order('file_path', { ascending: true }).range(from, from + CATALOG_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < CATALOG_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Compare one bucket file against its catalog row.
+ */
+function compareRow(file: StorageFileItem, row: StorageCatalogRow): CatalogMismatch[] {
+  const out: CatalogMismatch[] = [];
+  const push = (field: ReconcileField, bucket: string | number | null, catalog: string | number | null) => {
+    out.push({ path: file.path, rowId: row.id, field, bucket, catalog });
+  };
+  if (typeof file.size === 'number' && file.size !== row.file_size) {
+    push('file_size', file.size, row.file_size ?? null);
+  }
+  if (file.mimeType && file.mimeType !== row.mime_type) {
+    push('mime_type', file.mimeType, row.mime_type ?? null);
+  }
+  if (file.filename !== row.file_name) {
+    push('file_name', file.filename, row.file_name ?? null);
+  }
+  return out;
+}
+
+/**
+ * Catalog row values for a bucket file.
+ */
+function rowFromFile(bucket: string, file: StorageFileItem): Omit<StorageCatalogRow, 'id'> {
+  return {
+    bucket_name: bucket,
+    file_name: file.filename,
+    file_path: file.path,
+    file_url: null,
+    file_size: file.size ?? null,
+    mime_type: file.mimeType ?? null,
+    last_modified: file.lastModified ?? null,
+  };
+}
+
+/**
+ * Diff the bucket against storage_files_catalog and optionally apply fixes.
+ */
+export async function reconcileCatalog(opts: ReconcileOptions = {}): Promise<ReconcileReport> {
+  const bucket = SUPABASE_BUCKET;
+  const prefix = normalizePath(opts.prefix || '').replace(/\/+$/, '');
+  const dryRun = !opts.apply;
+
+  const [files, rows] = await Promise.all([
+    listFilesDeep(prefix, { onProgress: opts.onProgress }),
+    readCatalogRows(bucket, prefix),
+  ]);
+
+  const rowsByPath = new Map<string, StorageCatalogRow>();
+  const duplicateRows: StorageCatalogRow[] = [];
+  for (const row of rows) {
+    const key = normalizePath(row.file_path);
+    if (rowsByPath.has(key)) duplicateRows.push(row);
+    else rowsByPath.set(key, row);
+  }
+  const filePaths = new Set(files.map((f) => normalizePath(f.path)));
+
+  const missingRows: StorageFileItem[] = [];
+  const mismatches: CatalogMismatch[] = [];
+  for (const file of files) {
+    const row = rowsByPath.get(normalizePath(file.path));
+    if (!row) missingRows.push(file);
+    else mismatches.push(...compareRow(file, row));
+  }
+  const orphanedRows = Array.from(rowsByPath.values()).filter((r) => !filePaths.has(normalizePath(r.file_path)));
+
+  const applied = { inserted: 0, updated: 0, deleted: 0 };
+  if (!dryRun) {
+    const provider = getDataProvider();
+
+    for (let i = 0; i < missingRows.length; i += CATALOG_PAGE_SIZE) {
+      const batch = missingRows.slice(i, i + CATALOG_PAGE_SIZE).map((f) => rowFromFile(bucket, f));
+      const { error } = await provider.from('storage_files_catalog').insert(batch);
+      if (error) throw error;
+      applied.inserted += batch.length;
+    }
+
+    const mismatchedIds = Array.from(new Set(mismatches.map((m) => m.rowId)));
+    const filesByPath = new Map(files.map((f) => [normalizePath(f.path), f]));
+    for (const id of mismatchedIds) {
+      const row = rows.find((r) => r.id === id);
+      const file = row && filesByPath.get(normalizePath(row.file_path));
+      if (!row || !file) continue;
+      const { file_name, file_size, mime_type } = rowFromFile(bucket, file);
+      const { error } = await provider
+        .from('storage_files_catalog')
+        .update({ file_name, file_size, mime_type, updated_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw error;
+      applied.updated++;
+    }
+
+    if (opts.prune && orphanedRows.length) {
+      const ids = orphanedRows.map((r) => r.id);
+      for (let i = 0; i < ids.length; i += CATALOG_PAGE_SIZE) {
+        const batch = ids.slice(i, i + CATALOG_PAGE_SIZE);
+        const { error } = await provider.from('storage_files_catalog').delete().in('id', batch);
+        if (error) throw error;
+        applied.deleted += batch.length;
+      }
+    }
+  }
+
+  return {
+    bucket,
+    prefix,
+    bucketFiles: files.length,
+    catalogRows: rows.length,
+    missingRows,
+    orphanedRows,
+    mismatches,
+    duplicateRows,
+    applied,
+    dryRun,
+  };
+}
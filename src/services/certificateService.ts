@@ -0,0 +1,115 @@
+/**
+ * Certificate service
+ * - Purpose: Certificates of completion (certificates_schema.sql). The issue_training_certificate RPC
+ *   checks that the program is completed and stores a snapshot with a verification code; the PDF is
+ *   built in the browser from that snapshot (lib/certificatePdf).
+ * - Anyone can check a code with verifyCertificate (public /verify/:code page); the check never
+ *   returns license or NABP numbers.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { mapCertificateRow } from './rowMappers';
+import { trainingModuleIdFor } from './lessonProgressService';
+
+/**
+ * A certificate as issued (what the PDF shows).
+ */
+export interface TrainingCertificate {
+  id: string;
+  /** e.g. CRXQ-7H3K-Q2MD */
+  verificationCode: string;
+  programSlug: string;
+  programName: string;
+  recipientName: string;
+  licenseNumber?: string;
+  nabpEprofileId?: string;
+  pharmacyName?: string;
+  completedAt: string;
+  issuedAt: string;
+  revoked: boolean;
+}
+
+/**
+ * Public result of checking a verification code.
+ */
+export interface CertificateVerification {
+  verificationCode: string;
+  recipientName: string;
+  pharmacyName?: string;
+  programName: string;
+  completedAt: string;
+  issuedAt: string;
+  revoked: boolean;
+}
+
+interface VerifyCertificateRow {
+  verification_code: string;
+  recipient_name: string;
+  pharmacy_name: string | null;
+  program_name: string;
+  completed_at: string;
+  issued_at: string;
+  revoked: boolean;
+}
+
+/**
+ * Codes as typed (lowercase, spaces) → stored form.
+ */
+export function normalizeVerificationCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+/**
+ * Public verification link for a code (HashRouter route).
+ */
+export function certificateVerifyUrl(code: string): string {
+  return `${window.location.origin}/#/verify/${encodeURIComponent(code)}`;
+}
+
+/**
+ * A profile's certificate for a program, if one was issued.
+ */
+export async function getCertificate(profileId: string, programSlug: string): Promise<TrainingCertificate | null> {
+  const { data, error } = await getDataProvider()
+    .from('training_certificates')
+    .select('*')
+    .eq('member_profile_id', profileId)
+    .eq('training_module_id', trainingModuleIdFor(programSlug))
+    .limit(1);
+  if (error) throw error;
+  return data?.[0] ? mapCertificateRow(data[0]) : null;
+}
+
+/**
+ * Issue the certificate for a completed program (returns the existing one when already issued).
+ */
+export async function issueCertificate(profileId: string, programSlug: string): Promise<TrainingCertificate> {
+  const { data, error } = await getDataProvider().rpc<unknown[]>('issue_training_certificate', {
+    p_profile_id: profileId,
+    p_program_slug: programSlug,
+  });
+  if (error) throw error;
+  if (!data?.[0]) throw new Error('Certificate was not issued');
+  return mapCertificateRow(data[0]);
+}
+
+/**
+ * Check a verification code; null when no certificate has it.
+ */
+export async function verifyCertificate(code: string): Promise<CertificateVerification | null> {
+  const { data, error } = await getDataProvider().rpc<VerifyCertificateRow[]>('verify_training_certificate', {
+    p_code: normalizeVerificationCode(code),
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return null;
+  return {
+    verificationCode: String(row.verification_code),
+    recipientName: String(row.recipient_name),
+    pharmacyName: row.pharmacy_name ?? undefined,
+    programName: String(row.program_name),
+    completedAt: String(row.completed_at),
+    issuedAt: String(row.issued_at),
+    revoked: !!row.revoked,
+  };
+}
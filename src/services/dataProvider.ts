@@ -0,0 +1,93 @@
+/**
+ * DataProvider
+ * - Purpose: Single seam between the app and its backend. Services and stores never talk to
+ *   Supabase (client or raw REST) directly; they go through getDataProvider().
+ * - Implementations:
+ *   - supabaseDataProvider: live Supabase (PostgREST, Storage, Auth).
+ *   - memoryDataProvider: deterministic in-memory stand-in seeded from fixtures (offline demos, tests).
+ * - Table access mirrors the supabase-js query builder (from().select().eq()...) and resolves to
+ *   { data, error, count } so call sites keep the familiar `if (error) throw error` shape.
+ */
+
+import type { Session } from '@supabase/supabase-js';
+import { getDataProviderKind, type DataProviderKind } from '../config/dataProviderConfig';
+import type { QueryBuilder, QueryResult, Row } from './queryBuilder';
+import type { TableName, TableRow } from '../types/database';
+import { createSupabaseDataProvider } from './supabaseDataProvider';
+import { createMemoryDataProvider } from './memoryDataProvider';
+
+export type { QueryResult, Row } from './queryBuilder';
+export { DataProviderError } from './queryBuilder';
+
+/** Object entry returned by a non-recursive storage listing (folders have null metadata) */
+export interface StorageListObject {
+  name: string;
+  id?: string | null;
+  updated_at?: string;
+  created_at?: string;
+  last_accessed_at?: string;
+  metadata?: {
+    size?: number;
+    mimetype?: string;
+    cacheControl?: string;
+    lastModified?: string;
+    contentLength?: number;
+  } | null;
+}
+
+/** One entry of a batch signing call; signedUrl is null when that path could not be signed */
+export interface StorageSignedUrl {
+  path: string;
+  signedUrl: string | null;
+  error: string | null;
+}
+
+/** Storage operations used by the app */
+export interface StorageProvider {
+  /** Non-recursive listing of direct children under a prefix */
+  list(bucket: string, prefix: string, opts?: { limit?: number; offset?: number }): Promise<StorageListObject[]>;
+  /** Sign several object paths in one call; results are in input order */
+  createSignedUrls(bucket: string, paths: string[], expiresIn: number): Promise<StorageSignedUrl[]>;
+}
+
+/** Account authentication operations used by the app */
+export interface AuthProvider {
+  getSession(): Promise<Session | null>;
+  /** Sign in and return the new session; throws on invalid credentials */
+  signInWithPassword(email: string, password: string): Promise<Session>;
+  signOut(): Promise<void>;
+  resetPasswordForEmail(email: string, redirectTo?: string): Promise<void>;
+}
+
+/** Backend abstraction every service and store goes through */
+export interface DataProvider {
+  readonly kind: DataProviderKind;
+  /** Start a table query (rows typed from the Database definition for known tables) */
+  from<K extends TableName>(table: K): QueryBuilder<TableRow<K>>;
+  from<T = Row>(table: string): QueryBuilder<T>;
+  /** Call a database function */
+  rpc<T = unknown>(fn: string, args?: Row): Promise<QueryResult<T>>;
+  storage: StorageProvider;
+  auth: AuthProvider;
+}
+
+/** Lazily created active provider */
+let active: DataProvider | null = null;
+
+/**
+ * Get the active DataProvider, creating it from config on first use.
+ */
+export function getDataProvider(): DataProvider {
+  if (!active) {
+    active = getDataProviderKind() === 'memory' ? createMemoryDataProvider() : createSupabaseDataProvider();
+  }
+  return active;
+}
+
+/**
+ * Replace the active provider (e.g., a freshly seeded memory provider in tests).
+ * - Pass null to fall back to the configured provider on next access.
+ */
+export function setDataProvider(provider: DataProvider | null): void {
+  active = provider;
+}
@@ -0,0 +1,195 @@
+/**
+ * Lesson progress service
+ * - Purpose: Reader/writer of member_lesson_progress (training_progress_schema.sql): one row per
+ *   profile and training video, with the segments actually played, the last playback position
+ *   (resume) and whether the lesson was completed.
+ * - A lesson completes once its played segments cover the program's completion threshold
+ *   (programs.completion_threshold, e.g. 90%); skipping ahead adds nothing, and rewatching a part
+ *   counts once.
+ * - Program progress is computed from the lessons (completed / total videos) and rolled up into the
+ *   program's member_training_progress row, which the dashboard and team page read. When the program
+ *   has a quiz (quizService), it counts as one more step and only passing it completes the module.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { mapLessonProgressRow } from './rowMappers';
+import { DEFAULT_COMPLETION_THRESHOLD } from './programDefaults';
+import {
+  completeTrainingModule,
+  getModuleProgress,
+  startTrainingModule,
+  updateTrainingProgress,
+  type TrainingProgress,
+} from './profileDashboardService';
+
+/**
+ * One profile's progress in one training video.
+ */
+export interface LessonProgress {
+  /** Video object path in the bucket */
+  lessonPath: string;
+  programSlug: string;
+  /** Seconds of the video covered by watchedRanges */
+  watchedSeconds: number;
+  /** Played segments as [start, end] seconds, merged and sorted */
+  watchedRanges: [number, number][];
+  /** Where playback stopped (resume point) */
+  positionSeconds: number;
+  durationSeconds?: number;
+  completed: boolean;
+  completedAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Program progress derived from its lessons.
+ */
+export interface LessonSummary {
+  completedLessons: number;
+  totalLessons: number;
+  /** 0–100, rounded */
+  percentage: number;
+  /** Every lesson completed (false when the program has no lessons) */
+  completed: boolean;
+}
+
+/** Segments closer than this (seconds) are merged, so timeupdate gaps do not split them */
+const RANGE_MERGE_GAP = 1;
+
+/**
+ * member_training_progress id of a program (one module per program).
+ */
+export function trainingModuleIdFor(programSlug: string): string {
+  return `training_${programSlug}`;
+}
+
+/**
+ * Add a played segment to a lesson's ranges (returns a new, merged and sorted list).
+ */
+export function addWatchedRange(ranges: [number, number][], start: number, end: number): [number, number][] {
+  if (!(end > start) || !Number.isFinite(start) || !Number.isFinite(end)) return ranges;
+  const merged: [number, number][] = [];
+  let current: [number, number] = [Math.max(0, start), end];
+  for (const range of [...ranges].sort((a, b) => a[0] - b[0])) {
+    if (range[1] + RANGE_MERGE_GAP < current[0]) {
+      merged.push(range);
+    } else if (range[0] > current[1] + RANGE_MERGE_GAP) {
+      merged.push(current);
+      current = range;
+    } else {
+      current = [Math.min(range[0], current[0]), Math.max(range[1], current[1])];
+    }
+  }
+  merged.push(current);
+  return merged.sort((a, b) => a[0] - b[0]);
+}
+
+const tenths = (seconds: number) => Math.round(seconds * 10) / 10;
+
+/** Seconds covered by merged ranges */
+export function watchedCoverage(ranges: [number, number][]): number {
+  return ranges.reduce((total, [start, end]) => total + Math.max(0, end - start), 0);
+}
+
+/**
+ * Whether the played segments reach the completion threshold (false while the duration is unknown).
+ */
+export function meetsCompletionThreshold(
+  lesson: Pick<LessonProgress, 'watchedRanges' | 'durationSeconds'>,
+  threshold = DEFAULT_COMPLETION_THRESHOLD
+): boolean {
+  if (!lesson.durationSeconds) return false;
+  // Allow for the last timeupdate landing just short of the end
+  const required = Math.max(0, lesson.durationSeconds * threshold - RANGE_MERGE_GAP);
+  return watchedCoverage(lesson.watchedRanges) >= required;
+}
+
+/**
+ * A profile's lesson records for a program.
+ */
+export async function listLessonProgress(profileId: string, programSlug: string): Promise<LessonProgress[]> {
+  const { data, error } = await getDataProvider()
+    .from('member_lesson_progress')
+    .select('*')
+    .eq('member_profile_id', profileId)
+    .eq('program_slug', programSlug);
+  if (error) throw error;
+  return (data || []).map(mapLessonProgressRow);
+}
+
+/**
+ * Insert or update one lesson record.
+ */
+export async function saveLessonProgress(profileId: string, progress: LessonProgress): Promise<void> {
+  const { error } = await getDataProvider()
+    .from('member_lesson_progress')
+    .upsert(
+      {
+        member_profile_id: profileId,
+        program_slug: progress.programSlug,
+        lesson_path: progress.lessonPath.replace(/^\/+/, ''),
+        watched_seconds: Math.round(progress.watchedSeconds),
+        // Tenths of a second are plenty and keep the JSON small
+        watched_ranges: progress.watchedRanges.map(([start, end]) => [tenths(start), tenths(end)] as [number, number]),
+        last_position_seconds: Math.round(progress.positionSeconds),
+        duration_seconds: progress.durationSeconds !== undefined ? Math.round(progress.durationSeconds) : null,
+        is_completed: progress.completed,
+        completed_at: progress.completedAt ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'member_profile_id,lesson_path' }
+    );
+  if (error) throw error;
+}
+
+/**
+ * Completed share of a program's current lessons (records for removed videos are ignored).
+ */
+export function summarizeLessons(lessonPaths: string[], progress: Map<string, LessonProgress>): LessonSummary {
+  const totalLessons = lessonPaths.length;
+  const completedLessons = lessonPaths.filter((p) => progress.get(p)?.completed).length;
+  return {
+    completedLessons,
+    totalLessons,
+    percentage: totalLessons > 0 ? Math.round((completedLessons / totalLessons) * 100) : 0,
+    completed: totalLessons > 0 && completedLessons === totalLessons,
+  };
+}
+
+/**
+ * Module percentage for a lesson summary; a quiz counts as one more step, not yet taken.
+ */
+export function modulePercentage(summary: LessonSummary, requiresQuiz = false): number {
+  if (!requiresQuiz) return summary.percentage;
+  return Math.round((summary.completedLessons / (summary.totalLessons + 1)) * 100);
+}
+
+/**
+ * Roll a lesson summary up into the program's member_training_progress row.
+ * - Creates the row on first progress; a completed program stays completed (with its original date)
+ *   even if lessons are added later.
+ * - With a quiz, finishing the lessons leaves the module in progress; the quiz RPC completes it.
+ * @returns The program's progress after the update
+ */
+export async function syncModuleProgress(
+  profileId: string,
+  programSlug: string,
+  programName: string,
+  summary: LessonSummary,
+  requiresQuiz = false
+): Promise<TrainingProgress | null> {
+  const moduleId = trainingModuleIdFor(programSlug);
+  const current = await getModuleProgress(profileId, moduleId);
+  const percentage = modulePercentage(summary, requiresQuiz);
+  const completes = summary.completed && !requiresQuiz;
+  if (current?.completionStatus === 'completed') return current;
+  if (current && current.completionPercentage === percentage && !completes) return current;
+
+  if (!current) await startTrainingModule(profileId, moduleId, programName);
+  if (completes) {
+    await completeTrainingModule(profileId, moduleId);
+  } else {
+    await updateTrainingProgress(profileId, moduleId, percentage);
+  }
+  return getModuleProgress(profileId, moduleId);
+}
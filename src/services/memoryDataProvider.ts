@@ -0,0 +1,370 @@
+/**
+ * In-memory DataProvider (Supabase stand-in)
+ * - Purpose: Run the whole hub without network, against deterministic fixture data.
+ * - Tables: evaluates QuerySpecs (filters, OR groups, ordering, paging, single, mutations) over plain arrays.
+ * - Storage: lists a "storage_objects" table (shaped like Supabase storage.objects) when seeded; otherwise
+ *   derives bucket listings from storage_files_catalog rows, so catalog and bucket agree in demo mode.
+ *   Signed URLs are fake memory:// links that carry their expiry.
+ * - Auth: any account row in the fixtures can sign in with any non-empty password.
+ * - RPC: the database functions in memoryRpcs are built in; more can be registered per provider via registerRpc().
+ */
+
+import type { Session, User } from '@supabase/supabase-js';
+import { DataProviderError, QueryBuilder, type QueryFilter, type QueryResult, type QuerySpec, type Row } from './queryBuilder';
+import type { DataProvider, StorageListObject } from './dataProvider';
+import { createDemoFixtures } from './memoryFixtures';
+import { MEMORY_RPCS } from './memoryRpcs';
+
+/** RPC handler over the provider's tables */
+export type MemoryRpcHandler = (tables: Record<string, Row[]>, args: Row) => unknown;
+
+/** Memory provider with test/demo helpers */
+export interface MemoryDataProvider extends DataProvider {
+  /** Direct access to the backing tables (tests and seeding) */
+  tables: Record<string, Row[]>;
+  /** Register a database function callable through rpc() */
+  registerRpc(fn: string, handler: MemoryRpcHandler): void;
+}
+
+/**
+ * Generate a v4-style id (crypto when available, deterministic-enough fallback otherwise).
+ */
+export function newId(): string {
+  if (typeof window !== 'undefined' && typeof window.crypto?.randomUUID === 'function') {
+    return window.crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-8xxx-xxxxxxxxxxxx'.replace(/x/g, () => Math.floor(Math.random() * 16).toString(16));
+}
+
+/** Deep copy so callers never mutate stored rows */
+function clone<T>(value: T): T {
+  if (value === undefined) return value;
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Convert a SQL LIKE pattern to a RegExp (% → any run of characters, _ → one character).
+ */
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  const body = pattern
+    .split('')
+    .map((ch) => {
+      if (ch === '%') return '[\\s\\S]*';
+      if (ch === '_') return '[\\s\\S]';
+      return ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${body}$`, caseInsensitive ? 'i' : '');
+}
+
+/**
+ * Compare two cell values for ordering and range filters (nulls sort last).
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Evaluate a single filter against a row.
+ */
+function matchesFilter(row: Row, f: QueryFilter): boolean {
+  const v = row[f.column];
+  switch (f.op) {
+    case 'eq':
+      return v === f.value || (v !== null && v !== undefined && String(v) === String(f.value));
+    case 'neq':
+      return !(v === f.value || (v !== null && v !== undefined && String(v) === String(f.value)));
+    case 'gt':
+      return compareValues(v, f.value) > 0 && v !== null && v !== undefined;
+    case 'gte':
+      return compareValues(v, f.value) >= 0 && v !== null && v !== undefined;
+    case 'lt':
+      return compareValues(v, f.value) < 0 && v !== null && v !== undefined;
+    case 'lte':
+      return compareValues(v, f.value) <= 0 && v !== null && v !== undefined;
+    case 'in':
+      return (f.value as unknown[]).some((x) => String(x) === String(v));
+    case 'like':
+      return typeof v === 'string' && likeToRegExp(String(f.value), false).test(v);
+    case 'ilike':
+      return typeof v === 'string' && likeToRegExp(String(f.value), true).test(v);
+    case 'is':
+      return f.value === null ? v === null || v === undefined : v === f.value;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Project a row onto a plain column list; embedded resources ("table(...)") are ignored.
+ */
+function project(row: Row, columns: string): Row {
+  const cols = columns
+    .replace(/\w+\s*\([^)]*\)/g, '')
+    .split(',')
+    .map((c) => c.trim())
+    .filter(Boolean);
+  if (cols.length === 0 || cols.includes('*')) return clone(row);
+  const out: Row = {};
+  for (const c of cols) out[c] = clone(row[c]);
+  return out;
+}
+
+/**
+ * Create a memory provider seeded with the demo fixtures (or custom tables).
+ */
+export function createMemoryDataProvider(seed?: Record<string, Row[]>): MemoryDataProvider {
+  const tables: Record<string, Row[]> = seed ? clone(seed) : createDemoFixtures();
+  const rpcs: Record<string, MemoryRpcHandler> = { ...MEMORY_RPCS };
+  let session: Session | null = null;
+
+  const tableRows = (name: string): Row[] => {
+    if (!tables[name]) tables[name] = [];
+    return tables[name];
+  };
+
+  /** Fill id/created_at defaults the database would normally supply */
+  const withDefaults = (row: Row): Row => ({
+    id: newId(),
+    created_at: new Date().toISOString(),
+    ...row,
+  });
+
+  /** Shape the final result of a spec (ordering, paging, single, projection) */
+  const finish = (spec: QuerySpec, rows: Row[], returnRows: boolean): QueryResult<unknown> => {
+    const count = spec.count ? rows.length : null;
+    if (!returnRows || spec.head) return { data: null, error: null, count };
+
+    let out = rows.slice();
+    for (const o of spec.order.slice().reverse()) {
+      const nullsFirst = o.nullsFirst ?? !o.ascending;
+      out.sort((a, b) => {
+        const aNull = a[o.column] === null || a[o.column] === undefined;
+        const bNull = b[o.column] === null || b[o.column] === undefined;
+        if (aNull || bNull) return aNull === bNull ? 0 : aNull === nullsFirst ? -1 : 1;
+        return (o.ascending ? 1 : -1) * compareValues(a[o.column], b[o.column]);
+      });
+    }
+    if (typeof spec.offset === 'number' || typeof spec.limit === 'number') {
+      const start = spec.offset ?? 0;
+      out = out.slice(start, typeof spec.limit === 'number' ? start + spec.limit : undefined);
+    }
+    const projected = out.map((r) => project(r, spec.columns));
+
+    if (spec.single) {
+      if (projected.length === 1) return { data: projected[0], error: null, count };
+      if (projected.length === 0 && spec.single === 'maybe') return { data: null, error: null, count };
+      return {
+        data: null,
+        error: new DataProviderError(
+          'JSON object requested, multiple (or no) rows returned',
+          'PGRST116',
+          `The result contains ${projected.length} rows`
+        ),
+        count,
+      };
+    }
+    return { data: projected, error: null, count };
+  };
+
+  const execute = async (spec: QuerySpec): Promise<QueryResult<unknown>> => {
+    const rows = tableRows(spec.table);
+    const matching = () =>
+      rows.filter(
+        (r) =>
+          spec.filters.every((f) => matchesFilter(r, f)) &&
+          spec.orGroups.every((group) => group.some((f) => matchesFilter(r, f)))
+      );
+
+    switch (spec.action) {
+      case 'select':
+        return finish(spec, matching(), true);
+
+      case 'insert': {
+        const values = Array.isArray(spec.values) ? spec.values : [spec.values || {}];
+        const inserted = values.map((v) => withDefaults(clone(v)));
+        rows.push(...inserted);
+        return finish(spec, inserted, spec.returning);
+      }
+
+      case 'update': {
+        const hits = matching();
+        for (const r of hits) Object.assign(r, clone(spec.values || {}));
+        return finish(spec, hits, spec.returning);
+      }
+
+      case 'upsert': {
+        const values = Array.isArray(spec.values) ? spec.values : [spec.values || {}];
+        const keys = (spec.onConflict || 'id').split(',').map((k) => k.trim());
+        const touched: Row[] = [];
+        for (const v of values) {
+          const existing = rows.find((r) => keys.every((k) => v[k] !== undefined && String(r[k]) === String(v[k])));
+          if (existing) {
+            if (spec.ignoreDuplicates) continue;
+            Object.assign(existing, clone(v));
+            touched.push(existing);
+          } else {
+            const created = withDefaults(clone(v));
+            rows.push(created);
+            touched.push(created);
+          }
+        }
+        return finish(spec, touched, spec.returning);
+      }
+
+      case 'delete': {
+        const hits = matching();
+        tables[spec.table] = rows.filter((r) => !hits.includes(r));
+        return finish(spec, hits, spec.returning);
+      }
+
+      default:
+        return { data: null, error: new DataProviderError(`Unsupported action: ${spec.action}`) };
+    }
+  };
+
+  /**
+   * Objects in a bucket as full paths plus list entries.
+   * - storage_objects rows: { bucket_id, name (full path), metadata, created_at, updated_at }.
+   * - Without storage_objects, the catalog doubles as the bucket contents.
+   */
+  const bucketObjects = (bucket: string): Array<{ path: string; entry: StorageListObject }> => {
+    if (tables.storage_objects) {
+      return tables.storage_objects
+        .filter((o) => o.bucket_id === bucket)
+        .map((o) => ({
+          path: String(o.name || '').replace(/^\/+/, ''),
+          entry: {
+            name: String(o.name || ''),
+            id: o.id ?? null,
+            updated_at: o.updated_at ?? undefined,
+            created_at: o.created_at ?? undefined,
+            metadata: { size: 0, ...(o.metadata || {}) },
+          },
+        }));
+    }
+    return tableRows('storage_files_catalog')
+      .filter((r) => r.bucket_name === bucket)
+      .map((r) => ({
+        path: String(r.file_path || '').replace(/^\/+/, ''),
+        entry: {
+          name: String(r.file_name || ''),
+          id: r.id,
+          updated_at: r.updated_at ?? undefined,
+          created_at: r.created_at ?? undefined,
+          metadata: {
+            size: typeof r.file_size === 'number' ? r.file_size : 0,
+            mimetype: r.mime_type ?? undefined,
+            lastModified: r.last_modified ?? undefined,
+          },
+        },
+      }));
+  };
+
+  /** Build a Session-shaped object for a fixture account */
+  const makeSession = (account: Row): Session => {
+    const user = {
+      id: account.id,
+      email: account.email,
+      aud: 'authenticated',
+      role: 'authenticated',
+      app_metadata: { provider: 'email' },
+      user_metadata: {},
+      created_at: account.created_at,
+    } as User;
+    return {
+      access_token: `memory-${account.id}`,
+      refresh_token: `memory-refresh-${account.id}`,
+      token_type: 'bearer',
+      expires_in: 3600,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      user,
+    };
+  };
+
+  return {
+    kind: 'memory',
+    tables,
+
+    from(table: string) {
+      return new QueryBuilder<never>(table, execute);
+    },
+
+    registerRpc(fn, handler) {
+      rpcs[fn] = handler;
+    },
+
+    async rpc(fn, args) {
+      const handler = rpcs[fn];
+      if (!handler) {
+        return { data: null, error: new DataProviderError(`Could not find the function ${fn}`, 'PGRST202') };
+      }
+      try {
+        return { data: clone(handler(tables, args || {})) as never, error: null };
+      } catch (e) {
+        return { data: null, error: new DataProviderError(e instanceof Error ? e.message : String(e)) };
+      }
+    },
+
+    storage: {
+      async list(bucket, prefix, opts) {
+        const clean = prefix.replace(/^\/+/, '').replace(/\/+$/, '');
+        const base = clean ? `${clean}/` : '';
+        const entries = new Map<string, StorageListObject>();
+
+        for (const o of bucketObjects(bucket)) {
+          if (!o.path.startsWith(base)) continue;
+          const rest = o.path.slice(base.length);
+          const slash = rest.indexOf('/');
+          if (slash >= 0) {
+            const folder = rest.slice(0, slash);
+            if (!entries.has(folder)) entries.set(folder, { name: folder, id: null, metadata: null });
+          } else {
+            entries.set(rest, { ...o.entry, name: rest });
+          }
+        }
+
+        const sorted = Array.from(entries.values()).sort((a, b) => a.name.localeCompare(b.name));
+        const offset = opts?.offset ?? 0;
+        return clone(sorted.slice(offset, offset + (opts?.limit ?? 100)));
+      },
+      async createSignedUrls(bucket, paths, expiresIn) {
+        if (!session) throw new DataProviderError('Signing requires a signed-in account', 'not_authenticated');
+        const known = new Set(bucketObjects(bucket).map((o) => o.path));
+        const expires = Math.floor(Date.now() / 1000) + expiresIn;
+        return paths.map((path) => {
+          const clean = path.replace(/^\/+/, '');
+          return known.has(clean)
+            ? { path, signedUrl: `memory://${bucket}/${encodeURI(clean)}?token=demo&expires=${expires}`, error: null }
+            : { path, signedUrl: null, error: 'Object not found' };
+        });
+      },
+    },
+
+    auth: {
+      async getSession() {
+        return session;
+      },
+      async signInWithPassword(email, password) {
+        const account = tableRows('accounts').find(
+          (a) => String(a.email || '').toLowerCase() === email.trim().toLowerCase()
+        );
+        if (!account || !password) {
+          throw new DataProviderError('Invalid login credentials', 'invalid_credentials');
+        }
+        session = makeSession(account);
+        return session;
+      },
+      async signOut() {
+        session = null;
+      },
+      async resetPasswordForEmail() {
+        // No email delivery offline; treat as sent.
+      },
+    },
+  };
+}
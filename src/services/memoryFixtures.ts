@@ -0,0 +1,457 @@
+/**
+ * Demo fixtures for the in-memory DataProvider
+ * - Purpose: Deterministic seed data for offline demos (trade shows) and tests.
+ * - Shape: table name → rows, using the same snake_case columns as the Supabase tables.
+ * - All timestamps are fixed so repeated runs render identically.
+ */
+
+import type { Row } from './queryBuilder';
+import { DEFAULT_PROGRAMS } from './programDefaults';
+
+/** Demo account login (any non-empty password is accepted by the memory provider) */
+export const DEMO_ACCOUNT_EMAIL = 'demo@clinicalrxq.com';
+
+/** Stable ids referenced across tables */
+export const DEMO_IDS = {
+  account: '00000000-0000-4000-8000-000000000001',
+  picProfile: '00000000-0000-4000-8000-000000000101',
+  staffProfile: '00000000-0000-4000-8000-000000000102',
+  techProfile: '00000000-0000-4000-8000-000000000103',
+} as const;
+
+/** Demo CE credit per program (placeholder provider number; mtm carries hours without accreditation) */
+const DEMO_CE_CREDIT: Record<string, Row> = {
+  timemymeds: { ce_hours: 2, ce_uan: '9999-0000-25-101-H04-P', ce_technician_uan: '9999-0000-25-101-H04-T' },
+  mtmthefuturetoday: { ce_hours: 2.5, ce_uan: null, ce_technician_uan: null },
+  testandtreat: { ce_hours: 4, ce_uan: '9999-0000-25-103-H01-P', ce_technician_uan: null },
+  oralcontraceptives: { ce_hours: 3, ce_uan: '9999-0000-25-105-H04-P', ce_technician_uan: null },
+};
+
+/** Demo quiz banks: [type, prompt, options, correct option indexes] */
+type QuizFixtureQuestion = ['multiple_choice' | 'multi_select' | 'true_false', string, string[], number[]];
+
+const DEMO_QUIZZES: {
+  slug: string;
+  title: string;
+  passPercentage: number;
+  maxAttempts: number | null;
+  questionsPerAttempt: number | null;
+  questions: QuizFixtureQuestion[];
+}[] = [
+  {
+    slug: 'mtmthefuturetoday',
+    title: 'MTM The Future Today: Knowledge Check',
+    passPercentage: 70,
+    maxAttempts: null,
+    questionsPerAttempt: null,
+    questions: [
+      ['multiple_choice', 'Who can complete the targeted medication review intake in the team workflow?', ['Only the pharmacist', 'A trained technician', 'Only the prescriber'], [1]],
+      ['true_false', 'Every CMR needs documented outcomes before it can be billed.', ['True', 'False'], [0]],
+      ['multi_select', 'Which belong in the patient takeaway after a CMR?', ['Medication action plan', 'Personal medication list', 'Pharmacy sales flyer'], [0, 1]],
+    ],
+  },
+  {
+    slug: 'testandtreat',
+    title: 'Test & Treat Competency Assessment',
+    passPercentage: 80,
+    maxAttempts: 3,
+    questionsPerAttempt: 5,
+    questions: [
+      ['multiple_choice', 'Which certificate lets a pharmacy run CLIA-waived tests?', ['Certificate of Waiver', 'Certificate of Accreditation', 'DEA registration'], [0]],
+      ['true_false', 'A negative rapid strep test in an adult with low pretest probability needs no backup culture.', ['True', 'False'], [0]],
+      ['multi_select', 'Which findings call for referral instead of treatment under protocol?', ['Difficulty breathing', 'Fever below 101 °F', 'Signs of dehydration'], [0, 2]],
+      ['multiple_choice', 'How soon after symptom onset is oseltamivir treatment most effective?', ['Within 48 hours', 'Within 7 days', 'Any time'], [0]],
+      ['true_false', 'Nasal swab collection can be delegated to a trained technician where state law allows.', ['True', 'False'], [0]],
+      ['multiple_choice', 'Where is a test result documented for the patient visit?', ['Only on the receipt', 'In the visit record, with lot number and result', 'Nowhere, if negative'], [1]],
+    ],
+  },
+];
+
+/** training_quizzes, training_quiz_questions and training_quiz_answer_keys rows for DEMO_QUIZZES (no open draws) */
+function quizFixtures(): Record<string, Row[]> {
+  const quizzes: Row[] = [];
+  const questions: Row[] = [];
+  const keys: Row[] = [];
+  DEMO_QUIZZES.forEach((quiz, q) => {
+    const quizId = `00000000-0000-4000-8000-${String(5001 + q).padStart(12, '0')}`;
+    quizzes.push({
+      id: quizId,
+      training_module_id: `training_${quiz.slug}`,
+      title: quiz.title,
+      description: null,
+      pass_percentage: quiz.passPercentage,
+      max_attempts: quiz.maxAttempts,
+      questions_per_attempt: quiz.questionsPerAttempt,
+      published: true,
+      created_at: '2025-08-20T12:00:00.000Z',
+      updated_at: '2025-08-20T12:00:00.000Z',
+    });
+    quiz.questions.forEach(([type, prompt, options, correct], i) => {
+      const questionId = `00000000-0000-4000-8000-${String(5101 + q * 100 + i).padStart(12, '0')}`;
+      questions.push({ id: questionId, quiz_id: quizId, question_type: type, prompt, options, sort_order: i });
+      keys.push({ question_id: questionId, correct_options: correct });
+    });
+  });
+  return {
+    training_quizzes: quizzes,
+    training_quiz_questions: questions,
+    training_quiz_answer_keys: keys,
+    member_quiz_attempts: [],
+    member_quiz_draws: [],
+  };
+}
+
+/** Bucket used by all catalog rows */
+const BUCKET = 'clinicalrxqfiles';
+
+/** Extension → mime type for generated catalog rows */
+const MIME_BY_EXT: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  mp4: 'video/mp4',
+};
+
+/**
+ * Files present in the demo bucket: [path, size in bytes, last modified date].
+ */
+const DEMO_FILES: Array<[string, number, string]> = [
+  ['patienthandouts/Diabetes Self-Care Checklist.pdf', 182_340, '2025-06-02'],
+  ['patienthandouts/Understanding High Blood Pressure.pdf', 240_112, '2025-06-02'],
+  ['patienthandouts/Inhaler Technique Guide.pdf', 310_876, '2025-05-14'],
+  ['patienthandouts/Flu Season Tips.pdf', 98_004, '2025-09-01'],
+  ['clinicalguidelines/ADA Standards of Care Summary.pdf', 1_204_220, '2025-01-20'],
+  ['clinicalguidelines/Hypertension Guideline Pocket Card.pdf', 402_931, '2024-11-08'],
+  ['clinicalguidelines/COPD GOLD Pocket Guide.pdf', 655_010, '2025-02-11'],
+  ['medicalbilling/CPT Codes for MTM Services.xlsx', 48_220, '2025-03-03'],
+  ['medicalbilling/Superbill Template.docx', 36_870, '2025-03-03'],
+  ['mtmthefuturetoday/training/1 Welcome to MTM The Future Today [05:12].mp4', 48_112_004, '2025-04-10'],
+  ['mtmthefuturetoday/training/2 Building Your Team Workflow [12:40].mp4', 120_440_310, '2025-04-10'],
+  ['mtmthefuturetoday/training/3 Documenting Outcomes [09:05].mp4', 86_002_551, '2025-04-12'],
+  ['mtmthefuturetoday/training/MTM Training Workbook.pdf', 2_410_998, '2025-04-12'],
+  ['mtmthefuturetoday/protocols/MTM Service Protocol.pdf', 880_414, '2025-04-01'],
+  ['mtmthefuturetoday/Forms/UtilityForms/Patient Intake Form.pdf', 120_004, '2025-04-01'],
+  ['mtmthefuturetoday/Forms/MedFlowsheets/Diabetes Flowsheet.pdf', 96_208, '2025-04-01'],
+  ['mtmthefuturetoday/Forms/OutcomesTIP/Adherence TIP.pdf', 74_330, '2025-04-01'],
+  ['mtmthefuturetoday/Forms/PrescriberComm/Prescriber Fax Cover.docx', 30_118, '2025-04-01'],
+  ['mtmthefuturetoday/Forms/PrescriberComm/DrugInteractions/Drug Interaction Notice.docx', 31_550, '2025-04-01'],
+  ['mtmthefuturetoday/resources/MTM Billing Quick Reference.pdf', 210_004, '2025-04-05'],
+  ['timemymeds/training/1 Introduction to Med Sync [06:30].mp4', 60_220_114, '2025-02-18'],
+  ['timemymeds/training/2 Appointment-Based Model [11:15].mp4', 104_551_002, '2025-02-18'],
+  ['timemymeds/protocols/Med Sync Enrollment Protocol.pdf', 512_220, '2025-02-18'],
+  ['timemymeds/forms/Sync Enrollment Form.pdf', 88_310, '2025-02-18'],
+  ['timemymeds/resources/Patient Sync Calendar.xlsx', 40_004, '2025-02-20'],
+  ['testandtreat/training/1 CLIA-Waived Testing Basics [08:45].mp4', 80_114_220, '2025-08-15'],
+  ['testandtreat/protocols/Test and Treat Collaborative Protocol.pdf', 720_118, '2025-08-15'],
+  ['testandtreat/forms/COVID/COVID Assessment Form.pdf', 102_440, '2025-08-20'],
+  ['testandtreat/forms/Flu/Influenza Assessment Form.pdf', 99_870, '2025-08-20'],
+  ['testandtreat/forms/Strep/Strep Assessment Form.pdf', 97_115, '2025-08-20'],
+  ['hba1c/training/1 Point-of-Care A1c Testing [07:20].mp4', 70_008_114, '2025-05-06'],
+  ['hba1c/protocols/A1c Testing Protocol.pdf', 330_910, '2025-05-06'],
+  ['hba1c/forms/A1c Results Log.xlsx', 22_480, '2025-05-06'],
+  ['oralcontraceptives/training/1 Patient Assessment for OCs [10:02].mp4', 95_440_010, '2025-07-01'],
+  ['oralcontraceptives/forms/Self-Screening Risk Assessment.pdf', 140_226, '2025-07-01'],
+  ['oralcontraceptives/resources/US MEC Summary Chart.pdf', 260_338, '2025-07-03'],
+];
+
+/**
+ * Build storage_files_catalog rows from DEMO_FILES.
+ */
+function buildCatalogRows(): Row[] {
+  return DEMO_FILES.map(([path, size, date], i) => {
+    const fileName = path.split('/').pop() || path;
+    const ext = (fileName.split('.').pop() || '').toLowerCase();
+    const iso = `${date}T12:00:00.000Z`;
+    return {
+      id: `00000000-0000-4000-8000-${String(1001 + i).padStart(12, '0')}`,
+      bucket_name: BUCKET,
+      file_name: fileName,
+      file_path: path,
+      file_url: null,
+      file_size: size,
+      mime_type: MIME_BY_EXT[ext] || 'application/octet-stream',
+      last_modified: iso,
+      created_at: iso,
+      updated_at: iso,
+    };
+  });
+}
+
+/**
+ * Create a fresh copy of every demo table.
+ * - Returns new objects on each call so providers can mutate freely.
+ */
+export function createDemoFixtures(): Record<string, Row[]> {
+  const catalog = buildCatalogRows();
+  const byPath = (p: string) => catalog.find((r) => r.file_path === p) as Row;
+  // Team activity (/team) reads recent days, so part of the demo history is relative to today
+  const daysAgo = (days: number, hour: number) => {
+    const d = new Date();
+    d.setDate(d.getDate() - days);
+    d.setHours(hour, 0, 0, 0);
+    return d.toISOString();
+  };
+
+  return {
+    accounts: [
+      {
+        id: DEMO_IDS.account,
+        email: DEMO_ACCOUNT_EMAIL,
+        pharmacy_name: 'Demo Community Pharmacy',
+        pharmacy_phone: '(555) 010-2000',
+        subscription_status: 'active',
+        created_at: '2025-01-02T15:00:00.000Z',
+        updated_at: '2025-01-02T15:00:00.000Z',
+        address1: '100 Main Street',
+        city: 'Springfield',
+        state: 'IL',
+        zipcode: '62701',
+      },
+    ],
+
+    member_profiles: [
+      {
+        id: DEMO_IDS.picProfile,
+        member_account_id: DEMO_IDS.account,
+        role_type: 'Pharmacist-PIC',
+        first_name: 'Jordan',
+        last_name: 'Reyes',
+        phone_number: '(555) 010-2001',
+        profile_email: 'jordan.reyes@example.com',
+        dob_month: '04',
+        dob_day: '17',
+        dob_year: '1984',
+        license_number: 'RPH-104220',
+        nabp_eprofile_id: '1234567',
+        is_active: true,
+        created_at: '2025-01-02T15:05:00.000Z',
+        updated_at: '2025-01-02T15:05:00.000Z',
+      },
+      {
+        id: DEMO_IDS.staffProfile,
+        member_account_id: DEMO_IDS.account,
+        role_type: 'Pharmacist-Staff',
+        first_name: 'Avery',
+        last_name: 'Chen',
+        phone_number: null,
+        profile_email: 'avery.chen@example.com',
+        dob_month: '11',
+        dob_day: '03',
+        dob_year: '1991',
+        license_number: 'RPH-118904',
+        nabp_eprofile_id: '2345678',
+        is_active: true,
+        created_at: '2025-01-03T15:05:00.000Z',
+        updated_at: '2025-01-03T15:05:00.000Z',
+      },
+      {
+        id: DEMO_IDS.techProfile,
+        member_account_id: DEMO_IDS.account,
+        role_type: 'Pharmacy Technician',
+        first_name: 'Sam',
+        last_name: 'Patel',
+        phone_number: null,
+        profile_email: null,
+        dob_month: null,
+        dob_day: null,
+        dob_year: null,
+        license_number: 'CPHT-55021',
+        nabp_eprofile_id: null,
+        is_active: true,
+        created_at: '2025-01-04T15:05:00.000Z',
+        updated_at: '2025-01-04T15:05:00.000Z',
+      },
+    ],
+
+    storage_files_catalog: catalog,
+
+    bookmarks: [
+      'patienthandouts/Diabetes Self-Care Checklist.pdf',
+      'mtmthefuturetoday/Forms/UtilityForms/Patient Intake Form.pdf',
+      'testandtreat/forms/Flu/Influenza Assessment Form.pdf',
+    ].map((path, i) => {
+      const file = byPath(path);
+      return {
+        id: `00000000-0000-4000-8000-${String(2001 + i).padStart(12, '0')}`,
+        profile_id: DEMO_IDS.picProfile,
+        resource_path: file.file_path,
+        resource_name: String(file.file_name).replace(/\.[^.]+$/, ''),
+        created_at: `2025-09-0${i + 2}T14:00:00.000Z`,
+      };
+    }),
+
+    bookmark_kits: [
+      {
+        id: '00000000-0000-4000-8000-000000004001',
+        member_account_id: DEMO_IDS.account,
+        created_by_profile_id: DEMO_IDS.picProfile,
+        name: 'Front counter essentials',
+        description: 'Forms every technician should have handy.',
+        is_published: true,
+        sort_order: 0,
+        created_at: '2025-09-01T15:00:00.000Z',
+      },
+    ],
+
+    bookmark_kit_items: [
+      'mtmthefuturetoday/Forms/UtilityForms/Patient Intake Form.pdf',
+      'testandtreat/forms/Flu/Influenza Assessment Form.pdf',
+    ].map((path, i) => {
+      const file = byPath(path);
+      return {
+        id: `00000000-0000-4000-8000-${String(4101 + i).padStart(12, '0')}`,
+        kit_id: '00000000-0000-4000-8000-000000004001',
+        resource_path: file.file_path,
+        resource_name: String(file.file_name).replace(/\.[^.]+$/, ''),
+        sort_order: i,
+        created_at: '2025-09-01T15:00:00.000Z',
+      };
+    }),
+
+    analytics_events: [
+      [DEMO_IDS.picProfile, 'mtmthefuturetoday/training/2 Building Your Team Workflow [12:40].mp4', 'video_played', '2025-09-15T16:20:00.000Z'],
+      [DEMO_IDS.picProfile, 'patienthandouts/Flu Season Tips.pdf', 'resource_downloaded', '2025-09-15T15:02:00.000Z'],
+      [DEMO_IDS.picProfile, 'mtmthefuturetoday/protocols/MTM Service Protocol.pdf', 'resource_viewed', '2025-09-14T13:02:00.000Z'],
+      [DEMO_IDS.picProfile, 'patienthandouts/Flu Season Tips.pdf', 'resource_downloaded', '2025-09-13T10:30:00.000Z'],
+      [DEMO_IDS.picProfile, 'medicalbilling/Superbill Template.docx', 'resource_downloaded', '2025-09-12T18:45:00.000Z'],
+      [DEMO_IDS.picProfile, 'mtmthefuturetoday/protocols/MTM Service Protocol.pdf', 'resource_viewed', daysAgo(12, 9)],
+      [DEMO_IDS.picProfile, 'patienthandouts/Flu Season Tips.pdf', 'resource_downloaded', daysAgo(3, 14)],
+      [DEMO_IDS.staffProfile, 'patienthandouts/Flu Season Tips.pdf', 'resource_viewed', daysAgo(9, 10)],
+      [DEMO_IDS.staffProfile, 'testandtreat/forms/Flu/Influenza Assessment Form.pdf', 'resource_downloaded', daysAgo(9, 11)],
+      [DEMO_IDS.staffProfile, 'mtmthefuturetoday/training/2 Building Your Team Workflow [12:40].mp4', 'video_played', daysAgo(5, 15)],
+      [DEMO_IDS.staffProfile, 'patienthandouts/Flu Season Tips.pdf', 'resource_downloaded', daysAgo(1, 16)],
+      [DEMO_IDS.techProfile, 'mtmthefuturetoday/Forms/UtilityForms/Patient Intake Form.pdf', 'resource_downloaded', '2025-08-20T13:00:00.000Z'],
+    ].map(([profileId, path, type, at], i) => {
+      const file = byPath(path);
+      const id = `00000000-0000-4000-8000-${String(3001 + i).padStart(12, '0')}`;
+      return {
+        id,
+        client_event_id: id,
+        profile_id: profileId,
+        event_type: type,
+        resource_path: file.file_path,
+        program_slug: DEFAULT_PROGRAMS.some((p) => p.slug === path.split('/')[0]) ? path.split('/')[0] : null,
+        properties: { name: String(file.file_name).replace(/\.[^.]+$/, ''), mimeType: file.mime_type },
+        occurred_at: at,
+        created_at: at,
+      };
+    }),
+
+    programs: DEFAULT_PROGRAMS.map((p) => ({
+      id: `program_${p.slug}`,
+      slug: p.slug,
+      name: p.name,
+      short_name: p.shortName,
+      description: p.description,
+      tagline: p.tagline,
+      icon: p.icon,
+      level: p.level,
+      features: p.features,
+      sort_order: p.sortOrder,
+      published: p.published,
+      completion_threshold: p.completionThreshold,
+      ...DEMO_CE_CREDIT[p.slug],
+      created_at: '2025-01-02T15:00:00.000Z',
+      updated_at: '2025-01-02T15:00:00.000Z',
+    })),
+
+    training_modules: [
+      { id: 'training_mtmthefuturetoday', name: 'MTM The Future Today' },
+      { id: 'training_timemymeds', name: 'TimeMyMeds' },
+      { id: 'training_testandtreat', name: 'Test & Treat Services' },
+      { id: 'training_hba1c', name: 'HbA1c Testing' },
+      { id: 'training_oralcontraceptives', name: 'Pharmacist-Initiated Oral Contraceptives' },
+    ],
+
+    member_training_progress: [
+      {
+        id: '00000000-0000-4000-8000-000000004001',
+        member_profile_id: DEMO_IDS.picProfile,
+        training_module_id: 'training_timemymeds',
+        started_at: '2025-08-01T14:00:00.000Z',
+        completed_at: '2025-08-03T15:30:00.000Z',
+        is_completed: true,
+        completion_percentage: 100,
+        attempts: 0,
+      },
+      {
+        id: '00000000-0000-4000-8000-000000004002',
+        member_profile_id: DEMO_IDS.picProfile,
+        training_module_id: 'training_mtmthefuturetoday',
+        started_at: '2025-09-10T14:00:00.000Z',
+        completed_at: null,
+        is_completed: false,
+        completion_percentage: 33,
+        attempts: 0,
+      },
+      {
+        id: '00000000-0000-4000-8000-000000004003',
+        member_profile_id: DEMO_IDS.staffProfile,
+        training_module_id: 'training_mtmthefuturetoday',
+        started_at: daysAgo(5, 15),
+        completed_at: null,
+        is_completed: false,
+        completion_percentage: 67,
+        attempts: 0,
+      },
+    ],
+
+    // Lesson records behind the member_training_progress percentages above
+    member_lesson_progress: [
+      [DEMO_IDS.picProfile, 'timemymeds/training/1 Introduction to Med Sync [06:30].mp4', 390, 0, 390, '2025-08-01T14:10:00.000Z'],
+      [DEMO_IDS.picProfile, 'timemymeds/training/2 Appointment-Based Model [11:15].mp4', 675, 0, 675, '2025-08-03T15:30:00.000Z'],
+      [DEMO_IDS.picProfile, 'mtmthefuturetoday/training/1 Welcome to MTM The Future Today [05:12].mp4', 312, 0, 312, '2025-09-10T14:08:00.000Z'],
+      [DEMO_IDS.picProfile, 'mtmthefuturetoday/training/2 Building Your Team Workflow [12:40].mp4', 250, 250, 760, null],
+      [DEMO_IDS.staffProfile, 'mtmthefuturetoday/training/1 Welcome to MTM The Future Today [05:12].mp4', 312, 0, 312, daysAgo(5, 15)],
+      [DEMO_IDS.staffProfile, 'mtmthefuturetoday/training/2 Building Your Team Workflow [12:40].mp4', 760, 0, 760, daysAgo(5, 16)],
+    ].map(([profileId, path, watched, position, duration, completedAt], i) => ({
+      id: `00000000-0000-4000-8000-${String(4201 + i).padStart(12, '0')}`,
+      member_profile_id: profileId,
+      program_slug: String(path).split('/')[0],
+      lesson_path: path,
+      watched_seconds: watched,
+      watched_ranges: [[0, watched]] as [number, number][],
+      last_position_seconds: position,
+      duration_seconds: duration,
+      is_completed: completedAt !== null,
+      completed_at: completedAt,
+      updated_at: completedAt ?? '2025-09-15T16:24:10.000Z',
+      created_at: completedAt ?? '2025-09-15T16:20:00.000Z',
+    })),
+
+    ...quizFixtures(),
+
+    training_certificates: [
+      {
+        id: '00000000-0000-4000-8000-000000005901',
+        verification_code: 'CRXQ-7H3K-Q2MD',
+        member_profile_id: DEMO_IDS.picProfile,
+        training_module_id: 'training_timemymeds',
+        program_slug: 'timemymeds',
+        program_name: 'TimeMyMeds',
+        recipient_name: 'Jordan Reyes',
+        license_number: 'RPH-104220',
+        nabp_eprofile_id: '1234567',
+        pharmacy_name: 'Demo Community Pharmacy',
+        completed_at: '2025-08-03T15:30:00.000Z',
+        issued_at: '2025-08-03T15:31:00.000Z',
+        revoked_at: null,
+      },
+    ],
+
+    announcements: [
+      {
+        id: 1,
+        title: 'Test & Treat forms refreshed',
+        body: 'COVID, Flu and Strep assessment forms were updated for the 2025–26 season.',
+        created_at: '2025-08-20T12:00:00.000Z',
+      },
+      {
+        id: 2,
+        title: 'New handout: Flu Season Tips',
+        body: 'A patient-facing flu prevention handout is now in the Patient Handouts library.',
+        created_at: '2025-09-01T12:00:00.000Z',
+      },
+    ],
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Memory RPCs
+ * - Purpose: In-memory versions of the database functions, registered on every memory provider so
+ *   demo mode and tests call the same rpc() names as Supabase.
+ * - Each mirrors its SQL definition (named next to it); keep them in step when the SQL changes.
+ */
+
+import { newId, type MemoryRpcHandler } from './memoryDataProvider';
+import type { Row } from './queryBuilder';
+import { isVideo } from '../lib/fileKinds';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * get_trending_resources (trending_resources_schema.sql).
+ * - The demo data holds a single pharmacy, so the "at least 3 pharmacies" floor is not applied here.
+ */
+const getTrendingResources: MemoryRpcHandler = (tables, args) => {
+  const days = Math.min(Math.max(Number(args.p_days ?? 7), 1), 365);
+  const limit = Math.min(Math.max(Number(args.p_limit ?? 10), 1), 500);
+  const programSlug = (args.p_program_slug as string | null | undefined) ?? null;
+  const types = (args.p_event_types as string[] | null | undefined) ?? ['resource_viewed', 'resource_downloaded', 'video_played'];
+  const since = Date.now() - days * DAY_MS;
+
+  const accountByProfile = new Map((tables.member_profiles ?? []).map((p) => [p.id, p.member_account_id]));
+  const byPath = new Map<string, { access_count: number; pharmacies: Set<unknown> }>();
+  for (const e of (tables.analytics_events ?? []) as Row[]) {
+    if (!e.resource_path || !types.includes(e.event_type)) continue;
+    if (new Date(e.occurred_at).getTime() < since) continue;
+    if (programSlug !== null && e.program_slug !== programSlug) continue;
+    if (!accountByProfile.has(e.profile_id)) continue;
+    const entry = byPath.get(e.resource_path) ?? { access_count: 0, pharmacies: new Set() };
+    entry.access_count += 1;
+    entry.pharmacies.add(accountByProfile.get(e.profile_id));
+    byPath.set(e.resource_path, entry);
+  }
+
+  return Array.from(byPath.entries())
+    .map(([resource_path, e]) => ({ resource_path, access_count: e.access_count, pharmacy_count: e.pharmacies.size }))
+    .sort(
+      (a, b) =>
+        b.pharmacy_count - a.pharmacy_count ||
+        b.access_count - a.access_count ||
+        a.resource_path.localeCompare(b.resource_path)
+    )
+    .slice(0, limit);
+};
+
+/** Same set of option indexes (order and repeats ignored) */
+function sameOptions(a: unknown, b: number[]): boolean {
+  if (!Array.isArray(a)) return false;
+  const left = Array.from(new Set(a.map(Number))).sort((x, y) => x - y);
+  const right = Array.from(new Set(b)).sort((x, y) => x - y);
+  return left.length === right.length && left.every((v, i) => v === right[i]);
+}
+
+/**
+ * training_lessons_completed (training_quiz_schema.sql): every training video of the program has a
+ * completed lesson row.
+ */
+function trainingLessonsCompleted(tables: Record<string, Row[]>, profileId: string, programSlug: string): boolean {
+  const completed = new Set(
+    (tables.member_lesson_progress ?? [])
+      .filter((l) => l.member_profile_id === profileId && l.is_completed)
+      .map((l) => l.lesson_path)
+  );
+  const prefix = `${programSlug}/training/`.toLowerCase();
+  return (tables.storage_files_catalog ?? []).every((c) => {
+    const path = String(c.file_path).replace(/^\/+/, '');
+    if (!path.toLowerCase().startsWith(prefix)) return true;
+    if (!isVideo({ filename: c.file_name, path, mimeType: c.mime_type })) return true;
+    return completed.has(path);
+  });
+}
+
+/**
+ * Checks shared by start_training_quiz and submit_training_quiz: the quiz, the program's lessons,
+ * the profile's previous attempts, and the draw table.
+ * - There is no signed-in user here, so the profile only has to exist.
+ */
+function openQuizAttempt(tables: Record<string, Row[]>, args: Row) {
+  const profileId = String(args.p_profile_id);
+  if (!(tables.member_profiles ?? []).some((p) => p.id === profileId)) throw new Error('Profile not found');
+  const quiz = (tables.training_quizzes ?? []).find((q) => q.id === args.p_quiz_id && q.published !== false);
+  if (!quiz) throw new Error('Quiz not found');
+  if (!trainingLessonsCompleted(tables, profileId, String(quiz.training_module_id).replace(/^training_/, ''))) {
+    throw new Error('Complete every lesson before taking the quiz');
+  }
+
+  const previous = (tables.member_quiz_attempts ?? []).filter((a) => a.member_profile_id === profileId && a.quiz_id === quiz.id);
+  if (previous.some((a) => a.passed)) throw new Error('Quiz already passed');
+  if (quiz.max_attempts != null && previous.length >= quiz.max_attempts) throw new Error('No quiz attempts remaining');
+
+  const bank = (tables.training_quiz_questions ?? [])
+    .filter((q) => q.quiz_id === quiz.id)
+    .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0));
+  const draws = (tables.member_quiz_draws ??= []);
+  const draw = draws.find((d) => d.member_profile_id === profileId && d.quiz_id === quiz.id);
+  return { profileId, quiz, previous, bank, draws, draw };
+}
+
+/**
+ * start_training_quiz (training_quiz_schema.sql).
+ */
+const startTrainingQuiz: MemoryRpcHandler = (tables, args) => {
+  const { profileId, quiz, bank, draws, draw } = openQuizAttempt(tables, args);
+  if (quiz.questions_per_attempt == null) return bank.map((q) => ({ question_id: q.id }));
+
+  let ids = draw?.question_ids as string[] | undefined;
+  if (!ids) {
+    const shuffled = bank.map((q) => q.id as string);
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    ids = shuffled.slice(0, quiz.questions_per_attempt);
+    draws.push({ member_profile_id: profileId, quiz_id: quiz.id, question_ids: ids, drawn_at: new Date().toISOString() });
+  }
+  const drawn = new Set(ids);
+  return bank.filter((q) => drawn.has(q.id)).map((q) => ({ question_id: q.id }));
+};
+
+/**
+ * submit_training_quiz (training_quiz_schema.sql).
+ */
+const submitTrainingQuiz: MemoryRpcHandler = (tables, args) => {
+  const answers = (args.p_answers ?? {}) as Record<string, unknown>;
+  const { profileId, quiz, previous, bank, draws, draw } = openQuizAttempt(tables, args);
+  const attempts = (tables.member_quiz_attempts ??= []);
+
+  // Scored on the server's draw, never the client's choice
+  let scored = bank;
+  if (quiz.questions_per_attempt != null) {
+    if (!draw) throw new Error('Start the quiz before submitting answers');
+    const drawn = new Set(draw.question_ids as string[]);
+    scored = bank.filter((q) => drawn.has(q.id));
+  }
+  if (scored.length === 0) throw new Error('Quiz has no questions');
+
+  const keys = new Map((tables.training_quiz_answer_keys ?? []).map((k) => [k.question_id, k.correct_options as number[]]));
+  const correct = scored.filter((q) => keys.has(q.id) && sameOptions(answers[q.id], keys.get(q.id) as number[])).length;
+  const score = Math.round((100 * correct) / scored.length);
+  const passed = score >= (quiz.pass_percentage ?? 80);
+  const now = new Date().toISOString();
+  const attempt = {
+    id: newId(),
+    member_profile_id: profileId,
+    quiz_id: quiz.id,
+    training_module_id: quiz.training_module_id,
+    attempt_number: previous.length + 1,
+    correct_count: correct,
+    question_count: scored.length,
+    score_percentage: score,
+    passed,
+    answers,
+    submitted_at: now,
+  };
+  attempts.push(attempt);
+  // The next attempt gets a new draw
+  if (draw) draws.splice(draws.indexOf(draw), 1);
+
+  // Roll up into the module row; a pass completes the module
+  const progressRows = (tables.member_training_progress ??= []);
+  const progress = progressRows.find(
+    (p) => p.member_profile_id === profileId && p.training_module_id === quiz.training_module_id
+  );
+  if (progress) {
+    progress.attempts = attempt.attempt_number;
+    if (passed) {
+      progress.is_completed = true;
+      progress.completion_percentage = 100;
+      progress.completed_at = progress.completed_at ?? now;
+    }
+  } else {
+    progressRows.push({
+      id: newId(),
+      member_profile_id: profileId,
+      training_module_id: quiz.training_module_id,
+      started_at: now,
+      is_completed: passed,
+      completion_percentage: passed ? 100 : 0,
+      completed_at: passed ? now : null,
+      attempts: attempt.attempt_number,
+    });
+  }
+
+  return [
+    {
+      attempt_id: attempt.id,
+      attempt_number: attempt.attempt_number,
+      correct_count: correct,
+      question_count: scored.length,
+      score_percentage: score,
+      passed,
+      attempts_remaining: quiz.max_attempts == null ? null : Math.max(quiz.max_attempts - attempt.attempt_number, 0),
+      submitted_at: now,
+    },
+  ];
+};
+
+/** Verification code characters (no 0/O or 1/I lookalikes) */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * issue_training_certificate (certificates_schema.sql).
+ */
+const issueTrainingCertificate: MemoryRpcHandler = (tables, args) => {
+  const profileId = String(args.p_profile_id);
+  const programSlug = String(args.p_program_slug);
+  const moduleId = `training_${programSlug}`;
+  const profile = (tables.member_profiles ?? []).find((p) => p.id === profileId);
+  if (!profile) throw new Error('Profile not found');
+
+  const certificates = (tables.training_certificates ??= []);
+  const existing = certificates.find((c) => c.member_profile_id === profileId && c.training_module_id === moduleId);
+  if (existing) return [existing];
+
+  const progress = (tables.member_training_progress ?? []).find(
+    (p) => p.member_profile_id === profileId && p.training_module_id === moduleId && p.is_completed
+  );
+  if (!progress?.completed_at) throw new Error('Program not completed');
+
+  let code: string;
+  do {
+    const chars = Array.from({ length: 8 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]);
+    code = `CRXQ-${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+  } while (certificates.some((c) => c.verification_code === code));
+
+  const program = (tables.programs ?? []).find((p) => p.slug === programSlug);
+  const account = (tables.accounts ?? []).find((a) => a.id === profile.member_account_id);
+  const certificate = {
+    id: newId(),
+    verification_code: code,
+    member_profile_id: profileId,
+    training_module_id: moduleId,
+    program_slug: programSlug,
+    program_name: program?.name ?? programSlug,
+    recipient_name: `${profile.first_name} ${profile.last_name}`.trim(),
+    license_number: profile.license_number ?? null,
+    nabp_eprofile_id: profile.nabp_eprofile_id ?? null,
+    pharmacy_name: account?.pharmacy_name ?? null,
+    completed_at: progress.completed_at,
+    issued_at: new Date().toISOString(),
+    revoked_at: null,
+  };
+  certificates.push(certificate);
+  return [certificate];
+};
+
+/**
+ * verify_training_certificate (certificates_schema.sql).
+ */
+const verifyTrainingCertificate: MemoryRpcHandler = (tables, args) => {
+  const code = String(args.p_code ?? '').trim().toUpperCase();
+  return (tables.training_certificates ?? [])
+    .filter((c) => c.verification_code === code)
+    .map((c) => ({
+      verification_code: c.verification_code,
+      recipient_name: c.recipient_name,
+      pharmacy_name: c.pharmacy_name,
+      program_name: c.program_name,
+      completed_at: c.completed_at,
+      issued_at: c.issued_at,
+      revoked: c.revoked_at != null,
+    }));
+};
+
+/** Database functions by name */
+export const MEMORY_RPCS: Record<string, MemoryRpcHandler> = {
+  get_trending_resources: getTrendingResources,
+  start_training_quiz: startTrainingQuiz,
+  submit_training_quiz: submitTrainingQuiz,
+  issue_training_certificate: issueTrainingCertificate,
+  verify_training_certificate: verifyTrainingCertificate,
+};
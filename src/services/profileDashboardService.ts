@@ -4,20 +4,50 @@
  * - All activity tracking is done at the profile level, not account level
  */
 
-import { supabase } from './supabase';
-import { listProgramsFromStorage } from './storageCatalog';
-import type { StorageFileItem } from './supabaseStorage';
+import { getDataProvider } from './dataProvider';
+import { getPrograms } from './programRegistry';
+import { getProgramStats, type ProgramStats } from './programStats';
+import type { ClinicalProgram } from '../types';
+import { flushEvents, RESOURCE_EVENT_TYPES, trackEvent, type AnalyticsEvent } from './analyticsEvents';
+import { mapAnnouncementRow, mapEventRow, mapTrainingProgressRow } from './rowMappers';
 
 // Types for dashboard data
+
+/** How a resource was accessed */
+export type ActivityAction = 'view' | 'download' | 'play';
+
 export interface RecentActivity {
   id: string;
   resourceName: string;
+  /** Object path in the bucket (re-open link); missing on rows tracked before paths were stored */
   resourcePath?: string;
-  resourceUrl?: string;
   programSlug?: string;
+  mimeType?: string;
+  action: ActivityAction;
   accessedAt: string;
 }
 
+/** Feed action for each resource event */
+const ACTION_BY_EVENT = {
+  resource_viewed: 'view',
+  resource_downloaded: 'download',
+  video_played: 'play',
+} as const satisfies Record<(typeof RESOURCE_EVENT_TYPES)[number], ActivityAction>;
+
+/** Resource event → activity feed entry */
+function toActivity(event: AnalyticsEvent): RecentActivity {
+  const { name, mimeType } = event.properties;
+  return {
+    id: event.id,
+    resourceName: typeof name === 'string' && name ? name : event.resourcePath?.split('/').pop() || 'Unknown resource',
+    resourcePath: event.resourcePath,
+    programSlug: event.programSlug,
+    mimeType: typeof mimeType === 'string' ? mimeType : undefined,
+    action: ACTION_BY_EVENT[event.type as keyof typeof ACTION_BY_EVENT] ?? 'view',
+    accessedAt: event.occurredAt,
+  };
+}
+
 export interface Announcement {
   id: string;
   title: string;
@@ -25,10 +55,6 @@ export interface Announcement {
   dateISO: string;
 }
 
-export interface BookmarkedResource extends StorageFileItem {
-  bookmarkedAt: string;
-}
-
 export interface TrainingProgress {
   id: string;
   trainingModuleId: string;
@@ -39,42 +65,79 @@ export interface TrainingProgress {
   completionStatus: 'not_started' | 'in_progress' | 'completed';
 }
 
+export interface DashboardProgram extends ClinicalProgram {
+  stats: ProgramStats | null;
+  resourceCount: number | null;
+  lastUpdatedISO: string | null;
+}
+
 // Fetch programs with resource counts (account level - same for all profiles in pharmacy)
-export async function getDashboardPrograms() {
-  const programs = await listProgramsFromStorage();
-  
+export async function getDashboardPrograms(): Promise<DashboardProgram[]> {
+  const [programs, stats] = await Promise.all([
+    getPrograms(),
+    // Cards still render without stats if the catalog is unreachable
+    getProgramStats().catch((e) => {
+      console.warn('Program stats unavailable:', e);
+      return {} as Record<string, ProgramStats>;
+    }),
+  ]);
+
   return programs.map(p => ({
     ...p,
-    icon: getIconForProgram(p.slug),
-    resourceCount: 50, // TODO: Calculate from storage if needed
-    lastUpdatedISO: new Date().toISOString()
+    stats: stats[p.slug] ?? null,
+    resourceCount: stats[p.slug]?.counts.total ?? null,
+    lastUpdatedISO: stats[p.slug]?.lastModified ?? null
   }));
 }
 
-// Fetch recent activity for specific profile
-export async function getRecentActivity(profileId: string): Promise<RecentActivity[]> {
-  const { data, error } = await supabase
-    .from('recent_activity')
+// Fetch recent activity for specific profile (latest access per resource, from analytics_events)
+export async function getRecentActivity(profileId: string, limit = 10): Promise<RecentActivity[]> {
+  // Include this session's events that are still queued
+  await flushEvents();
+  const { data, error } = await getDataProvider()
+    .from('analytics_events')
     .select('*')
     .eq('profile_id', profileId)
-    .order('accessed_at', { ascending: false })
-    .limit(10);
+    .in('event_type', [...RESOURCE_EVENT_TYPES])
+    .order('occurred_at', { ascending: false })
+    .limit(limit * 5);
     
   if (error) throw error;
-  
-  return (data || []).map(row => ({
-    id: row.id,
-    resourceName: row.resource_name,
-    resourcePath: '', // Not in current schema
-    resourceUrl: '', // Not in current schema
-    programSlug: '', // Not in current schema
-    accessedAt: row.accessed_at,
-  }));
+
+  // The table keeps every access; show each resource once, at its latest access
+  const seen = new Set<string>();
+  const latest: RecentActivity[] = [];
+  for (const activity of (data || []).map((row) => toActivity(mapEventRow(row)))) {
+    const key = activity.resourcePath || activity.resourceName;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    latest.push(activity);
+    if (latest.length === limit) break;
+  }
+  return latest;
+}
+
+// Most recently played training video for specific profile ("continue where you left off")
+export async function getLastPlayedVideo(profileId: string): Promise<RecentActivity | null> {
+  await flushEvents();
+  const { data, error } = await getDataProvider()
+    .from('analytics_events')
+    .select('*')
+    .eq('profile_id', profileId)
+    .eq('event_type', 'video_played')
+    .order('occurred_at', { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+
+  const row = (data || [])[0];
+  const activity = row ? toActivity(mapEventRow(row)) : null;
+  return activity?.resourcePath ? activity : null;
 }
 
 // Fetch announcements (pharmacy level - same for all profiles)
 export async function getAnnouncements(): Promise<Announcement[]> {
-  const { data, error } = await supabase
+  const { data, error } = await getDataProvider()
     .from('announcements')
     .select('*')
     .order('created_at', { ascending: false })
@@ -82,169 +145,50 @@ export async function getAnnouncements(): Promise<Announcement[]> {
     
   if (error) throw error;
   
-  return (data || []).map(row => ({
-    id: row.id.toString(),
-    title: row.title,
-    body: row.body,
-    dateISO: row.created_at,
-  }));
-}
-
-// Fetch bookmarked resources for specific profile
-export async function getBookmarkedResources(profileId: string): Promise<BookmarkedResource[]> {
-  // Join bookmarks with storage_files_catalog to get file details
-  const { data, error } = await supabase
-    .from('bookmarks')
-    .select(`
-      *,
-      storage_files_catalog (
-        file_name,
-        file_path,
-        file_url,
-        mime_type,
-        file_size
-      )
-    `)
-    .eq('profile_id', profileId)
-    .order('created_at', { ascending: false });
-    
-  if (error) throw error;
-  
-  return (data || []).map(row => ({
-    id: row.id,
-    path: row.storage_files_catalog?.file_path || '',
-    title: row.storage_files_catalog?.file_name || 'Unknown Resource',
-    filename: row.storage_files_catalog?.file_name || '',
-    url: row.storage_files_catalog?.file_url || '',
-    mimeType: row.storage_files_catalog?.mime_type || '',
-    size: row.storage_files_catalog?.file_size || 0,
-    bookmarkedAt: row.created_at,
-  }));
+  return (data || []).map(mapAnnouncementRow);
 }
 
 // Fetch training progress for specific profile
 export async function getTrainingProgress(profileId: string): Promise<TrainingProgress[]> {
-  const { data, error } = await supabase
+  const { data, error } = await getDataProvider()
     .from('member_training_progress')
-    .select(`
-      *,
-      training_modules (
-        name
-      )
-    `)
+    .select('*')
     .eq('member_profile_id', profileId)
     .order('started_at', { ascending: false });
     
   if (error) throw error;
+
+  // Resolve module names from training_modules
+  const moduleIds = Array.from(new Set((data || []).map(row => row.training_module_id)));
+  const namesById = new Map<string, string>();
+  if (moduleIds.length > 0) {
+    const { data: modules, error: modulesError } = await getDataProvider()
+      .from('training_modules')
+      .select('id, name')
+      .in('id', moduleIds);
+
+    if (modulesError) throw modulesError;
+    for (const m of modules || []) namesById.set(String(m.id), m.name);
+  }
   
-  return (data || []).map(row => ({
-    id: row.id,
-    trainingModuleId: row.training_module_id,
-    moduleName: row.training_modules?.name || 'Unknown Module',
-    startTime: row.started_at,
-    completedTime: row.completed_at,
-    completionPercentage: row.completion_percentage || 0,
-    completionStatus: row.is_completed ? 'completed' : (row.started_at ? 'in_progress' : 'not_started'),
-  }));
+  return (data || []).map(row =>
+    mapTrainingProgressRow(row, namesById.get(String(row.training_module_id)) || 'Unknown Module')
+  );
 }
 
-// Track resource access for specific profile
-export async function trackResourceAccess(
+// Track resource access for specific profile (queued on the analytics event bus)
+export function trackResourceAccess(
   profileId: string,
   resource: { 
     name: string; 
     path: string; 
-    url?: string; 
     programSlug?: string;
     mimeType?: string;
-  }
-) {
-  const { error } = await supabase
-    .from('recent_activity')
-    .insert({
-      profile_id: profileId,
-      resource_name: resource.name,
-      resource_type: resource.mimeType || 'file',
-      accessed_at: new Date().toISOString()
-    });
-    
-  if (error) {
-    console.error('Failed to track resource access:', error);
-    throw error;
-  }
-}
-
-// Add bookmark for specific profile
-export async function addBookmark(
-  profileId: string,
-  resource: {
-    path: string;
-    name: string;
-    url?: string;
-    mimeType?: string;
-    fileSize?: number;
-  }
-) {
-  // First find the resource_id from storage_files_catalog
-  const { data: fileData, error: fileError } = await supabase
-    .from('storage_files_catalog')
-    .select('id')
-    .eq('file_path', resource.path)
-    .single();
-  
-  if (fileError) throw fileError;
-  
-  const { error } = await supabase
-    .from('bookmarks')
-    .insert({
-      profile_id: profileId,
-      resource_type: 'file',
-      resource_id: fileData.id,
-    });
-    
-  if (error) throw error;
-}
-
-// Remove bookmark for specific profile
-export async function removeBookmark(profileId: string, resourcePath: string) {
-  // First find the resource_id from storage_files_catalog
-  const { data: fileData, error: fileError } = await supabase
-    .from('storage_files_catalog')
-    .select('id')
-    .eq('file_path', resourcePath)
-    .single();
-  
-  if (fileError) throw fileError;
-  
-  const { error } = await supabase
-    .from('bookmarks')
-    .delete()
-    .eq('profile_id', profileId)
-    .eq('resource_id', fileData.id);
-    
-  if (error) throw error;
-}
-
-// Check if resource is bookmarked by profile
-export async function isBookmarked(profileId: string, resourcePath: string): Promise<boolean> {
-  // First find the resource_id from storage_files_catalog
-  const { data: fileData, error: fileError } = await supabase
-    .from('storage_files_catalog')
-    .select('id')
-    .eq('file_path', resourcePath)
-    .single();
-  
-  if (fileError) return false; // File not found in catalog
-  
-  const { data, error } = await supabase
-    .from('bookmarks')
-    .select('id')
-    .eq('profile_id', profileId)
-    .eq('resource_id', fileData.id)
-    .limit(1);
-    
-  if (error) throw error;
-  return (data || []).length > 0;
+  },
+  action: ActivityAction = 'view'
+): void {
+  const type = action === 'download' ? 'resource_downloaded' : action === 'play' ? 'video_played' : 'resource_viewed';
+  trackEvent(profileId, type, resource);
 }
 
 // Training progress tracking functions
@@ -255,7 +199,7 @@ export async function startTrainingModule(
   trainingModuleId: string,
   moduleName: string
 ): Promise<void> {
-  const { error } = await supabase
+  const { error } = await getDataProvider()
     .from('member_training_progress')
     .upsert({
       member_profile_id: profileId,
@@ -263,7 +207,8 @@ export async function startTrainingModule(
       started_at: new Date().toISOString(),
       is_completed: false,
       completion_percentage: 0,
-      attempts: 1,
+      // Quiz attempts (submit_training_quiz counts them)
+      attempts: 0,
     }, {
       onConflict: 'member_profile_id,training_module_id'
     });
@@ -287,7 +232,7 @@ export async function updateTrainingProgress(
     updateData.completed_at = new Date().toISOString();
   }
 
-  const { error } = await supabase
+  const { error } = await getDataProvider()
     .from('member_training_progress')
     .update(updateData)
     .eq('member_profile_id', profileId)
@@ -309,7 +254,7 @@ export async function getModuleProgress(
   profileId: string,
   trainingModuleId: string
 ): Promise<TrainingProgress | null> {
-  const { data, error } = await supabase
+  const { data, error } = await getDataProvider()
     .from('member_training_progress')
     .select('*')
     .eq('member_profile_id', profileId)
@@ -321,33 +266,6 @@ export async function getModuleProgress(
     throw error;
   }
   
-  return {
-    id: data.id,
-    trainingModuleId: data.training_module_id,
-    moduleName: 'Unknown Module', // Not stored in progress table
-    startTime: data.started_at,
-    completedTime: data.completed_at,
-    completionPercentage: data.completion_percentage || 0,
-    completionStatus: data.is_completed ? 'completed' : (data.started_at ? 'in_progress' : 'not_started'),
-  };
+  // Module name is not stored in the progress table
+  return mapTrainingProgressRow(data);
 }
-
-// Helper to build public URLs (reuse from existing storage service)
-function buildPublicUrl(path: string): string {
-  const base = process.env.VITE_SUPABASE_URL;
-  if (!base) return '';
-  const cleanPath = path.replace(/^\/+/, '');
-  return `${base}/storage/v1/object/public/clinicalrxqfiles/${encodeURI(cleanPath)}`;
-}
-
-// Helper to map program slugs to icons
-function getIconForProgram(slug: string): string {
-  const iconMap: Record<string, string> = {
-    'mtmthefuturetoday': 'ClipboardCheck',
-    'timemymeds': 'CalendarCheck',
-    'testandtreat': 'Stethoscope',
-    'hba1c': 'Activity',
-    'oralcontraceptives': 'FileText'
-  };
-  return iconMap[slug] || 'FileText';
-}
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * Program defaults
+ * - Purpose: Built-in copy of the programs table used when the table is unavailable (and to seed demo data).
+ * - Keep in sync with programs_schema.sql seed rows; the database is the source of truth.
+ */
+
+import type { ClinicalProgram } from '../types';
+
+/** Share of a training video to watch for completion, unless the program sets its own */
+export const DEFAULT_COMPLETION_THRESHOLD = 0.9;
+
+export const DEFAULT_PROGRAMS: ClinicalProgram[] = [
+  {
+    slug: 'timemymeds',
+    name: 'TimeMyMeds',
+    shortName: 'TimeMyMeds',
+    description: 'Appointment-based synchronization to enable consistent clinical service delivery.',
+    tagline: 'Create predictable appointment schedules that enable clinical service delivery',
+    icon: 'CalendarCheck',
+    level: null,
+    features: ['Comprehensive Reviews', 'Billing Expertise', 'Patient Outcomes'],
+    sortOrder: 10,
+    published: true,
+    completionThreshold: DEFAULT_COMPLETION_THRESHOLD,
+    ceHours: null,
+    ceUan: null,
+    ceTechnicianUan: null,
+  },
+  {
+    slug: 'mtmthefuturetoday',
+    name: 'MTM The Future Today',
+    shortName: 'MTM The Future Today',
+    description: 'Team-based Medication Therapy Management program with proven protocols and scalable results.',
+    tagline: 'Team-based Medication Therapy Management with proven protocols and technician workflows',
+    icon: 'ClipboardCheck',
+    level: null,
+    features: ['Comprehensive Reviews', 'Billing Expertise', 'Patient Outcomes'],
+    sortOrder: 20,
+    published: true,
+    completionThreshold: DEFAULT_COMPLETION_THRESHOLD,
+    ceHours: null,
+    ceUan: null,
+    ceTechnicianUan: null,
+  },
+  {
+    slug: 'testandtreat',
+    name: 'Test & Treat Services',
+    shortName: 'Test and Treat: Strep, Flu, COVID',
+    description: 'Patient assessments, CLIA-waived testing, and treatment guidance for flu, strep, and COVID-19.',
+    tagline: 'Point-of-care testing and treatment for Flu, Strep, and COVID-19',
+    icon: 'Stethoscope',
+    level: null,
+    features: ['CLIA-Waived Testing', 'State Protocols', 'Medical Billing'],
+    sortOrder: 30,
+    published: true,
+    completionThreshold: 0.95,
+    ceHours: null,
+    ceUan: null,
+    ceTechnicianUan: null,
+  },
+  {
+    slug: 'hba1c',
+    name: 'HbA1c Testing',
+    shortName: 'HbA1c Testing',
+    description: 'Training and resources for A1c point-of-care testing and quality metrics.',
+    tagline: 'Diabetes management with point-of-care A1c testing and clinical integration',
+    icon: 'Activity',
+    level: null,
+    features: ['Quality Metrics', 'Provider Communication', 'Value-Based Care'],
+    sortOrder: 40,
+    published: true,
+    completionThreshold: DEFAULT_COMPLETION_THRESHOLD,
+    ceHours: null,
+    ceUan: null,
+    ceTechnicianUan: null,
+  },
+  {
+    slug: 'oralcontraceptives',
+    name: 'Pharmacist-Initiated Oral Contraceptives',
+    shortName: 'Oral Contraceptives',
+    description: 'From patient intake to billing and documentation—simplified, step-by-step service workflows.',
+    tagline: 'From patient intake to medical billing, our protocols are here for your team and patients',
+    icon: 'TestTubes',
+    level: null,
+    features: ['Practice-Based Clinical Skills', 'Pharmacy Tech Training', 'Prescribing with Confidence'],
+    sortOrder: 50,
+    published: true,
+    completionThreshold: 0.95,
+    ceHours: null,
+    ceUan: null,
+    ceTechnicianUan: null,
+  },
+];
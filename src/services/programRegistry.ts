@@ -0,0 +1,73 @@
+/**
+ * Program registry
+ * - Purpose: Single source for the list of clinical programs (slug, names, copy, icon, ordering).
+ * - Primary source: "programs" table via the DataProvider (published rows, ordered by sort_order).
+ * - Fallback: DEFAULT_PROGRAMS when the table is missing, unreadable, or empty.
+ * - Adding a program is a data change: insert a row and upload its folder to the bucket.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { DEFAULT_PROGRAMS } from './programDefaults';
+import { mapProgramRow } from './rowMappers';
+import type { ClinicalProgram } from '../types';
+
+/** Cached load (shared by every caller until refreshPrograms) */
+let programsPromise: Promise<ClinicalProgram[]> | null = null;
+
+/**
+ * Load published programs from the database, falling back to the built-in list.
+ */
+async function loadPrograms(): Promise<ClinicalProgram[]> {
+  try {
+    const { data, error } = await getDataProvider()
+      .from('programs')
+      .select('*')
+      .eq('published', true)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+    if (error) throw error;
+    if (data.length > 0) return data.map(mapProgramRow);
+  } catch (e) {
+    console.warn('programs table unavailable; using built-in program list:', e);
+  }
+  return getDefaultPrograms();
+}
+
+/**
+ * Built-in program list (synchronous; for first paint before the registry loads).
+ */
+export function getDefaultPrograms(): ClinicalProgram[] {
+  return DEFAULT_PROGRAMS.filter((p) => p.published).sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+/**
+ * List published programs in display order (cached after first load).
+ */
+export async function getPrograms(): Promise<ClinicalProgram[]> {
+  if (!programsPromise) programsPromise = loadPrograms();
+  return programsPromise;
+}
+
+/**
+ * Find a published program by slug (null when unknown).
+ */
+export async function getProgram(slug: string): Promise<ClinicalProgram | null> {
+  const programs = await getPrograms();
+  return programs.find((p) => p.slug === slug) ?? null;
+}
+
+/**
+ * Drop the cached list and load it again (e.g. after editing the programs table).
+ */
+export async function refreshPrograms(): Promise<ClinicalProgram[]> {
+  programsPromise = null;
+  return getPrograms();
+}
+
+/**
+ * Resolve the program a storage path belongs to (first path segment), if any.
+ */
+export function findProgramForPath(programs: ClinicalProgram[], path: string): ClinicalProgram | null {
+  const top = (path.replace(/^\/+/, '').split('/')[0] || '').toLowerCase();
+  return programs.find((p) => p.slug.toLowerCase() === top) ?? null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Program stats
+ * - Purpose: Real per-program aggregates for program cards (Dashboard, MemberContent).
+ * - Source: the catalog snapshot (cached in IndexedDB by catalogCache). Never crawls storage: when the
+ *   catalog is unreachable the stats reject and the cards show them as unavailable.
+ * - Stats: file counts per category, video count, total training duration, most recent last_modified.
+ * - Memoized until the catalog cache reports a change.
+ */
+
+import { getCatalogSnapshot, type CategoryCounts, type GroupedProgramResources, type ProgramCategory } from './storageCatalog';
+import { subscribeCatalogCache } from './catalogCache';
+import type { StorageFileItem } from './supabaseStorage';
+import { isVideo } from '../lib/fileKinds';
+
+/**
+ * Aggregates for one program.
+ */
+export interface ProgramStats {
+  slug: string;
+  /** Files per category folder plus total */
+  counts: CategoryCounts<ProgramCategory>;
+  videoCount: number;
+  /** Sum of durations encoded in training video names ("Intro [12:34].mp4"); 0 when unknown */
+  trainingDurationSeconds: number;
+  /** Most recent last_modified/updated_at across the program's files (ISO), null when unknown */
+  lastModified: string | null;
+}
+
+let statsPromise: Promise<Record<string, ProgramStats>> | null = null;
+
+// Recompute after background catalog refreshes or invalidations
+subscribeCatalogCache(() => {
+  statsPromise = null;
+});
+
+/**
+ * Parse a [mm:ss] / (mm:ss) / [h:mm:ss] duration from a file name into seconds.
+ */
+function parseDurationSeconds(name: string): number {
+  const m = name.match(/[[(](?:(\d+):)?([0-5]?\d):([0-5]\d)[\])]/);
+  if (!m) return 0;
+  return Number(m[1] || 0) * 3600 + Number(m[2]) * 60 + Number(m[3]);
+}
+
+/**
+ * Compute stats for one grouped program.
+ */
+function computeStats(slug: string, grouped: GroupedProgramResources): ProgramStats {
+  const all: StorageFileItem[] = [...grouped.forms, ...grouped.protocols, ...grouped.resources, ...grouped.training];
+  let lastModified: string | null = null;
+  for (const f of all) {
+    if (f.lastModified && (!lastModified || f.lastModified > lastModified)) lastModified = f.lastModified;
+  }
+  return {
+    slug,
+    counts: grouped.counts,
+    videoCount: all.filter((f) => isVideo(f)).length,
+    trainingDurationSeconds: grouped.training
+      .filter((f) => isVideo(f))
+      .reduce((sum, f) => sum + parseDurationSeconds(f.filename), 0),
+    lastModified,
+  };
+}
+
+/**
+ * Stats for every registered program, keyed by slug.
+ */
+export async function getProgramStats(): Promise<Record<string, ProgramStats>> {
+  if (!statsPromise) {
+    statsPromise = getCatalogSnapshot({ crawl: false })
+      .then((snapshot) => {
+        const out: Record<string, ProgramStats> = {};
+        for (const [slug, grouped] of Object.entries(snapshot.programs)) {
+          out[slug] = computeStats(slug, grouped);
+        }
+        return out;
+      })
+      .catch((e) => {
+        statsPromise = null;
+        throw e;
+      });
+  }
+  return statsPromise;
+}
+
+/**
+ * Format a duration in seconds as "1 h 05 min" / "26 min" (empty string for 0).
+ */
+export function formatTrainingDuration(seconds: number): string {
+  if (!seconds) return '';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${Math.max(1, minutes)} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
+
+/** "1 form" / "3 forms" */
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Compact one-line summary for cards, e.g. "3 videos · 26 min · 4 forms · 1 protocol".
+ */
+export function summarizeProgramStats(stats: ProgramStats): string {
+  const parts: string[] = [];
+  if (stats.videoCount) parts.push(plural(stats.videoCount, 'video'));
+  const duration = formatTrainingDuration(stats.trainingDurationSeconds);
+  if (duration) parts.push(duration);
+  if (stats.counts.forms) parts.push(plural(stats.counts.forms, 'form'));
+  if (stats.counts.protocols) parts.push(plural(stats.counts.protocols, 'protocol'));
+  if (stats.counts.resources) parts.push(plural(stats.counts.resources, 'resource'));
+  return parts.join(' · ');
+}
@@ -0,0 +1,201 @@
+/**
+ * Query builder shared by every DataProvider
+ * - Records a supabase-js style chain (from().select().eq().order()...) into a QuerySpec.
+ * - The owning provider executes the spec when the builder is awaited.
+ */
+
+/** Untyped table row (snake_case columns as stored) */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Row = Record<string, any>;
+
+/** Error surfaced by any provider (mirrors PostgrestError fields) */
+export class DataProviderError extends Error {
+  /** PostgREST-style error code, e.g. 'PGRST116' for "no rows" on single() */
+  code?: string;
+  details?: string;
+
+  constructor(message: string, code?: string, details?: string) {
+    super(message);
+    this.name = 'DataProviderError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Result of a table query: data on success, error otherwise (like supabase-js) */
+export type QueryResult<T> =
+  | { data: T; error: null; count?: number | null }
+  | { data: null; error: DataProviderError; count?: number | null };
+
+/** Supported filter operators (subset of PostgREST) */
+export type FilterOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'like' | 'ilike' | 'is';
+
+/** Single column filter */
+export interface QueryFilter {
+  column: string;
+  op: FilterOp;
+  value: unknown;
+}
+
+/** Declarative description of a table query, executed by a provider */
+export interface QuerySpec {
+  table: string;
+  action: 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+  /** Column list for select / returning (PostgREST syntax) */
+  columns: string;
+  /** Whether mutations should return the affected rows */
+  returning: boolean;
+  filters: QueryFilter[];
+  /** OR groups: a row matches a group if any of its filters match (groups are ANDed with filters) */
+  orGroups: QueryFilter[][];
+  /** nullsFirst unset = Postgres default (nulls last ascending, first descending) */
+  order: Array<{ column: string; ascending: boolean; nullsFirst?: boolean }>;
+  limit?: number;
+  offset?: number;
+  /** Request a single row: 'single' errors unless exactly one, 'maybe' allows zero */
+  single?: 'single' | 'maybe';
+  /** Count mode for selects; head skips returning rows */
+  count?: 'exact';
+  head?: boolean;
+  /** Insert/update/upsert payload */
+  values?: Row | Row[];
+  /** Comma-separated conflict target for upsert */
+  onConflict?: string;
+  /** Upsert leaves conflicting rows untouched (ON CONFLICT DO NOTHING) */
+  ignoreDuplicates?: boolean;
+}
+
+/** Executes a query spec against a backend */
+export type QueryExecutor = (spec: QuerySpec) => Promise<QueryResult<unknown>>;
+
+/**
+ * Chainable, thenable query builder shared by every provider.
+ * - Records the query into a QuerySpec; the provider's executor runs it when awaited.
+ */
+export class QueryBuilder<T = Row> implements PromiseLike<QueryResult<T[]>> {
+  private spec: QuerySpec;
+  private execute: QueryExecutor;
+
+  constructor(table: string, execute: QueryExecutor) {
+    this.execute = execute;
+    this.spec = { table, action: 'select', columns: '*', returning: false, filters: [], orGroups: [], order: [] };
+  }
+
+  /** Select columns, or request returned rows after a mutation */
+  select(columns = '*', opts?: { count?: 'exact'; head?: boolean }): this {
+    this.spec.columns = columns;
+    if (this.spec.action === 'select') {
+      this.spec.count = opts?.count;
+      this.spec.head = opts?.head;
+    } else {
+      this.spec.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.spec.action = 'insert';
+    this.spec.values = values;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.spec.action = 'update';
+    this.spec.values = values;
+    return this;
+  }
+
+  upsert(values: Row | Row[], opts?: { onConflict?: string; ignoreDuplicates?: boolean }): this {
+    this.spec.action = 'upsert';
+    this.spec.values = values;
+    this.spec.onConflict = opts?.onConflict;
+    this.spec.ignoreDuplicates = opts?.ignoreDuplicates;
+    return this;
+  }
+
+  delete(): this {
+    this.spec.action = 'delete';
+    return this;
+  }
+
+  private filter(column: string, op: FilterOp, value: unknown): this {
+    this.spec.filters.push({ column, op, value });
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.filter(column, 'eq', value);
+  }
+  neq(column: string, value: unknown): this {
+    return this.filter(column, 'neq', value);
+  }
+  gt(column: string, value: unknown): this {
+    return this.filter(column, 'gt', value);
+  }
+  gte(column: string, value: unknown): this {
+    return this.filter(column, 'gte', value);
+  }
+  lt(column: string, value: unknown): this {
+    return this.filter(column, 'lt', value);
+  }
+  lte(column: string, value: unknown): this {
+    return this.filter(column, 'lte', value);
+  }
+  in(column: string, values: readonly unknown[]): this {
+    return this.filter(column, 'in', values);
+  }
+  like(column: string, pattern: string): this {
+    return this.filter(column, 'like', pattern);
+  }
+  ilike(column: string, pattern: string): this {
+    return this.filter(column, 'ilike', pattern);
+  }
+  is(column: string, value: null | boolean): this {
+    return this.filter(column, 'is', value);
+  }
+
+  /**
+   * Match rows satisfying any of the given filters (PostgREST `or=(...)`).
+   * - Structured rather than a raw filter string so every provider can evaluate it.
+   */
+  or(filters: QueryFilter[]): this {
+    if (filters.length > 0) this.spec.orGroups.push(filters);
+    return this;
+  }
+
+  order(column: string, opts?: { ascending?: boolean; nullsFirst?: boolean }): this {
+    this.spec.order.push({ column, ascending: opts?.ascending ?? true, nullsFirst: opts?.nullsFirst });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.spec.limit = count;
+    return this;
+  }
+
+  /** Inclusive row range, like supabase-js range(from, to) */
+  range(from: number, to: number): this {
+    this.spec.offset = from;
+    this.spec.limit = to - from + 1;
+    return this;
+  }
+
+  /** Resolve to exactly one row (error code PGRST116 otherwise) */
+  single(): Promise<QueryResult<T>> {
+    this.spec.single = 'single';
+    return this.execute(this.spec) as Promise<QueryResult<T>>;
+  }
+
+  /** Resolve to one row or null */
+  maybeSingle(): Promise<QueryResult<T | null>> {
+    this.spec.single = 'maybe';
+    return this.execute(this.spec) as Promise<QueryResult<T | null>>;
+  }
+
+  then<R1 = QueryResult<T[]>, R2 = never>(
+    onfulfilled?: ((value: QueryResult<T[]>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): PromiseLike<R1 | R2> {
+    return (this.execute(this.spec) as Promise<QueryResult<T[]>>).then(onfulfilled, onrejected);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Quiz service
+ * - Purpose: Post-module knowledge checks (training_quiz_schema.sql): one quiz per training module
+ *   with a bank of multiple choice, multi-select and true/false questions, a pass mark and an
+ *   optional retake limit.
+ * - Answer keys never reach the client. The start_training_quiz RPC draws an attempt's questions on the
+ *   server (the same draw until it is submitted); submit_training_quiz scores the attempt against that
+ *   draw, counts it in member_training_progress.attempts and completes the module on a pass.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { mapQuizAttemptRow, mapQuizQuestionRow, mapQuizRow } from './rowMappers';
+import { trainingModuleIdFor } from './lessonProgressService';
+import type { TrainingQuizQuestionsRow } from '../types/database';
+
+export type QuizQuestionType = TrainingQuizQuestionsRow['question_type'];
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  /** Answer choices in display order */
+  options: string[];
+}
+
+/**
+ * A training module's quiz with its full question bank.
+ */
+export interface TrainingQuiz {
+  id: string;
+  trainingModuleId: string;
+  title: string;
+  description?: string;
+  /** Score (percent correct) needed to pass */
+  passPercentage: number;
+  /** Attempts allowed per profile; undefined = unlimited */
+  maxAttempts?: number;
+  /** Questions drawn from the bank per attempt; undefined = all */
+  questionsPerAttempt?: number;
+  questions: QuizQuestion[];
+}
+
+/**
+ * One scored attempt.
+ */
+export interface QuizAttempt {
+  id: string;
+  attemptNumber: number;
+  correctCount: number;
+  questionCount: number;
+  /** 0–100, rounded */
+  scorePercentage: number;
+  passed: boolean;
+  submittedAt: string;
+}
+
+/**
+ * Outcome of submitting an attempt.
+ */
+export interface QuizResult extends QuizAttempt {
+  /** Attempts left after this one; undefined = unlimited */
+  attemptsRemaining?: number;
+}
+
+/** Selected option indexes by question id */
+export type QuizAnswers = Record<string, number[]>;
+
+interface SubmitQuizRow {
+  attempt_id: string;
+  attempt_number: number;
+  correct_count: number;
+  question_count: number;
+  score_percentage: number;
+  passed: boolean;
+  attempts_remaining: number | null;
+  submitted_at: string;
+}
+
+/**
+ * The published quiz of a program's training module, or null when it has none.
+ */
+export async function getProgramQuiz(programSlug: string): Promise<TrainingQuiz | null> {
+  const { data, error } = await getDataProvider()
+    .from('training_quizzes')
+    .select('*')
+    .eq('training_module_id', trainingModuleIdFor(programSlug))
+    .eq('published', true)
+    .limit(1);
+  if (error) throw error;
+  const quiz = data?.[0];
+  if (!quiz) return null;
+
+  const { data: questions, error: questionsError } = await getDataProvider()
+    .from('training_quiz_questions')
+    .select('*')
+    .eq('quiz_id', quiz.id)
+    .order('sort_order', { ascending: true });
+  if (questionsError) throw questionsError;
+  return mapQuizRow(quiz, (questions || []).map(mapQuizQuestionRow));
+}
+
+/**
+ * A profile's attempts at a quiz, oldest first.
+ */
+export async function listQuizAttempts(profileId: string, quizId: string): Promise<QuizAttempt[]> {
+  const { data, error } = await getDataProvider()
+    .from('member_quiz_attempts')
+    .select('*')
+    .eq('member_profile_id', profileId)
+    .eq('quiz_id', quizId)
+    .order('attempt_number', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(mapQuizAttemptRow);
+}
+
+/**
+ * Attempts a profile has left (undefined = unlimited).
+ */
+export function attemptsRemaining(quiz: TrainingQuiz, attempts: QuizAttempt[]): number | undefined {
+  if (quiz.maxAttempts === undefined) return undefined;
+  return Math.max(0, quiz.maxAttempts - attempts.length);
+}
+
+/**
+ * Start (or resume) an attempt: the questions the server drew for it, in bank order (throws when the
+ * quiz is already passed or no attempts remain).
+ */
+export async function startQuizAttempt(profileId: string, quiz: TrainingQuiz): Promise<QuizQuestion[]> {
+  const { data, error } = await getDataProvider().rpc<{ question_id: string }[]>('start_training_quiz', {
+    p_profile_id: profileId,
+    p_quiz_id: quiz.id,
+  });
+  if (error) throw error;
+  const drawn = new Set((data || []).map((row) => String(row.question_id)));
+  return quiz.questions.filter((q) => drawn.has(q.id));
+}
+
+/**
+ * Whether a question has a complete answer (one choice, or at least one for multi-select).
+ */
+export function isQuestionAnswered(question: QuizQuestion, selected: number[] | undefined): boolean {
+  if (!selected || selected.length === 0) return false;
+  return question.type === 'multi_select' || selected.length === 1;
+}
+
+/**
+ * Submit an attempt for scoring (throws when the quiz is already passed or no attempts remain).
+ */
+export async function submitQuizAttempt(profileId: string, quizId: string, answers: QuizAnswers): Promise<QuizResult> {
+  const { data, error } = await getDataProvider().rpc<SubmitQuizRow[]>('submit_training_quiz', {
+    p_profile_id: profileId,
+    p_quiz_id: quizId,
+    p_answers: answers,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) throw new Error('Quiz attempt was not recorded');
+  return {
+    id: String(row.attempt_id),
+    attemptNumber: Number(row.attempt_number),
+    correctCount: Number(row.correct_count),
+    questionCount: Number(row.question_count),
+    scorePercentage: Number(row.score_percentage),
+    passed: !!row.passed,
+    submittedAt: String(row.submitted_at),
+    attemptsRemaining: row.attempts_remaining ?? undefined,
+  };
+}
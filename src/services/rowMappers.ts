@@ -0,0 +1,588 @@
+/**
+ * Row mappers
+ * - Purpose: One place that turns database rows (types/database) into domain objects.
+ * - Every row is validated with zod first; a row that does not match the expected columns throws a
+ *   RowSchemaError naming the table, row id and offending columns, instead of leaking undefined
+ *   fields into the UI.
+ * - Nullable columns map to undefined/defaults here, so components never see null.
+ */
+
+import { z } from 'zod';
+import type {
+  AccountsRow,
+  AnalyticsEventsRow,
+  AnnouncementsRow,
+  BookmarkCollectionItemsRow,
+  BookmarkCollectionsRow,
+  BookmarkKitItemsRow,
+  BookmarkKitsRow,
+  BookmarksRow,
+  MemberLessonProgressRow,
+  MemberQuizAttemptsRow,
+  MemberProfilesRow,
+  MemberTrainingProgressRow,
+  ProgramsRow,
+  StorageFilesCatalogRow,
+  TableName,
+  TableRow,
+  TrainingCertificatesRow,
+  TrainingModulesRow,
+  TrainingQuizQuestionsRow,
+  TrainingQuizzesRow,
+} from '../types/database';
+import type { Account, ClinicalProgram, MemberProfile } from '../types';
+import type { Announcement, TrainingProgress } from './profileDashboardService';
+import type { AnalyticsEvent } from './analyticsEvents';
+import type { Bookmark, BookmarkCollection } from './bookmarkService';
+import type { BookmarkKit, KitResource } from './bookmarkKitService';
+import type { TrainingCertificate } from './certificateService';
+import type { LessonProgress } from './lessonProgressService';
+import type { QuizAttempt, QuizQuestion, TrainingQuiz } from './quizService';
+import { buildPublicUrl, stripOneExtension, type StorageFileItem } from './supabaseStorage';
+import { DEFAULT_COMPLETION_THRESHOLD } from './programDefaults';
+
+/** Optional text column (absent or null) */
+const optText = z.string().nullish();
+/** Timestamp column (ISO string as returned by PostgREST) */
+const timestamp = z.string().min(1);
+
+const accountsRow = z.object({
+  id: z.string(),
+  email: z.string(),
+  pharmacy_name: z.string().nullable(),
+  pharmacy_phone: optText,
+  subscription_status: z.string().nullable(),
+  created_at: timestamp,
+  updated_at: optText,
+  address1: optText,
+  city: optText,
+  state: optText,
+  zipcode: optText,
+}) satisfies z.ZodType<AccountsRow>;
+
+const memberProfilesRow = z.object({
+  id: z.string(),
+  member_account_id: z.string(),
+  role_type: z.enum(['Pharmacist-PIC', 'Pharmacist-Staff', 'Pharmacy Technician']),
+  first_name: z.string(),
+  last_name: z.string(),
+  phone_number: optText,
+  profile_email: optText,
+  dob_month: optText,
+  dob_day: optText,
+  dob_year: optText,
+  license_number: optText,
+  nabp_eprofile_id: optText,
+  is_active: z.boolean().nullish(),
+  created_at: timestamp,
+  updated_at: optText,
+}) satisfies z.ZodType<MemberProfilesRow>;
+
+const bookmarksRow = z.object({
+  id: z.string(),
+  profile_id: z.string(),
+  resource_path: z.string().min(1),
+  resource_name: optText,
+  note: optText,
+  created_at: timestamp,
+}) satisfies z.ZodType<BookmarksRow>;
+
+const bookmarkCollectionsRow = z.object({
+  id: z.string(),
+  profile_id: z.string(),
+  name: z.string(),
+  sort_order: z.number().nullish(),
+  created_at: timestamp,
+}) satisfies z.ZodType<BookmarkCollectionsRow>;
+
+const bookmarkCollectionItemsRow = z.object({
+  id: z.string(),
+  collection_id: z.string(),
+  bookmark_id: z.string(),
+  sort_order: z.number().nullish(),
+  created_at: optText,
+}) satisfies z.ZodType<BookmarkCollectionItemsRow>;
+
+const bookmarkKitsRow = z.object({
+  id: z.string(),
+  member_account_id: z.string(),
+  created_by_profile_id: optText,
+  name: z.string(),
+  description: optText,
+  is_published: z.boolean().nullish(),
+  sort_order: z.number().nullish(),
+  created_at: timestamp,
+  updated_at: optText,
+}) satisfies z.ZodType<BookmarkKitsRow>;
+
+const bookmarkKitItemsRow = z.object({
+  id: z.string(),
+  kit_id: z.string(),
+  resource_path: z.string(),
+  resource_name: optText,
+  sort_order: z.number().nullish(),
+  created_at: optText,
+}) satisfies z.ZodType<BookmarkKitItemsRow>;
+
+const analyticsEventsRow = z.object({
+  id: z.string(),
+  client_event_id: z.string(),
+  profile_id: z.string(),
+  event_type: z.enum([
+    'resource_viewed',
+    'resource_downloaded',
+    'video_played',
+    'bookmark_added',
+    'search_performed',
+    'filter_changed',
+  ]),
+  resource_path: optText,
+  program_slug: optText,
+  properties: z.record(z.unknown()).nullish(),
+  occurred_at: timestamp,
+  created_at: optText,
+}) satisfies z.ZodType<AnalyticsEventsRow>;
+
+const memberTrainingProgressRow = z.object({
+  id: z.string(),
+  member_profile_id: z.string(),
+  training_module_id: z.string(),
+  started_at: optText,
+  completed_at: optText,
+  is_completed: z.boolean().nullish(),
+  completion_percentage: z.number().nullish(),
+  attempts: z.number().nullish(),
+}) satisfies z.ZodType<MemberTrainingProgressRow>;
+
+const memberLessonProgressRow = z.object({
+  id: z.string(),
+  member_profile_id: z.string(),
+  program_slug: z.string(),
+  lesson_path: z.string(),
+  watched_seconds: z.number().nullish(),
+  watched_ranges: z.array(z.tuple([z.number(), z.number()])).nullish(),
+  last_position_seconds: z.number().nullish(),
+  duration_seconds: z.number().nullish(),
+  is_completed: z.boolean().nullish(),
+  completed_at: optText,
+  updated_at: optText,
+  created_at: optText,
+}) satisfies z.ZodType<MemberLessonProgressRow>;
+
+const trainingModulesRow = z.object({
+  id: z.string(),
+  name: z.string(),
+}) satisfies z.ZodType<TrainingModulesRow>;
+
+const trainingQuizzesRow = z.object({
+  id: z.string(),
+  training_module_id: z.string(),
+  title: z.string(),
+  description: optText,
+  pass_percentage: z.number().nullish(),
+  max_attempts: z.number().nullish(),
+  questions_per_attempt: z.number().nullish(),
+  published: z.boolean().nullish(),
+  created_at: optText,
+  updated_at: optText,
+}) satisfies z.ZodType<TrainingQuizzesRow>;
+
+const trainingQuizQuestionsRow = z.object({
+  id: z.string(),
+  quiz_id: z.string(),
+  question_type: z.enum(['multiple_choice', 'multi_select', 'true_false']),
+  prompt: z.string(),
+  options: z.array(z.string()).min(2),
+  sort_order: z.number().nullish(),
+  created_at: optText,
+}) satisfies z.ZodType<TrainingQuizQuestionsRow>;
+
+const memberQuizAttemptsRow = z.object({
+  id: z.string(),
+  member_profile_id: z.string(),
+  quiz_id: z.string(),
+  training_module_id: z.string(),
+  attempt_number: z.number(),
+  correct_count: z.number(),
+  question_count: z.number(),
+  score_percentage: z.number(),
+  passed: z.boolean(),
+  answers: z.record(z.string(), z.array(z.number())).nullish(),
+  submitted_at: timestamp,
+}) satisfies z.ZodType<MemberQuizAttemptsRow>;
+
+const trainingCertificatesRow = z.object({
+  id: z.string(),
+  verification_code: z.string().min(1),
+  member_profile_id: optText,
+  training_module_id: z.string(),
+  program_slug: z.string(),
+  program_name: z.string(),
+  recipient_name: z.string(),
+  license_number: optText,
+  nabp_eprofile_id: optText,
+  pharmacy_name: optText,
+  completed_at: timestamp,
+  issued_at: timestamp,
+  revoked_at: optText,
+}) satisfies z.ZodType<TrainingCertificatesRow>;
+
+const announcementsRow = z.object({
+  id: z.union([z.number(), z.string()]),
+  title: z.string(),
+  body: z.string(),
+  created_at: timestamp,
+}) satisfies z.ZodType<AnnouncementsRow>;
+
+const storageFilesCatalogRow = z.object({
+  id: z.string(),
+  bucket_name: z.string(),
+  file_name: z.string(),
+  file_path: z.string(),
+  file_url: optText,
+  file_size: z.number().nullish(),
+  mime_type: optText,
+  last_modified: optText,
+  created_at: optText,
+  updated_at: optText,
+}) satisfies z.ZodType<StorageFilesCatalogRow>;
+
+const programsRow = z.object({
+  id: z.string().optional(),
+  slug: z.string().min(1),
+  name: z.string().min(1),
+  short_name: optText,
+  description: optText,
+  tagline: optText,
+  icon: optText,
+  level: optText,
+  features: z.array(z.string()).nullish(),
+  sort_order: z.number().nullish(),
+  published: z.boolean().nullish(),
+  completion_threshold: z.number().nullish(),
+  ce_hours: z.number().nullish(),
+  ce_uan: optText,
+  ce_technician_uan: optText,
+  created_at: optText,
+  updated_at: optText,
+}) satisfies z.ZodType<ProgramsRow>;
+
+/** Validator per typed table */
+const rowSchemas: { [K in TableName]: z.ZodType<TableRow<K>> } = {
+  accounts: accountsRow,
+  member_profiles: memberProfilesRow,
+  bookmarks: bookmarksRow,
+  bookmark_collections: bookmarkCollectionsRow,
+  bookmark_collection_items: bookmarkCollectionItemsRow,
+  bookmark_kits: bookmarkKitsRow,
+  bookmark_kit_items: bookmarkKitItemsRow,
+  analytics_events: analyticsEventsRow,
+  member_training_progress: memberTrainingProgressRow,
+  member_lesson_progress: memberLessonProgressRow,
+  training_modules: trainingModulesRow,
+  training_quizzes: trainingQuizzesRow,
+  training_quiz_questions: trainingQuizQuestionsRow,
+  member_quiz_attempts: memberQuizAttemptsRow,
+  training_certificates: trainingCertificatesRow,
+  announcements: announcementsRow,
+  storage_files_catalog: storageFilesCatalogRow,
+  programs: programsRow,
+};
+
+/**
+ * A row did not match the expected table schema (missing/renamed column, wrong type).
+ */
+export class RowSchemaError extends Error {
+  constructor(
+    public readonly table: TableName,
+    public readonly rowId: string | null,
+    public readonly issues: string[]
+  ) {
+    super(`Unexpected ${table} row${rowId ? ` ${rowId}` : ''}: ${issues.join('; ')}`);
+    this.name = 'RowSchemaError';
+  }
+}
+
+/**
+ * Validate one row against its table schema (throws RowSchemaError on drift).
+ */
+export function parseRow<K extends TableName>(table: K, raw: unknown): TableRow<K> {
+  const result = rowSchemas[table].safeParse(raw);
+  if (result.success) return result.data;
+  const id = raw && typeof raw === 'object' && 'id' in raw ? String((raw as { id: unknown }).id) : null;
+  const issues = result.error.issues.map((i) => `${i.path.join('.') || '(row)'}: ${i.message}`);
+  throw new RowSchemaError(table, id, issues);
+}
+
+/**
+ * Validate a list of rows (throws on the first invalid row).
+ */
+export function parseRows<K extends TableName>(table: K, raw: unknown[] | null | undefined): TableRow<K>[] {
+  return (raw || []).map((r) => parseRow(table, r));
+}
+
+/** null → undefined for optional domain fields */
+function opt<T>(value: T | null | undefined): T | undefined {
+  return value ?? undefined;
+}
+
+/**
+ * accounts row → Account
+ */
+export function mapAccountRow(raw: unknown): Account {
+  const row = parseRow('accounts', raw);
+  return {
+    id: row.id,
+    email: row.email,
+    pharmacyName: row.pharmacy_name ?? '',
+    pharmacyPhone: row.pharmacy_phone ?? null,
+    subscriptionStatus: row.subscription_status === 'active' ? 'active' : 'inactive',
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? null,
+    address1: row.address1 ?? null,
+    city: row.city ?? null,
+    state: row.state ?? null,
+    zipcode: row.zipcode ?? null,
+  };
+}
+
+/**
+ * member_profiles row → MemberProfile
+ */
+export function mapProfileRow(raw: unknown): MemberProfile {
+  const row = parseRow('member_profiles', raw);
+  return {
+    id: row.id,
+    accountId: row.member_account_id,
+    roleType: row.role_type,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    phoneNumber: opt(row.phone_number),
+    profileEmail: opt(row.profile_email),
+    dobMonth: opt(row.dob_month),
+    dobDay: opt(row.dob_day),
+    dobYear: opt(row.dob_year),
+    licenseNumber: opt(row.license_number),
+    nabpEprofileId: opt(row.nabp_eprofile_id),
+    isActive: opt(row.is_active),
+    createdAt: row.created_at,
+    updatedAt: opt(row.updated_at),
+  };
+}
+
+/**
+ * storage_files_catalog row → StorageFileItem
+ * - Title is filename without only the last extension.
+ * - URL uses file_url if present; otherwise constructs from bucket + path.
+ */
+export function mapCatalogRow(raw: unknown): StorageFileItem {
+  const row = parseRow('storage_files_catalog', raw);
+  const filename = row.file_name;
+  const path = row.file_path.replace(/^\/+/, ''); // normalize
+  const url = row.file_url && row.file_url.trim().length > 0 ? row.file_url : buildPublicUrl(path);
+  return {
+    path,
+    url,
+    filename,
+    title: stripOneExtension(filename),
+    mimeType: row.mime_type || undefined,
+    size: typeof row.file_size === 'number' ? row.file_size : undefined,
+    lastModified: row.last_modified || row.updated_at || undefined,
+  };
+}
+
+/**
+ * bookmarks row → Bookmark
+ */
+export function mapBookmarkRow(raw: unknown): Bookmark {
+  const row = parseRow('bookmarks', raw);
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    path: row.resource_path.replace(/^\/+/, ''),
+    name: opt(row.resource_name),
+    note: opt(row.note),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * bookmark_collections row → BookmarkCollection (item ids filled in by the caller)
+ */
+export function mapCollectionRow(raw: unknown, bookmarkIds: string[] = []): BookmarkCollection {
+  const row = parseRow('bookmark_collections', raw);
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    name: row.name,
+    sortOrder: row.sort_order ?? 0,
+    createdAt: row.created_at,
+    bookmarkIds,
+  };
+}
+
+/**
+ * bookmark_kits row → BookmarkKit (files filled in by the caller)
+ */
+export function mapKitRow(raw: unknown, resources: KitResource[] = []): BookmarkKit {
+  const row = parseRow('bookmark_kits', raw);
+  return {
+    id: row.id,
+    accountId: row.member_account_id,
+    createdByProfileId: opt(row.created_by_profile_id),
+    name: row.name,
+    description: opt(row.description),
+    isPublished: row.is_published ?? false,
+    sortOrder: row.sort_order ?? 0,
+    createdAt: row.created_at,
+    resources,
+  };
+}
+
+/**
+ * analytics_events row → AnalyticsEvent
+ */
+export function mapEventRow(raw: unknown): AnalyticsEvent {
+  const row = parseRow('analytics_events', raw);
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    type: row.event_type,
+    resourcePath: opt(row.resource_path),
+    programSlug: opt(row.program_slug),
+    properties: row.properties ?? {},
+    occurredAt: row.occurred_at,
+  };
+}
+
+/**
+ * member_training_progress row → TrainingProgress (module name resolved by the caller)
+ */
+export function mapTrainingProgressRow(raw: unknown, moduleName = 'Unknown Module'): TrainingProgress {
+  const row = parseRow('member_training_progress', raw);
+  return {
+    id: row.id,
+    trainingModuleId: row.training_module_id,
+    moduleName,
+    startTime: opt(row.started_at),
+    completedTime: opt(row.completed_at),
+    completionPercentage: row.completion_percentage || 0,
+    completionStatus: row.is_completed ? 'completed' : row.started_at ? 'in_progress' : 'not_started',
+  };
+}
+
+/**
+ * member_lesson_progress row → LessonProgress
+ */
+export function mapLessonProgressRow(raw: unknown): LessonProgress {
+  const row = parseRow('member_lesson_progress', raw);
+  return {
+    lessonPath: row.lesson_path,
+    programSlug: row.program_slug,
+    watchedSeconds: row.watched_seconds ?? 0,
+    watchedRanges: row.watched_ranges ?? [],
+    positionSeconds: row.last_position_seconds ?? 0,
+    durationSeconds: opt(row.duration_seconds),
+    completed: !!row.is_completed,
+    completedAt: opt(row.completed_at),
+    updatedAt: opt(row.updated_at),
+  };
+}
+
+/**
+ * training_quizzes row (+ its mapped questions) → TrainingQuiz
+ */
+export function mapQuizRow(raw: unknown, questions: QuizQuestion[]): TrainingQuiz {
+  const row = parseRow('training_quizzes', raw);
+  return {
+    id: row.id,
+    trainingModuleId: row.training_module_id,
+    title: row.title,
+    description: opt(row.description),
+    passPercentage: row.pass_percentage ?? 80,
+    maxAttempts: opt(row.max_attempts),
+    questionsPerAttempt: opt(row.questions_per_attempt),
+    questions,
+  };
+}
+
+/**
+ * training_quiz_questions row → QuizQuestion
+ */
+export function mapQuizQuestionRow(raw: unknown): QuizQuestion {
+  const row = parseRow('training_quiz_questions', raw);
+  return { id: row.id, type: row.question_type, prompt: row.prompt, options: row.options };
+}
+
+/**
+ * member_quiz_attempts row → QuizAttempt
+ */
+export function mapQuizAttemptRow(raw: unknown): QuizAttempt {
+  const row = parseRow('member_quiz_attempts', raw);
+  return {
+    id: row.id,
+    attemptNumber: row.attempt_number,
+    correctCount: row.correct_count,
+    questionCount: row.question_count,
+    scorePercentage: row.score_percentage,
+    passed: row.passed,
+    submittedAt: row.submitted_at,
+  };
+}
+
+/**
+ * training_certificates row → TrainingCertificate
+ */
+export function mapCertificateRow(raw: unknown): TrainingCertificate {
+  const row = parseRow('training_certificates', raw);
+  return {
+    id: row.id,
+    verificationCode: row.verification_code,
+    programSlug: row.program_slug,
+    programName: row.program_name,
+    recipientName: row.recipient_name,
+    licenseNumber: opt(row.license_number),
+    nabpEprofileId: opt(row.nabp_eprofile_id),
+    pharmacyName: opt(row.pharmacy_name),
+    completedAt: row.completed_at,
+    issuedAt: row.issued_at,
+    revoked: !!row.revoked_at,
+  };
+}
+
+/**
+ * announcements row → Announcement
+ */
+export function mapAnnouncementRow(raw: unknown): Announcement {
+  const row = parseRow('announcements', raw);
+  return {
+    id: String(row.id),
+    title: row.title,
+    body: row.body,
+    dateISO: row.created_at,
+  };
+}
+
+/**
+ * programs row → ClinicalProgram
+ */
+export function mapProgramRow(raw: unknown): ClinicalProgram {
+  const row = parseRow('programs', raw);
+  const description = row.description || 'Open to view training modules and resources.';
+  return {
+    slug: row.slug,
+    name: row.name,
+    shortName: row.short_name || row.name,
+    description,
+    tagline: row.tagline || description,
+    icon: row.icon || 'FileText',
+    level: row.level ?? null,
+    features: row.features ?? [],
+    sortOrder: row.sort_order ?? 0,
+    published: row.published !== false,
+    completionThreshold: row.completion_threshold ?? DEFAULT_COMPLETION_THRESHOLD,
+    ceHours: row.ce_hours ?? null,
+    ceUan: row.ce_uan || null,
+    ceTechnicianUan: row.ce_technician_uan || null,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Signed URL service
+ * - Purpose: Resolve bucket paths to URLs that work when clinicalrxqfiles is private.
+ * - Signed-in accounts get short-lived signed URLs from the Storage API; without a session the
+ *   public URL is returned (works only while the bucket is public).
+ * - Batching: paths requested in the same tick are signed in one createSignedUrls call (chunked).
+ * - Caching: a signed URL is reused until it is within REFRESH_MARGIN_MS of expiring.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { buildPublicUrl, SUPABASE_BUCKET } from './supabaseStorage';
+
+/** Lifetime requested for each signed URL */
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+/** Re-sign this long before expiry so links handed out are never about to die */
+export const REFRESH_MARGIN_MS = 5 * 60_000;
+/** Max paths per signing request */
+const SIGN_BATCH_SIZE = 100;
+/** How long to collect requests before signing */
+const BATCH_WINDOW_MS = 10;
+
+/**
+ * A resolved file URL.
+ */
+export interface ResolvedFileUrl {
+  path: string;
+  url: string;
+  /** Epoch ms when the URL stops working; null for public URLs */
+  expiresAt: number | null;
+}
+
+/**
+ * Raised when a path cannot be signed (missing object, no access).
+ */
+export class SignedUrlError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string
+  ) {
+    super(message);
+    this.name = 'SignedUrlError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (value: ResolvedFileUrl) => void;
+  reject: (reason: unknown) => void;
+}
+
+const cache = new Map<string, ResolvedFileUrl>();
+const pending = new Map<string, PendingRequest[]>();
+let flushTimer: number | null = null;
+
+/** Strip leading slashes so cache keys match storage object names */
+function normalizePath(path: string): string {
+  return path.replace(/^\/+/, '');
+}
+
+/**
+ * True when a resolved URL is expired or close enough to expiry to re-sign.
+ */
+export function needsRefresh(resolved: ResolvedFileUrl, now: number = Date.now()): boolean {
+  return resolved.expiresAt != null && resolved.expiresAt - now <= REFRESH_MARGIN_MS;
+}
+
+/**
+ * Sign everything queued so far.
+ */
+async function flush(): Promise<void> {
+  flushTimer = null;
+  const batch = new Map(pending);
+  pending.clear();
+  const paths = Array.from(batch.keys());
+
+  const settle = (path: string, result: ResolvedFileUrl | null, error?: unknown) => {
+    for (const req of batch.get(path) || []) {
+      if (result) req.resolve(result);
+      else req.reject(error);
+    }
+  };
+
+  let session = null;
+  try {
+    session = await getDataProvider().auth.getSession();
+  } catch {
+    session = null;
+  }
+
+  if (!session) {
+    for (const path of paths) settle(path, { path, url: buildPublicUrl(path), expiresAt: null });
+    return;
+  }
+
+  for (let i = 0; i < paths.length; i += SIGN_BATCH_SIZE) {
+    const chunk = paths.slice(i, i + SIGN_BATCH_SIZE);
+    try {
+      const expiresAt = Date.now() + SIGNED_URL_TTL_SECONDS * 1000;
+      const signed = await getDataProvider().storage.createSignedUrls(SUPABASE_BUCKET, chunk, SIGNED_URL_TTL_SECONDS);
+      signed.forEach((entry, idx) => {
+        const path = chunk[idx];
+        if (entry.signedUrl) {
+          const resolved = { path, url: entry.signedUrl, expiresAt };
+          cache.set(path, resolved);
+          settle(path, resolved);
+        } else {
+          settle(path, null, new SignedUrlError(entry.error || 'Could not sign file URL', path));
+        }
+      });
+    } catch (e) {
+      for (const path of chunk) settle(path, null, e);
+    }
+  }
+}
+
+/**
+ * Resolve one bucket path to a usable URL (cached signed URL, fresh signed URL, or public URL).
+ */
+export function resolveFileUrl(path: string): Promise<ResolvedFileUrl> {
+  const clean = normalizePath(path);
+  const cached = cache.get(clean);
+  if (cached && !needsRefresh(cached)) return Promise.resolve(cached);
+
+  return new Promise<ResolvedFileUrl>((resolve, reject) => {
+    const waiting = pending.get(clean);
+    if (waiting) waiting.push({ resolve, reject });
+    else pending.set(clean, [{ resolve, reject }]);
+    if (!flushTimer) flushTimer = window.setTimeout(() => void flush(), BATCH_WINDOW_MS);
+  });
+}
+
+/**
+ * Resolve several paths at once (signed together); unsignable paths are left out of the result.
+ */
+export async function resolveFileUrls(paths: string[]): Promise<Record<string, ResolvedFileUrl>> {
+  const results = await Promise.allSettled(paths.map((p) => resolveFileUrl(p)));
+  const out: Record<string, ResolvedFileUrl> = {};
+  results.forEach((r, i) => {
+    if (r.status === 'fulfilled') out[paths[i]] = r.value;
+  });
+  return out;
+}
+
+/**
+ * Forget a cached URL (e.g., after a media error) so the next resolve signs again.
+ * - Without a path, clears everything (sign-out).
+ */
+export function invalidateFileUrl(path?: string): void {
+  if (path == null) cache.clear();
+  else cache.delete(normalizePath(path));
+}
@@ -1,183 +1,316 @@
 /**
  * Storage catalog (domain-specific helpers)
- * - Primary source: Supabase PostgREST table "storage_files_catalog" (bucket_name === "clinicalrxqfiles").
- * - Fallback: Supabase Storage REST recursive listing (unchanged).
+ * - Primary source: table "storage_files_catalog" (bucket_name === "clinicalrxqfiles") via the DataProvider.
+ * - Cache: catalog lists are served stale-while-revalidate from IndexedDB (see catalogCache).
+ * - Fallback: Storage crawl (paged, concurrent, cancellable) via supabaseStorage.listFilesDeep.
  * - Purpose: Provide high-level queries aligned with your exact folder structure.
- * - Includes the full, fixed program slug list including "timemymeds".
+ * - Program slugs come from the program registry (programs table with built-in fallback).
  * - UI constraint: Titles remove only the last extension; preserve original name/casing.
  */
 
 import {
+  createCrawlLimiter,
   listAllForProgram,
   listGlobalBilling,
   listGlobalGuidelines,
   listGlobalHandouts,
+  listFilesDeep,
+  isAbortError,
   StorageFileItem,
-  stripOneExtension,
-  buildPublicUrl,
+  type CrawlOptions,
 } from './supabaseStorage';
-import { getSupabaseAnonKey, getSupabaseUrl } from '../config/supabaseConfig';
+import { getDataProvider } from './dataProvider';
+import type { QueryFilter } from './queryBuilder';
+import { getPrograms } from './programRegistry';
+import { catalogCacheKey, getCachedCatalogList, type CatalogStamp } from './catalogCache';
+import { mapCatalogRow } from './rowMappers';
+import type { StorageFilesCatalogRow } from '../types/database';
 
-/** Fixed program slugs present in the bucket (must match folder names exactly) */
-export const ProgramSlugs = [
-  'mtmthefuturetoday',
-  'timemymeds',
-  'testandtreat',
-  'hba1c',
-  'oralcontraceptives',
-] as const;
+/** Bucket mirrored by storage_files_catalog */
+const CATALOG_BUCKET = 'clinicalrxqfiles';
 
-export type ProgramSlug = typeof ProgramSlugs[number];
+/** Rows read per catalog request (PostgREST caps responses at 1000) */
+const CATALOG_PAGE_SIZE = 1000;
+
+/** Values per in.(…) lookup, keeping the GET URL well under common length limits */
+const LOOKUP_BATCH_SIZE = 50;
+
+/** Split values into LOOKUP_BATCH_SIZE chunks */
+function lookupBatches<T>(values: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < values.length; i += LOOKUP_BATCH_SIZE) batches.push(values.slice(i, i + LOOKUP_BATCH_SIZE));
+  return batches;
+}
 
 /**
- * Internal: POSTGREST GET wrapper for /rest/v1
- * - Uses centralized Supabase URL + anon key.
+ * Row shape from storage_files_catalog
  */
-async function pgSelect<T>(pathAndQuery: string): Promise<T> {
-  const base = getSupabaseUrl();
-  const anon = getSupabaseAnonKey();
-  if (!base) {
-    throw new Error('Supabase URL is not configured. Set VITE_SUPABASE_URL or localStorage SUPABASE_URL.');
-  }
-  const url = `${base}/rest/v1${pathAndQuery}`;
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: {
-      apikey: anon,
-      Authorization: `Bearer ${anon}`,
-      Accept: 'application/json',
-    },
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(text || `PostgREST error: ${res.status}`);
-  }
-  // Some 204 responses may occur, but selects should generally return JSON
-  if (res.status === 204) return [] as unknown as T;
-  return (await res.json()) as T;
+export type StorageCatalogRow = StorageFilesCatalogRow;
+
+/** Program folder categories (folder names are matched case-insensitively, e.g. "Forms") */
+export type ProgramCategory = 'forms' | 'protocols' | 'resources' | 'training';
+
+export const ProgramCategories: readonly ProgramCategory[] = ['forms', 'protocols', 'resources', 'training'];
+
+/** Global (non-program) categories */
+export type GlobalCategory = 'handouts' | 'guidelines' | 'billing';
+
+/** Top-level bucket folder for each global category */
+const GlobalFolders: Record<GlobalCategory, string> = {
+  handouts: 'patienthandouts',
+  guidelines: 'clinicalguidelines',
+  billing: 'medicalbilling',
+};
+
+/**
+ * Global category of a bucket path (by its top-level folder); null for program and other files.
+ */
+export function getGlobalCategoryForPath(path: string): GlobalCategory | null {
+  const top = path.replace(/^\/+/, '').split('/')[0].toLowerCase();
+  const entry = (Object.entries(GlobalFolders) as [GlobalCategory, string][]).find(([, folder]) => folder === top);
+  return entry ? entry[0] : null;
 }
 
+/** Per-category counts plus total */
+export type CategoryCounts<K extends string> = Record<K, number> & { total: number };
+
 /**
- * Row shape from storage_files_catalog
+ * One program's files grouped by category, with counts.
  */
-interface StorageCatalogRow {
-  id: string;
-  bucket_name: string;
-  file_name: string;
-  file_path: string;
-  file_url?: string | null;
-  file_size?: number | null;
-  mime_type?: string | null;
-  last_modified?: string | null;
-  created_at?: string | null;
-  updated_at?: string | null;
+export interface GroupedProgramResources {
+  forms: StorageFileItem[];
+  protocols: StorageFileItem[];
+  resources: StorageFileItem[];
+  training: StorageFileItem[];
+  counts: CategoryCounts<ProgramCategory>;
 }
 
 /**
- * Map DB row → UI StorageFileItem
- * - Title is filename without only the last extension.
- * - URL uses file_url if present; otherwise constructs from bucket + path.
+ * Whole-bucket view: every global category and every program, grouped, with counts.
  */
-function mapRowToItem(row: StorageCatalogRow): StorageFileItem {
-  const filename = row.file_name;
-  const title = stripOneExtension(filename);
-  const path = row.file_path.replace(/^\/+/, ''); // normalize
-  const url = row.file_url && row.file_url.trim().length > 0 ? row.file_url : buildPublicUrl(path);
-  return {
-    path,
-    url,
-    filename,
-    title,
-    mimeType: row.mime_type || undefined,
-    size: typeof row.file_size === 'number' ? row.file_size : undefined,
+export interface CatalogSnapshot {
+  globals: Record<GlobalCategory, StorageFileItem[]>;
+  programs: Record<string, GroupedProgramResources>;
+  counts: {
+    globals: CategoryCounts<GlobalCategory>;
+    programs: CategoryCounts<string>;
+    total: number;
   };
 }
 
+/**
+ * Apply a "file_path starts with any of these prefixes" filter in a single request.
+ * - One prefix → ilike; several → PostgREST or=(file_path.ilike.a%,file_path.ilike.b%).
+ * - An empty-string prefix means the whole bucket (no path filter).
+ */
+function withPrefixFilter<B extends { ilike(c: string, p: string): B; or(f: QueryFilter[]): B }>(
+  query: B,
+  prefixes: string[]
+): B {
+  if (prefixes.includes('')) return query;
+  if (prefixes.length === 1) return query.ilike('file_path', `${prefixes[0]}%`);
+  return query.or(prefixes.map((p) => ({ column: 'file_path', op: 'ilike' as const, value: `${p}%` })));
+}
+
+/**
+ * Read every catalog row under the prefixes, CATALOG_PAGE_SIZE rows per request (paging past
+ * PostgREST's row cap, so a whole-bucket read is never silently truncated).
+ */
+async function readCatalogPages<R>(columns: string, prefixes: string[]): Promise<R[]> {
+  const rows: R[] = [];
+  for (let from = 0; ; from += CATALOG_PAGE_SIZE) {
+    const base = getDataProvider()
+      .from<R>('storage_files_catalog')
+      .select(columns)
+      .eq('bucket_name', CATALOG_BUCKET);
+    const { data, error } = await withPrefixFilter(base, prefixes)
+      .order('file_path', { ascending: true })
+      .range(from, from + CATALOG_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if ((data || []).length < CATALOG_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
 /**
  * Query helper: list files whose file_path starts with any of the given prefixes (case-insensitive).
- * - Performs multiple ilike queries (one per prefix) and merges results uniquely by file_path.
+ * - One round trip per page regardless of the number of prefixes.
+ * - Also returns the freshness stamp of the rows it read (for the cache).
  */
-async function listCatalogByPrefixes(prefixes: string[]): Promise<StorageFileItem[]> {
-  if (!prefixes.length) return [];
-  const bucket = 'clinicalrxqfiles';
-  const results: Record<string, StorageFileItem> = {};
-
-  for (const p of prefixes) {
-    const encoded = encodeURIComponent(`${p}%`);
-    // Build query: select * where bucket_name=eq.clinicalrxqfiles and file_path ilike prefix%
-    const path = `/storage_files_catalog?select=*&bucket_name=eq.${encodeURIComponent(
-      bucket
-    )}&file_path=ilike.${encoded}&order=file_path.asc`;
-    const rows = await pgSelect<StorageCatalogRow[]>(path);
-    for (const r of rows) {
-      const item = mapRowToItem(r);
-      results[item.path] = item;
-    }
+async function fetchCatalogByPrefixes(prefixes: string[]): Promise<{ items: StorageFileItem[]; stamp: CatalogStamp }> {
+  const stamp: CatalogStamp = { count: 0, newest: null };
+  const rows = await readCatalogPages<StorageCatalogRow>('*', prefixes);
+
+  const results = new Map<string, StorageFileItem>();
+  for (const r of rows) {
+    const item = mapCatalogRow(r);
+    results.set(item.path, item);
+    addToStamp(stamp, r);
   }
+  return { items: Array.from(results.values()), stamp };
+}
 
-  return Object.values(results);
+/**
+ * Fold a row into a stamp (count + newest updated_at).
+ */
+function addToStamp(stamp: CatalogStamp, row: Pick<StorageCatalogRow, 'updated_at'>) {
+  stamp.count++;
+  if (row.updated_at && (!stamp.newest || row.updated_at > stamp.newest)) stamp.newest = row.updated_at;
 }
 
 /**
- * Catalog-backed category lists (prefer DB, fall back to Storage listing)
+ * Cheap freshness check for the same prefixes: two requests whatever the catalog size, a head-only
+ * exact count and the single newest updated_at.
  */
-async function catalogGlobalHandouts(): Promise<StorageFileItem[]> {
-  return listCatalogByPrefixes(['patienthandouts/']);
+async function fetchCatalogStamp(prefixes: string[]): Promise<CatalogStamp> {
+  const catalog = () => getDataProvider().from<StorageCatalogRow>('storage_files_catalog');
+  const [counted, newest] = await Promise.all([
+    withPrefixFilter(
+      catalog().select('id', { count: 'exact', head: true }).eq('bucket_name', CATALOG_BUCKET),
+      prefixes
+    ),
+    withPrefixFilter(catalog().select('updated_at').eq('bucket_name', CATALOG_BUCKET), prefixes)
+      .order('updated_at', { ascending: false, nullsFirst: false })
+      .limit(1),
+  ]);
+  if (counted.error) throw counted.error;
+  if (newest.error) throw newest.error;
+  return { count: counted.count ?? 0, newest: newest.data?.[0]?.updated_at ?? null };
 }
-async function catalogGlobalGuidelines(): Promise<StorageFileItem[]> {
-  return listCatalogByPrefixes(['clinicalguidelines/']);
+
+/**
+ * List catalog files under the given prefixes, served from the stale-while-revalidate cache.
+ */
+async function listCatalogByPrefixes(prefixes: string[]): Promise<StorageFileItem[]> {
+  if (!prefixes.length) return [];
+  return getCachedCatalogList(
+    catalogCacheKey(CATALOG_BUCKET, prefixes),
+    () => fetchCatalogByPrefixes(prefixes),
+    () => fetchCatalogStamp(prefixes)
+  );
 }
-async function catalogGlobalBilling(): Promise<StorageFileItem[]> {
-  return listCatalogByPrefixes(['medicalbilling/']);
+
+/**
+ * Group one program's files by their category folder ("<slug>/<category>/...").
+ * - Files outside the four category folders are ignored (same as the per-category listing).
+ */
+function groupProgramItems(items: StorageFileItem[]): GroupedProgramResources {
+  const grouped: GroupedProgramResources = {
+    forms: [],
+    protocols: [],
+    resources: [],
+    training: [],
+    counts: { forms: 0, protocols: 0, resources: 0, training: 0, total: 0 },
+  };
+  for (const item of items) {
+    const category = (item.path.split('/')[1] || '').toLowerCase() as ProgramCategory;
+    if (!ProgramCategories.includes(category)) continue;
+    grouped[category].push(item);
+    grouped.counts[category]++;
+    grouped.counts.total++;
+  }
+  return grouped;
 }
 
 /**
- * Catalog-backed program category
- * - Handles case variants for "forms" ("forms" and "Forms").
+ * Group a whole-bucket listing into global categories and the given programs.
  */
-async function catalogProgramCategory(
-  programSlug: string,
-  category: 'forms' | 'protocols' | 'resources' | 'training'
-): Promise<StorageFileItem[]> {
-  const candidates = category === 'forms' ? ['forms', 'Forms'] : [category];
-  const prefixes = candidates.map((c) => `${programSlug}/${c}/`);
-  return listCatalogByPrefixes(prefixes);
+function groupCatalog(items: StorageFileItem[], programSlugs: string[]): CatalogSnapshot {
+  const globals = { handouts: [], guidelines: [], billing: [] } as Record<GlobalCategory, StorageFileItem[]>;
+  const byProgram: Record<string, StorageFileItem[]> = {};
+  programSlugs.forEach((slug) => (byProgram[slug.toLowerCase()] = []));
+
+  const globalByFolder = new Map<string, GlobalCategory>(
+    (Object.keys(GlobalFolders) as GlobalCategory[]).map((c) => [GlobalFolders[c], c])
+  );
+
+  for (const item of items) {
+    const top = (item.path.split('/')[0] || '').toLowerCase();
+    const global = globalByFolder.get(top);
+    if (global) globals[global].push(item);
+    else if (byProgram[top]) byProgram[top].push(item);
+  }
+
+  const programs: Record<string, GroupedProgramResources> = {};
+  const programCounts = { total: 0 } as CategoryCounts<string>;
+  for (const slug of programSlugs) {
+    programs[slug] = groupProgramItems(byProgram[slug.toLowerCase()]);
+    programCounts[slug] = programs[slug].counts.total;
+    programCounts.total += programs[slug].counts.total;
+  }
+
+  const globalCounts = {
+    handouts: globals.handouts.length,
+    guidelines: globals.guidelines.length,
+    billing: globals.billing.length,
+    total: globals.handouts.length + globals.guidelines.length + globals.billing.length,
+  };
+
+  return {
+    globals,
+    programs,
+    counts: { globals: globalCounts, programs: programCounts, total: globalCounts.total + programCounts.total },
+  };
 }
 
 /**
- * Aggregate set for "All resources"
- * - Lightweight union of global sets + optionally a single selected program to keep things performant.
- * - Prefers DB catalog; falls back to storage listing if DB unavailable.
+ * Whole bucket (paged catalog read), grouped into global categories and programs with counts.
+ * - Prefers DB catalog; falls back to a storage crawl of the bucket root (cancellable via opts.signal).
+ * - opts.crawl = false skips the fallback and rethrows the catalog error (for callers that can do
+ *   without the data rather than crawl the whole bucket).
  */
-export async function getAllResources(params?: { includeProgram?: ProgramSlug }): Promise<StorageFileItem[]> {
+export async function getCatalogSnapshot(
+  opts?: Pick<CrawlOptions, 'signal' | 'onProgress'> & { crawl?: boolean }
+): Promise<CatalogSnapshot> {
+  const slugs = (await getPrograms()).map((p) => p.slug);
   try {
-    const [handouts, guidelines, billing] = await Promise.all([
-      catalogGlobalHandouts(),
-      catalogGlobalGuidelines(),
-      catalogGlobalBilling(),
-    ]);
-    const base = [...handouts, ...guidelines, ...billing];
+    return groupCatalog(await listCatalogByPrefixes(['']), slugs);
+  } catch (e) {
+    if (isAbortError(e) || opts?.crawl === false) throw e;
+    return groupCatalog(await listFilesDeep('', opts), slugs);
+  }
+}
 
-    if (!params?.includeProgram) return base;
+/**
+ * Aggregate set for "All resources"
+ * - Union of global sets + optionally a single selected program, fetched in one request.
+ * - Prefers DB catalog; falls back to storage listing if DB unavailable.
+ * - signal/onProgress only apply to the storage fallback.
+ */
+export async function getAllResources(
+  params?: { includeProgram?: string } & Pick<CrawlOptions, 'signal' | 'onProgress'>
+): Promise<StorageFileItem[]> {
+  // One limiter for every fallback crawl below, so together they stay within the concurrency bound
+  const crawl: CrawlOptions = { signal: params?.signal, onProgress: params?.onProgress, limiter: createCrawlLimiter() };
+  const prefixes = Object.values(GlobalFolders).map((f) => `${f}/`);
+  if (params?.includeProgram) prefixes.push(`${params.includeProgram}/`);
 
-    const [forms, protocols, resources, training] = await Promise.all([
-      catalogProgramCategory(params.includeProgram, 'forms'),
-      catalogProgramCategory(params.includeProgram, 'protocols'),
-      catalogProgramCategory(params.includeProgram, 'resources'),
-      catalogProgramCategory(params.includeProgram, 'training'),
-    ]);
-    return [...base, ...forms, ...protocols, ...resources, ...training];
+  try {
+    const items = await listCatalogByPrefixes(prefixes);
+    if (!params?.includeProgram) return items;
+    // Keep only the program's category folders, like the grouped view
+    const programPrefix = `${params.includeProgram}/`.toLowerCase();
+    const isProgramItem = (i: StorageFileItem) => i.path.toLowerCase().startsWith(programPrefix);
+    const grouped = groupProgramItems(items.filter(isProgramItem));
+    return [
+      ...items.filter((i) => !isProgramItem(i)),
+      ...grouped.forms,
+      ...grouped.protocols,
+      ...grouped.resources,
+      ...grouped.training,
+    ];
   } catch {
-    // Fallback: storage recursive listing
+    // Fallback: storage crawl (progress is reported per root prefix)
     const [handouts, guidelines, billing] = await Promise.all([
-      listGlobalHandouts(),
-      listGlobalGuidelines(),
-      listGlobalBilling(),
+      listGlobalHandouts(crawl),
+      listGlobalGuidelines(crawl),
+      listGlobalBilling(crawl),
     ]);
     const base = [...handouts, ...guidelines, ...billing];
     if (!params?.includeProgram) return base;
 
-    const { forms, protocols, resources, training } = await listAllForProgram(params.includeProgram);
+    const { forms, protocols, resources, training } = await listAllForProgram(params.includeProgram, crawl);
     return [...base, ...forms, ...protocols, ...resources, ...training];
   }
 }
@@ -186,18 +319,9 @@ export async function getAllResources(params?: { includeProgram?: ProgramSlug })
  * Get resources for a single global category.
  * - Prefers DB catalog; falls back to storage listing.
  */
-export async function getGlobalCategory(cat: 'handouts' | 'guidelines' | 'billing'): Promise<StorageFileItem[]> {
+export async function getGlobalCategory(cat: GlobalCategory): Promise<StorageFileItem[]> {
   try {
-    switch (cat) {
-      case 'handouts':
-        return catalogGlobalHandouts();
-      case 'guidelines':
-        return catalogGlobalGuidelines();
-      case 'billing':
-        return catalogGlobalBilling();
-      default:
-        return [];
-    }
+    return await listCatalogByPrefixes([`${GlobalFolders[cat]}/`]);
   } catch {
     switch (cat) {
       case 'handouts':
@@ -213,83 +337,70 @@ export async function getGlobalCategory(cat: 'handouts' | 'guidelines' | 'billin
 }
 
 /**
- * Get all resources for a program, grouped.
- * - Prefers DB catalog; falls back to storage listing.
+ * Get all resources for a program, grouped, with counts.
+ * - One request for the whole program; handles case variants such as "Forms".
+ * - Prefers DB catalog; falls back to storage crawl (cancellable via opts.signal).
  */
-export async function getProgramResourcesGrouped(slug: ProgramSlug): Promise<{
-  forms: StorageFileItem[];
-  protocols: StorageFileItem[];
-  resources: StorageFileItem[];
-  training: StorageFileItem[];
-}> {
+export async function getProgramResourcesGrouped(
+  slug: string,
+  opts?: Pick<CrawlOptions, 'signal' | 'onProgress'>
+): Promise<GroupedProgramResources> {
   try {
-    const [forms, protocols, resources, training] = await Promise.all([
-      catalogProgramCategory(slug, 'forms'),
-      catalogProgramCategory(slug, 'protocols'),
-      catalogProgramCategory(slug, 'resources'),
-      catalogProgramCategory(slug, 'training'),
-    ]);
-    return { forms, protocols, resources, training };
+    return groupProgramItems(await listCatalogByPrefixes([`${slug}/`]));
   } catch {
-    return listAllForProgram(slug);
+    const { forms, protocols, resources, training } = await listAllForProgram(slug, opts);
+    return groupProgramItems([...forms, ...protocols, ...resources, ...training]);
   }
 }
 
 /**
- * Program list items for the Programs page.
- * - Purpose: Provide a friendly list of available programs with stable slugs used by ProgramDetail.
- * - Implementation: Derived from ProgramSlugs (no network call). Friendly names/descriptions are curated.
+ * Look up files by file name in any folder (e.g., where a bookmarked file was moved), keyed by name.
  */
-export interface ProgramListItem {
-  /** Folder slug that matches Supabase Storage and ProgramDetail route */
-  slug: ProgramSlug;
-  /** Human-readable program name */
-  name: string;
-  /** Optional short description */
-  description?: string | null;
-}
+export async function getCatalogItemsByFilename(filenames: string[]): Promise<Map<string, StorageFileItem[]>> {
+  const out = new Map<string, StorageFileItem[]>();
+  const unique = Array.from(new Set(filenames.filter(Boolean)));
+  if (unique.length === 0) return out;
 
-/** Friendly metadata for each program slug */
-const ProgramMeta: Record<
-  ProgramSlug,
-  { name: string; description?: string }
-> = {
-  mtmthefuturetoday: {
-    name: 'MTM The Future Today',
-    description:
-      'Team-based Medication Therapy Management program with proven protocols and scalable results.',
-  },
-  timemymeds: {
-    name: 'TimeMyMeds',
-    description: 'Appointment-based synchronization to enable consistent clinical service delivery.',
-  },
-  testandtreat: {
-    name: 'Test & Treat Services',
-    description: 'Patient assessments, CLIA-waived testing, and treatment guidance for flu, strep, and COVID-19.',
-  },
-  hba1c: {
-    name: 'HbA1c Testing',
-    description: 'Training and resources for A1c point-of-care testing and quality metrics.',
-  },
-  oralcontraceptives: {
-    name: 'Pharmacist-Initiated Oral Contraceptives',
-    description:
-      'From patient intake to billing and documentation—simplified, step-by-step service workflows.',
-  },
-};
+  const { data, error } = await getDataProvider()
+    .from('storage_files_catalog')
+    .select('*')
+    .eq('bucket_name', CATALOG_BUCKET)
+    .in('file_name', unique)
+    .order('file_path', { ascending: true });
+  if (error) throw error;
+
+  for (const r of data || []) {
+    const item = mapCatalogRow(r);
+    out.set(item.filename, [...(out.get(item.filename) ?? []), item]);
+  }
+  return out;
+}
 
 /**
- * List available programs.
- * - Returns friendly name + description with correct slug used by ProgramDetail and Storage.
+ * Look up specific files by exact path (e.g., bookmarked files), keyed by path.
+ * - Paths missing from the catalog are simply absent from the map.
+ * - Long lists are looked up in batches (paths are long once URL-encoded).
  */
-export async function listProgramsFromStorage(): Promise<ProgramListItem[]> {
-  // Static list for now; replace with Supabase query if you add a "programs" table later.
-  return ProgramSlugs.map((slug) => {
-    const meta = ProgramMeta[slug];
-    return {
-      slug,
-      name: meta?.name ?? slug,
-      description: meta?.description ?? 'Open to view training modules and resources.',
-    };
-  });
+export async function getCatalogItemsByPath(paths: string[]): Promise<Map<string, StorageFileItem>> {
+  const out = new Map<string, StorageFileItem>();
+  const unique = Array.from(new Set(paths.map((p) => p.replace(/^\/+/, '')).filter(Boolean)));
+  if (unique.length === 0) return out;
+
+  const results = await Promise.all(
+    lookupBatches(unique).map((batch) =>
+      getDataProvider()
+        .from('storage_files_catalog')
+        .select('*')
+        .eq('bucket_name', CATALOG_BUCKET)
+        .in('file_path', batch)
+    )
+  );
+  for (const { data, error } of results) {
+    if (error) throw error;
+    for (const r of data || []) {
+      const item = mapCatalogRow(r);
+      out.set(item.path, item);
+    }
+  }
+  return out;
 }
@@ -0,0 +1,162 @@
+/**
+ * Supabase DataProvider
+ * - Purpose: Live backend implementation of DataProvider.
+ * - Tables: replays each recorded QuerySpec onto the supabase-js query builder.
+ * - Storage/Auth: thin wrappers over supabase.storage and supabase.auth.
+ */
+
+import { supabase } from './supabase';
+import { DataProviderError, QueryBuilder, type QueryFilter, type QueryResult, type QuerySpec } from './queryBuilder';
+import type { DataProvider, StorageListObject } from './dataProvider';
+
+/** Error shape shared by supabase-js PostgrestError and friends */
+interface SupabaseErrorLike {
+  message: string;
+  code?: string;
+  details?: string;
+}
+
+/**
+ * Convert a supabase-js { data, error } pair into a QueryResult with a DataProviderError.
+ */
+function toResult(data: unknown, error: SupabaseErrorLike | null, count?: number | null): QueryResult<unknown> {
+  if (error) {
+    return { data: null, error: new DataProviderError(error.message, error.code, error.details), count };
+  }
+  return { data: data ?? null, error: null, count };
+}
+
+/**
+ * Serialize a filter value for a PostgREST logic tree, quoting reserved characters.
+ */
+function orValue(value: unknown): string {
+  const s = String(value);
+  return /[,.:()"\\\s]/.test(s) ? `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : s;
+}
+
+/**
+ * Serialize an OR group to PostgREST syntax, e.g. "file_path.ilike.a/%,file_path.ilike.b/%".
+ */
+function orFilterString(group: QueryFilter[]): string {
+  return group
+    .map((f) => {
+      if (f.op === 'in') return `${f.column}.in.(${(f.value as unknown[]).map(orValue).join(',')})`;
+      if (f.op === 'is') return `${f.column}.is.${String(f.value)}`;
+      return `${f.column}.${f.op}.${orValue(f.value)}`;
+    })
+    .join(',');
+}
+
+/**
+ * Execute a recorded spec with supabase-js.
+ */
+async function executeSpec(spec: QuerySpec): Promise<QueryResult<unknown>> {
+  // supabase-js builder types are generic over the schema; this client is untyped.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let q: any = supabase.from(spec.table);
+
+  switch (spec.action) {
+    case 'select':
+      q = q.select(spec.columns, { count: spec.count, head: spec.head });
+      break;
+    case 'insert':
+      q = q.insert(spec.values);
+      break;
+    case 'update':
+      q = q.update(spec.values);
+      break;
+    case 'upsert':
+      q = q.upsert(spec.values, { onConflict: spec.onConflict, ignoreDuplicates: spec.ignoreDuplicates });
+      break;
+    case 'delete':
+      q = q.delete();
+      break;
+  }
+  if (spec.action !== 'select' && spec.returning) {
+    q = q.select(spec.columns);
+  }
+
+  for (const f of spec.filters) {
+    q = q[f.op](f.column, f.value);
+  }
+  for (const group of spec.orGroups) {
+    q = q.or(orFilterString(group));
+  }
+  for (const o of spec.order) {
+    q = q.order(o.column, { ascending: o.ascending, nullsFirst: o.nullsFirst });
+  }
+  if (typeof spec.limit === 'number') {
+    q = typeof spec.offset === 'number' ? q.range(spec.offset, spec.offset + spec.limit - 1) : q.limit(spec.limit);
+  }
+  if (spec.single === 'single') q = q.single();
+  if (spec.single === 'maybe') q = q.maybeSingle();
+
+  const { data, error, count } = await q;
+  return toResult(data, error, count ?? null);
+}
+
+/**
+ * Create the Supabase-backed provider.
+ */
+export function createSupabaseDataProvider(): DataProvider {
+  return {
+    kind: 'supabase',
+
+    from(table: string) {
+      return new QueryBuilder<never>(table, executeSpec);
+    },
+
+    async rpc(fn, args) {
+      const { data, error } = await supabase.rpc(fn, args);
+      return toResult(data, error) as QueryResult<never>;
+    },
+
+    storage: {
+      async list(bucket, prefix, opts) {
+        const { data, error } = await supabase.storage.from(bucket).list(prefix, {
+          limit: opts?.limit ?? 100,
+          offset: opts?.offset ?? 0,
+          sortBy: { column: 'name', order: 'asc' },
+        });
+        if (error) {
+          throw new DataProviderError(`Supabase list failed: ${error.message}`);
+        }
+        return (data || []) as StorageListObject[];
+      },
+      async createSignedUrls(bucket, paths, expiresIn) {
+        const { data, error } = await supabase.storage.from(bucket).createSignedUrls(paths, expiresIn);
+        if (error) {
+          throw new DataProviderError(`Supabase signing failed: ${error.message}`);
+        }
+        return paths.map((path, i) => {
+          const entry = data[i];
+          return {
+            path,
+            signedUrl: entry && !entry.error ? entry.signedUrl : null,
+            error: entry ? entry.error : 'Not signed',
+          };
+        });
+      },
+    },
+
+    auth: {
+      async getSession() {
+        const { data } = await supabase.auth.getSession();
+        return data.session;
+      },
+      async signInWithPassword(email, password) {
+        const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+        if (!data.session) throw new DataProviderError('Sign in did not return a session.');
+        return data.session;
+      },
+      async signOut() {
+        await supabase.auth.signOut();
+      },
+      async resetPasswordForEmail(email, redirectTo) {
+        const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo });
+        if (error) throw error;
+      },
+    },
+  };
+}
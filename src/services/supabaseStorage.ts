@@ -1,32 +1,17 @@
 /**
- * Supabase Storage service (REST-based)
+ * Supabase Storage service
  * - Purpose: List and resolve public URLs for files in the single bucket "clinicalrxqfiles".
+ * - Listing goes through the active DataProvider (live Storage API or the in-memory stand-in).
  * - Honors your exact folder structure from file_list.md (no extra roots).
  * - Provides safe, flattened file items usable directly in UI (no objects rendered by mistake).
  */
 
-import { getSupabaseUrl, getSupabaseAnonKey } from '../config/supabaseConfig';
+import { getSupabaseUrl } from '../config/supabaseConfig';
+import { getDataProvider, type StorageListObject } from './dataProvider';
 
 /** Fixed bucket name per user requirement (case-sensitive) */
 export const SUPABASE_BUCKET = 'clinicalrxqfiles';
 
-/** Minimal file object returned by REST list */
-interface SupaListObject {
-  name: string;
-  id?: string | null;
-  updated_at?: string;
-  created_at?: string;
-  last_accessed_at?: string;
-  // For files, metadata contains mimetype, size, etc. For folders, typically null/undefined.
-  metadata?: {
-    size?: number;
-    mimetype?: string;
-    cacheControl?: string;
-    lastModified?: string;
-    contentLength?: number;
-  } | null;
-}
-
 /** UI-facing file item shape */
 export interface StorageFileItem {
   /** Full storage path relative to bucket, e.g., "mtmthefuturetoday/Forms/Adherence.pdf" */
@@ -41,6 +26,8 @@ export interface StorageFileItem {
   mimeType?: string;
   /** Optional size if known */
   size?: number;
+  /** Optional last-modified timestamp (ISO) if known */
+  lastModified?: string;
 }
 
 /**
@@ -64,154 +51,265 @@ export function buildPublicUrl(path: string): string {
 }
 
 /**
- * Low-level REST list call to Supabase Storage
+ * Low-level list call to Storage
  * - Non-recursive: returns direct contents under the given prefix.
  */
-export async function listPrefix(prefix: string, opts?: { limit?: number; offset?: number }): Promise<SupaListObject[]> {
-  const base = getSupabaseUrl();
-  const anon = getSupabaseAnonKey();
-  if (!base || !anon) {
-    throw new Error('Supabase is not configured. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.');
-  }
-  const url = `${base}/storage/v1/object/list/${encodeURIComponent(SUPABASE_BUCKET)}`;
-  const body = {
-    prefix: prefix.replace(/^\/+/, '').replace(/\/+$/, ''), // no leading/trailing slash
+export async function listPrefix(prefix: string, opts?: { limit?: number; offset?: number }): Promise<StorageListObject[]> {
+  const clean = prefix.replace(/^\/+/, '').replace(/\/+$/, ''); // no leading/trailing slash
+  return getDataProvider().storage.list(SUPABASE_BUCKET, clean, {
     limit: opts?.limit ?? 100,
     offset: opts?.offset ?? 0,
-    sortBy: { column: 'name', order: 'asc' as const },
-  };
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      apikey: anon,
-      Authorization: `Bearer ${anon}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
   });
+}
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`Supabase list failed (${res.status}): ${text || res.statusText}`);
-  }
-  const data = (await res.json()) as SupaListObject[] | { message: string };
-  if (!Array.isArray(data)) {
-    throw new Error('Unexpected Supabase list response.');
+/** Default page size for Storage list calls (Supabase caps a page at 100 by default) */
+const CRAWL_PAGE_SIZE = 100;
+
+/** Default number of list requests in flight per crawl */
+const CRAWL_CONCURRENCY = 4;
+
+/**
+ * Progress snapshot emitted while crawling a prefix.
+ */
+export interface CrawlProgress {
+  /** Root prefix being crawled */
+  prefix: string;
+  /** Folders fully listed so far (all pages) */
+  foldersListed: number;
+  /** Folders discovered but not yet fully listed */
+  foldersPending: number;
+  /** Files found so far */
+  filesFound: number;
+}
+
+/**
+ * Runs a list request once a request slot is free (see createCrawlLimiter).
+ */
+export type CrawlLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Options for listFilesDeep and the helpers built on it.
+ */
+export interface CrawlOptions {
+  /** Objects requested per list page (default 100) */
+  pageSize?: number;
+  /** Max concurrent list requests (default 4); ignored when `limiter` is given */
+  concurrency?: number;
+  /** Request slots shared by several crawls, so together they stay within one concurrency bound */
+  limiter?: CrawlLimiter;
+  /** Abort the crawl, e.g. when the user navigates away (an AbortController's signal) */
+  signal?: { readonly aborted: boolean };
+  /** Called after every page with cumulative counts */
+  onProgress?: (progress: CrawlProgress) => void;
+}
+
+/**
+ * Error thrown when a crawl is cancelled through its AbortSignal.
+ */
+export class CrawlAbortedError extends Error {
+  constructor() {
+    super('Storage crawl was aborted.');
+    this.name = 'AbortError';
   }
-  return data;
+}
+
+/**
+ * True for cancellation errors (ours or a platform AbortError).
+ */
+export function isAbortError(e: unknown): boolean {
+  return e instanceof Error && e.name === 'AbortError';
+}
+
+/**
+ * Create a limiter that runs at most `max` tasks at once.
+ * - A finishing task hands its slot straight to the next waiter, so a task started in between
+ *   can't take the slot as well.
+ */
+export function createCrawlLimiter(max = CRAWL_CONCURRENCY): CrawlLimiter {
+  const slots = Math.max(1, max);
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= slots) {
+      // Woken with the slot of a finished task (active stays the same)
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
 }
 
 /**
  * Recursively list files under a prefix.
+ * - Pages through every folder (no silent truncation at 100 objects).
+ * - Walks subfolders concurrently with a bounded number of in-flight requests.
  * - Detects subfolders via metadata === null (heuristic used by Supabase list).
  * - Guards against infinite loops by tracking visited prefixes.
+ * - Results are sorted by path so output is stable regardless of request timing.
  */
-export async function listFilesDeep(prefix: string): Promise<StorageFileItem[]> {
+export async function listFilesDeep(prefix: string, opts?: CrawlOptions): Promise<StorageFileItem[]> {
+  const pageSize = Math.max(1, opts?.pageSize ?? CRAWL_PAGE_SIZE);
+  const limit = opts?.limiter ?? createCrawlLimiter(opts?.concurrency);
+  const signal = opts?.signal;
+  const clean = prefix.replace(/^\/+/, '').replace(/\/+$/, '');
+
   const visited = new Set<string>();
   const results: StorageFileItem[] = [];
+  let foldersListed = 0;
+
+  const throwIfAborted = () => {
+    if (signal?.aborted) throw new CrawlAbortedError();
+  };
+
+  const report = () => {
+    opts?.onProgress?.({
+      prefix: clean,
+      foldersListed,
+      foldersPending: visited.size - foldersListed,
+      filesFound: results.length,
+    });
+  };
 
-  async function walk(pfx: string) {
-    const key = pfx.replace(/\/+$/, '');
+  async function walk(key: string): Promise<void> {
     if (visited.has(key)) return;
     visited.add(key);
 
-    const rows = await listPrefix(key);
-    for (const row of rows) {
-      const name = row.name;
-      const isFolder = !row.metadata || typeof row.metadata?.size !== 'number';
-      if (isFolder) {
-        // Descend into subfolder
-        await walk(`${key}/${name}`);
-      } else {
-        const path = `${key}/${name}`;
-        results.push({
-          path,
-          url: buildPublicUrl(path),
-          filename: name,
-          title: stripOneExtension(name),
-          mimeType: row.metadata?.mimetype || undefined,
-          size: typeof row.metadata?.size === 'number' ? row.metadata?.size : undefined,
-        });
+    const subfolders: string[] = [];
+    for (let offset = 0; ; offset += pageSize) {
+      throwIfAborted();
+      const rows = await limit(() => listPrefix(key, { limit: pageSize, offset }));
+      throwIfAborted();
+
+      for (const row of rows) {
+        const name = row.name;
+        const isFolder = !row.metadata || typeof row.metadata?.size !== 'number';
+        const path = key ? `${key}/${name}` : name;
+        if (isFolder) {
+          subfolders.push(path);
+        } else {
+          results.push({
+            path,
+            url: buildPublicUrl(path),
+            filename: name,
+            title: stripOneExtension(name),
+            mimeType: row.metadata?.mimetype || undefined,
+            size: typeof row.metadata?.size === 'number' ? row.metadata?.size : undefined,
+            lastModified: row.metadata?.lastModified || row.updated_at || undefined,
+          });
+        }
       }
+
+      if (rows.length < pageSize) break;
+      report();
     }
+
+    foldersListed++;
+    report();
+    // Descend into subfolders in parallel; the limiter bounds in-flight requests
+    await Promise.all(subfolders.map((sub) => walk(sub)));
   }
 
-  const clean = prefix.replace(/^\/+/, '').replace(/\/+$/, '');
   await walk(clean);
-  return results;
+  return results.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Combine progress from several concurrent crawls into one running total.
+ * - Returns a factory giving each crawl its own onProgress callback.
+ */
+export function combineCrawlProgress(
+  onProgress: ((progress: CrawlProgress) => void) | undefined,
+  prefix: string
+): (() => ((progress: CrawlProgress) => void) | undefined) {
+  if (!onProgress) return () => undefined;
+  const latest: CrawlProgress[] = [];
+  return () => {
+    const slot = latest.push({ prefix, foldersListed: 0, foldersPending: 0, filesFound: 0 }) - 1;
+    return (p) => {
+      latest[slot] = p;
+      onProgress(
+        latest.reduce<CrawlProgress>(
+          (sum, x) => ({
+            prefix,
+            foldersListed: sum.foldersListed + x.foldersListed,
+            foldersPending: sum.foldersPending + x.foldersPending,
+            filesFound: sum.filesFound + x.filesFound,
+          }),
+          { prefix, foldersListed: 0, foldersPending: 0, filesFound: 0 }
+        )
+      );
+    };
+  };
 }
 
 /**
  * Try multiple candidate folder casings for a program category (e.g., "forms" and "Forms").
+ * - Missing prefixes are ignored; cancellation is rethrown.
+ * - The candidates share one limiter; their progress is reported as one combined total.
  */
-export async function listProgramCategory(programSlug: string, category: 'forms' | 'protocols' | 'resources' | 'training'): Promise<StorageFileItem[]> {
+export async function listProgramCategory(
+  programSlug: string,
+  category: 'forms' | 'protocols' | 'resources' | 'training',
+  opts?: CrawlOptions
+): Promise<StorageFileItem[]> {
   const candidates = category === 'forms' ? ['forms', 'Forms'] : [category];
-  const out: StorageFileItem[] = [];
-  for (const c of candidates) {
-    try {
-      const prefix = `${programSlug}/${c}`;
-      const items = await listFilesDeep(prefix);
-      out.push(...items);
-    } catch {
-      // Ignore missing prefixes; continue
-    }
-  }
-  return out;
+  const limiter = opts?.limiter ?? createCrawlLimiter(opts?.concurrency);
+  const progressFor = combineCrawlProgress(opts?.onProgress, `${programSlug}/${category}`);
+  const lists = await Promise.all(
+    candidates.map(async (c) => {
+      try {
+        return await listFilesDeep(`${programSlug}/${c}`, { ...opts, limiter, onProgress: progressFor() });
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        // Ignore missing prefixes; continue
+        return [];
+      }
+    })
+  );
+  return lists.flat();
 }
 
 /**
  * Global categories (top-level, per your structure).
  */
-export async function listGlobalHandouts(): Promise<StorageFileItem[]> {
-  return listFilesDeep('patienthandouts');
+export async function listGlobalHandouts(opts?: CrawlOptions): Promise<StorageFileItem[]> {
+  return listFilesDeep('patienthandouts', opts);
 }
 
-export async function listGlobalGuidelines(): Promise<StorageFileItem[]> {
-  return listFilesDeep('clinicalguidelines');
+export async function listGlobalGuidelines(opts?: CrawlOptions): Promise<StorageFileItem[]> {
+  return listFilesDeep('clinicalguidelines', opts);
 }
 
-export async function listGlobalBilling(): Promise<StorageFileItem[]> {
-  return listFilesDeep('medicalbilling');
+export async function listGlobalBilling(opts?: CrawlOptions): Promise<StorageFileItem[]> {
+  return listFilesDeep('medicalbilling', opts);
 }
 
 /**
  * List all resources for a given program across its 4 categories.
+ * - The per-category crawls share one limiter; their progress is reported as one combined total.
  */
-export async function listAllForProgram(programSlug: string): Promise<{
+export async function listAllForProgram(programSlug: string, opts?: CrawlOptions): Promise<{
   forms: StorageFileItem[];
   protocols: StorageFileItem[];
   resources: StorageFileItem[];
   training: StorageFileItem[];
 }> {
+  const progressFor = combineCrawlProgress(opts?.onProgress, programSlug);
+  const limiter = opts?.limiter ?? createCrawlLimiter(opts?.concurrency);
+  const withProgress = (): CrawlOptions => ({ ...opts, limiter, onProgress: progressFor() });
   const [forms, protocols, resources, training] = await Promise.all([
-    listProgramCategory(programSlug, 'forms'),
-    listProgramCategory(programSlug, 'protocols'),
-    listProgramCategory(programSlug, 'resources'),
-    listProgramCategory(programSlug, 'training'),
+    listProgramCategory(programSlug, 'forms', withProgress()),
+    listProgramCategory(programSlug, 'protocols', withProgress()),
+    listProgramCategory(programSlug, 'resources', withProgress()),
+    listProgramCategory(programSlug, 'training', withProgress()),
   ]);
   return { forms, protocols, resources, training };
 }
-
-/**
- * Simple mime/type guard helpers
- */
-export function isVideo(item: StorageFileItem): boolean {
-  if (item.mimeType && item.mimeType.startsWith('video/')) return true;
-  const lower = item.filename.toLowerCase();
-  return lower.endsWith('.mp4') || lower.endsWith('.mov') || lower.endsWith('.m4v') || lower.endsWith('.webm');
-}
-
-export function isPdf(item: StorageFileItem): boolean {
-  return item.filename.toLowerCase().endsWith('.pdf');
-}
-
-export function isSpreadsheet(item: StorageFileItem): boolean {
-  const lower = item.filename.toLowerCase();
-  return lower.endsWith('.xls') || lower.endsWith('.xlsx') || lower.endsWith('.csv');
-}
-
-export function isDoc(item: StorageFileItem): boolean {
-  const lower = item.filename.toLowerCase();
-  return lower.endsWith('.doc') || lower.endsWith('.docx');
-}
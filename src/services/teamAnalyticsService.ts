@@ -0,0 +1,275 @@
+/**
+ * Team analytics service
+ * - Purpose: Account-wide usage for the pharmacist in charge (/team): resource access per profile per
+ *   day, most-used resources, training progress per profile and program, and inactive profiles.
+ * - Access is counted from the resource events in analytics_events (views, downloads, plays).
+ * - A date range is whole local days, inclusive of both ends ("YYYY-MM-DD").
+ */
+
+import { getDataProvider } from './dataProvider';
+import { flushEvents, RESOURCE_EVENT_TYPES } from './analyticsEvents';
+import { mapEventRow, mapTrainingProgressRow } from './rowMappers';
+import { trainingModuleIdFor } from './lessonProgressService';
+import type { TrainingProgress } from './profileDashboardService';
+import type { ClinicalProgram, MemberProfile, RoleType } from '../types';
+
+/** Rows read per request (PostgREST caps responses at 1000) */
+const PAGE_SIZE = 1000;
+/** Upper bound on events read for one report */
+const MAX_EVENTS = 20_000;
+/** Entries in the most-used list */
+const TOP_RESOURCE_LIMIT = 10;
+
+export interface TeamAnalyticsRange {
+  /** First day, YYYY-MM-DD */
+  from: string;
+  /** Last day, YYYY-MM-DD */
+  to: string;
+}
+
+/**
+ * One profile's activity in the range.
+ */
+export interface TeamMemberActivity {
+  profileId: string;
+  name: string;
+  roleType: RoleType;
+  /** Resource events in the range */
+  accessCount: number;
+  /** Latest resource event at any time (not only in the range); undefined if never */
+  lastActiveAt?: string;
+}
+
+/**
+ * Resource events on one day, per profile.
+ */
+export interface DailyTeamAccess {
+  /** YYYY-MM-DD */
+  date: string;
+  total: number;
+  /** Keyed by profile id; profiles with no access that day are 0 */
+  byProfile: Record<string, number>;
+}
+
+export interface TopResource {
+  path: string;
+  name: string;
+  mimeType?: string;
+  programSlug?: string;
+  accessCount: number;
+  /** Distinct profiles that opened it */
+  profileCount: number;
+}
+
+/**
+ * Training progress of one profile in one program (not_started when there is no progress row).
+ */
+export interface TeamTrainingProgress {
+  profileId: string;
+  programSlug: string;
+  programName: string;
+  completionPercentage: number;
+  completionStatus: TrainingProgress['completionStatus'];
+  completedTime?: string;
+}
+
+export interface TeamAnalytics {
+  range: TeamAnalyticsRange;
+  /** Account profiles in the order given */
+  members: TeamMemberActivity[];
+  /** Every day of the range, oldest first */
+  accessByDay: DailyTeamAccess[];
+  topResources: TopResource[];
+  training: TeamTrainingProgress[];
+  /** Members with no access in the range, longest idle first */
+  inactive: TeamMemberActivity[];
+}
+
+/**
+ * Whether a profile can see the team analytics page (Pharmacist-PIC only).
+ */
+export function canViewTeamAnalytics(profile: Pick<MemberProfile, 'roleType'> | null | undefined): boolean {
+  return profile?.roleType === 'Pharmacist-PIC';
+}
+
+/** Local date → YYYY-MM-DD */
+export function toDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** YYYY-MM-DD → local midnight */
+function fromDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * The last `days` days up to and including today.
+ */
+export function lastDaysRange(days: number, today = new Date()): TeamAnalyticsRange {
+  const from = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1));
+  return { from: toDateKey(from), to: toDateKey(today) };
+}
+
+/** Every day in the range */
+function daysIn(range: TeamAnalyticsRange): string[] {
+  const days: string[] = [];
+  for (let d = fromDateKey(range.from); toDateKey(d) <= range.to; d.setDate(d.getDate() + 1)) {
+    days.push(toDateKey(d));
+  }
+  return days;
+}
+
+function profileName(p: MemberProfile): string {
+  return `${p.firstName} ${p.lastName}`.trim();
+}
+
+/** Resource events of the given profiles in [start, end) */
+async function listResourceEvents(profileIds: string[], start: Date, end: Date) {
+  const rows: unknown[] = [];
+  for (let offset = 0; offset < MAX_EVENTS; offset += PAGE_SIZE) {
+    const { data, error } = await getDataProvider()
+      .from('analytics_events')
+      .select('*')
+      .in('profile_id', profileIds)
+      .in('event_type', [...RESOURCE_EVENT_TYPES])
+      .gte('occurred_at', start.toISOString())
+      .lt('occurred_at', end.toISOString())
+      .order('occurred_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows.map(mapEventRow);
+}
+
+/** Latest resource event of a profile before a point in time */
+async function lastActiveBefore(profileId: string, before: Date): Promise<string | undefined> {
+  const { data, error } = await getDataProvider()
+    .from('analytics_events')
+    .select('occurred_at')
+    .eq('profile_id', profileId)
+    .in('event_type', [...RESOURCE_EVENT_TYPES])
+    .lt('occurred_at', before.toISOString())
+    .order('occurred_at', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return data?.[0]?.occurred_at;
+}
+
+/**
+ * Usage report for an account's profiles over a date range.
+ * @param profiles Active profiles of the account (profileStore.profiles)
+ * @param programs Programs to report training for (registry order)
+ */
+export async function getTeamAnalytics(
+  profiles: MemberProfile[],
+  programs: ClinicalProgram[],
+  range: TeamAnalyticsRange
+): Promise<TeamAnalytics> {
+  const days = daysIn(range);
+  const start = fromDateKey(range.from);
+  const end = fromDateKey(range.to);
+  end.setDate(end.getDate() + 1);
+  const profileIds = profiles.map((p) => p.id);
+  if (profileIds.length === 0) {
+    return { range, members: [], accessByDay: [], topResources: [], training: [], inactive: [] };
+  }
+
+  // Include this session's events that are still queued
+  await flushEvents();
+
+  const [events, progressRows] = await Promise.all([
+    listResourceEvents(profileIds, start, end),
+    getDataProvider()
+      .from('member_training_progress')
+      .select('*')
+      .in('member_profile_id', profileIds)
+      .then(({ data, error }) => {
+        if (error) throw error;
+        return data || [];
+      }),
+  ]);
+
+  // Access per profile per day
+  const byDay = new Map(days.map((d) => [d, new Map<string, number>()]));
+  const countByProfile = new Map<string, number>();
+  const lastInRange = new Map<string, string>();
+  const resources = new Map<string, TopResource & { profiles: Set<string> }>();
+  for (const e of events) {
+    const day = byDay.get(toDateKey(new Date(e.occurredAt)));
+    if (day) day.set(e.profileId, (day.get(e.profileId) ?? 0) + 1);
+    countByProfile.set(e.profileId, (countByProfile.get(e.profileId) ?? 0) + 1);
+    lastInRange.set(e.profileId, e.occurredAt);
+
+    if (!e.resourcePath) continue;
+    const name = typeof e.properties.name === 'string' ? e.properties.name : undefined;
+    const mimeType = typeof e.properties.mimeType === 'string' ? e.properties.mimeType : undefined;
+    const entry = resources.get(e.resourcePath) ?? {
+      path: e.resourcePath,
+      name: name || e.resourcePath.split('/').pop() || e.resourcePath,
+      mimeType,
+      programSlug: e.programSlug,
+      accessCount: 0,
+      profileCount: 0,
+      profiles: new Set<string>(),
+    };
+    entry.accessCount += 1;
+    entry.profiles.add(e.profileId);
+    resources.set(e.resourcePath, entry);
+  }
+
+  // Last activity: in range if any, otherwise the latest before it (one lookup per idle profile)
+  const idleIds = profileIds.filter((id) => !lastInRange.has(id));
+  const idleLast = await Promise.all(idleIds.map((id) => lastActiveBefore(id, start)));
+  const lastActive = new Map(lastInRange);
+  idleIds.forEach((id, i) => {
+    if (idleLast[i]) lastActive.set(id, idleLast[i] as string);
+  });
+
+  const members: TeamMemberActivity[] = profiles.map((p) => ({
+    profileId: p.id,
+    name: profileName(p),
+    roleType: p.roleType,
+    accessCount: countByProfile.get(p.id) ?? 0,
+    lastActiveAt: lastActive.get(p.id),
+  }));
+
+  const accessByDay: DailyTeamAccess[] = days.map((date) => {
+    const counts = byDay.get(date) as Map<string, number>;
+    const byProfile = Object.fromEntries(profileIds.map((id) => [id, counts.get(id) ?? 0]));
+    return { date, total: Array.from(counts.values()).reduce((a, b) => a + b, 0), byProfile };
+  });
+
+  const topResources = Array.from(resources.values())
+    .map(({ profiles: seen, ...r }) => ({ ...r, profileCount: seen.size }))
+    .sort((a, b) => b.accessCount - a.accessCount || b.profileCount - a.profileCount || a.name.localeCompare(b.name))
+    .slice(0, TOP_RESOURCE_LIMIT);
+
+  // One training module per program
+  const progressByKey = new Map<string, TrainingProgress>();
+  for (const row of progressRows) {
+    progressByKey.set(`${row.member_profile_id}|${row.training_module_id}`, mapTrainingProgressRow(row));
+  }
+  const training: TeamTrainingProgress[] = profiles.flatMap((p) =>
+    programs.map((program) => {
+      const progress = progressByKey.get(`${p.id}|${trainingModuleIdFor(program.slug)}`);
+      return {
+        profileId: p.id,
+        programSlug: program.slug,
+        programName: program.shortName || program.name,
+        completionPercentage: progress?.completionPercentage ?? 0,
+        completionStatus: progress?.completionStatus ?? 'not_started',
+        completedTime: progress?.completedTime,
+      };
+    })
+  );
+
+  const inactive = members
+    .filter((m) => m.accessCount === 0)
+    .sort((a, b) => (a.lastActiveAt ?? '').localeCompare(b.lastActiveAt ?? ''));
+
+  return { range, members, accessByDay, topResources, training, inactive };
+}
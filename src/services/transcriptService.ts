@@ -0,0 +1,169 @@
+/**
+ * Transcript service
+ * - Purpose: A profile's continuing-education transcript (/transcript): every completed training
+ *   module with its dates, CE hours and ACPE UAN, plus the CSV exports built from it.
+ * - CE credit comes from the program (programs.ce_hours / ce_uan / ce_technician_uan); technicians
+ *   are credited under the technician UAN, pharmacists under the pharmacist one.
+ * - The CPE Monitor file identifies the participant by NABP e-Profile ID and birth month/day
+ *   (MMDD), as CPE Monitor does; activities without a UAN for the role are left out of it.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { getTrainingProgress } from './profileDashboardService';
+import { trainingModuleIdFor } from './lessonProgressService';
+import { toCsv } from '../lib/csv';
+import type { ClinicalProgram, MemberProfile, RoleType } from '../types';
+
+/**
+ * One completed training module on the transcript.
+ */
+export interface TranscriptEntry {
+  trainingModuleId: string;
+  /** Undefined for a module whose program is no longer in the registry */
+  programSlug?: string;
+  programName: string;
+  startedAt?: string;
+  completedAt: string;
+  /** CE contact hours (null = no CE credit) */
+  ceHours: number | null;
+  /** ACPE UAN for the profile's role (null = not accredited for it) */
+  uan: string | null;
+  /** Verification code, once a certificate was issued */
+  certificateCode?: string;
+}
+
+/** CPE Monitor participant type: P = pharmacist, T = technician */
+export type ParticipantType = 'P' | 'T';
+
+export function participantTypeFor(roleType: RoleType): ParticipantType {
+  return roleType === 'Pharmacy Technician' ? 'T' : 'P';
+}
+
+/**
+ * The UAN a profile with this role is credited under.
+ */
+export function ceUanFor(program: ClinicalProgram, roleType: RoleType): string | null {
+  return participantTypeFor(roleType) === 'T' ? program.ceTechnicianUan : program.ceUan;
+}
+
+/**
+ * Completed modules for a profile, most recent first.
+ */
+export async function getTranscript(profile: MemberProfile, programs: ClinicalProgram[]): Promise<TranscriptEntry[]> {
+  const [progress, certificates] = await Promise.all([
+    getTrainingProgress(profile.id),
+    getDataProvider()
+      .from('training_certificates')
+      .select('training_module_id, verification_code, revoked_at')
+      .eq('member_profile_id', profile.id),
+  ]);
+  if (certificates.error) throw certificates.error;
+
+  const codeByModule = new Map<string, string>();
+  for (const row of certificates.data || []) {
+    if (!row.revoked_at) codeByModule.set(String(row.training_module_id), String(row.verification_code));
+  }
+  const programByModule = new Map(programs.map((p) => [trainingModuleIdFor(p.slug), p]));
+
+  return progress
+    .filter((p) => p.completionStatus === 'completed' && p.completedTime)
+    .map((p) => {
+      const program = programByModule.get(p.trainingModuleId);
+      return {
+        trainingModuleId: p.trainingModuleId,
+        programSlug: program?.slug,
+        programName: program?.name ?? p.moduleName,
+        startedAt: p.startTime,
+        completedAt: p.completedTime as string,
+        ceHours: program?.ceHours ?? null,
+        uan: program ? ceUanFor(program, profile.roleType) : null,
+        certificateCode: codeByModule.get(p.trainingModuleId),
+      };
+    })
+    .sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+}
+
+/**
+ * Total CE hours; `accredited` counts only entries with a UAN.
+ */
+export function transcriptHours(entries: TranscriptEntry[]): { total: number; accredited: number } {
+  let total = 0;
+  let accredited = 0;
+  for (const e of entries) {
+    total += e.ceHours ?? 0;
+    if (e.uan) accredited += e.ceHours ?? 0;
+  }
+  return { total, accredited };
+}
+
+/** Entries that go into the CPE Monitor file */
+export function cpeMonitorEntries(entries: TranscriptEntry[]): TranscriptEntry[] {
+  return entries.filter((e) => e.uan && e.ceHours);
+}
+
+/**
+ * What keeps a profile from producing a CPE Monitor file (empty when ready).
+ */
+export function cpeMonitorIssues(profile: MemberProfile): string[] {
+  const issues: string[] = [];
+  if (!/^\d{6,7}$/.test(profile.nabpEprofileId?.trim() ?? '')) issues.push('NABP e-Profile ID is missing');
+  if (!birthMmdd(profile)) issues.push('Birth month and day are missing');
+  return issues;
+}
+
+/** Birth month/day as MMDD, or null when incomplete */
+function birthMmdd(profile: MemberProfile): string | null {
+  const month = Number(profile.dobMonth);
+  const day = Number(profile.dobDay);
+  if (!(month >= 1 && month <= 12 && day >= 1 && day <= 31)) return null;
+  return `${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
+}
+
+/** ISO timestamp → local MM/DD/YYYY */
+function formatUsDate(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+}
+
+/**
+ * The full transcript as CSV.
+ */
+export function transcriptCsv(profile: MemberProfile, entries: TranscriptEntry[]): string {
+  const name = `${profile.firstName} ${profile.lastName}`.trim();
+  return toCsv(
+    ['Name', 'Role', 'Program', 'Started', 'Completed', 'CE Hours', 'UAN', 'Certificate Code'],
+    entries.map((e) => [
+      name,
+      profile.roleType,
+      e.programName,
+      e.startedAt ? formatUsDate(e.startedAt) : '',
+      formatUsDate(e.completedAt),
+      e.ceHours,
+      e.uan,
+      e.certificateCode,
+    ])
+  );
+}
+
+/**
+ * CPE Monitor-style upload: one row per accredited activity. Check cpeMonitorIssues first; rows
+ * are built with blank identifiers otherwise.
+ */
+export function cpeMonitorCsv(profile: MemberProfile, entries: TranscriptEntry[]): string {
+  const eprofileId = profile.nabpEprofileId?.trim() ?? '';
+  const dob = birthMmdd(profile) ?? '';
+  const participantType = participantTypeFor(profile.roleType);
+  return toCsv(
+    ['NABP e-Profile ID', 'Birth Date (MMDD)', 'UAN', 'Activity Title', 'Date of Participation', 'Contact Hours', 'Participant Type'],
+    cpeMonitorEntries(entries).map((e) => [
+      eprofileId,
+      dob,
+      e.uan,
+      e.programName,
+      formatUsDate(e.completedAt),
+      e.ceHours,
+      participantType,
+    ])
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * Trending service
+ * - Purpose: What peer pharmacies find useful, from the get_trending_resources RPC
+ *   (trending_resources_schema.sql). Only anonymous totals come back: uses and pharmacy counts per file.
+ * - Results are cached for CACHE_TTL_MS per query, since the Dashboard and Resources page ask often and
+ *   the numbers move slowly.
+ * - Files no longer in the catalog are dropped from lists.
+ */
+
+import { getDataProvider } from './dataProvider';
+import { getCatalogItemsByPath } from './storageCatalog';
+import type { StorageFileItem } from './supabaseStorage';
+
+/**
+ * A file with its network-wide usage.
+ */
+export interface TrendingResource extends StorageFileItem {
+  /** Uses in the window, across all pharmacies */
+  accessCount: number;
+  /** Distinct pharmacies that used it */
+  pharmacyCount: number;
+}
+
+interface TrendingQuery {
+  days: number;
+  programSlug?: string;
+  eventTypes?: string[];
+  limit: number;
+}
+
+interface TrendingRow {
+  resource_path: string;
+  access_count: number;
+  pharmacy_count: number;
+}
+
+const CACHE_TTL_MS = 10 * 60_000;
+/** Rows fetched when ranking a whole list (Resources "Popular" sort) */
+const POPULARITY_LIMIT = 500;
+
+const cache = new Map<string, { at: number; rows: Promise<TrendingRow[]> }>();
+
+/** Call the RPC (cached; a failed call is not cached) */
+function fetchTrending(query: TrendingQuery): Promise<TrendingRow[]> {
+  const key = JSON.stringify(query);
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.rows;
+
+  const rows = getDataProvider()
+    .rpc<TrendingRow[]>('get_trending_resources', {
+      p_days: query.days,
+      p_program_slug: query.programSlug ?? null,
+      ...(query.eventTypes && { p_event_types: query.eventTypes }),
+      p_limit: query.limit,
+    })
+    .then(({ data, error }) => {
+      if (error) throw error;
+      return (data || []).map((r) => ({
+        resource_path: String(r.resource_path),
+        access_count: Number(r.access_count) || 0,
+        pharmacy_count: Number(r.pharmacy_count) || 0,
+      }));
+    });
+  cache.set(key, { at: Date.now(), rows });
+  rows.catch(() => cache.delete(key));
+  return rows;
+}
+
+/** RPC rows → catalog files, in rank order */
+async function toResources(rows: TrendingRow[]): Promise<TrendingResource[]> {
+  const files = await getCatalogItemsByPath(rows.map((r) => r.resource_path));
+  return rows.flatMap((r) => {
+    const file = files.get(r.resource_path);
+    return file ? [{ ...file, accessCount: r.access_count, pharmacyCount: r.pharmacy_count }] : [];
+  });
+}
+
+/**
+ * Files most used across member pharmacies in the last `days` (default: this week).
+ */
+export async function getTrendingResources(opts?: { days?: number; limit?: number }): Promise<TrendingResource[]> {
+  return toResources(await fetchTrending({ days: opts?.days ?? 7, limit: opts?.limit ?? 10 }));
+}
+
+/**
+ * A program's most downloaded files across member pharmacies.
+ */
+export async function getMostDownloaded(
+  programSlug: string,
+  opts?: { days?: number; limit?: number }
+): Promise<TrendingResource[]> {
+  const rows = await fetchTrending({
+    days: opts?.days ?? 90,
+    programSlug,
+    eventTypes: ['resource_downloaded'],
+    limit: opts?.limit ?? 10,
+  });
+  return toResources(rows);
+}
+
+/**
+ * Network-wide popularity rank per file path over the last `days` (0 = most popular), for sorting a
+ * list. Files below the anonymity floor are absent and sort after ranked ones.
+ */
+export async function getPopularityRanks(days = 30): Promise<Map<string, number>> {
+  const rows = await fetchTrending({ days, limit: POPULARITY_LIMIT });
+  return new Map(rows.map((r, i) => [r.resource_path, i]));
+}
@@ -1,12 +1,15 @@
 /**
  * Authentication state management store using Zustand.
- * - Manages the account session and account data from Supabase Auth.
+ * - Manages the account session and account data from the DataProvider's auth (Supabase Auth or demo stand-in).
  * - Fetches and stores the corresponding account profile from the public.accounts table.
  * - Exposes actions for login, logout, and checking the session on startup.
  */
 import { create } from 'zustand';
 import type { Session, User } from '@supabase/supabase-js';
-import { supabase } from '@/services/supabase';
+import { getDataProvider } from '@/services/dataProvider';
+import { invalidateFileUrl } from '@/services/signedUrlService';
+import { invalidateCatalogCache } from '@/services/catalogCache';
+import { mapAccountRow } from '@/services/rowMappers';
 import type { Account } from '@/types';
 
 // --- State and Actions Interface ---
@@ -22,25 +25,6 @@ interface AuthState {
   checkSession: () => Promise<void>;
 }
 
-/**
- * Maps a database row (snake_case) to the Account UI type (camelCase).
- */
-function mapRowToAccount(row: any): Account {
-  return {
-    id: row.id,
-    email: row.email,
-    pharmacyName: row.pharmacy_name,
-    pharmacyPhone: row.pharmacy_phone ?? null,
-    subscriptionStatus: (row.subscription_status || 'inactive') as 'active' | 'inactive',
-    createdAt: row.created_at,
-    updatedAt: row.updated_at ?? null,
-    address1: row.address1 ?? null,
-    city: row.city ?? null,
-    state: row.state ?? null,
-    zipcode: row.zipcode ?? null,
-  };
-}
-
 // --- Zustand Store Definition ---
 export const useAuthStore = create<AuthState>((set) => ({
   // --- Initial State ---
@@ -55,9 +39,10 @@ export const useAuthStore = create<AuthState>((set) => ({
    * Checks for an active session on app startup and hydrates the store.
    */
   checkSession: async () => {
-    const { data: { session } } = await supabase.auth.getSession();
+    const provider = getDataProvider();
+    const session = await provider.auth.getSession();
     if (session) {
-      const { data: accountRow } = await supabase
+      const { data: accountRow } = await provider
         .from('accounts')
         .select('*')
         .eq('id', session.user.id)
@@ -66,7 +51,7 @@ export const useAuthStore = create<AuthState>((set) => ({
       set({
         session,
         user: session.user,
-        account: accountRow ? mapRowToAccount(accountRow) : null,
+        account: accountRow ? mapAccountRow(accountRow) : null,
         isAuthenticated: true,
       });
     }
@@ -76,29 +61,30 @@ export const useAuthStore = create<AuthState>((set) => ({
    * Signs in an account with email and password.
    */
   login: async (email, password) => {
-    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
-    if (error) throw error;
-    if (data.session) {
-      const { data: accountRow } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('id', data.session.user.id)
-        .single();
+    const provider = getDataProvider();
+    const session = await provider.auth.signInWithPassword(email, password);
+    const { data: accountRow } = await provider
+      .from('accounts')
+      .select('*')
+      .eq('id', session.user.id)
+      .single();
 
-      set({
-        session: data.session,
-        user: data.user,
-        account: accountRow ? mapRowToAccount(accountRow) : null,
-        isAuthenticated: true,
-      });
-    }
+    set({
+      session,
+      user: session.user,
+      account: accountRow ? mapAccountRow(accountRow) : null,
+      isAuthenticated: true,
+    });
   },
 
   /**
    * Signs out the current account and clears the state.
    */
   logout: async () => {
-    await supabase.auth.signOut();
+    await getDataProvider().auth.signOut();
+    invalidateFileUrl();
+    // Cached catalog lists must not outlive the account (shared pharmacy computers)
+    await invalidateCatalogCache();
     set({
       session: null,
       user: null,
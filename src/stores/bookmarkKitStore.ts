@@ -0,0 +1,131 @@
+/**
+ * Bookmark Kit Store
+ * - Client-side list of the account's shared bookmark kits (bookmarkKitService).
+ * - Every profile sees published kits; PIC profiles also load drafts and can edit (canManageKits).
+ * - Reloading the same account and view is a no-op unless forced.
+ */
+
+import { create } from 'zustand';
+import {
+  addKitItem,
+  createKit,
+  deleteKit,
+  listKits,
+  removeKitItem,
+  updateKit,
+  type BookmarkKit,
+} from '@/services/bookmarkKitService';
+import type { StorageFileItem } from '@/services/supabaseStorage';
+
+interface BookmarkKitState {
+  /** Account the kits belong to */
+  accountId: string | null;
+  /** Whether drafts were loaded (PIC view) */
+  includeDrafts: boolean;
+  /** In display order */
+  kits: BookmarkKit[];
+  loading: boolean;
+
+  // Actions
+  loadKits: (accountId: string, opts?: { includeDrafts?: boolean; force?: boolean }) => Promise<void>;
+  createKit: (accountId: string, profileId: string, name: string) => Promise<BookmarkKit>;
+  updateKit: (kitId: string, patch: { name?: string; description?: string; isPublished?: boolean }) => Promise<void>;
+  deleteKit: (kitId: string) => Promise<void>;
+  /** Add/remove a file in a kit */
+  setInKit: (kitId: string, resource: StorageFileItem, include: boolean) => Promise<void>;
+  clearKits: () => void;
+}
+
+export const useBookmarkKitStore = create<BookmarkKitState>((set, get) => {
+  /** Replace one kit in the list */
+  const patchKit = (kitId: string, patch: (k: BookmarkKit) => BookmarkKit) => {
+    set({ kits: get().kits.map((k) => (k.id === kitId ? patch(k) : k)) });
+  };
+
+  return {
+    accountId: null,
+    includeDrafts: false,
+    kits: [],
+    loading: false,
+
+    loadKits: async (accountId, opts) => {
+      const includeDrafts = !!opts?.includeDrafts;
+      const same = get().accountId === accountId && get().includeDrafts === includeDrafts;
+      if (!opts?.force && same) return;
+      if (get().accountId !== accountId) set({ kits: [] });
+      set({ accountId, includeDrafts });
+      try {
+        set({ loading: true });
+        const kits = await listKits(accountId, { includeDrafts });
+        // Ignore a response for a view that is no longer current
+        if (get().accountId !== accountId || get().includeDrafts !== includeDrafts) return;
+        set({ kits });
+      } catch (error) {
+        console.error('Failed to load bookmark kits:', error);
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    createKit: async (accountId, profileId, name) => {
+      const sortOrder = get().kits.reduce((max, k) => Math.max(max, k.sortOrder + 1), 0);
+      try {
+        const created = await createKit(accountId, profileId, name, sortOrder);
+        if (get().accountId === accountId) set({ kits: [...get().kits, created] });
+        return created;
+      } catch (error) {
+        console.error('Failed to create bookmark kit:', error);
+        throw error;
+      }
+    },
+
+    updateKit: async (kitId, patch) => {
+      try {
+        await updateKit(kitId, patch);
+        patchKit(kitId, (k) => ({
+          ...k,
+          ...(patch.name !== undefined && { name: patch.name.trim() }),
+          ...(patch.description !== undefined && { description: patch.description.trim() || undefined }),
+          ...(patch.isPublished !== undefined && { isPublished: patch.isPublished }),
+        }));
+      } catch (error) {
+        console.error('Failed to update bookmark kit:', error);
+        throw error;
+      }
+    },
+
+    deleteKit: async (kitId) => {
+      try {
+        await deleteKit(kitId);
+        set({ kits: get().kits.filter((k) => k.id !== kitId) });
+      } catch (error) {
+        console.error('Failed to delete bookmark kit:', error);
+        throw error;
+      }
+    },
+
+    setInKit: async (kitId, resource, include) => {
+      const path = resource.path.replace(/^\/+/, '');
+      const kit = get().kits.find((k) => k.id === kitId);
+      if (!kit) return;
+      const present = kit.resources.some((r) => r.path === path);
+      if (present === include) return;
+      try {
+        if (include) {
+          await addKitItem(kitId, resource, kit.resources.length);
+          patchKit(kitId, (k) => ({ ...k, resources: [...k.resources, { ...resource, path, inCatalog: true }] }));
+        } else {
+          await removeKitItem(kitId, path);
+          patchKit(kitId, (k) => ({ ...k, resources: k.resources.filter((r) => r.path !== path) }));
+        }
+      } catch (error) {
+        console.error('Failed to update bookmark kit:', error);
+        throw error;
+      }
+    },
+
+    clearKits: () => {
+      set({ accountId: null, includeDrafts: false, kits: [] });
+    },
+  };
+});
@@ -0,0 +1,463 @@
+/**
+ * Bookmark Store
+ * - Single client-side source of the current profile's bookmarks (cards, panel, dashboard, Bookmarks page).
+ * - Reads and writes go through bookmarkService; the store keeps the joined list plus a path set for
+ *   quick "is this bookmarked" checks, and the profile's collections.
+ * - Loading a different profile replaces the list; reloading the same profile is a no-op unless forced.
+ * - Adds/removes apply immediately; a server rejection rolls back with a toast, a network failure (or
+ *   being offline) queues the change in bookmarkQueue and it is replayed when the browser comes back online.
+ * - A shared kit can be copied in: its files are bookmarked and filed in a collection named after the kit.
+ */
+
+import { create } from 'zustand';
+import { toast } from 'sonner';
+import {
+  addBookmark,
+  addBookmarks,
+  addToCollection,
+  createCollection,
+  deleteCollection,
+  listBookmarks,
+  listCollections,
+  relinkBookmark,
+  removeBookmark,
+  removeBookmarks,
+  removeFromCollection,
+  renameCollection,
+  reorderCollection,
+  updateBookmarkNote,
+  type BookmarkCollection,
+  type BookmarkedResource,
+} from '@/services/bookmarkService';
+import {
+  enqueueBookmarkChange,
+  getQueuedBookmarkChanges,
+  isNetworkError,
+  isOffline,
+  replayBookmarkQueue,
+  type QueuedBookmarkChange,
+} from '@/services/bookmarkQueue';
+import { trackEvent } from '@/services/analyticsEvents';
+import type { BookmarkKit } from '@/services/bookmarkKitService';
+import type { StorageFileItem } from '@/services/supabaseStorage';
+
+interface BookmarkState {
+  /** Profile the list belongs to */
+  profileId: string | null;
+  /** Newest first */
+  bookmarks: BookmarkedResource[];
+  bookmarkedPaths: Set<string>;
+  /** In display order */
+  collections: BookmarkCollection[];
+  loading: boolean;
+
+  // Actions
+  isBookmarked: (resourcePath: string) => boolean;
+  loadBookmarks: (profileId: string, opts?: { force?: boolean }) => Promise<void>;
+  toggleBookmark: (profileId: string, resource: StorageFileItem) => Promise<void>;
+  removeBookmark: (profileId: string, resourcePath: string) => Promise<void>;
+  removeBookmarks: (profileId: string, resourcePaths: string[]) => Promise<void>;
+  saveNote: (bookmarkId: string, note: string) => Promise<void>;
+  /** Point a bookmark whose file moved at the file's new location */
+  relinkBookmark: (profileId: string, bookmarkId: string, file: StorageFileItem) => Promise<void>;
+  createCollection: (profileId: string, name: string) => Promise<BookmarkCollection>;
+  renameCollection: (collectionId: string, name: string) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+  /** Add/remove a file in a collection (adding bookmarks it first if needed) */
+  setInCollection: (profileId: string, collectionId: string, resource: StorageFileItem, include: boolean) => Promise<void>;
+  /** Reorder a collection (applied immediately, reverted if saving fails) */
+  reorderCollection: (collectionId: string, bookmarkIds: string[]) => Promise<void>;
+  /**
+   * Bookmark every file in a shared kit and file them in a same-named collection.
+   * @returns How many files were not bookmarked before, and the collection used
+   */
+  copyKit: (profileId: string, kit: BookmarkKit) => Promise<{ added: number; collectionId: string }>;
+  /** Replay changes queued while offline, then refresh the current profile */
+  syncPending: () => Promise<void>;
+  clearBookmarks: () => void;
+}
+
+/** Path set for a list */
+function pathsOf(bookmarks: BookmarkedResource[]): Set<string> {
+  return new Set(bookmarks.map((b) => b.path));
+}
+
+/** Normalize a bucket path the way bookmarks store it */
+function normalizePath(path: string): string {
+  return path.replace(/^\/+/, '');
+}
+
+/** Id prefix of bookmarks that exist only locally (request in flight or queued offline) */
+const PENDING_ID_PREFIX = 'pending:';
+
+/**
+ * True while a bookmark has not been saved to the server yet.
+ */
+export function isPendingBookmark(bookmark: Pick<BookmarkedResource, 'id'>): boolean {
+  return bookmark.id.startsWith(PENDING_ID_PREFIX);
+}
+
+/** Local stand-in for a bookmark being saved */
+function pendingBookmark(resource: StorageFileItem): BookmarkedResource {
+  const path = normalizePath(resource.path);
+  return {
+    ...resource,
+    path,
+    id: `${PENDING_ID_PREFIX}${path}`,
+    bookmarkedAt: new Date().toISOString(),
+    inCatalog: true,
+  };
+}
+
+/** Stand-in built from a queued add (after a reload) */
+function pendingFromQueue(change: QueuedBookmarkChange): BookmarkedResource {
+  const filename = change.path.split('/').pop() || change.path;
+  const item = pendingBookmark({ path: change.path, title: change.name || filename, filename, url: '' });
+  return { ...item, bookmarkedAt: change.queuedAt };
+}
+
+/** Apply a profile's queued changes on top of a server list */
+function withQueuedChanges(bookmarks: BookmarkedResource[], profileId: string): BookmarkedResource[] {
+  let out = bookmarks;
+  for (const change of getQueuedBookmarkChanges(profileId)) {
+    if (change.op === 'remove') out = out.filter((b) => b.path !== change.path);
+    else if (!out.some((b) => b.path === change.path)) out = [pendingFromQueue(change), ...out];
+  }
+  return out;
+}
+
+/** Show the "saved offline" notice once per offline stretch */
+let offlineNoticeShown = false;
+
+/** Queue a change that could not reach the server */
+function queueChange(op: QueuedBookmarkChange['op'], profileId: string, path: string, name?: string) {
+  enqueueBookmarkChange({ op, profileId, path, name });
+  if (!offlineNoticeShown) {
+    offlineNoticeShown = true;
+    toast('You’re offline. Bookmark changes will sync when you reconnect.');
+  }
+}
+
+/** Requests per path run one after another so a quick add → remove reaches the server in order */
+const pathChains = new Map<string, Promise<void>>();
+
+function runInOrder(path: string, task: () => Promise<void>): Promise<void> {
+  const next = (pathChains.get(path) ?? Promise.resolve()).then(task);
+  const tail = next.catch(() => undefined);
+  pathChains.set(path, tail);
+  tail.then(() => {
+    if (pathChains.get(path) === tail) pathChains.delete(path);
+  });
+  return next;
+}
+
+export const useBookmarkStore = create<BookmarkState>((set, get) => {
+  /** Replace one collection in the list */
+  const patchCollection = (collectionId: string, patch: (c: BookmarkCollection) => BookmarkCollection) => {
+    set({ collections: get().collections.map((c) => (c.id === collectionId ? patch(c) : c)) });
+  };
+
+  /** Set the list (keeps the path set in step) */
+  const setBookmarks = (bookmarks: BookmarkedResource[]) => {
+    set({ bookmarks, bookmarkedPaths: pathsOf(bookmarks) });
+  };
+
+  /**
+   * Drop bookmarks from the list and from every collection.
+   * @returns What was removed, for rollback
+   */
+  const dropPaths = (paths: Set<string>) => {
+    const removed = get().bookmarks.filter((b) => paths.has(b.path));
+    const removedIds = new Set(removed.map((b) => b.id));
+    const previousCollections = get().collections.filter((c) => c.bookmarkIds.some((id) => removedIds.has(id)));
+    setBookmarks(get().bookmarks.filter((b) => !paths.has(b.path)));
+    set({
+      collections: get().collections.map((c) =>
+        previousCollections.includes(c) ? { ...c, bookmarkIds: c.bookmarkIds.filter((id) => !removedIds.has(id)) } : c
+      ),
+    });
+    return { removed, previousCollections };
+  };
+
+  /** Undo dropPaths after a failed removal */
+  const restoreDropped = ({ removed, previousCollections }: ReturnType<typeof dropPaths>) => {
+    const present = get().bookmarkedPaths;
+    const restored = [...get().bookmarks, ...removed.filter((b) => !present.has(b.path))];
+    setBookmarks(restored.sort((a, b) => b.bookmarkedAt.localeCompare(a.bookmarkedAt)));
+    const previous = new Map(previousCollections.map((c) => [c.id, c.bookmarkIds]));
+    set({ collections: get().collections.map((c) => (previous.has(c.id) ? { ...c, bookmarkIds: previous.get(c.id)! } : c)) });
+  };
+
+  return {
+    profileId: null,
+    bookmarks: [],
+    bookmarkedPaths: new Set(),
+    collections: [],
+    loading: false,
+
+    isBookmarked: (resourcePath: string) => {
+      return get().bookmarkedPaths.has(normalizePath(resourcePath));
+    },
+
+    loadBookmarks: async (profileId, opts) => {
+      if (!opts?.force && get().profileId === profileId) return;
+      if (get().profileId !== profileId) {
+        set({ profileId, bookmarks: [], bookmarkedPaths: new Set(), collections: [] });
+      }
+      try {
+        set({ loading: true });
+        if (!isOffline() && getQueuedBookmarkChanges(profileId).length) await replayBookmarkQueue();
+        const [listed, collections] = await Promise.all([listBookmarks(profileId), listCollections(profileId)]);
+        // Ignore a response for a profile that is no longer current
+        if (get().profileId !== profileId) return;
+        const bookmarks = withQueuedChanges(listed, profileId);
+        // Collection items of deleted bookmarks (no cascade in the demo provider) are skipped
+        const ids = new Set(bookmarks.map((b) => b.id));
+        setBookmarks(bookmarks);
+        set({ collections: collections.map((c) => ({ ...c, bookmarkIds: c.bookmarkIds.filter((id) => ids.has(id)) })) });
+      } catch (error) {
+        console.error('Failed to load bookmarks:', error);
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    toggleBookmark: async (profileId, resource) => {
+      if (get().isBookmarked(resource.path)) {
+        await get().removeBookmark(profileId, resource.path);
+        return;
+      }
+      const pending = pendingBookmark(resource);
+      const { path } = pending;
+      const name = resource.title || resource.filename;
+      setBookmarks([pending, ...get().bookmarks]);
+      trackEvent(profileId, 'bookmark_added', { path, name });
+
+      await runInOrder(path, async () => {
+        if (isOffline()) {
+          queueChange('add', profileId, path, name);
+          return;
+        }
+        try {
+          const added = await addBookmark(profileId, resource);
+          // Swap in the saved row unless the file was unbookmarked meanwhile (that removal is queued next)
+          if (get().profileId !== profileId) return;
+          setBookmarks(get().bookmarks.map((b) => (b.path === path && isPendingBookmark(b) ? added : b)));
+        } catch (error) {
+          if (isNetworkError(error)) {
+            queueChange('add', profileId, path, name);
+            return;
+          }
+          console.error('Failed to add bookmark:', error);
+          if (get().profileId === profileId) setBookmarks(get().bookmarks.filter((b) => b.id !== pending.id));
+          toast.error('Could not save the bookmark. Please try again.');
+        }
+      });
+    },
+
+    removeBookmark: async (profileId, resourcePath) => {
+      const path = normalizePath(resourcePath);
+      const dropped = dropPaths(new Set([path]));
+      if (!dropped.removed.length) return;
+
+      await runInOrder(path, async () => {
+        if (isOffline()) {
+          queueChange('remove', profileId, path);
+          return;
+        }
+        try {
+          await removeBookmark(profileId, path);
+        } catch (error) {
+          if (isNetworkError(error)) {
+            queueChange('remove', profileId, path);
+            return;
+          }
+          console.error('Failed to remove bookmark:', error);
+          if (get().profileId === profileId) restoreDropped(dropped);
+          toast.error('Could not remove the bookmark. Please try again.');
+        }
+      });
+    },
+
+    removeBookmarks: async (profileId, resourcePaths) => {
+      const paths = Array.from(new Set(resourcePaths.map(normalizePath)));
+      const dropped = dropPaths(new Set(paths));
+      if (!dropped.removed.length) return;
+
+      if (isOffline()) {
+        paths.forEach((path) => queueChange('remove', profileId, path));
+        return;
+      }
+      try {
+        await removeBookmarks(profileId, paths);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          paths.forEach((path) => queueChange('remove', profileId, path));
+          return;
+        }
+        console.error('Failed to remove bookmarks:', error);
+        if (get().profileId === profileId) restoreDropped(dropped);
+        toast.error(`Could not remove ${paths.length === 1 ? 'the bookmark' : `${paths.length} bookmarks`}. Please try again.`);
+      }
+    },
+
+    saveNote: async (bookmarkId, note) => {
+      if (bookmarkId.startsWith(PENDING_ID_PREFIX)) {
+        toast.error('This bookmark hasn’t synced yet. Add a note once you’re back online.');
+        return;
+      }
+      try {
+        await updateBookmarkNote(bookmarkId, note);
+        set({
+          bookmarks: get().bookmarks.map((b) => (b.id === bookmarkId ? { ...b, note: note.trim() || undefined } : b)),
+        });
+      } catch (error) {
+        console.error('Failed to save bookmark note:', error);
+        throw error;
+      }
+    },
+
+    relinkBookmark: async (profileId, bookmarkId, file) => {
+      const bookmark = get().bookmarks.find((b) => b.id === bookmarkId);
+      if (!bookmark) return;
+      const path = normalizePath(file.path);
+      // Already bookmarked at the new path: the stale bookmark is redundant
+      if (get().isBookmarked(path)) {
+        await get().removeBookmark(profileId, bookmark.path);
+        return;
+      }
+      try {
+        await relinkBookmark(bookmarkId, file);
+        if (get().profileId !== profileId) return;
+        setBookmarks(
+          get().bookmarks.map((b) =>
+            b.id === bookmarkId
+              ? { ...file, path, id: b.id, bookmarkedAt: b.bookmarkedAt, note: b.note, inCatalog: true }
+              : b
+          )
+        );
+      } catch (error) {
+        console.error('Failed to relink bookmark:', error);
+        throw error;
+      }
+    },
+
+    createCollection: async (profileId, name) => {
+      const sortOrder = get().collections.reduce((max, c) => Math.max(max, c.sortOrder + 1), 0);
+      try {
+        const created = await createCollection(profileId, name, sortOrder);
+        if (get().profileId === profileId) set({ collections: [...get().collections, created] });
+        return created;
+      } catch (error) {
+        console.error('Failed to create collection:', error);
+        throw error;
+      }
+    },
+
+    renameCollection: async (collectionId, name) => {
+      try {
+        await renameCollection(collectionId, name);
+        patchCollection(collectionId, (c) => ({ ...c, name: name.trim() }));
+      } catch (error) {
+        console.error('Failed to rename collection:', error);
+        throw error;
+      }
+    },
+
+    deleteCollection: async (collectionId) => {
+      try {
+        await deleteCollection(collectionId);
+        set({ collections: get().collections.filter((c) => c.id !== collectionId) });
+      } catch (error) {
+        console.error('Failed to delete collection:', error);
+        throw error;
+      }
+    },
+
+    setInCollection: async (profileId, collectionId, resource, include) => {
+      const path = normalizePath(resource.path);
+      try {
+        let bookmark = get().bookmarks.find((b) => b.path === path);
+        if (!include) {
+          if (!bookmark) return;
+          const bookmarkId = bookmark.id;
+          await removeFromCollection(collectionId, bookmarkId);
+          patchCollection(collectionId, (c) => ({ ...c, bookmarkIds: c.bookmarkIds.filter((id) => id !== bookmarkId) }));
+          return;
+        }
+
+        if (!bookmark) {
+          await get().toggleBookmark(profileId, resource);
+          bookmark = get().bookmarks.find((b) => b.path === path);
+          if (!bookmark) return;
+        }
+        if (isPendingBookmark(bookmark)) {
+          toast.error('Bookmarked offline. Add it to a collection once you’re back online.');
+          return;
+        }
+        const bookmarkId = bookmark.id;
+        const collection = get().collections.find((c) => c.id === collectionId);
+        if (!collection || collection.bookmarkIds.includes(bookmarkId)) return;
+        await addToCollection(collectionId, bookmarkId, collection.bookmarkIds.length);
+        patchCollection(collectionId, (c) => ({ ...c, bookmarkIds: [...c.bookmarkIds, bookmarkId] }));
+      } catch (error) {
+        console.error('Failed to update collection:', error);
+        throw error;
+      }
+    },
+
+    reorderCollection: async (collectionId, bookmarkIds) => {
+      const previous = get().collections.find((c) => c.id === collectionId)?.bookmarkIds;
+      if (!previous) return;
+      patchCollection(collectionId, (c) => ({ ...c, bookmarkIds }));
+      try {
+        await reorderCollection(collectionId, bookmarkIds);
+      } catch (error) {
+        console.error('Failed to reorder collection:', error);
+        patchCollection(collectionId, (c) => ({ ...c, bookmarkIds: previous }));
+        throw error;
+      }
+    },
+
+    copyKit: async (profileId, kit) => {
+      try {
+        const added = kit.resources.filter((r) => !get().isBookmarked(r.path)).length;
+        const saved = await addBookmarks(profileId, kit.resources);
+        const collection =
+          get().collections.find((c) => c.name.trim().toLowerCase() === kit.name.trim().toLowerCase()) ??
+          (await get().createCollection(profileId, kit.name));
+        const newIds = saved.map((b) => b.id).filter((id) => !collection.bookmarkIds.includes(id));
+        if (newIds.length) await reorderCollection(collection.id, [...collection.bookmarkIds, ...newIds]);
+        await get().loadBookmarks(profileId, { force: true });
+        return { added, collectionId: collection.id };
+      } catch (error) {
+        console.error('Failed to copy bookmark kit:', error);
+        throw error;
+      }
+    },
+
+    syncPending: async () => {
+      if (!getQueuedBookmarkChanges().length) return;
+      const { applied, failed, remaining } = await replayBookmarkQueue();
+      if (!remaining) offlineNoticeShown = false;
+      if (failed.length) {
+        toast.error(`${failed.length} bookmark ${failed.length === 1 ? 'change' : 'changes'} could not be saved.`);
+      }
+      const profileId = get().profileId;
+      if (profileId && [...applied, ...failed].some((c) => c.profileId === profileId)) {
+        await get().loadBookmarks(profileId, { force: true });
+      }
+    },
+
+    clearBookmarks: () => {
+      set({ profileId: null, bookmarks: [], bookmarkedPaths: new Set(), collections: [] });
+    },
+  };
+});
+
+// Replay queued changes when connectivity returns
+if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+  window.addEventListener('online', () => {
+    useBookmarkStore.getState().syncPending();
+  });
+}
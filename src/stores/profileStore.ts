@@ -1,12 +1,13 @@
 /**
- * Profile Store (Supabase version)
+ * Profile Store (DataProvider-backed)
  * - Manages the current selected member profile for the authenticated account
  * - Stores profile selection in sessionStorage for the current session
  * - All user activity tracking is done at the profile level
  */
 
 import { create } from 'zustand';
-import { supabase } from '@/services/supabase';
+import { getDataProvider } from '@/services/dataProvider';
+import { mapProfileRow } from '@/services/rowMappers';
 import type { MemberProfile } from '@/types';
 
 interface ProfileState {
@@ -48,27 +49,6 @@ function loadCurrentProfile(): MemberProfile | null {
   }
 }
 
-// Map database row to MemberProfile type
-function mapRowToProfile(row: any): MemberProfile {
-  return {
-    id: row.id,
-    accountId: row.member_account_id,
-    roleType: row.role_type,
-    firstName: row.first_name,
-    lastName: row.last_name,
-    phoneNumber: row.phone_number,
-    profileEmail: row.profile_email,
-    dobMonth: row.dob_month,
-    dobDay: row.dob_day,
-    dobYear: row.dob_year,
-    licenseNumber: row.license_number,
-    nabpEprofileId: row.nabp_eprofile_id,
-    isActive: row.is_active,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
-}
-
 export const useProfileStore = create<ProfileState>((set, get) => ({
   currentProfile: loadCurrentProfile(),
   profiles: [],
@@ -83,7 +63,7 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
     try {
       set({ loading: true });
       
-      const { data, error } = await supabase
+      const { data, error } = await getDataProvider()
         .from('member_profiles')
         .select('*')
         .eq('member_account_id', accountId)
@@ -92,7 +72,7 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
 
       if (error) throw error;
 
-      const profiles = (data || []).map(mapRowToProfile);
+      const profiles = (data || []).map(mapProfileRow);
       set({ profiles });
 
       return profiles;
@@ -115,7 +95,7 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
     if (!currentProfile?.id) return;
 
     try {
-      const { data, error } = await supabase
+      const { data, error } = await getDataProvider()
         .from('member_profiles')
         .select('*')
         .eq('id', currentProfile.id)
@@ -123,7 +103,7 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
 
       if (error) throw error;
 
-      const updatedProfile = mapRowToProfile(data);
+      const updatedProfile = mapProfileRow(data);
       set({ currentProfile: updatedProfile });
       saveCurrentProfile(updatedProfile);
     } catch (error) {
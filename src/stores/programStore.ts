@@ -0,0 +1,48 @@
+/**
+ * programStore
+ * - Purpose: Expose the program registry to components (sidebar, home, panels) without each one fetching.
+ * - Starts with the built-in list so navigation renders immediately, then hydrates from the programs table.
+ */
+
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { getDefaultPrograms, getPrograms, refreshPrograms } from '@/services/programRegistry';
+import type { ClinicalProgram } from '@/types';
+
+interface ProgramState {
+  programs: ClinicalProgram[];
+  /** True once the registry has been read (database or fallback) */
+  loaded: boolean;
+  /** Load once; later calls are no-ops */
+  loadPrograms: () => Promise<void>;
+  /** Re-read the programs table */
+  reloadPrograms: () => Promise<void>;
+}
+
+export const useProgramStore = create<ProgramState>((set, get) => ({
+  programs: getDefaultPrograms(),
+  loaded: false,
+
+  loadPrograms: async () => {
+    if (get().loaded) return;
+    const programs = await getPrograms();
+    set({ programs, loaded: true });
+  },
+
+  reloadPrograms: async () => {
+    const programs = await refreshPrograms();
+    set({ programs, loaded: true });
+  },
+}));
+
+/**
+ * Programs for rendering; triggers the one-time registry load on first use.
+ */
+export function usePrograms(): ClinicalProgram[] {
+  const programs = useProgramStore((s) => s.programs);
+  const loadPrograms = useProgramStore((s) => s.loadPrograms);
+  useEffect(() => {
+    loadPrograms();
+  }, [loadPrograms]);
+  return programs;
+}
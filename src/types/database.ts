@@ -0,0 +1,308 @@
+/**
+ * Database schema types (public schema, snake_case as stored)
+ * - One Row shape per table the app reads; Insert/Update are partial rows.
+ * - Runtime validation of these shapes lives in services/rowMappers (zod), which maps rows to the
+ *   camelCase domain types in ./index.
+ * - Keep in sync with the SQL files at the repo root and the Supabase project.
+ */
+
+/** public.accounts (one row per pharmacy login) */
+export interface AccountsRow {
+  id: string;
+  email: string;
+  pharmacy_name: string | null;
+  pharmacy_phone?: string | null;
+  subscription_status: string | null;
+  created_at: string;
+  updated_at?: string | null;
+  address1?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipcode?: string | null;
+}
+
+/** public.member_profiles (member_profiles_schema.sql) */
+export interface MemberProfilesRow {
+  id: string;
+  member_account_id: string;
+  role_type: 'Pharmacist-PIC' | 'Pharmacist-Staff' | 'Pharmacy Technician';
+  first_name: string;
+  last_name: string;
+  phone_number?: string | null;
+  profile_email?: string | null;
+  dob_month?: string | null;
+  dob_day?: string | null;
+  dob_year?: string | null;
+  license_number?: string | null;
+  nabp_eprofile_id?: string | null;
+  is_active?: boolean | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+/**
+ * public.bookmarks (bookmarks_schema.sql; unique on profile_id + resource_path)
+ * - resource_path is the object path in the bucket; file details come from storage_files_catalog.
+ * - resource_name is the display name at save time (shown if the file leaves the catalog).
+ */
+export interface BookmarksRow {
+  id: string;
+  profile_id: string;
+  resource_path: string;
+  resource_name?: string | null;
+  /** Free-text note from the member */
+  note?: string | null;
+  created_at: string;
+}
+
+/** public.bookmark_collections (bookmarks_schema.sql; named lists per profile) */
+export interface BookmarkCollectionsRow {
+  id: string;
+  profile_id: string;
+  name: string;
+  sort_order?: number | null;
+  created_at: string;
+}
+
+/** public.bookmark_collection_items (unique on collection_id + bookmark_id) */
+export interface BookmarkCollectionItemsRow {
+  id: string;
+  collection_id: string;
+  bookmark_id: string;
+  sort_order?: number | null;
+  created_at?: string | null;
+}
+
+/**
+ * public.bookmark_kits (bookmarks_schema.sql; account-wide lists curated by a Pharmacist-PIC)
+ * - Members of the account see published kits read-only; drafts are only shown to PIC profiles.
+ */
+export interface BookmarkKitsRow {
+  id: string;
+  member_account_id: string;
+  created_by_profile_id?: string | null;
+  name: string;
+  description?: string | null;
+  is_published?: boolean | null;
+  sort_order?: number | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+/** public.bookmark_kit_items (unique on kit_id + resource_path) */
+export interface BookmarkKitItemsRow {
+  id: string;
+  kit_id: string;
+  resource_path: string;
+  resource_name?: string | null;
+  sort_order?: number | null;
+  created_at?: string | null;
+}
+
+/**
+ * public.analytics_events (analytics_events_schema.sql; written in batches by analyticsEvents)
+ * - client_event_id is unique so a retried batch never double-counts.
+ * - resource_path/program_slug are set for resource and bookmark events; everything else is in properties.
+ */
+export interface AnalyticsEventsRow {
+  id: string;
+  client_event_id: string;
+  profile_id: string;
+  event_type:
+    | 'resource_viewed'
+    | 'resource_downloaded'
+    | 'video_played'
+    | 'bookmark_added'
+    | 'search_performed'
+    | 'filter_changed';
+  resource_path?: string | null;
+  program_slug?: string | null;
+  properties?: Record<string, unknown> | null;
+  occurred_at: string;
+  created_at?: string | null;
+}
+
+/** public.member_training_progress (unique on member_profile_id + training_module_id) */
+export interface MemberTrainingProgressRow {
+  id: string;
+  member_profile_id: string;
+  training_module_id: string;
+  started_at?: string | null;
+  completed_at?: string | null;
+  is_completed?: boolean | null;
+  completion_percentage?: number | null;
+  attempts?: number | null;
+}
+
+/** public.member_lesson_progress (unique on member_profile_id + lesson_path) */
+export interface MemberLessonProgressRow {
+  id: string;
+  member_profile_id: string;
+  program_slug: string;
+  /** Video object path in the bucket */
+  lesson_path: string;
+  watched_seconds?: number | null;
+  /** Played segments as [start, end] seconds, merged */
+  watched_ranges?: [number, number][] | null;
+  last_position_seconds?: number | null;
+  duration_seconds?: number | null;
+  is_completed?: boolean | null;
+  completed_at?: string | null;
+  updated_at?: string | null;
+  created_at?: string | null;
+}
+
+/** public.training_quizzes (training_quiz_schema.sql; one per training module) */
+export interface TrainingQuizzesRow {
+  id: string;
+  training_module_id: string;
+  title: string;
+  description?: string | null;
+  pass_percentage?: number | null;
+  /** null = unlimited */
+  max_attempts?: number | null;
+  /** null = every question in the bank */
+  questions_per_attempt?: number | null;
+  published?: boolean | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+/** public.training_quiz_questions (answer keys are server-only, in training_quiz_answer_keys) */
+export interface TrainingQuizQuestionsRow {
+  id: string;
+  quiz_id: string;
+  question_type: 'multiple_choice' | 'multi_select' | 'true_false';
+  prompt: string;
+  options: string[];
+  sort_order?: number | null;
+  created_at?: string | null;
+}
+
+/** public.member_quiz_attempts (written by submit_training_quiz) */
+export interface MemberQuizAttemptsRow {
+  id: string;
+  member_profile_id: string;
+  quiz_id: string;
+  training_module_id: string;
+  attempt_number: number;
+  correct_count: number;
+  question_count: number;
+  score_percentage: number;
+  passed: boolean;
+  /** { question id: option indexes } */
+  answers?: Record<string, number[]> | null;
+  submitted_at: string;
+}
+
+/** public.training_certificates (certificates_schema.sql; snapshot of what the certificate shows) */
+export interface TrainingCertificatesRow {
+  id: string;
+  verification_code: string;
+  /** null once the profile is deleted */
+  member_profile_id?: string | null;
+  training_module_id: string;
+  program_slug: string;
+  program_name: string;
+  recipient_name: string;
+  license_number?: string | null;
+  nabp_eprofile_id?: string | null;
+  pharmacy_name?: string | null;
+  completed_at: string;
+  issued_at: string;
+  revoked_at?: string | null;
+}
+
+/** public.training_modules */
+export interface TrainingModulesRow {
+  id: string;
+  name: string;
+}
+
+/** public.announcements (bigint id) */
+export interface AnnouncementsRow {
+  id: number | string;
+  title: string;
+  body: string;
+  created_at: string;
+}
+
+/** public.storage_files_catalog (mirror of the clinicalrxqfiles bucket) */
+export interface StorageFilesCatalogRow {
+  id: string;
+  bucket_name: string;
+  file_name: string;
+  file_path: string;
+  file_url?: string | null;
+  file_size?: number | null;
+  mime_type?: string | null;
+  last_modified?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+/** public.programs (programs_schema.sql) */
+export interface ProgramsRow {
+  id?: string;
+  slug: string;
+  name: string;
+  short_name?: string | null;
+  description?: string | null;
+  tagline?: string | null;
+  icon?: string | null;
+  level?: string | null;
+  features?: string[] | null;
+  sort_order?: number | null;
+  published?: boolean | null;
+  /** Share of each training video to watch for completion (0.5–1) */
+  completion_threshold?: number | null;
+  /** CE contact hours */
+  ce_hours?: number | null;
+  /** ACPE UAN, pharmacists */
+  ce_uan?: string | null;
+  /** ACPE UAN, technicians */
+  ce_technician_uan?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+/** Row / Insert / Update shapes for one table */
+interface TableDef<R> {
+  Row: R;
+  Insert: Partial<R>;
+  Update: Partial<R>;
+}
+
+/**
+ * Typed database definition (same layout as Supabase-generated types).
+ */
+export interface Database {
+  public: {
+    Tables: {
+      accounts: TableDef<AccountsRow>;
+      member_profiles: TableDef<MemberProfilesRow>;
+      bookmarks: TableDef<BookmarksRow>;
+      bookmark_collections: TableDef<BookmarkCollectionsRow>;
+      bookmark_collection_items: TableDef<BookmarkCollectionItemsRow>;
+      bookmark_kits: TableDef<BookmarkKitsRow>;
+      bookmark_kit_items: TableDef<BookmarkKitItemsRow>;
+      analytics_events: TableDef<AnalyticsEventsRow>;
+      member_training_progress: TableDef<MemberTrainingProgressRow>;
+      member_lesson_progress: TableDef<MemberLessonProgressRow>;
+      training_modules: TableDef<TrainingModulesRow>;
+      training_quizzes: TableDef<TrainingQuizzesRow>;
+      training_quiz_questions: TableDef<TrainingQuizQuestionsRow>;
+      member_quiz_attempts: TableDef<MemberQuizAttemptsRow>;
+      training_certificates: TableDef<TrainingCertificatesRow>;
+      announcements: TableDef<AnnouncementsRow>;
+      storage_files_catalog: TableDef<StorageFilesCatalogRow>;
+      programs: TableDef<ProgramsRow>;
+    };
+  };
+}
+
+/** Name of a typed table */
+export type TableName = keyof Database['public']['Tables'];
+
+/** Row shape of a typed table */
+export type TableRow<K extends TableName> = Database['public']['Tables'][K]['Row'];
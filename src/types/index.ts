@@ -61,6 +61,36 @@ export interface MemberProfile {
  */
 export type PharmacyProfile = MemberProfile;
 
+/**
+ * Clinical program (programs table)
+ * - slug matches the program's top-level folder in the storage bucket and the /program/:slug route.
+ * - icon is a lucide-react icon name (resolved by lib/icons).
+ */
+export interface ClinicalProgram {
+  slug: string;
+  /** Official program name */
+  name: string;
+  /** Compact label for navigation and badges */
+  shortName: string;
+  description: string;
+  /** Marketing blurb for the public homepage */
+  tagline: string;
+  icon: string;
+  level: string | null;
+  /** Highlight bullets for the public homepage */
+  features: string[];
+  sortOrder: number;
+  published: boolean;
+  /** Share of a training video (0.5–1) that must be watched before the lesson counts as completed */
+  completionThreshold: number;
+  /** Continuing-education contact hours for completing the training (null = no CE credit) */
+  ceHours: number | null;
+  /** ACPE Universal Activity Number for pharmacists (…-P); null when not accredited */
+  ceUan: string | null;
+  /** ACPE Universal Activity Number for technicians (…-T) */
+  ceTechnicianUan: string | null;
+}
+
 /**
  * Remaining domain types (unchanged)
  */
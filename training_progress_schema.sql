@@ -0,0 +1,54 @@
+-- Create member_lesson_progress table (per-video training progress, src/services/lessonProgressService.ts)
+-- One row per profile and training video: the played segments, the last playback position (resume
+-- point) and completion. A lesson completes once the played segments cover the program's
+-- completion_threshold share of the video (programs_schema.sql). Program progress is the share of completed lessons and is rolled up
+-- into member_training_progress (training_<program slug>) by the client.
+CREATE TABLE IF NOT EXISTS member_lesson_progress (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  member_profile_id UUID NOT NULL REFERENCES member_profiles(id) ON DELETE CASCADE,
+  program_slug TEXT NOT NULL,
+  -- Video object path in the clinicalrxqfiles bucket
+  lesson_path TEXT NOT NULL,
+  -- Seconds covered by watched_ranges
+  watched_seconds INTEGER NOT NULL DEFAULT 0 CHECK (watched_seconds >= 0),
+  -- Played segments as [[start, end], ...] seconds, merged and sorted; seeks are not counted
+  watched_ranges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_position_seconds INTEGER NOT NULL DEFAULT 0 CHECK (last_position_seconds >= 0),
+  duration_seconds INTEGER CHECK (duration_seconds IS NULL OR duration_seconds >= 0),
+  is_completed BOOLEAN NOT NULL DEFAULT false,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (member_profile_id, lesson_path)
+);
+
+-- Existing installs: add the played segments column
+ALTER TABLE member_lesson_progress ADD COLUMN IF NOT EXISTS watched_ranges JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_member_lesson_progress_program ON member_lesson_progress(member_profile_id, program_slug);
+
+ALTER TABLE member_lesson_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own lesson progress" ON member_lesson_progress;
+CREATE POLICY "Users can view own lesson progress" ON member_lesson_progress
+  FOR SELECT USING (
+    member_profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can record own lesson progress" ON member_lesson_progress;
+CREATE POLICY "Users can record own lesson progress" ON member_lesson_progress
+  FOR INSERT WITH CHECK (
+    member_profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can update own lesson progress" ON member_lesson_progress;
+CREATE POLICY "Users can update own lesson progress" ON member_lesson_progress
+  FOR UPDATE USING (
+    member_profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+-- Reuse the shared updated_at trigger function (see member_profiles_schema.sql)
+DROP TRIGGER IF EXISTS update_member_lesson_progress_updated_at ON member_lesson_progress;
+CREATE TRIGGER update_member_lesson_progress_updated_at
+  BEFORE UPDATE ON member_lesson_progress
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,353 @@
+-- Training quizzes (post-module knowledge checks, src/services/quizService.ts)
+-- One quiz per training module (training_<program slug>), with a bank of multiple choice,
+-- multi-select and true/false questions. Answer keys live in their own table that members cannot
+-- read; start_training_quiz() draws each attempt's questions on the server, and submit_training_quiz()
+-- scores the attempt against that draw and counts it in member_training_progress.attempts.
+-- Passing the quiz completes the module (lessons alone leave it in progress when a quiz exists).
+-- The quiz opens only once every lesson of the program is completed (checked on the server too).
+
+CREATE TABLE IF NOT EXISTS training_quizzes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- member_training_progress.training_module_id of the program (training_<slug>)
+  training_module_id TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  description TEXT,
+  -- Score (percent correct) needed to pass
+  pass_percentage INTEGER NOT NULL DEFAULT 80 CHECK (pass_percentage BETWEEN 1 AND 100),
+  -- Attempts allowed per profile; NULL = unlimited
+  max_attempts INTEGER DEFAULT 3 CHECK (max_attempts IS NULL OR max_attempts >= 1),
+  -- Questions drawn from the bank per attempt; NULL = all of them
+  questions_per_attempt INTEGER CHECK (questions_per_attempt IS NULL OR questions_per_attempt >= 1),
+  published BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS training_quiz_questions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES training_quizzes(id) ON DELETE CASCADE,
+  question_type TEXT NOT NULL CHECK (question_type IN ('multiple_choice', 'multi_select', 'true_false')),
+  prompt TEXT NOT NULL,
+  -- Answer choices in display order (true/false questions use ['True', 'False'])
+  options TEXT[] NOT NULL CHECK (cardinality(options) >= 2),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Correct option indexes (0-based) per question; readable only by submit_training_quiz()
+CREATE TABLE IF NOT EXISTS training_quiz_answer_keys (
+  question_id UUID PRIMARY KEY REFERENCES training_quiz_questions(id) ON DELETE CASCADE,
+  correct_options INTEGER[] NOT NULL CHECK (cardinality(correct_options) >= 1)
+);
+
+CREATE TABLE IF NOT EXISTS member_quiz_attempts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  member_profile_id UUID NOT NULL REFERENCES member_profiles(id) ON DELETE CASCADE,
+  quiz_id UUID NOT NULL REFERENCES training_quizzes(id) ON DELETE CASCADE,
+  training_module_id TEXT NOT NULL,
+  attempt_number INTEGER NOT NULL CHECK (attempt_number >= 1),
+  correct_count INTEGER NOT NULL,
+  question_count INTEGER NOT NULL,
+  score_percentage INTEGER NOT NULL CHECK (score_percentage BETWEEN 0 AND 100),
+  passed BOOLEAN NOT NULL,
+  -- Submitted choices: { "<question id>": [option indexes] }
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (member_profile_id, quiz_id, attempt_number)
+);
+
+-- The questions drawn for a profile's open attempt (one per profile and quiz, removed on submit);
+-- readable only by start_training_quiz() / submit_training_quiz()
+CREATE TABLE IF NOT EXISTS member_quiz_draws (
+  member_profile_id UUID NOT NULL REFERENCES member_profiles(id) ON DELETE CASCADE,
+  quiz_id UUID NOT NULL REFERENCES training_quizzes(id) ON DELETE CASCADE,
+  question_ids UUID[] NOT NULL,
+  drawn_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (member_profile_id, quiz_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_training_quiz_questions_quiz ON training_quiz_questions(quiz_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_member_quiz_attempts_profile ON member_quiz_attempts(member_profile_id, quiz_id);
+
+ALTER TABLE training_quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE training_quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE training_quiz_answer_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE member_quiz_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE member_quiz_draws ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view published quizzes" ON training_quizzes;
+CREATE POLICY "Members can view published quizzes" ON training_quizzes
+  FOR SELECT TO authenticated USING (published = true);
+
+DROP POLICY IF EXISTS "Members can view published quiz questions" ON training_quiz_questions;
+CREATE POLICY "Members can view published quiz questions" ON training_quiz_questions
+  FOR SELECT TO authenticated USING (
+    quiz_id IN (SELECT id FROM training_quizzes WHERE published = true)
+  );
+
+-- training_quiz_answer_keys, member_quiz_draws: no policies, so no client access
+
+-- Attempts are written only by submit_training_quiz()
+DROP POLICY IF EXISTS "Users can view own quiz attempts" ON member_quiz_attempts;
+CREATE POLICY "Users can view own quiz attempts" ON member_quiz_attempts
+  FOR SELECT USING (
+    member_profile_id IN (SELECT id FROM member_profiles WHERE member_account_id = auth.uid())
+  );
+
+-- Reuse the shared updated_at trigger function (see member_profiles_schema.sql)
+DROP TRIGGER IF EXISTS update_training_quizzes_updated_at ON training_quizzes;
+CREATE TRIGGER update_training_quizzes_updated_at
+  BEFORE UPDATE ON training_quizzes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- member_training_progress.attempts counts quiz attempts from now on (it was always 1 before)
+UPDATE member_training_progress p
+SET attempts = (
+  SELECT count(*) FROM member_quiz_attempts a
+  WHERE a.member_profile_id = p.member_profile_id AND a.training_module_id = p.training_module_id
+);
+
+-- Whether a profile completed every lesson of a program: each training video in the catalog
+-- (<slug>/training/..., as the player lists them) has a completed member_lesson_progress row.
+-- A video is a video/* mime type, or a video extension when the mime type is missing or generic
+-- (src/lib/fileKinds.ts). True for a program without lessons.
+CREATE OR REPLACE FUNCTION training_lessons_completed(p_profile_id UUID, p_program_slug TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM storage_files_catalog c
+    WHERE c.bucket_name = 'clinicalrxqfiles'
+      AND lower(ltrim(c.file_path, '/')) LIKE lower(p_program_slug) || '/training/%'
+      AND (
+        c.mime_type ILIKE 'video/%'
+        OR (
+          coalesce(c.mime_type, '') IN ('', 'application/octet-stream', 'binary/octet-stream')
+          AND c.file_name ~* '\.(mp4|m4v|mov|webm|ogv|avi|mkv)$'
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM member_lesson_progress l
+        WHERE l.member_profile_id = p_profile_id
+          AND l.lesson_path = ltrim(c.file_path, '/')
+          AND l.is_completed
+      )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION training_lessons_completed(UUID, TEXT) FROM PUBLIC;
+
+-- Start (or resume) an attempt: the ids of the questions to answer, in bank order.
+-- With questions_per_attempt set, that many questions are drawn at random and kept until the attempt
+-- is submitted, so reopening the quiz returns the same draw instead of a new one; otherwise the whole
+-- bank. Raises when the profile is not the caller's, the program's lessons are not all completed, the
+-- quiz is already passed, or no attempts remain.
+-- Mirrored for demo mode in src/services/memoryRpcs.ts.
+CREATE OR REPLACE FUNCTION start_training_quiz(p_profile_id UUID, p_quiz_id UUID)
+RETURNS TABLE (question_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_quiz training_quizzes%ROWTYPE;
+  v_question_ids UUID[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM member_profiles WHERE id = p_profile_id AND member_account_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_quiz FROM training_quizzes WHERE id = p_quiz_id AND published = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT training_lessons_completed(p_profile_id, regexp_replace(v_quiz.training_module_id, '^training_', '')) THEN
+    RAISE EXCEPTION 'Complete every lesson before taking the quiz';
+  END IF;
+
+  -- Same lock as submit_training_quiz, so a draw can't change under a submission
+  PERFORM pg_advisory_xact_lock(hashtext(p_profile_id::text || ':' || p_quiz_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM member_quiz_attempts a
+    WHERE a.member_profile_id = p_profile_id AND a.quiz_id = p_quiz_id AND a.passed
+  ) THEN
+    RAISE EXCEPTION 'Quiz already passed';
+  END IF;
+
+  IF v_quiz.max_attempts IS NOT NULL AND (
+    SELECT count(*) FROM member_quiz_attempts a
+    WHERE a.member_profile_id = p_profile_id AND a.quiz_id = p_quiz_id
+  ) >= v_quiz.max_attempts THEN
+    RAISE EXCEPTION 'No quiz attempts remaining';
+  END IF;
+
+  IF v_quiz.questions_per_attempt IS NULL THEN
+    SELECT array_agg(q.id) INTO v_question_ids FROM training_quiz_questions q WHERE q.quiz_id = p_quiz_id;
+  ELSE
+    SELECT d.question_ids INTO v_question_ids FROM member_quiz_draws d
+    WHERE d.member_profile_id = p_profile_id AND d.quiz_id = p_quiz_id;
+    IF NOT FOUND THEN
+      SELECT array_agg(r.id) INTO v_question_ids FROM (
+        SELECT q.id FROM training_quiz_questions q
+        WHERE q.quiz_id = p_quiz_id
+        ORDER BY random()
+        LIMIT v_quiz.questions_per_attempt
+      ) r;
+      INSERT INTO member_quiz_draws (member_profile_id, quiz_id, question_ids)
+      VALUES (p_profile_id, p_quiz_id, coalesce(v_question_ids, '{}'));
+    END IF;
+  END IF;
+
+  RETURN QUERY
+    SELECT q.id FROM training_quiz_questions q
+    WHERE q.quiz_id = p_quiz_id AND q.id = ANY (coalesce(v_question_ids, '{}'))
+    ORDER BY q.sort_order, q.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION start_training_quiz(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION start_training_quiz(UUID, UUID) TO authenticated;
+
+-- Score one attempt and record it.
+-- p_answers: { "<question id>": [option indexes] }. The attempt is scored on the questions drawn by
+-- start_training_quiz() (the whole bank when questions_per_attempt is NULL); answers to other
+-- questions are ignored and unanswered ones are wrong. An answer is correct when it selects exactly
+-- the key's options.
+-- Raises when the profile is not the caller's, the program's lessons are not all completed, the quiz
+-- is already passed, no attempts remain, or (with questions_per_attempt set) no attempt was started.
+-- Mirrored for demo mode in src/services/memoryRpcs.ts.
+CREATE OR REPLACE FUNCTION submit_training_quiz(p_profile_id UUID, p_quiz_id UUID, p_answers JSONB)
+RETURNS TABLE (
+  attempt_id UUID,
+  attempt_number INTEGER,
+  correct_count INTEGER,
+  question_count INTEGER,
+  score_percentage INTEGER,
+  passed BOOLEAN,
+  attempts_remaining INTEGER,
+  submitted_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_quiz training_quizzes%ROWTYPE;
+  v_previous INTEGER;
+  v_question_ids UUID[];
+  v_correct INTEGER;
+  v_total INTEGER;
+  v_score INTEGER;
+  v_passed BOOLEAN;
+  v_attempt member_quiz_attempts%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM member_profiles WHERE id = p_profile_id AND member_account_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_quiz FROM training_quizzes WHERE id = p_quiz_id AND published = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT training_lessons_completed(p_profile_id, regexp_replace(v_quiz.training_module_id, '^training_', '')) THEN
+    RAISE EXCEPTION 'Complete every lesson before taking the quiz';
+  END IF;
+
+  -- One submission at a time per profile and quiz
+  PERFORM pg_advisory_xact_lock(hashtext(p_profile_id::text || ':' || p_quiz_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM member_quiz_attempts a
+    WHERE a.member_profile_id = p_profile_id AND a.quiz_id = p_quiz_id AND a.passed
+  ) THEN
+    RAISE EXCEPTION 'Quiz already passed';
+  END IF;
+
+  SELECT count(*) INTO v_previous FROM member_quiz_attempts a
+  WHERE a.member_profile_id = p_profile_id AND a.quiz_id = p_quiz_id;
+  IF v_quiz.max_attempts IS NOT NULL AND v_previous >= v_quiz.max_attempts THEN
+    RAISE EXCEPTION 'No quiz attempts remaining';
+  END IF;
+
+  -- Questions this attempt is scored on: the server's draw, never the client's choice
+  IF v_quiz.questions_per_attempt IS NULL THEN
+    SELECT array_agg(q.id) INTO v_question_ids FROM training_quiz_questions q WHERE q.quiz_id = p_quiz_id;
+  ELSE
+    SELECT array_agg(q.id) INTO v_question_ids
+    FROM member_quiz_draws d
+    JOIN training_quiz_questions q ON q.quiz_id = d.quiz_id AND q.id = ANY (d.question_ids)
+    WHERE d.member_profile_id = p_profile_id AND d.quiz_id = p_quiz_id;
+    IF NOT EXISTS (
+      SELECT 1 FROM member_quiz_draws d WHERE d.member_profile_id = p_profile_id AND d.quiz_id = p_quiz_id
+    ) THEN
+      RAISE EXCEPTION 'Start the quiz before submitting answers';
+    END IF;
+  END IF;
+  v_total := coalesce(cardinality(v_question_ids), 0);
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Quiz has no questions';
+  END IF;
+
+  SELECT count(*) INTO v_correct
+  FROM training_quiz_answer_keys k
+  WHERE k.question_id = ANY (v_question_ids)
+    AND jsonb_typeof(p_answers -> k.question_id::text) = 'array'
+    AND (
+      SELECT coalesce(array_agg(DISTINCT v::int ORDER BY v::int), '{}')
+      FROM jsonb_array_elements_text(p_answers -> k.question_id::text) AS v
+    ) = (SELECT array_agg(DISTINCT c ORDER BY c) FROM unnest(k.correct_options) AS c);
+
+  v_score := round(100.0 * v_correct / v_total);
+  v_passed := v_score >= v_quiz.pass_percentage;
+
+  INSERT INTO member_quiz_attempts (
+    member_profile_id, quiz_id, training_module_id, attempt_number,
+    correct_count, question_count, score_percentage, passed, answers
+  ) VALUES (
+    p_profile_id, p_quiz_id, v_quiz.training_module_id, v_previous + 1,
+    v_correct, v_total, v_score, v_passed, coalesce(p_answers, '{}'::jsonb)
+  )
+  RETURNING * INTO v_attempt;
+
+  -- The next attempt gets a new draw
+  DELETE FROM member_quiz_draws d WHERE d.member_profile_id = p_profile_id AND d.quiz_id = p_quiz_id;
+
+  -- Roll up into the module row; a pass completes the module
+  INSERT INTO member_training_progress AS p (
+    member_profile_id, training_module_id, started_at, is_completed, completion_percentage, completed_at, attempts
+  ) VALUES (
+    p_profile_id, v_quiz.training_module_id, NOW(), v_passed,
+    CASE WHEN v_passed THEN 100 ELSE 0 END, CASE WHEN v_passed THEN NOW() END, v_attempt.attempt_number
+  )
+  ON CONFLICT (member_profile_id, training_module_id) DO UPDATE SET
+    attempts = EXCLUDED.attempts,
+    is_completed = p.is_completed OR v_passed,
+    completion_percentage = CASE WHEN v_passed THEN 100 ELSE p.completion_percentage END,
+    completed_at = coalesce(p.completed_at, CASE WHEN v_passed THEN NOW() END);
+
+  RETURN QUERY SELECT
+    v_attempt.id,
+    v_attempt.attempt_number,
+    v_attempt.correct_count,
+    v_attempt.question_count,
+    v_attempt.score_percentage,
+    v_attempt.passed,
+    CASE WHEN v_quiz.max_attempts IS NULL THEN NULL ELSE GREATEST(v_quiz.max_attempts - v_attempt.attempt_number, 0) END,
+    v_attempt.submitted_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION submit_training_quiz(UUID, UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_training_quiz(UUID, UUID, JSONB) TO authenticated;
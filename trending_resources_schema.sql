@@ -0,0 +1,40 @@
+-- Create get_trending_resources (read by src/services/trendingService.ts)
+-- Network-wide popularity from analytics_events, across every member pharmacy. Runs as the owner
+-- so members can count events they cannot read, but only returns aggregates: a file is listed once
+-- at least 3 different pharmacies used it in the window, and never with who used it.
+-- Ranked by how many pharmacies used a file, then by total uses, so one busy pharmacy can't
+-- push its own favourites to the top. Run after analytics_events_schema.sql.
+CREATE OR REPLACE FUNCTION get_trending_resources(
+  p_days INTEGER DEFAULT 7,
+  p_program_slug TEXT DEFAULT NULL,
+  p_event_types TEXT[] DEFAULT ARRAY['resource_viewed', 'resource_downloaded', 'video_played'],
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (resource_path TEXT, access_count BIGINT, pharmacy_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.resource_path,
+    COUNT(*) AS access_count,
+    COUNT(DISTINCT mp.member_account_id) AS pharmacy_count
+  FROM analytics_events e
+  JOIN member_profiles mp ON mp.id = e.profile_id
+  WHERE e.resource_path IS NOT NULL
+    AND e.occurred_at >= NOW() - make_interval(days => LEAST(GREATEST(p_days, 1), 365))
+    AND e.event_type = ANY(p_event_types)
+    AND (p_program_slug IS NULL OR e.program_slug = p_program_slug)
+  GROUP BY e.resource_path
+  HAVING COUNT(DISTINCT mp.member_account_id) >= 3
+  ORDER BY pharmacy_count DESC, access_count DESC, e.resource_path
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+$$;
+
+REVOKE ALL ON FUNCTION get_trending_resources(INTEGER, TEXT, TEXT[], INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_trending_resources(INTEGER, TEXT, TEXT[], INTEGER) TO authenticated;
+
+-- Supports the time-window scan above
+CREATE INDEX IF NOT EXISTS idx_analytics_events_occurred ON analytics_events(occurred_at DESC)
+  WHERE resource_path IS NOT NULL;